@@ -1,14 +1,82 @@
 import { WebSocket, WebSocketServer } from 'ws';
+import { createConnection, createServer } from 'net';
+import { createSocket } from 'dgram';
 
 const AIS_STREAM_URL = 'wss://stream.aisstream.io/v0/stream';
 const PORT = 8080;
 const MAX_QUEUE_SIZE = 100; // Prevent unbounded memory growth if remote is slow to connect
 
+// SBS-1 (BaseStation) receivers the relay may bridge to, as host:port.
+// Clients pick one with /sbs?target=host:port; anything else is refused.
+const SBS_TARGETS = (process.env.SBS_TARGETS || 'localhost:30003')
+    .split(',')
+    .map((t) => t.trim())
+    .filter(Boolean);
+
+// Raw NMEA AIS input: coastal receivers push !AIVDM lines to this port over TCP or UDP,
+// and every line is broadcast to WebSocket clients on /nmea.
+const NMEA_PORT = Number(process.env.NMEA_PORT) || 10110;
+
+// MAVLink telemetry: autopilots or ground stations forward UDP packets to this port
+// (e.g. MAVProxy --out=udp:relay:14550), and every datagram is broadcast as a binary
+// WebSocket message to clients on /mavlink.
+const MAVLINK_PORT = Number(process.env.MAVLINK_PORT) || 14550;
+
+// Remote ID (ASTM F3411) receivers send UDP to this port: either JSON lines
+// ({"id": "<MAC>", "msg": "<hex message or pack>"}) or raw message bytes, which are
+// wrapped in the same JSON using the sender address. Lines go to clients on /remoteid.
+const REMOTE_ID_PORT = Number(process.env.REMOTE_ID_PORT) || 4040;
+
+// Clients that fall this far behind lose messages instead of growing relay memory.
+// Drops are counted per path and published once a second to clients on /health.
+const MAX_CLIENT_BUFFER_BYTES = 4 * 1024 * 1024;
+const HEALTH_INTERVAL_MS = 1000;
+
 const wss = new WebSocketServer({ port: PORT });
+const nmeaClients = new Set<WebSocket>();
+const mavlinkClients = new Set<WebSocket>();
+const remoteIdClients = new Set<WebSocket>();
+const healthClients = new Set<WebSocket>();
+
+type RelayPath = 'ais' | 'sbs' | 'nmea' | 'mavlink' | 'remoteid';
+const droppedMessages: Record<RelayPath, number> = { ais: 0, sbs: 0, nmea: 0, mavlink: 0, remoteid: 0 };
 
 console.log(`[AIS Relay] Starting WebSocket Relay on port ${PORT}`);
 
-wss.on('connection', (clientWs) => {
+wss.on('connection', (clientWs, req) => {
+    const url = new URL(req.url || '/', 'http://relay');
+    if (url.pathname === '/sbs') {
+        relaySbs(clientWs, url.searchParams.get('target') || SBS_TARGETS[0]);
+        return;
+    }
+    if (url.pathname === '/nmea') {
+        console.log('[NMEA Relay] Client connected');
+        nmeaClients.add(clientWs);
+        clientWs.on('close', () => nmeaClients.delete(clientWs));
+        clientWs.on('error', () => nmeaClients.delete(clientWs));
+        return;
+    }
+    if (url.pathname === '/mavlink') {
+        console.log('[MAVLink Relay] Client connected');
+        mavlinkClients.add(clientWs);
+        clientWs.on('close', () => mavlinkClients.delete(clientWs));
+        clientWs.on('error', () => mavlinkClients.delete(clientWs));
+        return;
+    }
+    if (url.pathname === '/remoteid') {
+        console.log('[Remote ID Relay] Client connected');
+        remoteIdClients.add(clientWs);
+        clientWs.on('close', () => remoteIdClients.delete(clientWs));
+        clientWs.on('error', () => remoteIdClients.delete(clientWs));
+        return;
+    }
+    if (url.pathname === '/health') {
+        healthClients.add(clientWs);
+        clientWs.on('close', () => healthClients.delete(clientWs));
+        clientWs.on('error', () => healthClients.delete(clientWs));
+        return;
+    }
+
     console.log('[AIS Relay] Client connected');
 
     const remoteWs = new WebSocket(AIS_STREAM_URL);
@@ -24,6 +92,7 @@ wss.on('connection', (clientWs) => {
         } else if (messageQueue.length < MAX_QUEUE_SIZE) {
             messageQueue.push(msg);
         } else {
+            droppedMessages.ais++;
             console.warn('[AIS Relay] Queue full, dropping message');
         }
     });
@@ -41,9 +110,7 @@ wss.on('connection', (clientWs) => {
         // Ensure we forward text
         const msg = data.toString();
         // console.log('[AIS Relay] Remote -> Client:', msg.substring(0, 50) + '...');
-        if (clientWs.readyState === WebSocket.OPEN) {
-            clientWs.send(msg);
-        }
+        sendOrDrop(clientWs, msg, 'ais');
     });
 
     remoteWs.on('error', (err) => {
@@ -66,3 +133,158 @@ wss.on('connection', (clientWs) => {
         remoteWs.close();
     });
 });
+
+/**
+ * Send to an open client, or count a drop if it is too far behind.
+ */
+function sendOrDrop(client: WebSocket, data: string | Buffer, path: RelayPath) {
+    if (client.readyState !== WebSocket.OPEN) return;
+    if (client.bufferedAmount > MAX_CLIENT_BUFFER_BYTES) {
+        droppedMessages[path]++;
+        return;
+    }
+    client.send(data);
+}
+
+// Health: cumulative drop counts and client counts for the feed health dashboard
+setInterval(() => {
+    if (healthClients.size === 0) return;
+    const report = JSON.stringify({
+        dropped: droppedMessages,
+        clients: wss.clients.size - healthClients.size,
+    });
+    for (const client of healthClients) {
+        if (client.readyState === WebSocket.OPEN) client.send(report);
+    }
+}, HEALTH_INTERVAL_MS);
+
+/**
+ * Bridge an SBS-1 TCP stream (dump1090/readsb port 30003) to a WebSocket client.
+ * Chunks are forwarded as text; the client reassembles lines.
+ */
+function relaySbs(clientWs: WebSocket, target: string) {
+    if (!SBS_TARGETS.includes(target)) {
+        console.warn(`[SBS Relay] Refused target ${target}`);
+        clientWs.close(1008, 'SBS target not allowed');
+        return;
+    }
+
+    const [host, port] = target.split(':');
+    console.log(`[SBS Relay] Client connected, bridging to ${target}`);
+
+    const socket = createConnection({ host, port: Number(port) || 30003 });
+    socket.setEncoding('utf8');
+
+    socket.on('data', (chunk: string) => {
+        sendOrDrop(clientWs, chunk, 'sbs');
+    });
+
+    socket.on('error', (err) => {
+        console.error('[SBS Relay] Receiver Error:', err.message);
+        clientWs.close();
+    });
+
+    socket.on('close', () => {
+        console.log('[SBS Relay] Receiver Connection Closed');
+        clientWs.close();
+    });
+
+    clientWs.on('error', (err) => {
+        console.error('[SBS Relay] Client Error:', err.message);
+        socket.destroy();
+    });
+
+    clientWs.on('close', () => {
+        console.log('[SBS Relay] Client Disconnected');
+        socket.destroy();
+    });
+}
+
+/**
+ * Send complete NMEA lines to every /nmea client.
+ */
+function broadcastNmea(lines: string) {
+    if (!lines) return;
+    for (const client of nmeaClients) {
+        sendOrDrop(client, lines, 'nmea');
+    }
+}
+
+// TCP: receivers keep a connection open and stream lines
+const nmeaTcpServer = createServer((socket) => {
+    console.log(`[NMEA Relay] TCP source connected: ${socket.remoteAddress}`);
+    socket.setEncoding('utf8');
+    let buffer = '';
+
+    socket.on('data', (chunk: string) => {
+        buffer += chunk;
+        const end = buffer.lastIndexOf('\n');
+        if (end < 0) return;
+        broadcastNmea(buffer.slice(0, end).trim());
+        buffer = buffer.slice(end + 1);
+    });
+
+    socket.on('error', (err) => {
+        console.error('[NMEA Relay] TCP source error:', err.message);
+    });
+
+    socket.on('close', () => {
+        console.log('[NMEA Relay] TCP source disconnected');
+    });
+});
+
+nmeaTcpServer.on('error', (err) => {
+    console.error('[NMEA Relay] TCP listener error:', err.message);
+});
+nmeaTcpServer.listen(NMEA_PORT, () => {
+    console.log(`[NMEA Relay] Listening for NMEA over TCP on port ${NMEA_PORT}`);
+});
+
+// UDP: each datagram holds one or more complete lines
+const nmeaUdpSocket = createSocket('udp4');
+
+nmeaUdpSocket.on('message', (msg) => {
+    broadcastNmea(msg.toString('utf8').trim());
+});
+
+nmeaUdpSocket.on('error', (err) => {
+    console.error('[NMEA Relay] UDP listener error:', err.message);
+});
+nmeaUdpSocket.bind(NMEA_PORT, () => {
+    console.log(`[NMEA Relay] Listening for NMEA over UDP on port ${NMEA_PORT}`);
+});
+
+// MAVLink: datagrams are forwarded untouched; the client decodes the frames
+const mavlinkUdpSocket = createSocket('udp4');
+
+mavlinkUdpSocket.on('message', (msg) => {
+    for (const client of mavlinkClients) {
+        sendOrDrop(client, msg, 'mavlink');
+    }
+});
+
+mavlinkUdpSocket.on('error', (err) => {
+    console.error('[MAVLink Relay] UDP listener error:', err.message);
+});
+mavlinkUdpSocket.bind(MAVLINK_PORT, () => {
+    console.log(`[MAVLink Relay] Listening for MAVLink over UDP on port ${MAVLINK_PORT}`);
+});
+
+// Remote ID: JSON datagrams pass through; raw ODID bytes are hex-encoded into a record
+const remoteIdUdpSocket = createSocket('udp4');
+
+remoteIdUdpSocket.on('message', (msg, rinfo) => {
+    const text = msg[0] === 0x7b // '{'
+        ? msg.toString('utf8').trim()
+        : JSON.stringify({ id: rinfo.address, msg: msg.toString('hex') });
+    for (const client of remoteIdClients) {
+        sendOrDrop(client, `${text}\n`, 'remoteid');
+    }
+});
+
+remoteIdUdpSocket.on('error', (err) => {
+    console.error('[Remote ID Relay] UDP listener error:', err.message);
+});
+remoteIdUdpSocket.bind(REMOTE_ID_PORT, () => {
+    console.log(`[Remote ID Relay] Listening for Remote ID over UDP on port ${REMOTE_ID_PORT}`);
+});
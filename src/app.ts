@@ -6,6 +6,10 @@ import { scene, camera, renderer, controls, clock, canvas } from "./core/scene.j
 import {
   initCameraModule,
   updateCameraControlSpeeds,
+  updateCameraFlight,
+  updateCameraFollow,
+  setFollowTarget,
+  followParams,
   cameraParams,
   tiltPresets,
   setCameraPanReferenceDistance,
@@ -14,15 +18,39 @@ import {
 import { createMainOverlay } from "./ui/main-overlay";
 import { createGui } from "./ui/gui";
 import { updateMotionSimulation, motionParams } from "./simulation/motion";
+import { initTimeline, advanceTimeline, resetTimelineToNow, getTimelineDeltaSeconds, getTimelineTime } from "./simulation/timeline";
 import { generateDemoData, generateSatelliteData, generateDroneData, updateUnitCounts, unitCountParams } from "./simulation/demo-data";
 import { shipMesh, aircraftMesh, satelliteMesh, droneMesh, shipGeometry, aircraftGeometry, satelliteGeometry, droneGeometry } from "./units/visuals";
 import { initLabelSystem, updateLabelAssignments, updateLabelPositions, labelParams, labelMaterial } from "./labels/system";
 import { update as updateTrails, trailParams, createShipTrailMesh, createAircraftTrailMesh, initTrailHistory } from "./units/trails";
-import { initSelectionHandling, updateSelectedUnitInfo, deselectUnit } from "./selection/index";
+import { update as updateLeaders, leaderParams, createShipLeaderMesh, createAircraftLeaderMesh } from "./units/leaders";
+import { initSelectionHandling, updateSelectedUnitInfo, deselectUnit, getSelectedUnitPosition } from "./selection/index";
+import { loadZones, updateGeofences } from "./geofence";
+import { loadSavedFilters } from "./filters";
+import { initGeofenceVisuals } from "./geofence/visuals";
+import { initAlertPanel } from "./ui/alert-panel";
+import { initSearchPanel } from "./ui/search-panel";
+import { initPassPanel } from "./ui/pass-panel";
+import { initPassVisuals } from "./passes/visuals";
+import { initConjunctionPanel } from "./ui/conjunction-panel";
+import { initConjunctionVisuals, updateConjunctionVisuals } from "./conjunctions/visuals";
+import { updateCollisionRisks } from "./collision";
+import { initCollisionVisuals, updateCollisionVisuals } from "./collision/visuals";
+import { initCollisionPanel } from "./ui/collision-panel";
+import { initFeedHealthPanel } from "./ui/feed-health-panel";
+import { updateFlightPhases } from "./flight-phase";
+import { initAirportBoard, updateAirportBoard } from "./ui/airport-board";
+import { updatePredictions } from "./prediction";
+import { initTrackHistory, recordTrackHistory } from "./history";
+import { initPredictionVisuals, updatePredictionVisuals } from "./prediction/visuals";
+import { initOverlayVisuals } from "./overlays/visuals";
+import { initUnitLegend } from "./ui/overlays";
+import { updateUnitStyles } from "./units/styling";
 import { createEarth, createAtmosphere, DEFAULT_EARTH_PARAMS, switchTexturePreset as switchEarthTexturePreset, TEXTURE_PRESETS } from "./scene/earth";
 import { createCloudLayer } from "./scene/clouds";
 import { initGrid, buildGrid, gridParams, updateGridOpacity, updateGridVisibility } from "./scene/grid";
 import { initAirports, setAirportRotation, updateAirportScales, updateAirportLabels, airportParams, airportGroup } from "./scene/airports";
+import { initAisStations, updateAisStationLayer, aisStationParams, applyAisStationVisibility } from "./scene/ais-stations";
 import { state } from "./state";
 import {
   updateIconScale,
@@ -88,10 +116,16 @@ import {
   syncAISFeedState,      // Added
   satelliteFeedParams,   // Added
   aisFeedParams,         // Added
+  initReplayController,
+  syncReplayState,
+  initDroneFeedController,
+  syncDroneFeedState,
+  droneFeedParams,
+  initFeedSourceController,
+  syncFeedSourceState,
+  initFeedHealthMonitor,
 } from "./feeds";
 import {
-  getSimulatedDate,
-  resetSimulatedTime,
   getEarthRotation,
   getSeasonalSunDirection,
   DEFAULT_SUN_PARAMS,
@@ -122,6 +156,7 @@ function main() {
 
   // Sun position (realistic by default, based on current date/time)
   const sunParams: SunParams = { ...DEFAULT_SUN_PARAMS };
+  initTimeline(sunParams);
   const sunDirection = new THREE.Vector3();
 
   // Initialize sun direction from current date (seasonal position)
@@ -145,15 +180,20 @@ function main() {
   const shipTrailRefs = createShipTrailMesh();
   const aircraftTrailRefs = createAircraftTrailMesh();
   scene.add(shipTrailRefs.mesh, aircraftTrailRefs.mesh);
+  const shipLeaderRefs = createShipLeaderMesh();
+  const aircraftLeaderRefs = createAircraftLeaderMesh();
+  scene.add(shipLeaderRefs.mesh, aircraftLeaderRefs.mesh);
 
   scene.add(shipMesh, aircraftMesh, satelliteMesh, droneMesh);
 
   initGrid(earthRefs.mesh);
   buildGrid();
   initAirports(scene);
+  initAisStations(scene);
   initLabelSystem(scene);
   initSelectionVisuals(scene);
   initCameraModule(camera, controls);
+  setFollowTarget(getSelectedUnitPosition);
 
   // Set up attribute dependencies for GPU buffer updates
   setAttributeDependencies({
@@ -202,17 +242,19 @@ function main() {
   generateDemoData();
   generateDroneData();
 
+  // Live and replayed feeds both hide simulated-only units
   const isAnyLiveFeedActive = () =>
-    aircraftFeedParams.mode === "live" ||
-    satelliteFeedParams.mode === "live" ||
-    aisFeedParams.mode === "live";
+    aircraftFeedParams.mode !== "simulated" ||
+    satelliteFeedParams.mode !== "simulated" ||
+    aisFeedParams.mode !== "simulated" ||
+    droneFeedParams.mode !== "simulated";
 
   const applyEffectiveUnitVisibility = () => {
     const hideSimulatedUnits = isAnyLiveFeedActive();
-    const showShips = unitCountParams.showShips && (!hideSimulatedUnits || aisFeedParams.mode === "live");
-    const showAircraft = unitCountParams.showAircraft && (!hideSimulatedUnits || aircraftFeedParams.mode === "live");
-    const showSatellites = unitCountParams.showSatellites && (!hideSimulatedUnits || satelliteFeedParams.mode === "live");
-    const showDrones = unitCountParams.showDrones && !hideSimulatedUnits;
+    const showShips = unitCountParams.showShips && (!hideSimulatedUnits || aisFeedParams.mode !== "simulated");
+    const showAircraft = unitCountParams.showAircraft && (!hideSimulatedUnits || aircraftFeedParams.mode !== "simulated");
+    const showSatellites = unitCountParams.showSatellites && (!hideSimulatedUnits || satelliteFeedParams.mode !== "simulated");
+    const showDrones = unitCountParams.showDrones && (!hideSimulatedUnits || droneFeedParams.mode !== "simulated");
     const visibilityChanged =
       state.unitCounts.showShips !== showShips ||
       state.unitCounts.showAircraft !== showAircraft ||
@@ -235,6 +277,8 @@ function main() {
     droneMesh.visible = trafficVisible && showDrones;
     shipTrailRefs.mesh.visible = trafficVisible && showShips && trailParams.enabled && trailParams.shipTrails;
     aircraftTrailRefs.mesh.visible = trafficVisible && showAircraft && trailParams.enabled && trailParams.aircraftTrails;
+    shipLeaderRefs.mesh.visible = trafficVisible && showShips && leaderParams.enabled && leaderParams.shipLeaders;
+    aircraftLeaderRefs.mesh.visible = trafficVisible && showAircraft && leaderParams.enabled && leaderParams.aircraftLeaders;
 
     const selectedType = state.selectedUnit?.type;
     const selectedHidden =
@@ -277,6 +321,38 @@ function main() {
     },
   });
   startAISFeed();
+
+  // Initialize drone feed controller (simulated patrols or live MAVLink)
+  initDroneFeedController({
+    updateDroneAttributes,
+    onUnitVisibilityChange: () => {
+      applyEffectiveUnitVisibility();
+    },
+  });
+
+  // Initialize session record/replay controller
+  initReplayController({
+    updateShipAttributes,
+    updateAircraftAttributes,
+    updateSatelliteAttributes,
+    onUnitVisibilityChange: () => {
+      applyEffectiveUnitVisibility();
+    },
+  });
+
+  // Restore runtime feed sources (they take over a layer's built-in feed while enabled)
+  initFeedSourceController({
+    updateShipAttributes,
+    updateAircraftAttributes,
+    updateSatelliteAttributes,
+    updateDroneAttributes,
+    onUnitVisibilityChange: () => {
+      applyEffectiveUnitVisibility();
+    },
+  });
+
+  // Sample live feeds once a second for the health dashboard and gap detection
+  initFeedHealthMonitor();
   applyEffectiveUnitVisibility();
 
   const trailHistory = initTrailHistory(state.ships.length, state.aircraft.length);
@@ -284,6 +360,45 @@ function main() {
 
   initSelectionHandling(camera, canvas, earthRefs.mesh, h3Params);
 
+  // Geofence zones (restored from the previous session) and alert panel
+  initGeofenceVisuals(earthRefs.mesh, camera, canvas as unknown as HTMLCanvasElement);
+  loadZones();
+
+  // Named unit filter queries from the previous session
+  loadSavedFilters();
+  initAlertPanel();
+  initSearchPanel();
+
+  // Satellite pass prediction (observer marker, selected ground track, table)
+  initPassVisuals(earthRefs.mesh, camera, canvas as unknown as HTMLCanvasElement);
+  initPassPanel();
+
+  // Satellite conjunction screening (highlighted pair, results list)
+  initConjunctionVisuals(scene);
+  initConjunctionPanel();
+
+  // Vessel CPA/TCPA screening (pair lines, risk list)
+  initCollisionVisuals(scene);
+  initCollisionPanel();
+
+  // Feed health dashboard (sparklines per live feed, silent gaps, relay drops)
+  initFeedHealthPanel();
+
+  // Flight phase inference and the selected airport's arrivals/departures
+  initAirportBoard();
+
+  // Dead-reckoning uncertainty ellipses for stale ships and aircraft
+  initPredictionVisuals(scene);
+
+  // Long-duration track history (worker + IndexedDB)
+  initTrackHistory();
+
+  // Imported GeoJSON/KML overlays (dropped files), draped on the globe
+  initOverlayVisuals(earthRefs.mesh);
+
+  // Color-by-attribute legend for ship/aircraft icons
+  initUnitLegend();
+
   // Earth rotation toggle
   const earthRotationParams = { enabled: true };
 
@@ -308,7 +423,7 @@ function main() {
     },
     // Realistic sun params
     sunParams,
-    resetSimulatedTime: () => resetSimulatedTime(sunParams),
+    resetSimulatedTime: resetTimelineToNow,
     sunDirection,
     gridParams,
     updateGridVisibility,
@@ -339,10 +454,13 @@ function main() {
     airportParams,
     airportGroup,
     updateAirportLabels,
+    aisStationParams,
+    applyAisStationVisibility,
     motionParams,
     cameraParams,
     setCameraTilt,
     tiltPresets,
+    followParams,
     earthRotationParams,
     tilesParams,
     setTransitionAltitude,
@@ -387,7 +505,7 @@ function main() {
 
     // Clamp deltaTime to prevent jumps on first frame or after tab switch
     const clampedDeltaMs = Math.min(frameDeltaTime * 1000, 100);
-    const simDate = getSimulatedDate(sunParams, sunParams.realistic ? clampedDeltaMs : 0);
+    const simDate = advanceTimeline(clampedDeltaMs);
 
     // Earth rotation based on simulated time, but auto-pause when close to the surface.
     let earthRotY: number;
@@ -419,6 +537,7 @@ function main() {
     }
     state.earthRotation.y = earthRotY;
     setAirportRotation(earthRotY);
+    updateAisStationLayer(earthRotY);
     // Sync unit/trail mesh rotation with earth (avoid forEach to reduce GC)
     shipMesh.rotation.y = earthRotY;
     aircraftMesh.rotation.y = earthRotY;
@@ -426,23 +545,41 @@ function main() {
     droneMesh.rotation.y = earthRotY;
     shipTrailRefs.mesh.rotation.y = earthRotY;
     aircraftTrailRefs.mesh.rotation.y = earthRotY;
+    shipLeaderRefs.mesh.rotation.y = earthRotY;
+    aircraftLeaderRefs.mesh.rotation.y = earthRotY;
     realWeatherRefs.particleMesh.rotation.y = earthRotY;
     setOrbitLineRotation(earthRotY);
+    updateConjunctionVisuals(earthRotY);
+    updateCollisionVisuals(earthRotY);
+    updatePredictionVisuals(earthRotY);
 
     // Update real weather system (GIBS + particle flow)
     updateWeatherSystem(frameDeltaTime, elapsedTime);
 
     updateIconScale(cameraDistance);
-    updateMotionSimulation(elapsedTime, { updateShipAttributes, updateAircraftAttributes, updateSatelliteAttributes, updateDroneAttributes });
+    updateMotionSimulation(getTimelineDeltaSeconds(), { updateShipAttributes, updateAircraftAttributes, updateSatelliteAttributes, updateDroneAttributes });
     // Sync live feed state (handles interpolation + GPU update for live mode)
     syncLiveFeedState();
     syncSatelliteFeedState();
     syncAISFeedState(); // Added
+    syncDroneFeedState();
+    syncReplayState();
+    syncFeedSourceState();
+    // Dead-reckon stale units after the feeds have written their last reports
+    const predicted = updatePredictions();
+    if (predicted.ships) updateShipAttributes();
+    if (predicted.aircraft) updateAircraftAttributes();
+    updateGeofences();
+    updateCollisionRisks();
+    updateFlightPhases();
+    recordTrackHistory();
+    updateUnitStyles(state.ships, state.aircraft);
     applyEffectiveUnitVisibility();
     t1 = performance.now();
     debugTiming.motion += t1 - t0;
     t0 = t1;
-    updateTrails(state.trails, state.ships, state.aircraft, shipTrailRefs, aircraftTrailRefs);
+    updateTrails(state.trails, state.ships, state.aircraft, shipTrailRefs, aircraftTrailRefs, getTimelineTime());
+    updateLeaders(state.ships, state.aircraft, shipLeaderRefs, aircraftLeaderRefs);
     t1 = performance.now();
     debugTiming.trails += t1 - t0;
     t0 = t1;
@@ -459,6 +596,8 @@ function main() {
 
     // Adjust rotation/zoom speeds based on altitude (see camera/controls.ts for details)
     updateCameraControlSpeeds();
+    updateCameraFlight(earthRotY);
+    updateCameraFollow(earthRotY, frameDeltaTime);
 
     controls.update();
 
@@ -497,6 +636,7 @@ function main() {
     }
 
     updateSelectedUnitInfo();
+    updateAirportBoard();
     updateSelectionRing();
     selectionRingMaterial.uniforms.uTime.value = elapsedTime;
 
@@ -8,6 +8,7 @@ import * as THREE from "three";
 import { OrbitControls } from "three/addons/controls/OrbitControls.js";
 import { EARTH_RADIUS } from "../constants";
 import type { CameraParams } from "../types";
+import { latLonToPosition } from "../utils/coordinates";
 
 // =============================================================================
 // STATE
@@ -83,6 +84,9 @@ export function initCameraModule(
   camera = cameraRef;
   controls = controlsRef;
   installSurfacePanPatch(controlsRef);
+
+  // Any manual orbit/zoom/pan takes over from an in-progress fly-to
+  controlsRef.addEventListener("start", cancelCameraFlight);
 }
 
 // =============================================================================
@@ -221,3 +225,265 @@ export function setCameraPanReferenceDistance(distance: number | null): void {
   patchedControls.__surfacePanDistance = distance;
   surfaceInteractionDistance = distance;
 }
+
+// =============================================================================
+// FLY-TO
+// =============================================================================
+
+/** Live position of a camera target (fly-to or follow); null when it's gone */
+export type CameraTargetGetter = () => { lat: number; lon: number; altitude?: number; heading?: number } | null;
+
+export interface FlyToOptions {
+  /** Target altitude above the surface in scene units (unit altitude) */
+  altitude?: number;
+  /** Camera height above the target in km at the end of the flight */
+  viewAltitudeKm?: number;
+  /** Flight duration in milliseconds */
+  durationMs?: number;
+  /** Re-read the target position every frame (for moving units) */
+  track?: CameraTargetGetter;
+}
+
+interface CameraFlight {
+  lat: number;
+  lon: number;
+  altitude: number;
+  endDistance: number;
+  startDir: THREE.Vector3;
+  startDistance: number;
+  startTarget: THREE.Vector3;
+  startTime: number;
+  durationMs: number;
+  track?: CameraTargetGetter;
+}
+
+const DEFAULT_FLIGHT_DURATION_MS = 2000;
+const DEFAULT_VIEW_ALTITUDE_KM = 1500;
+
+let flight: CameraFlight | null = null;
+const _yAxis = new THREE.Vector3(0, 1, 0);
+const _flightDir = new THREE.Vector3();
+const _flightEndDir = new THREE.Vector3();
+const _flightQuat = new THREE.Quaternion();
+const _flightPartial = new THREE.Quaternion();
+
+/**
+ * Animate the camera to look straight down at a lat/lon.
+ * Progress is driven by updateCameraFlight() from the render loop.
+ */
+export function flyToLatLon(lat: number, lon: number, options: FlyToOptions = {}): void {
+  if (!camera || !controls) {
+    console.warn("Camera module not initialized. Call initCameraModule first.");
+    return;
+  }
+
+  const altitude = options.altitude ?? 0;
+  const viewAltitude = (options.viewAltitudeKm ?? DEFAULT_VIEW_ALTITUDE_KM) / SCENE_UNITS_TO_KM;
+
+  flight = {
+    lat,
+    lon,
+    altitude,
+    endDistance: Math.max(EARTH_RADIUS + altitude + viewAltitude, controls.minDistance),
+    startDir: camera.position.clone().normalize(),
+    startDistance: camera.position.length(),
+    startTarget: controls.target.clone(),
+    startTime: performance.now(),
+    durationMs: options.durationMs ?? DEFAULT_FLIGHT_DURATION_MS,
+    track: options.track,
+  };
+  cameraParams.tiltAngle = 0;
+}
+
+export function cancelCameraFlight(): void {
+  flight = null;
+}
+
+export function isCameraFlying(): boolean {
+  return flight !== null;
+}
+
+/**
+ * Advance an in-progress fly-to. Call once per frame before controls.update().
+ *
+ * @param earthRotationY - Current Earth mesh rotation (targets are earth-fixed)
+ */
+export function updateCameraFlight(earthRotationY: number): void {
+  if (!flight || !camera || !controls) return;
+
+  if (flight.track) {
+    const position = flight.track();
+    if (position) {
+      flight.lat = position.lat;
+      flight.lon = position.lon;
+      if (position.altitude !== undefined) flight.altitude = position.altitude;
+    }
+  }
+
+  const t = Math.min(1, (performance.now() - flight.startTime) / flight.durationMs);
+  const eased = t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+
+  _flightEndDir
+    .copy(latLonToPosition(flight.lat, flight.lon, flight.altitude))
+    .applyAxisAngle(_yAxis, earthRotationY)
+    .normalize();
+
+  // Slerp the view direction; rise in the middle of long hops so the globe stays in frame
+  const angle = flight.startDir.angleTo(_flightEndDir);
+  _flightQuat.setFromUnitVectors(flight.startDir, _flightEndDir);
+  _flightPartial.identity().slerp(_flightQuat, eased);
+  _flightDir.copy(flight.startDir).applyQuaternion(_flightPartial);
+
+  const hop = Math.sin(Math.PI * eased) * angle * EARTH_RADIUS * 0.5;
+  const distance = flight.startDistance + (flight.endDistance - flight.startDistance) * eased + hop;
+
+  camera.position.copy(_flightDir).multiplyScalar(distance);
+  controls.target.copy(flight.startTarget).multiplyScalar(1 - eased);
+
+  if (t >= 1) flight = null;
+}
+
+// =============================================================================
+// FOLLOW (CHASE) CAMERA
+// =============================================================================
+
+export interface FollowParams {
+  /** Keep the camera locked on the followed unit */
+  enabled: boolean;
+  /** Swing the camera behind the unit so its heading points up-screen */
+  headingUp: boolean;
+  /** Damping time constant in seconds (0 = rigid lock) */
+  smoothing: number;
+}
+
+export const followParams: FollowParams = {
+  enabled: false,
+  headingUp: false,
+  smoothing: 0.15,
+};
+
+/** Target jumps larger than this (scene units) snap instead of easing (seeks, reselection) */
+const FOLLOW_SNAP_DISTANCE = 0.5;
+
+/** Minimum horizontal share of the camera offset in heading-up mode (keeps a chase angle) */
+const HEADING_UP_MIN_TANGENT = 0.35;
+
+let followTarget: CameraTargetGetter | null = null;
+let following = false;
+const _followLastTarget = new THREE.Vector3();
+const _followPos = new THREE.Vector3();
+const _followAhead = new THREE.Vector3();
+const _followDelta = new THREE.Vector3();
+const _followOffset = new THREE.Vector3();
+const _followNormal = new THREE.Vector3();
+const _followTangent = new THREE.Vector3();
+const _followForward = new THREE.Vector3();
+
+/**
+ * Set the source of the followed position (e.g. the selected unit).
+ */
+export function setFollowTarget(getter: CameraTargetGetter | null): void {
+  followTarget = getter;
+  following = false;
+}
+
+/**
+ * Leave follow mode, leaving the camera where it is.
+ */
+export function stopCameraFollow(): void {
+  followParams.enabled = false;
+  following = false;
+}
+
+/**
+ * Move the camera with the followed unit. Call once per frame before controls.update().
+ * Orbiting and zooming still work (the offset from the unit is preserved);
+ * a manual pan moves the orbit target and ends follow mode.
+ *
+ * @param earthRotationY - Current Earth mesh rotation (targets are earth-fixed)
+ * @param deltaSeconds - Frame time for damping
+ */
+export function updateCameraFollow(earthRotationY: number, deltaSeconds: number): void {
+  if (!camera || !controls) return;
+
+  const position = followParams.enabled && followTarget ? followTarget() : null;
+  if (!position) {
+    following = false;
+    return;
+  }
+
+  // Let a fly-to finish before locking on
+  if (flight) {
+    following = false;
+    return;
+  }
+
+  // Any target drift since last frame came from OrbitControls panning
+  if (following && controls.target.distanceToSquared(_followLastTarget) > 1e-10) {
+    stopCameraFollow();
+    return;
+  }
+
+  const altitude = position.altitude ?? 0;
+  _followPos.copy(latLonToPosition(position.lat, position.lon, altitude)).applyAxisAngle(_yAxis, earthRotationY);
+
+  // Exponential damping toward the unit; snap on first frame or large jumps
+  const distance = controls.target.distanceTo(_followPos);
+  const alpha = !following || distance > FOLLOW_SNAP_DISTANCE || followParams.smoothing <= 0
+    ? 1
+    : 1 - Math.exp(-deltaSeconds / followParams.smoothing);
+
+  _followDelta.subVectors(_followPos, controls.target).multiplyScalar(alpha);
+  controls.target.add(_followDelta);
+  camera.position.add(_followDelta);
+
+  if (followParams.headingUp && position.heading !== undefined) {
+    applyHeadingUp(position.lat, position.lon, altitude, position.heading, earthRotationY, alpha);
+  }
+
+  _followLastTarget.copy(controls.target);
+  following = true;
+}
+
+/**
+ * Rotate the camera offset about the local vertical so it sits behind the unit.
+ */
+function applyHeadingUp(
+  lat: number,
+  lon: number,
+  altitude: number,
+  heading: number,
+  earthRotationY: number,
+  alpha: number
+): void {
+  if (!camera || !controls) return;
+
+  // Forward direction: a point a little way along the heading, projected onto the tangent plane
+  const step = 0.01;
+  const headingRad = (heading * Math.PI) / 180;
+  const cosLat = Math.max(Math.cos((lat * Math.PI) / 180), 0.01);
+  _followAhead
+    .copy(latLonToPosition(lat + Math.cos(headingRad) * step, lon + (Math.sin(headingRad) * step) / cosLat, altitude))
+    .applyAxisAngle(_yAxis, earthRotationY);
+
+  _followNormal.copy(controls.target).normalize();
+  _followForward.subVectors(_followAhead, controls.target);
+  _followForward.addScaledVector(_followNormal, -_followForward.dot(_followNormal)).normalize();
+
+  _followOffset.subVectors(camera.position, controls.target);
+  const offsetLength = _followOffset.length();
+  const normalLength = _followOffset.dot(_followNormal);
+  _followTangent.copy(_followOffset).addScaledVector(_followNormal, -normalLength);
+
+  const tangentLength = Math.max(_followTangent.length(), offsetLength * HEADING_UP_MIN_TANGENT);
+  const verticalLength = Math.sqrt(Math.max(offsetLength * offsetLength - tangentLength * tangentLength, 0));
+
+  // Ease the horizontal offset toward "behind the unit"
+  if (_followTangent.lengthSq() < 1e-12) _followTangent.copy(_followForward).negate();
+  _followTangent.normalize().lerp(_followForward.negate(), Math.max(alpha, 0.05)).normalize();
+
+  camera.position
+    .copy(controls.target)
+    .addScaledVector(_followNormal, Math.sign(normalLength || 1) * verticalLength)
+    .addScaledVector(_followTangent, tangentLength);
+}
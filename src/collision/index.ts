@@ -0,0 +1,235 @@
+/**
+ * Vessel Collision Risk
+ *
+ * Periodic closest-point-of-approach screen between moving ships, run in the
+ * H3 worker (ships bucketed by H3 cell so only nearby pairs are compared).
+ * Pairs whose CPA and time to CPA fall under the thresholds are flagged and
+ * kept here until the next screen.
+ */
+
+import { state } from "../state";
+import { getH3Worker } from "../scene/h3-grid";
+import { getTimelineTime } from "../simulation/timeline";
+
+// =============================================================================
+// TYPES & PARAMETERS
+// =============================================================================
+
+export interface CollisionRisk {
+  /** Stable pair ID ("mmsi1:mmsi2", lower MMSI first) */
+  id: string;
+  mmsi1: string;
+  name1: string;
+  mmsi2: string;
+  name2: string;
+  /** Predicted closest approach (nautical miles) */
+  cpaNm: number;
+  /** Time to closest approach (minutes) */
+  tcpaMinutes: number;
+  /** Current separation (nautical miles) */
+  rangeNm: number;
+  /** Timeline time of the screen (unix ms) */
+  time: number;
+}
+
+export interface CollisionParams {
+  enabled: boolean;
+  /** Flag pairs passing closer than this (nautical miles) */
+  cpaNm: number;
+  /** ...within this many minutes */
+  tcpaMinutes: number;
+  /** Only compare ships closer than this (nautical miles) */
+  rangeNm: number;
+  /** Ships slower than this (knots) are treated as moored/anchored: only moving ships are screened against them */
+  minSpeedKn: number;
+  /** Real time between screens (ms) */
+  checkIntervalMs: number;
+  /** Status text for the GUI */
+  status: string;
+}
+
+export const collisionParams: CollisionParams = {
+  enabled: false,
+  cpaNm: 0.5,
+  tcpaMinutes: 20,
+  rangeNm: 6,
+  minSpeedKn: 1,
+  checkIntervalMs: 2000,
+  status: "off",
+};
+
+interface CpaPair {
+  i: number;
+  j: number;
+  cpaNm: number;
+  tcpaMinutes: number;
+  rangeNm: number;
+}
+
+// =============================================================================
+// STATE
+// =============================================================================
+
+let risks: CollisionRisk[] = [];
+let selectedId: string | null = null;
+let lastCheckTime = 0;
+
+/** Outstanding worker request (0 = none); replies to any other ID are stale */
+let pendingRequestId = 0;
+let nextRequestId = 1;
+
+/** Ship MMSI/name snapshot for the outstanding request (worker replies with indices) */
+let pendingShips: { mmsi: string; name: string }[] = [];
+let pendingTime = 0;
+
+const listeners = new Set<() => void>();
+
+getH3Worker().addEventListener("message", (e: MessageEvent) => {
+  const { type, data } = e.data;
+  if (type !== "vesselCpaResult" || data.requestId !== pendingRequestId) return;
+  pendingRequestId = 0;
+  applyScreenResult(data.pairs);
+});
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/** Flagged pairs from the latest screen, soonest CPA first */
+export function getCollisionRisks(): readonly CollisionRisk[] {
+  return risks;
+}
+
+export function getSelectedCollisionRisk(): CollisionRisk | null {
+  return risks.find((r) => r.id === selectedId) ?? null;
+}
+
+/**
+ * Register a callback for result and selection changes.
+ */
+export function onCollisionRisksChanged(listener: () => void): void {
+  listeners.add(listener);
+}
+
+/**
+ * Post a new screen to the worker.
+ * Call once per frame; throttled by collisionParams.checkIntervalMs and
+ * skipped while the previous screen is still running.
+ */
+export function updateCollisionRisks(): void {
+  if (!collisionParams.enabled || pendingRequestId !== 0) return;
+
+  const now = performance.now();
+  if (now - lastCheckTime < collisionParams.checkIntervalMs) return;
+  lastCheckTime = now;
+
+  const ships = state.ships;
+  const lats = new Float64Array(ships.length);
+  const lons = new Float64Array(ships.length);
+  const headings = new Float64Array(ships.length);
+  const speeds = new Float64Array(ships.length);
+  pendingShips = new Array(ships.length);
+  for (let i = 0; i < ships.length; i++) {
+    const ship = ships[i];
+    lats[i] = ship.lat;
+    lons[i] = ship.lon;
+    headings[i] = ship.heading;
+    speeds[i] = ship.sog;
+    pendingShips[i] = { mmsi: ship.mmsi, name: ship.name };
+  }
+  pendingTime = getTimelineTime();
+  pendingRequestId = nextRequestId++;
+
+  getH3Worker().postMessage(
+    {
+      type: "screenVesselCpa",
+      data: {
+        requestId: pendingRequestId,
+        lats,
+        lons,
+        headings,
+        speeds,
+        rangeNm: collisionParams.rangeNm,
+        cpaNm: collisionParams.cpaNm,
+        tcpaMinutes: collisionParams.tcpaMinutes,
+        minSpeedKn: collisionParams.minSpeedKn,
+      },
+    },
+    [lats.buffer, lons.buffer, headings.buffer, speeds.buffer]
+  );
+}
+
+/**
+ * Turn screening on or off. Turning it off drops current results.
+ */
+export function setCollisionScreening(enabled: boolean): void {
+  collisionParams.enabled = enabled;
+  lastCheckTime = 0;
+  if (!enabled) {
+    clearCollisionRisks();
+    collisionParams.status = "off";
+  } else {
+    collisionParams.status = "screening…";
+  }
+}
+
+/**
+ * Drop current results; any screen in flight is ignored.
+ */
+export function clearCollisionRisks(): void {
+  pendingRequestId = 0;
+  risks = [];
+  selectedId = null;
+  notifyListeners();
+}
+
+/**
+ * Select a pair (null to clear).
+ */
+export function selectCollisionRisk(id: string | null): void {
+  selectedId = id;
+  notifyListeners();
+}
+
+// =============================================================================
+// INTERNALS
+// =============================================================================
+
+function applyScreenResult(pairs: CpaPair[]): void {
+  if (!collisionParams.enabled) return;
+
+  risks = pairs.map((pair) => {
+    let a = pendingShips[pair.i];
+    let b = pendingShips[pair.j];
+    if (b.mmsi < a.mmsi) [a, b] = [b, a];
+    return {
+      id: `${a.mmsi}:${b.mmsi}`,
+      mmsi1: a.mmsi,
+      name1: shipLabel(a),
+      mmsi2: b.mmsi,
+      name2: shipLabel(b),
+      cpaNm: pair.cpaNm,
+      tcpaMinutes: pair.tcpaMinutes,
+      rangeNm: pair.rangeNm,
+      time: pendingTime,
+    };
+  });
+  risks.sort((a, b) => a.tcpaMinutes - b.tcpaMinutes);
+
+  // Keep the selection while the pair is still at risk
+  if (selectedId && !risks.some((r) => r.id === selectedId)) selectedId = null;
+
+  pendingShips = [];
+  collisionParams.status = `${risks.length} at risk`;
+  notifyListeners();
+}
+
+function shipLabel(ship: { mmsi: string; name: string }): string {
+  return ship.name && ship.name !== "Unknown" ? ship.name : `MMSI ${ship.mmsi}`;
+}
+
+function notifyListeners(): void {
+  for (const listener of listeners) {
+    listener();
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Collision Risk Visuals
+ *
+ * Connecting lines between the ships of each flagged pair, following the
+ * ships' current positions. The selected pair is highlighted.
+ */
+
+import * as THREE from "three";
+import { SHIP_ALTITUDE } from "../constants";
+import { state, resolveUnitIndex } from "../state";
+import { latLonToPosition } from "../utils/coordinates";
+import { getCollisionRisks, getSelectedCollisionRisk, onCollisionRisksChanged } from "./index";
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const MAX_RISK_LINES = 512;
+
+const RISK_COLOR = new THREE.Color(0xef4444);
+const SELECTED_COLOR = new THREE.Color(0xfacc15);
+
+// =============================================================================
+// STATE
+// =============================================================================
+
+const positions = new Float32Array(MAX_RISK_LINES * 2 * 3);
+const colors = new Float32Array(MAX_RISK_LINES * 2 * 3);
+
+const riskGeometry = new THREE.BufferGeometry();
+riskGeometry.setAttribute("position", new THREE.BufferAttribute(positions, 3));
+riskGeometry.setAttribute("color", new THREE.BufferAttribute(colors, 3));
+riskGeometry.setDrawRange(0, 0);
+
+const riskLines = new THREE.LineSegments(
+  riskGeometry,
+  new THREE.LineBasicMaterial({
+    vertexColors: true,
+    transparent: true,
+    opacity: 0.9,
+    depthWrite: false,
+  })
+);
+riskLines.frustumCulled = false;
+riskLines.renderOrder = 5;
+
+/** Last resolved state.ships indices per pair (re-resolved by MMSI if moved) */
+let shipIndices: [number, number][] = [];
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+export function initCollisionVisuals(scene: THREE.Scene): void {
+  scene.add(riskLines);
+  onCollisionRisksChanged(() => {
+    shipIndices = getCollisionRisks().map(() => [-1, -1]);
+  });
+}
+
+/**
+ * Per-frame update: follow Earth rotation and the ships' positions.
+ */
+export function updateCollisionVisuals(earthRotY: number): void {
+  riskLines.rotation.y = earthRotY;
+
+  const risks = getCollisionRisks();
+  const selected = getSelectedCollisionRisk();
+  const count = Math.min(risks.length, MAX_RISK_LINES);
+  let lineCount = 0;
+
+  for (let r = 0; r < count; r++) {
+    const risk = risks[r];
+    const indices = shipIndices[r];
+    indices[0] = resolveUnitIndex(state.ships, indices[0], (s) => s.mmsi === risk.mmsi1);
+    indices[1] = resolveUnitIndex(state.ships, indices[1], (s) => s.mmsi === risk.mmsi2);
+    const a = state.ships[indices[0]];
+    const b = state.ships[indices[1]];
+    if (!a || !b) continue;
+
+    const color = risk === selected ? SELECTED_COLOR : RISK_COLOR;
+    writeVertex(lineCount * 2, latLonToPosition(a.lat, a.lon, SHIP_ALTITUDE), color);
+    writeVertex(lineCount * 2 + 1, latLonToPosition(b.lat, b.lon, SHIP_ALTITUDE), color);
+    lineCount++;
+  }
+
+  riskGeometry.setDrawRange(0, lineCount * 2);
+  riskGeometry.attributes.position.needsUpdate = true;
+  riskGeometry.attributes.color.needsUpdate = true;
+  riskLines.visible = lineCount > 0;
+}
+
+function writeVertex(vertex: number, position: THREE.Vector3, color: THREE.Color): void {
+  positions[vertex * 3] = position.x;
+  positions[vertex * 3 + 1] = position.y;
+  positions[vertex * 3 + 2] = position.z;
+  colors[vertex * 3] = color.r;
+  colors[vertex * 3 + 1] = color.g;
+  colors[vertex * 3 + 2] = color.b;
+}
@@ -0,0 +1,134 @@
+/**
+ * Satellite Conjunctions
+ *
+ * Background close-approach screen over the live SGP4 satellites, run by the
+ * satellite worker. Holds the latest results and the selected conjunction
+ * (whose objects and orbits are highlighted on the globe).
+ */
+
+import {
+  hasLiveTLEs,
+  screenSatelliteConjunctions,
+  cancelSatelliteConjunctionScreen,
+} from "../feeds/satellite-feed-controller";
+import { getTimelineTime } from "../simulation/timeline";
+import type { Conjunction } from "../utils/conjunctions";
+
+// =============================================================================
+// TYPES & PARAMETERS
+// =============================================================================
+
+export interface ScreenedConjunction extends Conjunction {
+  id: number;
+}
+
+export interface ConjunctionParams {
+  /** Screening window from the current timeline time (hours) */
+  hours: number;
+  /** Miss distance threshold (km) */
+  thresholdKm: number;
+  /** Only pairs involving a satellite whose name contains this; empty for all */
+  primaryFilter: string;
+  /** Status text for the GUI */
+  status: string;
+}
+
+export const conjunctionParams: ConjunctionParams = {
+  hours: 24,
+  thresholdKm: 10,
+  primaryFilter: "",
+  status: "idle",
+};
+
+// =============================================================================
+// STATE
+// =============================================================================
+
+let conjunctions: ScreenedConjunction[] = [];
+let selectedId: number | null = null;
+let nextConjunctionId = 1;
+
+/** Bumped per screen so a superseded or cancelled run's reply is ignored */
+let screenGeneration = 0;
+
+const listeners = new Set<() => void>();
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/** Conjunctions from the latest screen, in TCA order */
+export function getConjunctions(): readonly ScreenedConjunction[] {
+  return conjunctions;
+}
+
+export function getSelectedConjunction(): ScreenedConjunction | null {
+  return conjunctions.find((c) => c.id === selectedId) ?? null;
+}
+
+/**
+ * Register a callback for result and selection changes.
+ */
+export function onConjunctionsChanged(listener: () => void): void {
+  listeners.add(listener);
+}
+
+/**
+ * Screen from the current timeline time over the configured window.
+ */
+export async function runConjunctionScreen(): Promise<void> {
+  if (!hasLiveTLEs()) {
+    conjunctionParams.status = "needs live satellites";
+    return;
+  }
+
+  const generation = ++screenGeneration;
+  conjunctionParams.status = "screening…";
+
+  const result = await screenSatelliteConjunctions(
+    {
+      start: getTimelineTime(),
+      hours: conjunctionParams.hours,
+      thresholdKm: conjunctionParams.thresholdKm,
+      primaryFilter: conjunctionParams.primaryFilter,
+    },
+    (progress) => {
+      if (generation === screenGeneration) {
+        conjunctionParams.status = `screening ${Math.round(progress * 100)}%`;
+      }
+    }
+  );
+  if (generation !== screenGeneration) return;
+
+  conjunctions = result.map((conjunction) => ({ ...conjunction, id: nextConjunctionId++ }));
+  selectedId = null;
+  conjunctionParams.status = `${conjunctions.length} conjunctions`;
+  notifyListeners();
+}
+
+export function cancelConjunctionScreen(): void {
+  screenGeneration++;
+  cancelSatelliteConjunctionScreen();
+  conjunctionParams.status = "cancelled";
+}
+
+export function clearConjunctions(): void {
+  conjunctions = [];
+  selectedId = null;
+  if (!conjunctionParams.status.startsWith("screening")) conjunctionParams.status = "idle";
+  notifyListeners();
+}
+
+/**
+ * Select a conjunction (null to clear).
+ */
+export function selectConjunction(id: number | null): void {
+  selectedId = id;
+  notifyListeners();
+}
+
+function notifyListeners(): void {
+  for (const listener of listeners) {
+    listener();
+  }
+}
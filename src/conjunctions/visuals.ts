@@ -0,0 +1,126 @@
+/**
+ * Conjunction Visuals
+ *
+ * Highlights the selected conjunction: both objects' current positions and
+ * orbits (via updateOrbitLine), plus the point of closest approach.
+ */
+
+import * as THREE from "three";
+import { EARTH_RADIUS } from "../constants";
+import { state, resolveUnitIndex } from "../state";
+import { latLonToPosition } from "../utils/coordinates";
+import { createOrbitLine, updateOrbitLine } from "../selection/visuals";
+import { getSelectedConjunction, onConjunctionsChanged } from "./index";
+import type { SatelliteState } from "../types";
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const PRIMARY_COLOR = 0xf97316;
+const SECONDARY_COLOR = 0x22d3ee;
+const TCA_COLOR = 0xef4444;
+
+const KM_PER_SCENE_UNIT = 6371 / EARTH_RADIUS;
+
+// =============================================================================
+// STATE
+// =============================================================================
+
+/** Parent for conjunction meshes; rotated with the Earth */
+const conjunctionGroup = new THREE.Group();
+
+const primaryOrbit = createOrbitLine(PRIMARY_COLOR, 0.8);
+const secondaryOrbit = createOrbitLine(SECONDARY_COLOR, 0.8);
+const primaryMarker = createMarker(PRIMARY_COLOR, 10);
+const secondaryMarker = createMarker(SECONDARY_COLOR, 10);
+const tcaMarker = createMarker(TCA_COLOR, 8);
+
+conjunctionGroup.add(primaryOrbit, secondaryOrbit, primaryMarker, secondaryMarker, tcaMarker);
+
+/** Last resolved state.satellites indices (re-resolved by NORAD number if moved) */
+let primaryIndex = -1;
+let secondaryIndex = -1;
+
+function createMarker(color: number, size: number): THREE.Points {
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute("position", new THREE.BufferAttribute(new Float32Array(3), 3));
+
+  const marker = new THREE.Points(
+    geometry,
+    new THREE.PointsMaterial({
+      color,
+      size,
+      sizeAttenuation: false,
+      depthTest: false,
+      depthWrite: false,
+    })
+  );
+  marker.visible = false;
+  marker.frustumCulled = false;
+  marker.renderOrder = 10;
+  return marker;
+}
+
+function setMarker(marker: THREE.Points, position: THREE.Vector3): void {
+  const attribute = marker.geometry.attributes.position as THREE.BufferAttribute;
+  attribute.setXYZ(0, position.x, position.y, position.z);
+  attribute.needsUpdate = true;
+  marker.visible = true;
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+export function initConjunctionVisuals(scene: THREE.Scene): void {
+  scene.add(conjunctionGroup);
+  onConjunctionsChanged(() => {
+    primaryIndex = -1;
+    secondaryIndex = -1;
+    updateTcaMarker();
+  });
+}
+
+/**
+ * Per-frame update: follow Earth rotation and the two satellites.
+ */
+export function updateConjunctionVisuals(earthRotY: number): void {
+  conjunctionGroup.rotation.y = earthRotY;
+
+  const conjunction = getSelectedConjunction();
+  if (!conjunction) {
+    primaryOrbit.visible = false;
+    secondaryOrbit.visible = false;
+    primaryMarker.visible = false;
+    secondaryMarker.visible = false;
+    return;
+  }
+
+  primaryIndex = resolveUnitIndex(state.satellites, primaryIndex, (s) => s.satnum === conjunction.satnum1);
+  secondaryIndex = resolveUnitIndex(state.satellites, secondaryIndex, (s) => s.satnum === conjunction.satnum2);
+  updateObject(state.satellites[primaryIndex], primaryOrbit, primaryMarker);
+  updateObject(state.satellites[secondaryIndex], secondaryOrbit, secondaryMarker);
+}
+
+function updateObject(sat: SatelliteState | undefined, orbit: THREE.LineLoop, marker: THREE.Points): void {
+  if (!sat) {
+    orbit.visible = false;
+    marker.visible = false;
+    return;
+  }
+  updateOrbitLine(sat, orbit);
+  setMarker(marker, latLonToPosition(sat.lat, sat.lon, sat.altitude));
+}
+
+function updateTcaMarker(): void {
+  const conjunction = getSelectedConjunction();
+  if (!conjunction) {
+    tcaMarker.visible = false;
+    return;
+  }
+  setMarker(
+    tcaMarker,
+    latLonToPosition(conjunction.lat, conjunction.lon, conjunction.altitudeKm / KM_PER_SCENE_UNIT)
+  );
+}
@@ -161,6 +161,12 @@ export const ORBIT_LINE_SEGMENTS = 128;
 /** Points around drone patrol circle */
 export const PATROL_CIRCLE_SEGMENTS = 64;
 
+/** Propagated ground track samples per orbit (SGP4 satellites) */
+export const GROUND_TRACK_POINTS_PER_ORBIT = 180;
+
+/** Points around a satellite footprint circle */
+export const FOOTPRINT_SEGMENTS = 96;
+
 // =============================================================================
 // PARTICLE FLOW SYSTEM
 // =============================================================================
@@ -302,10 +302,15 @@ export const MID_TO_COUNTRY: Record<string, string> = {
 
 /**
  * Get country name from MMSI number.
- * Derives the MID (first 3 digits) and looks it up.
+ * Derives the MID (first 3 digits for ships) and looks it up. Non-ship
+ * identities carry the MID after a prefix: 00 coast/base stations,
+ * 111 SAR aircraft, 98 craft with a parent ship, 99 aids to navigation.
  */
 export function getCountryFromMMSI(mmsi: string | number): string {
   const mmsiStr = String(mmsi).padStart(9, '0');
-  const mid = mmsiStr.substring(0, 3);
+  let start = 0;
+  if (mmsiStr.startsWith("111")) start = 3;
+  else if (mmsiStr.startsWith("00") || mmsiStr.startsWith("98") || mmsiStr.startsWith("99")) start = 2;
+  const mid = mmsiStr.substring(start, start + 3);
   return MID_TO_COUNTRY[mid] || "";
 }
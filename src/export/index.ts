@@ -0,0 +1,305 @@
+/**
+ * Data Export
+ *
+ * Downloads the currently visible units, the selected unit, or the selected
+ * unit's recorded track (see history/index.ts) as GeoJSON, KML or CSV.
+ * The visible set follows the same filters as the GPU icons.
+ */
+
+import { EARTH_RADIUS } from "../constants";
+import { state, aircraftSelectionId } from "../state";
+import { AIRPORTS } from "../data/airports";
+import { unitCountParams } from "../simulation/demo-data";
+import { isShipVisible } from "../units/attributes";
+import { isSatelliteVisibleByFilters } from "../utils/satellite-visibility";
+import { unitMatchesFilter } from "../filters";
+import { getTimelineTime } from "../simulation/timeline";
+import { trackHistoryParams, fetchUnitTrack } from "../history";
+import { toGeoJSON, toKML, toCSV, type ExportPoint, type ExportTrack } from "../utils/geo-export";
+import type { ShipState, AircraftState, SatelliteState, DroneState } from "../types";
+
+// =============================================================================
+// TYPES & PARAMETERS
+// =============================================================================
+
+export type ExportScope = "visible" | "selected" | "track";
+export type ExportFormat = "geojson" | "kml" | "csv";
+
+export interface ExportParams {
+  scope: ExportScope;
+  format: ExportFormat;
+  /** Status text for the GUI */
+  status: string;
+}
+
+export const exportParams: ExportParams = {
+  scope: "visible",
+  format: "geojson",
+  status: "",
+};
+
+const FORMAT_FILES: Record<ExportFormat, { extension: string; mime: string }> = {
+  geojson: { extension: "geojson", mime: "application/geo+json" },
+  kml: { extension: "kml", mime: "application/vnd.google-earth.kml+xml" },
+  csv: { extension: "csv", mime: "text/csv" },
+};
+
+const KM_PER_SCENE_UNIT = 6371 / EARTH_RADIUS;
+const METERS_PER_FOOT = 0.3048;
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Build and download an export for the current scope and format.
+ */
+export async function runExport(): Promise<void> {
+  let points: ExportPoint[] = [];
+  let tracks: ExportTrack[] = [];
+
+  if (exportParams.scope === "visible") {
+    points = collectVisibleUnits();
+  } else if (exportParams.scope === "selected") {
+    const point = collectSelectedUnit();
+    if (!point) {
+      exportParams.status = "nothing selected";
+      return;
+    }
+    points = [point];
+  } else {
+    let track: ExportTrack | null;
+    try {
+      track = await collectSelectedTrack();
+    } catch {
+      exportParams.status = "track history unavailable";
+      return;
+    }
+    if (!track) {
+      exportParams.status = "select a ship or aircraft";
+      return;
+    }
+    if (track.points.length === 0) {
+      exportParams.status = "no recorded track";
+      return;
+    }
+    tracks = [track];
+  }
+
+  if (points.length === 0 && tracks.length === 0) {
+    exportParams.status = "nothing to export";
+    return;
+  }
+
+  const stamp = new Date(getTimelineTime()).toISOString().replace(/[:.]/g, "-").slice(0, 19);
+  const title = `${exportParams.scope}-${stamp}`;
+  const content =
+    exportParams.format === "geojson" ? toGeoJSON(points, tracks)
+    : exportParams.format === "kml" ? toKML(points, tracks, title)
+    : toCSV(points, tracks);
+
+  const { extension, mime } = FORMAT_FILES[exportParams.format];
+  downloadFile(content, `${title}.${extension}`, mime);
+
+  exportParams.status = tracks.length > 0
+    ? `${tracks[0].points.length.toLocaleString()} track points`
+    : `${points.length.toLocaleString()} units`;
+}
+
+// =============================================================================
+// COLLECTION
+// =============================================================================
+
+function collectVisibleUnits(): ExportPoint[] {
+  const points: ExportPoint[] = [];
+  const { showShips, showAircraft, showSatellites, showDrones } = state.unitCounts;
+
+  if (showShips) {
+    for (const ship of state.ships) {
+      if (isShipVisible(ship)) points.push(shipPoint(ship));
+    }
+  }
+  if (showAircraft) {
+    for (const ac of state.aircraft) {
+      if (unitMatchesFilter("aircraft", ac)) points.push(aircraftPoint(ac));
+    }
+  }
+  if (showSatellites) {
+    for (const sat of state.satellites) {
+      if (isSatelliteVisibleByFilters(sat, unitCountParams) && unitMatchesFilter("satellite", sat)) points.push(satellitePoint(sat));
+    }
+  }
+  if (showDrones) {
+    for (const drone of state.drones) {
+      if (unitMatchesFilter("drone", drone)) points.push(dronePoint(drone));
+    }
+  }
+
+  return points;
+}
+
+function collectSelectedUnit(): ExportPoint | null {
+  const selected = state.selectedUnit;
+  if (!selected) return null;
+
+  switch (selected.type) {
+    case "ship": {
+      const ship = state.ships[selected.index];
+      return ship ? shipPoint(ship) : null;
+    }
+    case "aircraft": {
+      const ac = state.aircraft[selected.index];
+      return ac ? aircraftPoint(ac) : null;
+    }
+    case "satellite": {
+      const sat = state.satellites[selected.index];
+      return sat ? satellitePoint(sat) : null;
+    }
+    case "drone": {
+      const drone = state.drones[selected.index];
+      return drone ? dronePoint(drone) : null;
+    }
+    case "airport": {
+      const airport = AIRPORTS[selected.index];
+      if (!airport) return null;
+      return {
+        unitType: "airport",
+        id: airport.iata,
+        name: airport.name,
+        lat: airport.lat,
+        lon: airport.lon,
+        altitudeM: 0,
+        properties: { iata: airport.iata },
+      };
+    }
+  }
+}
+
+/**
+ * Recorded track of the selected ship or aircraft over the full retention window.
+ */
+async function collectSelectedTrack(): Promise<ExportTrack | null> {
+  const selected = state.selectedUnit;
+  if (selected?.type !== "ship" && selected?.type !== "aircraft") return null;
+
+  const to = getTimelineTime();
+  const from = to - trackHistoryParams.retentionHours * 60 * 60 * 1000;
+
+  if (selected.type === "ship") {
+    const ship = state.ships[selected.index];
+    if (!ship?.mmsi) return null;
+    const history = await fetchUnitTrack("ship", ship.mmsi, from, to);
+    return {
+      unitType: "ship",
+      id: ship.mmsi,
+      name: ship.name,
+      airborne: false,
+      points: history.map((p) => ({ time: p.time, lat: p.lat, lon: p.lon, altitudeM: 0 })),
+    };
+  }
+
+  const ac = state.aircraft[selected.index];
+  const id = ac ? aircraftSelectionId(ac) : "";
+  if (!id) return null;
+  const history = await fetchUnitTrack("aircraft", id, from, to);
+  return {
+    unitType: "aircraft",
+    id,
+    name: ac.callsign,
+    airborne: true,
+    points: history.map((p) => ({ time: p.time, lat: p.lat, lon: p.lon, altitudeM: p.altitude * METERS_PER_FOOT })),
+  };
+}
+
+function shipPoint(ship: ShipState): ExportPoint {
+  return {
+    unitType: "ship",
+    id: ship.mmsi,
+    name: ship.name,
+    lat: ship.lat,
+    lon: ship.lon,
+    altitudeM: 0,
+    properties: {
+      mmsi: ship.mmsi,
+      sog_kn: ship.sog,
+      heading: Math.round(ship.heading),
+      country: ship.country,
+      ship_type: ship.shipType,
+      destination: ship.destination,
+      length_m: ship.length,
+      width_m: ship.width,
+      predicted: ship.predicted || undefined,
+    },
+  };
+}
+
+function aircraftPoint(ac: AircraftState): ExportPoint {
+  return {
+    unitType: "aircraft",
+    id: aircraftSelectionId(ac),
+    name: ac.callsign,
+    lat: ac.lat,
+    lon: ac.lon,
+    altitudeM: ac.altitude * METERS_PER_FOOT,
+    properties: {
+      callsign: ac.callsign,
+      altitude_ft: Math.round(ac.altitude),
+      ground_speed_kn: Math.round(ac.groundSpeed),
+      heading: Math.round(ac.heading),
+      origin_country: ac.originCountry,
+      icao_type: ac.icaoTypeCode,
+      category: ac.aircraftType,
+      flight_phase: ac.flightPhase,
+      predicted: ac.predicted || undefined,
+    },
+  };
+}
+
+function satellitePoint(sat: SatelliteState): ExportPoint {
+  const altitudeKm = sat.altitude * KM_PER_SCENE_UNIT;
+  return {
+    unitType: "satellite",
+    id: sat.satnum || sat.name,
+    name: sat.name,
+    lat: sat.lat,
+    lon: sat.lon,
+    altitudeM: altitudeKm * 1000,
+    properties: {
+      norad_id: sat.satnum,
+      orbit: sat.orbitTypeLabel,
+      altitude_km: Math.round(altitudeKm),
+      inclination_deg: Math.round(sat.inclination * 100) / 100,
+      military: sat.isMilitary,
+    },
+  };
+}
+
+function dronePoint(drone: DroneState): ExportPoint {
+  return {
+    unitType: "drone",
+    id: drone.name,
+    name: drone.name,
+    lat: drone.lat,
+    lon: drone.lon,
+    altitudeM: drone.altitude * KM_PER_SCENE_UNIT * 1000,
+    properties: {
+      heading: Math.round(drone.heading),
+    },
+  };
+}
+
+// =============================================================================
+// DOWNLOAD
+// =============================================================================
+
+function downloadFile(content: string, filename: string, mime: string): void {
+  const blob = new Blob([content], { type: mime });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+
+  URL.revokeObjectURL(url);
+}
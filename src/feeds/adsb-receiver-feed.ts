@@ -0,0 +1,554 @@
+/**
+ * ADS-B Receiver Feed
+ *
+ * Aircraft from a local SDR receiver running dump1090 / readsb. Two inputs:
+ * - "aircraft-json": polls the receiver's aircraft.json over HTTP
+ * - "sbs": SBS-1 BaseStation text stream (port 30003), bridged from TCP by the relay
+ */
+
+import { BaseFeed, DEFAULT_FEED_CONFIG } from "./base-feed";
+import type { AircraftUpdate, FeedConfig, FeedStats } from "./types";
+import type { AircraftState } from "../types";
+import { lookupICAO24, lookupTypecode } from "../data/icao-aircraft";
+import { DEFAULT_RELAY_SERVER, type AdsbInputFormat } from "./shared";
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+export interface AdsbReceiverConfig extends FeedConfig {
+  /** Which receiver output to consume */
+  format: AdsbInputFormat;
+  /** aircraft.json URL (e.g. http://raspberrypi/tar1090/data/aircraft.json) */
+  aircraftJsonUrl: string;
+  /** Receiver host:port for the SBS-1 stream, as seen from the relay */
+  sbsAddress: string;
+  /** WebSocket relay base URL (the /sbs path is appended) */
+  relayUrl: string;
+  /** Drop aircraft without a position report for this long */
+  staleAfterSeconds: number;
+}
+
+const DEFAULT_CONFIG: AdsbReceiverConfig = {
+  ...DEFAULT_FEED_CONFIG,
+  updateRateMs: 1000,
+  maxUnits: 5000,
+  format: "aircraft-json",
+  aircraftJsonUrl: "http://localhost:8080/data/aircraft.json",
+  sbsAddress: "localhost:30003",
+  relayUrl: "", // Calculated in constructor
+  staleAfterSeconds: 60,
+};
+
+// =============================================================================
+// SOURCE FORMATS
+// =============================================================================
+
+/** Entry in aircraft.json (readsb field names, with legacy dump1090 fallbacks) */
+interface ReceiverAircraft {
+  hex: string;
+  flight?: string;
+  lat?: number;
+  lon?: number;
+  /** Barometric altitude in feet, or "ground" */
+  alt_baro?: number | "ground";
+  alt_geom?: number;
+  /** Ground speed in knots */
+  gs?: number;
+  track?: number;
+  /** Seconds since the last position */
+  seen_pos?: number;
+  /** ICAO type designator (readsb with a type database) */
+  t?: string;
+  /** dump1090 legacy fields */
+  altitude?: number | "ground";
+  speed?: number;
+}
+
+interface ReceiverAircraftJson {
+  /** Receiver clock (unix seconds) */
+  now?: number;
+  aircraft?: ReceiverAircraft[];
+}
+
+/** SBS-1 field indices (comma separated, "MSG" records only) */
+const SBS = {
+  MESSAGE_TYPE: 0,
+  TRANSMISSION_TYPE: 1,
+  HEX_IDENT: 4,
+  CALLSIGN: 10,
+  ALTITUDE: 11,
+  GROUND_SPEED: 12,
+  TRACK: 13,
+  LATITUDE: 14,
+  LONGITUDE: 15,
+  IS_ON_GROUND: 21,
+} as const;
+
+/** Aircraft state plus the receiver-side bookkeeping */
+interface ReceiverTrack extends AircraftState {
+  /** True once a position has been decoded (SBS sends position separately) */
+  hasPosition: boolean;
+  onGround: boolean;
+}
+
+// =============================================================================
+// FEED IMPLEMENTATION
+// =============================================================================
+
+export class AdsbReceiverFeed extends BaseFeed<AircraftUpdate, AircraftState> {
+  readonly id = "adsb-receiver";
+  readonly name = "ADS-B Receiver";
+  readonly type = "aircraft" as const;
+
+  protected _config: AdsbReceiverConfig;
+  protected _units: Map<string, ReceiverTrack> = new Map();
+  private _socket: WebSocket | null = null;
+  private _reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+  private _fetchError: string | null = null;
+  private _consecutiveErrors: number = 0;
+  private _fetchInFlight: boolean = false;
+  private _isDirty: boolean = false;
+  private _manuallyClosed: boolean = false;
+  /** Partial SBS line carried over between socket messages */
+  private _sbsBuffer: string = "";
+  /** Hex idents updated by SBS since the last tick */
+  private _pendingIds: Set<string> = new Set();
+
+  constructor(config: Partial<AdsbReceiverConfig> = {}) {
+    super();
+    this._config = { ...DEFAULT_CONFIG, ...config };
+
+    if (!config.relayUrl) {
+      const baseRelay = import.meta.env.VITE_RELAY_SERVER;
+      this._config.relayUrl = baseRelay && typeof baseRelay === "string"
+        ? baseRelay.replace(/\/$/, "")
+        : DEFAULT_RELAY_SERVER;
+    }
+  }
+
+  get config(): AdsbReceiverConfig {
+    return { ...this._config };
+  }
+
+  get lastError(): string | null {
+    return this._fetchError;
+  }
+
+  /**
+   * Change input format or endpoints. Reconnects if running.
+   */
+  setSource(source: Partial<Pick<AdsbReceiverConfig, "format" | "aircraftJsonUrl" | "sbsAddress">>): void {
+    const wasRunning = this._running;
+    if (wasRunning) this.stop();
+    this._config = { ...this._config, ...source };
+    if (wasRunning) this.start();
+  }
+
+  start(): void {
+    if (this._running) return;
+    super.start();
+    this._manuallyClosed = false;
+
+    if (this._config.format === "sbs") {
+      this.connect();
+    } else {
+      this.poll();
+    }
+  }
+
+  stop(): void {
+    this._manuallyClosed = true;
+    if (this._reconnectTimeout) {
+      clearTimeout(this._reconnectTimeout);
+      this._reconnectTimeout = null;
+    }
+    if (this._socket) {
+      this._socket.onopen = null;
+      this._socket.onmessage = null;
+      this._socket.onerror = null;
+      this._socket.onclose = null;
+
+      this._socket.close();
+      this._socket = null;
+    }
+    super.stop();
+  }
+
+  getStats(): FeedStats {
+    return {
+      messagesPerSec: this._messagesPerSec,
+      totalMessages: this._totalMessages,
+      ...this.getLatencyStats(),
+      reconnects: this._reconnectCount,
+      lastUpdateTime: this._lastUpdateTime,
+      activeUnits: this._units.size,
+      status: this._fetchError ? "disconnected" : (this._running ? "connected" : "disconnected"),
+    };
+  }
+
+  protected initializeUnits(): void {
+    this._units.clear();
+    this._pendingIds.clear();
+    this._sbsBuffer = "";
+    this._fetchError = null;
+    this._consecutiveErrors = 0;
+  }
+
+  protected tick(): void {
+    if (this._config.format === "sbs") {
+      this.flushSbsUpdates();
+    } else {
+      this.poll();
+    }
+  }
+
+  // ===========================================================================
+  // AIRCRAFT.JSON
+  // ===========================================================================
+
+  private async poll(): Promise<void> {
+    if (this._fetchInFlight) return;
+    this._fetchInFlight = true;
+
+    try {
+      const response = await fetch(this._config.aircraftJsonUrl, { cache: "no-store" });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+      const data: ReceiverAircraftJson = await response.json();
+      if (!this._running) return;
+
+      this._fetchError = null;
+      this._consecutiveErrors = 0;
+      this.processAircraftJson(data, performance.now());
+    } catch (err) {
+      this._consecutiveErrors++;
+      this._fetchError = err instanceof Error ? err.message : "Fetch failed";
+      if (this._consecutiveErrors === 1) {
+        console.error(`[${this.id}] aircraft.json fetch failed:`, err);
+      }
+    } finally {
+      this._fetchInFlight = false;
+    }
+  }
+
+  private processAircraftJson(data: ReceiverAircraftJson, timestamp: number): void {
+    const updates: AircraftUpdate[] = [];
+    const seenIds = new Set<string>();
+    const nowUnix = Date.now() / 1000;
+    const receiverNow = data.now ?? nowUnix;
+
+    for (const entry of data.aircraft ?? []) {
+      if (entry.lat === undefined || entry.lon === undefined) continue;
+      if (entry.seen_pos !== undefined && entry.seen_pos > this._config.staleAfterSeconds) continue;
+
+      const altitude = entry.alt_baro ?? entry.altitude;
+      if (altitude === "ground") continue;
+
+      const hex = entry.hex.replace(/^~/, "").toLowerCase();
+      const aircraft = this.getOrCreateTrack(hex, entry.t);
+      aircraft.hasPosition = true;
+      aircraft.onGround = false;
+      aircraft.lat = entry.lat;
+      aircraft.lon = entry.lon;
+      aircraft.heading = entry.track ?? aircraft.heading;
+      aircraft.groundSpeed = entry.gs ?? entry.speed ?? aircraft.groundSpeed;
+      if (entry.flight?.trim()) aircraft.callsign = entry.flight.trim();
+      this.setAltitude(aircraft, altitude ?? entry.alt_geom ?? aircraft.altitude);
+
+      aircraft.apiTimestamp = receiverNow - (entry.seen_pos ?? 0);
+      if (entry.seen_pos !== undefined) this.recordLatency(entry.seen_pos * 1000);
+      aircraft.lastUpdate = nowUnix;
+
+      seenIds.add(hex);
+      updates.push(this.toUpdate(hex, aircraft, timestamp));
+    }
+
+    // aircraft.json is a full snapshot - anything missing has left coverage
+    for (const hex of this._units.keys()) {
+      if (!seenIds.has(hex)) this._units.delete(hex);
+    }
+
+    this.enforceMaxUnits();
+    this._isDirty = true;
+    this.emit(updates);
+  }
+
+  // ===========================================================================
+  // SBS-1 (BaseStation)
+  // ===========================================================================
+
+  private connect(): void {
+    if (this._socket) return;
+    if (this._manuallyClosed) return;
+
+    const url = `${this._config.relayUrl}/sbs?target=${encodeURIComponent(this._config.sbsAddress)}`;
+    console.log(`[${this.id}] Connecting to ${url}...`);
+
+    this._socket = new WebSocket(url);
+
+    this._socket.onopen = () => {
+      console.log(`[${this.id}] Connected to relay`);
+      this._fetchError = null;
+      this._consecutiveErrors = 0;
+    };
+
+    this._socket.onmessage = (event) => {
+      if (typeof event.data !== "string") return;
+      this.processSbsChunk(event.data);
+    };
+
+    this._socket.onclose = (event) => {
+      if (this._manuallyClosed) return;
+
+      console.log(`[${this.id}] Disconnected:`, event.code, event.reason);
+      this._socket = null;
+      this._fetchError = "Disconnected";
+
+      if (this._running) {
+        this._consecutiveErrors++;
+        const delay = Math.min(5000 * Math.pow(2, this._consecutiveErrors - 1), 60000);
+        console.log(`[${this.id}] Reconnecting in ${delay / 1000}s...`);
+        this._reconnectTimeout = setTimeout(() => {
+          this._reconnectTimeout = null;
+          this._reconnectCount++;
+          this.connect();
+        }, delay);
+      }
+    };
+
+    this._socket.onerror = (error) => {
+      if (this._manuallyClosed) return;
+      console.error(`[${this.id}] WebSocket error:`, error);
+      this._fetchError = "Connection error";
+    };
+  }
+
+  /**
+   * Split a stream chunk into lines; the trailing partial line waits for the next chunk.
+   */
+  private processSbsChunk(chunk: string): void {
+    const lines = (this._sbsBuffer + chunk).split(/\r?\n/);
+    this._sbsBuffer = lines.pop() ?? "";
+
+    for (const line of lines) {
+      this.processSbsLine(line);
+    }
+  }
+
+  private processSbsLine(line: string): void {
+    const fields = line.split(",");
+    if (fields[SBS.MESSAGE_TYPE] !== "MSG" || fields.length < 11) return;
+
+    const hex = fields[SBS.HEX_IDENT]?.replace(/^~/, "").toLowerCase();
+    if (!hex) return;
+
+    const aircraft = this.getOrCreateTrack(hex);
+    const num = (index: number): number | undefined => {
+      const value = fields[index];
+      if (value === undefined || value === "") return undefined;
+      const parsed = Number(value);
+      return Number.isFinite(parsed) ? parsed : undefined;
+    };
+
+    const callsign = fields[SBS.CALLSIGN]?.trim();
+    if (callsign) aircraft.callsign = callsign;
+
+    const altitude = num(SBS.ALTITUDE);
+    if (altitude !== undefined) this.setAltitude(aircraft, altitude);
+
+    const groundSpeed = num(SBS.GROUND_SPEED);
+    if (groundSpeed !== undefined) aircraft.groundSpeed = groundSpeed;
+
+    const track = num(SBS.TRACK);
+    if (track !== undefined) aircraft.heading = track;
+
+    const onGround = fields[SBS.IS_ON_GROUND];
+    if (onGround !== undefined && onGround !== "") {
+      // BaseStation writes -1 for true, some decoders write 1
+      aircraft.onGround = onGround === "-1" || onGround === "1";
+    }
+
+    const lat = num(SBS.LATITUDE);
+    const lon = num(SBS.LONGITUDE);
+    if (lat !== undefined && lon !== undefined) {
+      const nowUnix = Date.now() / 1000;
+      aircraft.lat = lat;
+      aircraft.lon = lon;
+      aircraft.hasPosition = true;
+      aircraft.apiTimestamp = nowUnix;
+      aircraft.lastUpdate = nowUnix;
+    }
+
+    if (aircraft.hasPosition) this._pendingIds.add(hex);
+  }
+
+  /**
+   * Emit SBS changes since the last tick and drop aircraft that went quiet.
+   */
+  private flushSbsUpdates(): void {
+    const nowUnix = Date.now() / 1000;
+    let removed = false;
+
+    for (const [hex, aircraft] of this._units) {
+      const lastPosition = aircraft.lastUpdate ?? 0;
+      // Tracks that never got a position expire on the same clock from creation
+      if (nowUnix - lastPosition > this._config.staleAfterSeconds) {
+        this._units.delete(hex);
+        this._pendingIds.delete(hex);
+        removed = true;
+      }
+    }
+
+    const timestamp = performance.now();
+    const updates: AircraftUpdate[] = [];
+    for (const hex of this._pendingIds) {
+      const aircraft = this._units.get(hex);
+      if (!aircraft || aircraft.onGround) continue;
+      updates.push(this.toUpdate(hex, aircraft, timestamp));
+    }
+    this._pendingIds.clear();
+
+    this.enforceMaxUnits();
+    if (updates.length > 0 || removed) this._isDirty = true;
+    this.emit(updates);
+  }
+
+  // ===========================================================================
+  // SHARED
+  // ===========================================================================
+
+  /**
+   * Find a track by hex ident, creating it with ICAO24/typecode enrichment.
+   */
+  private getOrCreateTrack(hex: string, typeHint?: string): ReceiverTrack {
+    let aircraft = this._units.get(hex);
+    if (aircraft) return aircraft;
+
+    const icaoTypecode = typeHint || lookupICAO24(hex);
+    const typeInfo = icaoTypecode ? lookupTypecode(icaoTypecode) : undefined;
+
+    aircraft = {
+      lat: 0,
+      lon: 0,
+      heading: 0,
+      altitude: 0,
+      groundSpeed: 0,
+      callsign: hex.toUpperCase(),
+      icao24: hex,
+      originCountry: "Unknown",
+      aircraftType: typeInfo?.category,
+      icaoTypeCode: icaoTypecode,
+      scale: 1.0,
+      flightLevel: 0,
+      altitudeTrend: 0,
+      targetHeading: 0,
+      baseSpeed: 0,
+      baseTurnRate: 0,
+      nextCourseChange: 0,
+      lastUpdate: Date.now() / 1000,
+      hasPosition: false,
+      onGround: false,
+    };
+    this._units.set(hex, aircraft);
+    return aircraft;
+  }
+
+  private setAltitude(aircraft: ReceiverTrack, altitudeFeet: number): void {
+    const roundedAlt = Math.round(altitudeFeet);
+    if (aircraft.prevAltitude !== undefined && roundedAlt !== aircraft.prevAltitude) {
+      aircraft.altitudeTrend = roundedAlt > aircraft.prevAltitude ? 1 : -1;
+    }
+    aircraft.prevAltitude = roundedAlt;
+    aircraft.altitude = altitudeFeet;
+    aircraft.flightLevel = Math.floor(altitudeFeet / 100);
+  }
+
+  private toUpdate(hex: string, aircraft: ReceiverTrack, timestamp: number): AircraftUpdate {
+    return {
+      callsign: hex,
+      lat: aircraft.lat,
+      lon: aircraft.lon,
+      heading: aircraft.heading,
+      altitude: aircraft.altitude,
+      groundSpeed: aircraft.groundSpeed,
+      timestamp,
+    };
+  }
+
+  private enforceMaxUnits(): void {
+    if (this._units.size <= this._config.maxUnits) return;
+
+    const toRemove = this._units.size - this._config.maxUnits;
+    const entries = Array.from(this._units.keys());
+    for (let i = 0; i < toRemove; i++) {
+      this._units.delete(entries[i]);
+    }
+  }
+
+  /**
+   * Copy positioned, airborne tracks into the state array.
+   */
+  syncToState(stateArray: AircraftState[]): boolean {
+    if (!this._isDirty) return false;
+    this._isDirty = false;
+
+    let i = 0;
+    for (const aircraft of this._units.values()) {
+      if (!aircraft.hasPosition || aircraft.onGround) continue;
+
+      if (i >= stateArray.length) {
+        stateArray.push({
+          lat: aircraft.lat,
+          lon: aircraft.lon,
+          heading: aircraft.heading,
+          altitude: aircraft.altitude,
+          groundSpeed: aircraft.groundSpeed,
+          callsign: aircraft.callsign,
+          icao24: aircraft.icao24,
+          originCountry: aircraft.originCountry,
+          aircraftType: aircraft.aircraftType,
+          icaoTypeCode: aircraft.icaoTypeCode,
+          scale: aircraft.scale,
+          flightLevel: aircraft.flightLevel,
+          apiTimestamp: aircraft.apiTimestamp,
+          lastUpdate: aircraft.lastUpdate,
+          altitudeTrend: aircraft.altitudeTrend,
+          prevAltitude: aircraft.prevAltitude,
+          targetHeading: aircraft.heading,
+          baseSpeed: 0,
+          baseTurnRate: 0,
+          nextCourseChange: 0,
+        });
+      } else {
+        const target = stateArray[i];
+        target.lat = aircraft.lat;
+        target.lon = aircraft.lon;
+        target.heading = aircraft.heading;
+        target.altitude = aircraft.altitude;
+        target.groundSpeed = aircraft.groundSpeed;
+        target.callsign = aircraft.callsign;
+        target.icao24 = aircraft.icao24;
+        target.originCountry = aircraft.originCountry;
+        target.aircraftType = aircraft.aircraftType;
+        target.icaoTypeCode = aircraft.icaoTypeCode;
+        target.flightLevel = aircraft.flightLevel;
+        target.apiTimestamp = aircraft.apiTimestamp;
+        target.lastUpdate = aircraft.lastUpdate;
+        target.altitudeTrend = aircraft.altitudeTrend;
+        target.prevAltitude = aircraft.prevAltitude;
+      }
+      i++;
+    }
+    stateArray.length = i;
+    return true;
+  }
+
+  get aircraftCount(): number {
+    return this._units.size;
+  }
+
+  protected getUnitId(unit: AircraftState): string {
+    return unit.callsign;
+  }
+}
@@ -1,20 +1,26 @@
 /**
  * Aircraft Feed Controller
  *
- * Manages switching between simulated and live (OpenSky) aircraft feeds.
+ * Manages switching between simulated and live aircraft feeds. Live data comes
+ * from OpenSky (via the relay) or a local ADS-B receiver, per aircraftFeedParams.source.
  * Provides a clean interface for the GUI and app to control feed behavior.
  */
 
 import * as THREE from "three";
 import { SimulatedAircraftFeed } from "./simulated-aircraft-feed";
 import { OpenSkyRelayFeed } from "./opensky-relay-feed";
+import { AdsbReceiverFeed } from "./adsb-receiver-feed";
 import type { AircraftUpdate } from "./types";
-import { state } from "../state";
+import type { AisSarReport } from "./ais-feed";
+import type { AircraftState } from "../types";
+import { state, aircraftSelectionId } from "../state";
+import { getCountryFromMMSI } from "../data/mmsi-mid";
 import { aircraftFeedParams } from "./shared";
-import type { FeedMode, CoverageMode, AircraftFeedParams } from "./shared";
+import type { FeedMode, CoverageMode, AircraftFeedParams, AircraftLiveSource, AdsbInputFormat } from "./shared";
 import { updateLiveIndicator } from "./shared";
+import { sessionRecorder } from "./session-recorder";
 
-export type { FeedMode, CoverageMode, AircraftFeedParams };
+export type { FeedMode, CoverageMode, AircraftFeedParams, AircraftLiveSource, AdsbInputFormat };
 export { aircraftFeedParams };
 
 // =============================================================================
@@ -22,8 +28,9 @@ export { aircraftFeedParams };
 // =============================================================================
 
 let simulatedFeed: SimulatedAircraftFeed | null = null;
-let liveFeed: OpenSkyRelayFeed | null = null;
-let activeFeed: SimulatedAircraftFeed | OpenSkyRelayFeed | null = null;
+let openSkyFeed: OpenSkyRelayFeed | null = null;
+let adsbFeed: AdsbReceiverFeed | null = null;
+let activeFeed: SimulatedAircraftFeed | OpenSkyRelayFeed | AdsbReceiverFeed | null = null;
 
 // Dependencies
 let cameraRef: THREE.Camera | null = null;
@@ -60,18 +67,33 @@ export function initAircraftFeedController(deps: FeedControllerDependencies): vo
     updateRateMs: 100,
   });
 
-  // Create live feed (uses relay server - no credentials needed client-side)
-  liveFeed = new OpenSkyRelayFeed({
+  // Create live feeds (OpenSky uses relay server - no credentials needed client-side)
+  openSkyFeed = new OpenSkyRelayFeed({
     interpolatePositions: aircraftFeedParams.interpolation,
   });
+  adsbFeed = new AdsbReceiverFeed({
+    format: aircraftFeedParams.adsbFormat,
+    aircraftJsonUrl: aircraftFeedParams.adsbJsonUrl,
+    sbsAddress: aircraftFeedParams.adsbSbsAddress,
+  });
 
   // Register update handlers
   simulatedFeed.onUpdate(handleAircraftUpdates);
-  liveFeed.onUpdate(handleAircraftUpdates);
+  openSkyFeed.onUpdate(handleAircraftUpdates);
+  adsbFeed.onUpdate(handleAircraftUpdates);
+  sessionRecorder.attach(openSkyFeed);
+  sessionRecorder.attach(adsbFeed);
 
   console.log("[AircraftFeedController] Initialized (using relay server for live data)");
 }
 
+/**
+ * Live feed for the selected source.
+ */
+function getLiveFeed(): OpenSkyRelayFeed | AdsbReceiverFeed | null {
+  return aircraftFeedParams.source === "adsb" ? adsbFeed : openSkyFeed;
+}
+
 // =============================================================================
 // FEED SWITCHING
 // =============================================================================
@@ -87,7 +109,9 @@ export function startAircraftFeed(): void {
 
     // Clear existing state and index
     state.aircraft.length = 0;
+    liveAircraft.length = 0;
     aircraftIndex.clear();
+    appendedSar = [];
 
     simulatedFeed.setConfig({ maxUnits: aircraftFeedParams.simulatedCount });
     // Set activeFeed BEFORE start() so handleAircraftUpdates can access full unit state
@@ -104,13 +128,18 @@ export function startAircraftFeed(): void {
     updateLiveIndicator();
     console.log("[AircraftFeedController] Started simulated feed");
   } else {
+    const liveFeed = getLiveFeed();
     if (!liveFeed) return;
 
     // Clear existing state and index
     state.aircraft.length = 0;
+    liveAircraft.length = 0;
     aircraftIndex.clear();
+    appendedSar = [];
 
-    liveFeed.setInterpolation(aircraftFeedParams.interpolation);
+    if (liveFeed === openSkyFeed) {
+      openSkyFeed.setInterpolation(aircraftFeedParams.interpolation);
+    }
     // Set activeFeed BEFORE start() for consistency
     activeFeed = liveFeed;
     liveFeed.start();
@@ -123,7 +152,7 @@ export function startAircraftFeed(): void {
     }
 
     updateLiveIndicator();
-    console.log("[AircraftFeedController] Started live feed");
+    console.log(`[AircraftFeedController] Started live feed (${liveFeed.name})`);
   }
 }
 
@@ -134,8 +163,11 @@ export function stopAircraftFeed(): void {
   if (simulatedFeed?.isRunning()) {
     simulatedFeed.stop();
   }
-  if (liveFeed?.isRunning()) {
-    liveFeed.stop();
+  if (openSkyFeed?.isRunning()) {
+    openSkyFeed.stop();
+  }
+  if (adsbFeed?.isRunning()) {
+    adsbFeed.stop();
   }
   activeFeed = null;
   aircraftFeedParams.status = "stopped";
@@ -156,6 +188,34 @@ export function setFeedMode(mode: FeedMode): void {
   }
 }
 
+/**
+ * Switch the live aircraft source (OpenSky or local ADS-B receiver).
+ */
+export function setAircraftLiveSource(source: AircraftLiveSource): void {
+  if (source === aircraftFeedParams.source) return;
+
+  aircraftFeedParams.source = source;
+  aircraftFeedParams.lastError = "";
+
+  // Restart only if the live feed is what's running
+  if (activeFeed && aircraftFeedParams.mode === "live") {
+    startAircraftFeed();
+  }
+}
+
+/**
+ * Configure the ADS-B receiver input. Reconnects if the receiver feed is running.
+ */
+export function setAdsbSource(format: AdsbInputFormat, jsonUrl: string, sbsAddress: string): void {
+  aircraftFeedParams.adsbFormat = format;
+  aircraftFeedParams.adsbJsonUrl = jsonUrl;
+  aircraftFeedParams.adsbSbsAddress = sbsAddress;
+
+  if (adsbFeed) {
+    adsbFeed.setSource({ format, aircraftJsonUrl: jsonUrl, sbsAddress });
+  }
+}
+
 /**
  * Set coverage mode for live feed.
  * Note: Relay server always sends global data, filtering is done client-side if needed.
@@ -171,8 +231,8 @@ export function setCoverageMode(coverage: CoverageMode): void {
 export function setInterpolation(enabled: boolean): void {
   aircraftFeedParams.interpolation = enabled;
 
-  if (liveFeed) {
-    liveFeed.setInterpolation(enabled);
+  if (openSkyFeed) {
+    openSkyFeed.setInterpolation(enabled);
   }
 }
 
@@ -200,6 +260,7 @@ function handleAircraftUpdates(updates: AircraftUpdate[]): void {
   // If we're in live mode, syncLiveFeedState handles the state updates 
   // every frame for all aircraft. We don't want to duplicate that here
   // or mess up the indices managed by syncToState.
+  const liveFeed = getLiveFeed();
   if (activeFeed === liveFeed && liveFeed) {
     const error = liveFeed.lastError;
     aircraftFeedParams.lastError = error || "";
@@ -228,6 +289,133 @@ function handleAircraftUpdates(updates: AircraftUpdate[]): void {
   }
 }
 
+// =============================================================================
+// AIS SAR AIRCRAFT
+// =============================================================================
+
+/** SAR aircraft report every 10s; drop them after this long without one */
+const SAR_STALE_MS = 5 * 60 * 1000;
+
+/** Search-and-rescue aircraft reported over AIS (message 9), keyed by callsign */
+const sarAircraft = new Map<string, AircraftState & { receivedAt: number }>();
+/** SAR aircraft were added or dropped since the last merge */
+let sarMembershipChanged = false;
+/** SAR positions changed since the last merge */
+let sarMoved = false;
+/** The SAR aircraft currently at the end of state.aircraft, in order */
+let appendedSar: AircraftState[] = [];
+
+/**
+ * The live feed syncs into its own array, so its length check only counts its
+ * own aircraft; state.aircraft is this followed by the SAR aircraft.
+ */
+const liveAircraft: AircraftState[] = [];
+
+/**
+ * Insert or update SAR aircraft from the AIS feed. They are appended to the
+ * aircraft layer in simulated and live mode.
+ */
+export function updateSarAircraft(reports: AisSarReport[]): void {
+  const now = Date.now();
+  for (const report of reports) {
+    const callsign = `SAR ${report.mmsi}`;
+    const altitudeFeet = report.altitude * 3.28084;
+    let aircraft = sarAircraft.get(callsign);
+    if (!aircraft) {
+      aircraft = {
+        lat: report.lat,
+        lon: report.lon,
+        heading: report.heading,
+        altitude: altitudeFeet,
+        groundSpeed: report.sog,
+        callsign,
+        originCountry: getCountryFromMMSI(report.mmsi) || "Unknown",
+        aircraftType: "SAR",
+        scale: 1.0,
+        flightLevel: Math.floor(altitudeFeet / 100),
+        altitudeTrend: 0,
+        targetHeading: report.heading,
+        baseSpeed: 0,
+        baseTurnRate: 0,
+        nextCourseChange: 0,
+        receivedAt: now,
+      };
+      sarAircraft.set(callsign, aircraft);
+      sarMembershipChanged = true;
+    } else {
+      const roundedAlt = Math.round(altitudeFeet);
+      if (aircraft.prevAltitude !== undefined && roundedAlt !== aircraft.prevAltitude) {
+        aircraft.altitudeTrend = roundedAlt > aircraft.prevAltitude ? 1 : -1;
+      }
+      aircraft.prevAltitude = roundedAlt;
+      aircraft.lat = report.lat;
+      aircraft.lon = report.lon;
+      aircraft.heading = report.heading;
+      aircraft.altitude = altitudeFeet;
+      aircraft.groundSpeed = report.sog;
+      aircraft.flightLevel = Math.floor(altitudeFeet / 100);
+      aircraft.receivedAt = now;
+    }
+    aircraft.lastUpdate = now / 1000;
+  }
+  if (reports.length > 0) sarMoved = true;
+}
+
+export function clearSarAircraft(): void {
+  sarAircraft.clear();
+  sarMembershipChanged = true;
+}
+
+/**
+ * Point the head of state.aircraft at the live feed's aircraft, rebuilding
+ * the layer only when the feed added, dropped or replaced aircraft.
+ */
+function syncLiveAircraft(): void {
+  const layer = state.aircraft;
+  let same = layer.length === liveAircraft.length + appendedSar.length;
+  for (let i = 0; same && i < liveAircraft.length; i++) {
+    same = layer[i] === liveAircraft[i];
+  }
+  if (same) return;
+
+  layer.length = 0;
+  for (const aircraft of liveAircraft) layer.push(aircraft);
+  appendedSar = [];
+  sarMembershipChanged = true;
+}
+
+/**
+ * Keep the SAR aircraft at the end of state.aircraft, after the feed's own.
+ * The SAR objects are placed in the layer directly, so reports move them in
+ * place. Returns true if the aircraft buffers need a GPU update.
+ */
+function mergeSarAircraft(): boolean {
+  const now = Date.now();
+  for (const [callsign, aircraft] of sarAircraft) {
+    if (now - aircraft.receivedAt > SAR_STALE_MS) {
+      sarAircraft.delete(callsign);
+      sarMembershipChanged = true;
+    }
+  }
+
+  // Regenerated demo data replaces the whole array, dropping the SAR tail
+  const layer = state.aircraft;
+  const start = layer.length - appendedSar.length;
+  const intact = start >= 0 && appendedSar.every((aircraft, i) => layer[start + i] === aircraft);
+  if (intact && !sarMembershipChanged) {
+    const moved = sarMoved;
+    sarMoved = false;
+    return moved;
+  }
+
+  layer.length = intact ? start : layer.length;
+  appendedSar = Array.from(sarAircraft.values());
+  for (const aircraft of appendedSar) layer.push(aircraft);
+  sarMembershipChanged = false;
+  sarMoved = false;
+  return true;
+}
+
 // =============================================================================
 // CLEANUP
 // =============================================================================
@@ -243,6 +431,13 @@ export function cleanupStaleAircraft(maxAgeMs: number = 60000): void {
   // when they're no longer in the API response
 }
 
+/**
+ * The feed currently driving the aircraft layer (simulated or live), if any.
+ */
+export function getActiveAircraftFeed(): SimulatedAircraftFeed | OpenSkyRelayFeed | AdsbReceiverFeed | null {
+  return activeFeed;
+}
+
 /**
  * Get current feed statistics.
  */
@@ -269,21 +464,28 @@ export function syncLiveFeedState(): void {
     const stats = simulatedFeed.getStats();
     aircraftFeedParams.trackedCount = stats.activeUnits;
     aircraftFeedParams.msgRate = stats.messagesPerSec;
+
+    if (mergeSarAircraft() && onAttributesUpdate) {
+      onAttributesUpdate();
+    }
     return;
   }
 
+  const liveFeed = getLiveFeed();
   if (aircraftFeedParams.mode !== "live" || !liveFeed) return;
 
-  // Sync interpolated positions directly to state array
+  // Sync interpolated positions into the live array (shared with state.aircraft)
   // Returns true only if positions actually changed
-  const needsGpuUpdate = liveFeed.syncToState(state.aircraft);
+  const feedChanged = liveFeed.syncToState(liveAircraft);
+  if (feedChanged) syncLiveAircraft();
+  const needsGpuUpdate = mergeSarAircraft() || feedChanged;
   const stats = liveFeed.getStats();
   aircraftFeedParams.trackedCount = state.aircraft.length;
   aircraftFeedParams.msgRate = stats.messagesPerSec;
 
   // Update selected unit index if it's an aircraft (indices may have shifted)
   if (state.selectedUnit?.type === "aircraft" && state.selectedUnit.id) {
-    const newIndex = state.aircraft.findIndex(a => a.callsign === state.selectedUnit!.id);
+    const newIndex = state.aircraft.findIndex(a => aircraftSelectionId(a) === state.selectedUnit!.id);
     if (newIndex >= 0) {
       state.selectedUnit.index = newIndex;
     } else {
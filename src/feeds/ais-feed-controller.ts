@@ -6,10 +6,15 @@
 
 import { feedManager } from "./feed-manager";
 import { SimulatedShipFeed } from "./simulated-ship-feed";
-import { AISStreamFeed, type AISFeedConfig } from "./ais-feed";
+import { AISStreamFeed, type AISFeedConfig, type AisAuxiliaryUpdate } from "./ais-feed";
 import { state } from "../state";
 import { aisFeedParams, updateLiveIndicator, DEFAULT_RELAY_SERVER } from "./shared";
+import type { AISLiveSource } from "./shared";
 import { initTrailHistory } from "../units/trails";
+import { sessionRecorder } from "./session-recorder";
+import { updateSarAircraft, clearSarAircraft } from "./aircraft-feed-controller";
+import { pushSafetyMessages } from "./ais-safety";
+import { updateAisStations, clearAisStations } from "../scene/ais-stations";
 
 let isLive = false;
 let simulatedFeed: SimulatedShipFeed | null = null;
@@ -43,20 +48,8 @@ export function initAISFeedController(params: {
   }
 
   if (!feedManager.getShipFeed("ais-live")) {
-    // Construct relay URL:
-    // 1. VITE_RELAY_SERVER (Base URL) -> append /ais
-    // 2. DEFAULT_RELAY_SERVER -> append /ais
-    let relayUrl = "";
-    const baseRelay = import.meta.env.VITE_RELAY_SERVER;
-
-    if (baseRelay && typeof baseRelay === 'string') {
-      relayUrl = `${baseRelay.replace(/\/$/, '')}/ais`;
-    } else {
-      relayUrl = `${DEFAULT_RELAY_SERVER}/ais`;
-    }
-
     liveFeed = new AISStreamFeed({
-      relayUrl,
+      relayUrl: getRelayUrl(aisFeedParams.source),
       maxUnits: 50000,
       updateRateMs: 100,
     });
@@ -64,6 +57,52 @@ export function initAISFeedController(params: {
   } else {
     liveFeed = feedManager.getShipFeed("ais-live") as AISStreamFeed;
   }
+
+  sessionRecorder.attach(liveFeed);
+  liveFeed.onAuxiliaryUpdate(handleAisAuxiliaryUpdate);
+}
+
+/**
+ * Route non-vessel AIS reports: stations to their marker layer, SAR aircraft
+ * to the aircraft layer, safety broadcasts to the alert panel. Runtime AIS
+ * sources report through here too.
+ */
+export function handleAisAuxiliaryUpdate(update: AisAuxiliaryUpdate) {
+  const now = Date.now();
+  updateAisStations(update.stations.map((station) => ({ ...station, lastUpdate: now })));
+  updateSarAircraft(update.sar);
+  pushSafetyMessages(update.safety);
+}
+
+/**
+ * Relay endpoint for a live source:
+ * 1. VITE_RELAY_SERVER (Base URL) -> append /ais or /nmea
+ * 2. DEFAULT_RELAY_SERVER -> append /ais or /nmea
+ */
+function getRelayUrl(source: AISLiveSource): string {
+  const path = source === "nmea" ? "/nmea" : "/ais";
+  const baseRelay = import.meta.env.VITE_RELAY_SERVER;
+
+  if (baseRelay && typeof baseRelay === 'string') {
+    return `${baseRelay.replace(/\/$/, '')}${path}`;
+  }
+  return `${DEFAULT_RELAY_SERVER}${path}`;
+}
+
+/**
+ * Switch the live AIS input between aisstream.io and raw NMEA receivers
+ */
+export function setAISLiveSource(source: AISLiveSource) {
+  aisFeedParams.source = source;
+  if (!liveFeed) return;
+
+  // Reconnects the worker if live; otherwise takes effect on the next switch to live
+  if (isLive) {
+    state.ships.length = 0;
+    clearAisStations();
+    clearSarAircraft();
+  }
+  liveFeed.setRelayUrl(getRelayUrl(source));
 }
 
 /**
@@ -131,6 +170,8 @@ export function setAISFeedMode(mode: "simulated" | "live") {
     
     liveFeed.stop();
     simulatedFeed.start();
+    clearAisStations();
+    clearSarAircraft();
     
     if (onVisibilityChange) onVisibilityChange(true);
     
@@ -139,10 +180,24 @@ export function setAISFeedMode(mode: "simulated" | "live") {
   }
 }
 
+/**
+ * Stop both AIS feeds (used while a recorded session is replaying)
+ */
+export function stopAISFeed() {
+  simulatedFeed?.stop();
+  liveFeed?.stop();
+  isLive = false;
+  clearAisStations();
+  clearSarAircraft();
+}
+
 /**
  * Sync live feed state to GPU
  */
 export function syncAISFeedState() {
+    // Replay controller (or runtime sources) own ship state and status
+    if (aisFeedParams.mode === "replay" || aisFeedParams.mode === "sources") return;
+
     // Periodically update UI stats (every ~1s)
     const now = performance.now();
     if (!statsInterval || now - statsInterval > 1000) {
@@ -179,6 +234,13 @@ export function syncAISFeedState() {
     }
 }
 
+/**
+ * The feed currently driving the ship layer (simulated or live), if any.
+ */
+export function getActiveAISFeed(): SimulatedShipFeed | AISStreamFeed | null {
+    return isLive ? liveFeed : simulatedFeed;
+}
+
 export function getAISFeedStats() {
     if (isLive && liveFeed) return liveFeed.getStats();
     if (simulatedFeed) return simulatedFeed.getStats();
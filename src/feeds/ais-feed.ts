@@ -1,8 +1,9 @@
 /**
  * AIS Stream Data Feed
  *
- * Real-time ship data from AISStream.io via WebSocket.
- * Uses a Web Worker to handle the connection and JSON parsing.
+ * Real-time ship data from AISStream.io via WebSocket, or raw NMEA AIVDM
+ * sentences from our own receivers (relay /nmea endpoint).
+ * Uses a Web Worker to handle the connection, decoding and JSON parsing.
  */
 
 import { BaseFeed, DEFAULT_FEED_CONFIG } from "./base-feed";
@@ -19,6 +20,50 @@ export interface AISFeedConfig extends FeedConfig {
   relayUrl: string;
 }
 
+// =============================================================================
+// NON-VESSEL REPORTS
+// =============================================================================
+
+/** Aid to navigation (message 21) or base station (message 4) */
+export interface AisStationReport {
+  mmsi: string;
+  kind: "aton" | "base";
+  name: string;
+  lat: number;
+  lon: number;
+  aidType: number;
+  virtual: boolean;
+  offPosition: boolean;
+}
+
+/** SAR aircraft position (message 9) */
+export interface AisSarReport {
+  mmsi: string;
+  lat: number;
+  lon: number;
+  heading: number;
+  /** Knots */
+  sog: number;
+  /** Meters */
+  altitude: number;
+}
+
+/** Safety-related broadcast text (message 14) */
+export interface AisSafetyReport {
+  mmsi: string;
+  name: string;
+  text: string;
+  lat: number;
+  lon: number;
+}
+
+/** Everything the worker decodes that isn't a vessel position */
+export interface AisAuxiliaryUpdate {
+  stations: AisStationReport[];
+  sar: AisSarReport[];
+  safety: AisSafetyReport[];
+}
+
 const DEFAULT_AIS_CONFIG: AISFeedConfig = {
   ...DEFAULT_FEED_CONFIG,
   updateRateMs: 100, // Process worker updates every 100ms
@@ -38,6 +83,7 @@ export class AISStreamFeed extends BaseFeed<ShipUpdate, ShipState> {
   protected _config: AISFeedConfig;
   private _worker: Worker | null = null;
   private _fetchError: string | null = null;
+  private _auxiliaryCallbacks: Set<(update: AisAuxiliaryUpdate) => void> = new Set();
 
   constructor(config: Partial<AISFeedConfig> = {}) {
     super();
@@ -57,6 +103,38 @@ export class AISStreamFeed extends BaseFeed<ShipUpdate, ShipState> {
     return this._fetchError;
   }
 
+  getStats(): FeedStats {
+    return {
+      messagesPerSec: this._messagesPerSec,
+      totalMessages: this._totalMessages,
+      ...this.getLatencyStats(),
+      lastUpdateTime: this._lastUpdateTime,
+      activeUnits: this._units.size,
+      status: this._fetchError ? "disconnected" : (this._running ? "connected" : "disconnected"),
+      reconnects: this._reconnectCount,
+      queueSize: this._lastQueueSize,
+    };
+  }
+
+  /**
+   * Subscribe to non-vessel reports (stations, SAR aircraft, safety text).
+   */
+  onAuxiliaryUpdate(callback: (update: AisAuxiliaryUpdate) => void): void {
+    this._auxiliaryCallbacks.add(callback);
+  }
+
+  /**
+   * Point the worker at a different relay endpoint. Reconnects if running.
+   */
+  setRelayUrl(relayUrl: string): void {
+    if (relayUrl === this._config.relayUrl) return;
+
+    const wasRunning = this._running;
+    if (wasRunning) this.stop();
+    this._config.relayUrl = relayUrl;
+    if (wasRunning) this.start();
+  }
+
   start(): void {
     if (this._running) return;
 
@@ -79,6 +157,16 @@ export class AISStreamFeed extends BaseFeed<ShipUpdate, ShipState> {
     }
   }
 
+  dispose(): void {
+    this.stop();
+    if (this._worker) {
+      this._worker.terminate();
+      this._worker = null;
+    }
+    this._auxiliaryCallbacks.clear();
+    this._units.clear();
+  }
+
   protected tick(): void {
     // Worker pushes updates, we don't pull
   }
@@ -98,8 +186,30 @@ export class AISStreamFeed extends BaseFeed<ShipUpdate, ShipState> {
   }
 
   private handleWorkerMessage(e: MessageEvent): void {
-      const { type, updates, queueSize } = e.data;
-      if (type === 'update' && updates) {
+      const { type, updates, stations, sar, safety, queueSize, latencies, reconnects } = e.data;
+      if (type === 'status') {
+          this._reconnectCount = reconnects;
+          return;
+      }
+      if (type !== 'update') return;
+
+      this._reconnectCount = reconnects ?? this._reconnectCount;
+      for (const latency of latencies ?? []) {
+          this.recordLatency(latency);
+      }
+
+      if (stations?.length || sar?.length || safety?.length) {
+          const auxiliary: AisAuxiliaryUpdate = {
+              stations: (stations || []).map((s: any) => ({ ...s, mmsi: String(s.mmsi) })),
+              sar: (sar || []).map((a: any) => ({ ...a, mmsi: String(a.mmsi) })),
+              safety: (safety || []).map((m: any) => ({ ...m, mmsi: String(m.mmsi) })),
+          };
+          for (const callback of this._auxiliaryCallbacks) {
+              callback(auxiliary);
+          }
+      }
+
+      if (updates?.length) {
           this._lastQueueSize = queueSize || 0;
           
           // 'updates' is an array of objects: { mmsi, lat, lon, heading, sog, name, type, flag }
@@ -137,7 +247,7 @@ export class AISStreamFeed extends BaseFeed<ShipUpdate, ShipState> {
                   if (u.type) ship.shipType = u.type;
                   if (u.dest) ship.destination = u.dest;
                   if (u.len) ship.length = u.len;
-                  if (u.width) ship.width = u.width;
+                  if (u.wid) ship.width = u.wid;
               }
 
               shipUpdates.push({
@@ -0,0 +1,93 @@
+/**
+ * AIS Safety Messages
+ *
+ * Store for safety-related broadcast text (AIS message 14), shown in the
+ * alert panel next to geofence alerts.
+ */
+
+import { getTimelineTime } from "../simulation/timeline";
+
+// =============================================================================
+// TYPES & PARAMETERS
+// =============================================================================
+
+export interface AisSafetyMessage {
+  id: number;
+  /** Timeline time of the latest receipt (unix ms), like geofence alerts */
+  time: number;
+  mmsi: string;
+  /** Sender name if the vessel is known */
+  name: string;
+  text: string;
+  /** Sender position if known (0, 0 otherwise) */
+  lat: number;
+  lon: number;
+}
+
+export interface AisSafetyParams {
+  /** Surface safety broadcasts in the alert panel */
+  enabled: boolean;
+  /** Messages kept (oldest dropped first) */
+  maxMessages: number;
+}
+
+export const aisSafetyParams: AisSafetyParams = {
+  enabled: true,
+  maxMessages: 100,
+};
+
+// =============================================================================
+// STORE
+// =============================================================================
+
+const messages: AisSafetyMessage[] = [];
+let nextMessageId = 1;
+const listeners = new Set<(messages: readonly AisSafetyMessage[]) => void>();
+
+/**
+ * Add received broadcasts. Repeats of the same text from the same sender are
+ * collapsed (stations often rebroadcast on a schedule) and move back to the top.
+ */
+export function pushSafetyMessages(received: Omit<AisSafetyMessage, "id" | "time">[]): void {
+  if (!aisSafetyParams.enabled || received.length === 0) return;
+
+  const time = getTimelineTime();
+  for (const message of received) {
+    const repeatIndex = messages.findIndex((m) => m.mmsi === message.mmsi && m.text === message.text);
+    if (repeatIndex >= 0) {
+      const [repeat] = messages.splice(repeatIndex, 1);
+      repeat.time = time;
+      messages.unshift(repeat);
+      continue;
+    }
+    messages.unshift({ ...message, id: nextMessageId++, time });
+  }
+
+  if (messages.length > aisSafetyParams.maxMessages) {
+    messages.length = aisSafetyParams.maxMessages;
+  }
+  notifyListeners();
+}
+
+/** Messages, newest first */
+export function getSafetyMessages(): readonly AisSafetyMessage[] {
+  return messages;
+}
+
+export function clearSafetyMessages(): void {
+  messages.length = 0;
+  notifyListeners();
+}
+
+/**
+ * Register a callback for new/cleared messages (used by the alert panel).
+ */
+export function onSafetyMessages(listener: (messages: readonly AisSafetyMessage[]) => void): void {
+  listeners.add(listener);
+}
+
+function notifyListeners(): void {
+  for (const listener of listeners) {
+    listener(messages);
+  }
+}
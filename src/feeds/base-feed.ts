@@ -7,6 +7,9 @@
 
 import type { DataFeed, FeedConfig, FeedStats } from "./types";
 
+/** Latency samples kept for avgLatencyMs and its percentiles */
+const LATENCY_SAMPLE_SIZE = 256;
+
 /** Default feed configuration */
 export const DEFAULT_FEED_CONFIG: FeedConfig = {
   enabled: true,
@@ -35,6 +38,9 @@ export abstract class BaseFeed<TUpdate, TState> implements DataFeed<TUpdate, TSt
   protected _lastStatsTime: number = 0;
   protected _messagesPerSec: number = 0;
   protected _lastUpdateTime: number = 0;
+  protected _reconnectCount: number = 0;
+  private _latencySamples: number[] = [];
+  private _latencyNext: number = 0;
 
   constructor(config: Partial<FeedConfig> = {}) {
     this._config = { ...DEFAULT_FEED_CONFIG, ...config };
@@ -167,6 +173,38 @@ export abstract class BaseFeed<TUpdate, TState> implements DataFeed<TUpdate, TSt
     }
   }
 
+  /**
+   * Record the delay between a message's source timestamp and its arrival.
+   * The newest LATENCY_SAMPLE_SIZE samples are kept.
+   */
+  protected recordLatency(latencyMs: number): void {
+    if (!Number.isFinite(latencyMs) || latencyMs < 0) return;
+
+    if (this._latencySamples.length < LATENCY_SAMPLE_SIZE) {
+      this._latencySamples.push(latencyMs);
+    } else {
+      this._latencySamples[this._latencyNext] = latencyMs;
+      this._latencyNext = (this._latencyNext + 1) % LATENCY_SAMPLE_SIZE;
+    }
+  }
+
+  /**
+   * Mean and percentiles of the recorded latencies, for getStats().
+   */
+  protected getLatencyStats(): Pick<FeedStats, "avgLatencyMs" | "latencyP50Ms" | "latencyP95Ms"> {
+    const count = this._latencySamples.length;
+    if (count === 0) return { avgLatencyMs: 0 };
+
+    const sorted = [...this._latencySamples].sort((a, b) => a - b);
+    let sum = 0;
+    for (const sample of sorted) sum += sample;
+    return {
+      avgLatencyMs: sum / count,
+      latencyP50Ms: sorted[Math.floor(count * 0.5)],
+      latencyP95Ms: sorted[Math.min(count - 1, Math.floor(count * 0.95))],
+    };
+  }
+
   /**
    * Get a unique ID for a unit.
    */
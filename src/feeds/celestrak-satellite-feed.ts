@@ -6,9 +6,12 @@
 
 import * as satellite from "satellite.js";
 import { BaseFeed, DEFAULT_FEED_CONFIG } from "./base-feed";
-import type { FeedConfig, FeedStats } from "./types";
+import type { FeedConfig, FeedStats, SatelliteUpdate } from "./types";
 import type { SatelliteState } from "../types";
 import { EARTH_RADIUS } from "../constants";
+import { getTimelineTime } from "../simulation/timeline";
+import type { PassRequest, SatellitePass, GroundTrackPoint } from "../utils/pass-prediction";
+import type { ConjunctionRequest, Conjunction } from "../utils/conjunctions";
 
 // =============================================================================
 // CONFIGURATION
@@ -37,7 +40,22 @@ interface PropagatedSatellite extends SatelliteState {
   satnum: string;
 }
 
-export class CelesTrakSatelliteFeed extends BaseFeed<any, SatelliteState> {
+interface TleLines {
+  line1: string;
+  line2: string;
+}
+
+interface PendingPassRequest {
+  resolve: (passes: SatellitePass[]) => void;
+  onProgress?: (done: number, total: number) => void;
+}
+
+interface PendingConjunctionRequest {
+  resolve: (conjunctions: Conjunction[]) => void;
+  onProgress?: (progress: number) => void;
+}
+
+export class CelesTrakSatelliteFeed extends BaseFeed<SatelliteUpdate, SatelliteState> {
   readonly id = "celestrak-live";
   readonly name = "CelesTrak (Live)";
   readonly type = "satellite" as const;
@@ -52,6 +70,13 @@ export class CelesTrakSatelliteFeed extends BaseFeed<any, SatelliteState> {
   private _isDirty = false;
   private _updateCount: number = 0;
   private _lastRateTime: number = 0;
+  /** TLE lines of the loaded catalogue, by NORAD number */
+  private _tles: Map<string, TleLines> = new Map();
+
+  private _nextRequestId = 1;
+  private _pendingPasses: Map<number, PendingPassRequest> = new Map();
+  private _pendingTracks: Map<number, (points: GroundTrackPoint[]) => void> = new Map();
+  private _pendingConjunctions: Map<number, PendingConjunctionRequest> = new Map();
 
   constructor(config: Partial<CelesTrakFeedConfig> = {}) {
     super();
@@ -86,7 +111,7 @@ export class CelesTrakSatelliteFeed extends BaseFeed<any, SatelliteState> {
     if (this._worker) {
         this._worker.postMessage({
           type: 'propagate',
-          data: { time: Date.now() }
+          data: { time: getTimelineTime() }
         });
     }
   }
@@ -104,6 +129,67 @@ export class CelesTrakSatelliteFeed extends BaseFeed<any, SatelliteState> {
       this._worker = null;
     }
     this._units.clear();
+    for (const pending of this._pendingPasses.values()) pending.resolve([]);
+    for (const resolve of this._pendingTracks.values()) resolve([]);
+    for (const pending of this._pendingConjunctions.values()) pending.resolve([]);
+    this._pendingPasses.clear();
+    this._pendingTracks.clear();
+    this._pendingConjunctions.clear();
+  }
+
+  /**
+   * Predict passes over an observer for the loaded TLEs (runs in the worker).
+   * A newer request supersedes an older one, which resolves with no passes.
+   */
+  predictPasses(request: PassRequest, onProgress?: (done: number, total: number) => void): Promise<SatellitePass[]> {
+    if (!this._worker) return Promise.resolve([]);
+
+    for (const pending of this._pendingPasses.values()) pending.resolve([]);
+    this._pendingPasses.clear();
+
+    const requestId = this._nextRequestId++;
+    return new Promise((resolve) => {
+      this._pendingPasses.set(requestId, { resolve, onProgress });
+      this._worker!.postMessage({ type: 'passes', data: { requestId, request } });
+    });
+  }
+
+  /**
+   * Screen all loaded satellites for close approaches (runs in the worker).
+   * A newer request supersedes an older one, which resolves with no results.
+   */
+  screenConjunctions(request: ConjunctionRequest, onProgress?: (progress: number) => void): Promise<Conjunction[]> {
+    if (!this._worker) return Promise.resolve([]);
+
+    this.cancelConjunctionScreen();
+
+    const requestId = this._nextRequestId++;
+    return new Promise((resolve) => {
+      this._pendingConjunctions.set(requestId, { resolve, onProgress });
+      this._worker!.postMessage({ type: 'conjunctions', data: { requestId, request } });
+    });
+  }
+
+  /**
+   * Stop a running conjunction screen; its promise resolves with no results.
+   */
+  cancelConjunctionScreen(): void {
+    for (const pending of this._pendingConjunctions.values()) pending.resolve([]);
+    this._pendingConjunctions.clear();
+    this._worker?.postMessage({ type: 'cancelConjunctions', data: {} });
+  }
+
+  /**
+   * Sub-satellite points for one satellite between two times.
+   */
+  computeGroundTrack(satnum: string, start: number, end: number, stepMs: number): Promise<GroundTrackPoint[]> {
+    if (!this._worker) return Promise.resolve([]);
+
+    const requestId = this._nextRequestId++;
+    return new Promise((resolve) => {
+      this._pendingTracks.set(requestId, resolve);
+      this._worker!.postMessage({ type: 'groundTrack', data: { requestId, satnum, start, end, stepMs } });
+    });
   }
 
   // Abstract method implementation (unused as we handle updates via worker)
@@ -150,6 +236,7 @@ export class CelesTrakSatelliteFeed extends BaseFeed<any, SatelliteState> {
       target.altitude = unit.altitude;
       target.heading = unit.heading;
       target.name = unit.name;
+      target.satnum = unit.satnum;
       target.isMilitary = unit.isMilitary;
       target.ascendingNode = unit.ascendingNode;
       target.inclination = unit.inclination;
@@ -197,6 +284,7 @@ export class CelesTrakSatelliteFeed extends BaseFeed<any, SatelliteState> {
     
     // Clear existing to ensure sync with worker
     this._units.clear();
+    this._tles.clear();
     
     for (let i = 0; i < lines.length; i++) {
       const line = lines[i].trim();
@@ -231,7 +319,8 @@ export class CelesTrakSatelliteFeed extends BaseFeed<any, SatelliteState> {
         };
 
         this._units.set(satnum, sat);
-        workerInitData.push({ line1, line2, satnum });
+        this._tles.set(satnum, { line1, line2 });
+        workerInitData.push({ line1, line2, satnum, name });
         
         count++;
         i += 1;
@@ -247,11 +336,30 @@ export class CelesTrakSatelliteFeed extends BaseFeed<any, SatelliteState> {
     }
     
     console.log(`[${this.id}] Parsed ${count} satellites`);
+
+    // A recording in progress picks up the new catalogue
+    this.publishCatalogue();
   }
 
   private handleWorkerMessage(e: MessageEvent): void {
     const { type, buffer } = e.data;
-    if (type === 'update' && buffer) {
+    if (type === 'passProgress') {
+      this._pendingPasses.get(e.data.requestId)?.onProgress?.(e.data.done, e.data.total);
+    } else if (type === 'passes') {
+      if (e.data.error) console.error(`[${this.id}] Pass prediction failed:`, e.data.error);
+      this._pendingPasses.get(e.data.requestId)?.resolve(e.data.passes);
+      this._pendingPasses.delete(e.data.requestId);
+    } else if (type === 'conjunctionProgress') {
+      this._pendingConjunctions.get(e.data.requestId)?.onProgress?.(e.data.progress);
+    } else if (type === 'conjunctions') {
+      if (e.data.error) console.error(`[${this.id}] Conjunction screen failed:`, e.data.error);
+      this._pendingConjunctions.get(e.data.requestId)?.resolve(e.data.conjunctions);
+      this._pendingConjunctions.delete(e.data.requestId);
+    } else if (type === 'groundTrack') {
+      if (e.data.error) console.error(`[${this.id}] Ground track failed:`, e.data.error);
+      this._pendingTracks.get(e.data.requestId)?.(e.data.points);
+      this._pendingTracks.delete(e.data.requestId);
+    } else if (type === 'update' && buffer) {
       const data = new Float32Array(buffer);
       let idx = 0;
 
@@ -284,9 +392,50 @@ export class CelesTrakSatelliteFeed extends BaseFeed<any, SatelliteState> {
       if (this._running && this._worker) {
         this._worker.postMessage({
           type: 'propagate',
-          data: { time: Date.now() }
+          data: { time: getTimelineTime() }
         });
       }
     }
   }
+
+  /**
+   * The TLE catalogue with current positions, recorded once when a recording
+   * starts; replays re-propagate it instead of storing positions every frame.
+   */
+  getRecordingSnapshot(): SatelliteUpdate[] {
+    if (!this._running) return [];
+
+    const timestamp = Date.now();
+    const updates: SatelliteUpdate[] = [];
+    for (const unit of this._units.values()) {
+      const tle = this._tles.get(unit.satnum);
+      if (!tle) continue;
+      updates.push({
+        noradId: unit.satnum,
+        name: unit.name,
+        lat: unit.lat,
+        lon: unit.lon,
+        altitude: unit.altitude,
+        heading: unit.heading,
+        orbitType: unit.orbitTypeLabel as SatelliteUpdate["orbitType"],
+        timestamp,
+        tleLine1: tle.line1,
+        tleLine2: tle.line2,
+      });
+    }
+    return updates;
+  }
+
+  /**
+   * Hand a freshly fetched catalogue to onUpdate listeners (e.g. the session recorder).
+   * Callbacks are notified directly so emit() doesn't overwrite the propagation rate stat.
+   */
+  private publishCatalogue(): void {
+    if (this._callbacks.size === 0 || this._units.size === 0) return;
+
+    const updates = this.getRecordingSnapshot();
+    for (const callback of this._callbacks) {
+      callback(updates);
+    }
+  }
 }
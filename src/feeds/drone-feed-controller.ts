@@ -0,0 +1,148 @@
+/**
+ * Drone Feed Controller
+ *
+ * Manages switching between the simulated patrols (demo data animated by
+ * simulation/motion.ts) and live drones from the relay: MAVLink telemetry
+ * or Remote ID broadcasts.
+ */
+
+import { MavlinkDroneFeed } from "./mavlink-drone-feed";
+import { RemoteIdFeed } from "./remote-id-feed";
+import { state } from "../state";
+import { droneFeedParams, updateLiveIndicator } from "./shared";
+import type { DroneFeedMode, DroneLiveSource } from "./shared";
+import { generateDroneData } from "../simulation/demo-data";
+
+let mavlinkFeed: MavlinkDroneFeed | null = null;
+let remoteIdFeed: RemoteIdFeed | null = null;
+let statsInterval = 0;
+
+// Callbacks
+let updateDroneAttributes: (() => void) | null = null;
+let onVisibilityChange: (() => void) | null = null;
+
+/**
+ * Initialize the drone feed controller
+ */
+export function initDroneFeedController(params: {
+  updateDroneAttributes: () => void;
+  onUnitVisibilityChange: () => void;
+}): void {
+  updateDroneAttributes = params.updateDroneAttributes;
+  onVisibilityChange = params.onUnitVisibilityChange;
+  mavlinkFeed = new MavlinkDroneFeed();
+  remoteIdFeed = new RemoteIdFeed();
+}
+
+/**
+ * Get the live feed for the selected source
+ */
+function getLiveFeed(): MavlinkDroneFeed | RemoteIdFeed | null {
+  return droneFeedParams.source === "remoteid" ? remoteIdFeed : mavlinkFeed;
+}
+
+/**
+ * Switch between simulated patrols and live drones
+ */
+export function setDroneFeedMode(mode: DroneFeedMode): void {
+  const liveFeed = getLiveFeed();
+  if (!liveFeed) return;
+
+  droneFeedParams.mode = mode;
+  droneFeedParams.lastError = "";
+  state.drones.length = 0;
+  if (state.selectedUnit?.type === "drone") state.selectedUnit = null;
+
+  if (mode === "live") {
+    console.log("[DroneController] Switching to LIVE feed...");
+    droneFeedParams.status = "Connecting...";
+    droneFeedParams.indicatorStatus = "connecting";
+    liveFeed.start();
+  } else {
+    console.log("[DroneController] Switching to SIMULATED feed...");
+    stopDroneFeed();
+    generateDroneData();
+    droneFeedParams.status = "Simulated";
+    droneFeedParams.indicatorStatus = "simulated";
+  }
+
+  updateLiveIndicator();
+  updateDroneAttributes?.();
+  onVisibilityChange?.();
+}
+
+/**
+ * Stop both live drone feeds (used when runtime sources take over the layer)
+ */
+export function stopDroneFeed(): void {
+  mavlinkFeed?.stop();
+  remoteIdFeed?.stop();
+}
+
+/**
+ * Pick where live drones come from. Restarts the feed if live is running.
+ */
+export function setDroneLiveSource(source: DroneLiveSource): void {
+  if (source === droneFeedParams.source) return;
+
+  droneFeedParams.source = source;
+  if (droneFeedParams.mode !== "live") return;
+
+  // Stop the previous source before setDroneFeedMode starts the new one
+  (source === "remoteid" ? mavlinkFeed : remoteIdFeed)?.stop();
+  setDroneFeedMode("live");
+}
+
+/**
+ * Copy live vehicles into state.drones and refresh stats (call once per frame)
+ */
+export function syncDroneFeedState(): void {
+  const liveFeed = getLiveFeed();
+  if (droneFeedParams.mode !== "live" || !liveFeed) return;
+
+  if (liveFeed.syncToState(state.drones)) {
+    // Indices shift as vehicles come and go; follow the selection by name
+    if (state.selectedUnit?.type === "drone" && state.selectedUnit.id) {
+      const newIndex = state.drones.findIndex((d) => d.name === state.selectedUnit!.id);
+      if (newIndex >= 0) {
+        state.selectedUnit.index = newIndex;
+      } else {
+        state.selectedUnit = null;
+      }
+    }
+    updateDroneAttributes?.();
+  }
+
+  const now = performance.now();
+  if (now - statsInterval < 1000) return;
+  statsInterval = now;
+
+  const stats = liveFeed.getStats();
+  droneFeedParams.trackedCount = state.drones.length;
+  droneFeedParams.msgRate = stats.messagesPerSec;
+
+  if (liveFeed.lastError) {
+    droneFeedParams.status = `Error: ${liveFeed.lastError}`;
+    droneFeedParams.lastError = liveFeed.lastError;
+    droneFeedParams.indicatorStatus = "error";
+  } else if (state.drones.length > 0) {
+    droneFeedParams.status = "Live";
+    droneFeedParams.indicatorStatus = "live";
+  } else {
+    droneFeedParams.status = "Waiting for telemetry...";
+    droneFeedParams.indicatorStatus = "connecting";
+  }
+  updateLiveIndicator();
+}
+
+/**
+ * The live drone feed while the drone layer is in live mode.
+ */
+export function getActiveDroneFeed(): MavlinkDroneFeed | RemoteIdFeed | null {
+  return droneFeedParams.mode === "live" ? getLiveFeed() : null;
+}
+
+export function getDroneFeedStats() {
+  const liveFeed = getLiveFeed();
+  return liveFeed && droneFeedParams.mode === "live" ? liveFeed.getStats() : null;
+}
@@ -0,0 +1,315 @@
+/**
+ * Feed Health Monitor
+ *
+ * Samples every live feed once a second (the built-in feeds and runtime
+ * sources) into rolling time series: message rate, latency percentiles,
+ * reconnects and queue depth. Flags a gap when a feed goes silent for
+ * GAP_THRESHOLD_MS and records how long it lasted. While watched, it also
+ * follows the relay's /health report of dropped messages.
+ */
+
+import type { DataFeed, FeedStats } from "./types";
+import { feedManager } from "./feed-manager";
+import { getFeedSources } from "./feed-source-controller";
+import { getActiveAircraftFeed } from "./aircraft-feed-controller";
+import { getActiveAISFeed } from "./ais-feed-controller";
+import { getActiveDroneFeed } from "./drone-feed-controller";
+import { DEFAULT_RELAY_SERVER } from "./shared";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** A period in which a feed delivered nothing (epoch ms) */
+export interface FeedGap {
+  start: number;
+  /** null while the feed is still silent */
+  end: number | null;
+}
+
+export interface FeedHealth {
+  /** Feed ID for built-in feeds, source ID for runtime sources */
+  key: string;
+  label: string;
+  type: DataFeed<any, any>["type"];
+  status: FeedStats["status"];
+  /** One value per sample, oldest first (NaN where the feed doesn't report it) */
+  messageRate: number[];
+  latencyP50: number[];
+  latencyP95: number[];
+  reconnects: number[];
+  queueDepth: number[];
+  totalReconnects: number;
+  /** Recent gaps, newest last */
+  gaps: FeedGap[];
+}
+
+export interface RelayHealth {
+  connected: boolean;
+  /** Dropped messages per relay path, since the relay started */
+  dropped: Record<string, number>;
+  /** Messages dropped per second, all paths */
+  dropRate: number[];
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+const SAMPLE_INTERVAL_MS = 1000;
+/** Samples kept per series (two minutes) */
+const HISTORY_LENGTH = 120;
+/** Silence longer than this is a gap */
+const GAP_THRESHOLD_MS = 30000;
+const MAX_GAPS = 20;
+const RELAY_RECONNECT_MS = 5000;
+
+// =============================================================================
+// STATE
+// =============================================================================
+
+interface TrackedFeed {
+  health: FeedHealth;
+  feed: DataFeed<any, any>;
+  lastTotal: number;
+  lastReconnects: number;
+  /** When monitoring of this feed began (performance.now) */
+  watchedSince: number;
+}
+
+export const feedHealthParams = {
+  /** Dashboard open; the relay's /health stream is followed only then */
+  dashboard: false,
+};
+
+const tracked = new Map<string, TrackedFeed>();
+const listeners = new Set<() => void>();
+
+const relayHealth: RelayHealth = { connected: false, dropped: {}, dropRate: [] };
+let relaySocket: WebSocket | null = null;
+let relayReconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+let lastDroppedTotal: number | null = null;
+
+let sampleInterval: ReturnType<typeof setInterval> | null = null;
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Start sampling. Gap detection runs from here on, dashboard open or not.
+ */
+export function initFeedHealthMonitor(): void {
+  if (sampleInterval) return;
+  sampleInterval = setInterval(sampleFeeds, SAMPLE_INTERVAL_MS);
+}
+
+export function getFeedHealth(): FeedHealth[] {
+  return Array.from(tracked.values(), (entry) => entry.health);
+}
+
+export function getRelayHealth(): RelayHealth {
+  return relayHealth;
+}
+
+/**
+ * Subscribe to new samples (once a second) and dashboard visibility changes.
+ */
+export function onFeedHealthChanged(listener: () => void): void {
+  listeners.add(listener);
+}
+
+/**
+ * Show or hide the dashboard, following the relay's drop counters while shown.
+ */
+export function setFeedHealthDashboard(visible: boolean): void {
+  feedHealthParams.dashboard = visible;
+  if (visible) {
+    connectRelayHealth();
+  } else {
+    disconnectRelayHealth();
+  }
+  notifyListeners();
+}
+
+// =============================================================================
+// SAMPLING
+// =============================================================================
+
+/**
+ * Feeds that deliver real data right now. Simulated feeds, TLE propagation
+ * and replays have no connection to monitor.
+ */
+function collectLiveFeeds(): Map<string, { label: string; feed: DataFeed<any, any> }> {
+  const feeds = new Map<string, { label: string; feed: DataFeed<any, any> }>();
+  const add = (key: string, label: string, feed: DataFeed<any, any> | null | undefined) => {
+    if (!feed?.isRunning()) return;
+    const status = feed.getStats().status;
+    if (status === "simulated" || status === "replay") return;
+    feeds.set(key, { label, feed });
+  };
+
+  for (const feed of [getActiveAircraftFeed(), getActiveAISFeed(), getActiveDroneFeed()]) {
+    if (feed) add(feed.id, feed.name, feed);
+  }
+  for (const source of getFeedSources()) {
+    add(source.id, source.name, feedManager.getSourceFeed(source.id));
+  }
+  return feeds;
+}
+
+function sampleFeeds(): void {
+  const now = performance.now();
+  const live = collectLiveFeeds();
+
+  // Stopped or replaced feeds leave the dashboard
+  for (const [key, entry] of tracked) {
+    const current = live.get(key);
+    if (!current || current.feed !== entry.feed) tracked.delete(key);
+  }
+
+  for (const [key, { label, feed }] of live) {
+    let entry = tracked.get(key);
+    const stats = feed.getStats();
+    if (!entry) {
+      entry = {
+        health: {
+          key,
+          label,
+          type: feed.type,
+          status: stats.status,
+          messageRate: [],
+          latencyP50: [],
+          latencyP95: [],
+          reconnects: [],
+          queueDepth: [],
+          totalReconnects: 0,
+          gaps: [],
+        },
+        feed,
+        lastTotal: stats.totalMessages,
+        lastReconnects: stats.reconnects ?? 0,
+        watchedSince: now,
+      };
+      tracked.set(key, entry);
+    }
+    sampleFeed(entry, stats, now);
+  }
+
+  if (feedHealthParams.dashboard) {
+    const droppedTotal = Object.values(relayHealth.dropped).reduce((sum, count) => sum + count, 0);
+    pushSample(relayHealth.dropRate, lastDroppedTotal === null ? 0 : Math.max(0, droppedTotal - lastDroppedTotal));
+    lastDroppedTotal = droppedTotal;
+  }
+
+  notifyListeners();
+}
+
+function notifyListeners(): void {
+  for (const listener of listeners) {
+    listener();
+  }
+}
+
+function sampleFeed(entry: TrackedFeed, stats: FeedStats, now: number): void {
+  const { health } = entry;
+  health.label = getFeedSources().find((source) => source.id === health.key)?.name ?? health.label;
+  health.status = stats.status;
+
+  // Rate from the message total: messagesPerSec only refreshes when messages arrive
+  pushSample(health.messageRate, Math.max(0, stats.totalMessages - entry.lastTotal) / (SAMPLE_INTERVAL_MS / 1000));
+  entry.lastTotal = stats.totalMessages;
+
+  pushSample(health.latencyP50, stats.latencyP50Ms ?? NaN);
+  pushSample(health.latencyP95, stats.latencyP95Ms ?? NaN);
+  pushSample(health.queueDepth, stats.queueSize ?? NaN);
+
+  const reconnects = stats.reconnects ?? 0;
+  const newReconnects = Math.max(0, reconnects - entry.lastReconnects);
+  pushSample(health.reconnects, newReconnects);
+  health.totalReconnects += newReconnects;
+  entry.lastReconnects = reconnects;
+
+  // lastUpdateTime shares the performance.now() clock; 0 means nothing received yet
+  const lastMessage = Math.max(stats.lastUpdateTime, entry.watchedSince);
+  const silentMs = now - lastMessage;
+  const openGap = health.gaps.length > 0 ? health.gaps[health.gaps.length - 1] : null;
+
+  if (silentMs >= GAP_THRESHOLD_MS) {
+    if (!openGap || openGap.end !== null) {
+      health.gaps.push({ start: Date.now() - silentMs, end: null });
+      if (health.gaps.length > MAX_GAPS) health.gaps.shift();
+      console.warn(`[FeedHealth] ${health.label} silent for ${Math.round(silentMs / 1000)}s`);
+    }
+  } else if (openGap && openGap.end === null) {
+    openGap.end = Date.now() - silentMs;
+    console.log(`[FeedHealth] ${health.label} resumed after ${formatGapDuration(openGap)}`);
+  }
+}
+
+function pushSample(series: number[], value: number): void {
+  series.push(value);
+  if (series.length > HISTORY_LENGTH) series.shift();
+}
+
+/**
+ * Gap length as "45s" or "3m 20s" (up to now for an open gap).
+ */
+export function formatGapDuration(gap: FeedGap): string {
+  const seconds = Math.round(((gap.end ?? Date.now()) - gap.start) / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+// =============================================================================
+// RELAY HEALTH
+// =============================================================================
+
+function getRelayHealthUrl(): string {
+  const baseRelay = import.meta.env.VITE_RELAY_SERVER;
+  const base = baseRelay && typeof baseRelay === "string" ? baseRelay.replace(/\/$/, "") : DEFAULT_RELAY_SERVER;
+  return `${base}/health`;
+}
+
+function connectRelayHealth(): void {
+  if (relaySocket || !feedHealthParams.dashboard) return;
+
+  relaySocket = new WebSocket(getRelayHealthUrl());
+
+  relaySocket.onopen = () => {
+    relayHealth.connected = true;
+  };
+
+  relaySocket.onmessage = (event) => {
+    try {
+      const report = JSON.parse(event.data);
+      if (report.dropped && typeof report.dropped === "object") relayHealth.dropped = report.dropped;
+    } catch (err) {
+      console.error("[FeedHealth] Bad relay health report:", err);
+    }
+  };
+
+  relaySocket.onclose = () => {
+    relaySocket = null;
+    relayHealth.connected = false;
+    lastDroppedTotal = null;
+    if (!feedHealthParams.dashboard) return;
+    relayReconnectTimeout = setTimeout(() => {
+      relayReconnectTimeout = null;
+      connectRelayHealth();
+    }, RELAY_RECONNECT_MS);
+  };
+}
+
+function disconnectRelayHealth(): void {
+  if (relayReconnectTimeout) {
+    clearTimeout(relayReconnectTimeout);
+    relayReconnectTimeout = null;
+  }
+  if (relaySocket) {
+    relaySocket.onclose = null;
+    relaySocket.close();
+    relaySocket = null;
+  }
+  relayHealth.connected = false;
+  lastDroppedTotal = null;
+}
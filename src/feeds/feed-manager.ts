@@ -4,6 +4,9 @@
  * Coordinates all data feeds and syncs updates to the centralized state arrays.
  * Maintains InstancedMesh optimization by batching updates and using
  * the existing attribute update functions for GPU buffer uploads.
+ *
+ * Runtime sources (see feed-registry.ts) are added with addSource() and
+ * fused per unit type by mergeSources() (see track-fusion.ts).
  */
 
 import type {
@@ -17,7 +20,9 @@ import type {
   AircraftUpdate,
   SatelliteUpdate,
   DroneUpdate,
+  SourceFeed,
 } from "./types";
+import type { FeedUnitType } from "./session-recorder";
 import type {
   ShipState,
   AircraftState,
@@ -25,6 +30,8 @@ import type {
   DroneState,
 } from "../types";
 import { state } from "../state";
+import { TrackFusion } from "./track-fusion";
+import type { FusionSource } from "./track-fusion";
 
 // =============================================================================
 // FEED MANAGER CONFIGURATION
@@ -57,6 +64,21 @@ interface GpuSyncDependencies {
   initTrailHistory: () => void;
 }
 
+// =============================================================================
+// RUNTIME SOURCES
+// =============================================================================
+
+/** A runtime source and the units it last reported */
+interface MergedSource {
+  feed: SourceFeed;
+  /** Display name, listed on the tracks this source contributes to */
+  name: string;
+  units: any[];
+  /** Set when the feed emits new reports; cleared once they are fused */
+  reported: boolean;
+  onUpdate: () => void;
+}
+
 // =============================================================================
 // FEED MANAGER IMPLEMENTATION
 // =============================================================================
@@ -91,6 +113,12 @@ export class FeedManagerImpl implements IFeedManager {
   private _satelliteIndex: Map<string, number> = new Map();
   private _droneIndex: Map<string, number> = new Map();
 
+  // Runtime sources, keyed by source ID (several may share a feed type)
+  private _sources: Map<string, MergedSource> = new Map();
+  /** Unit types whose set of sources changed since the last merge */
+  private _sourcesChanged: Set<FeedUnitType> = new Set();
+  private _fusion: Map<FeedUnitType, TrackFusion> = new Map();
+
   constructor(config: Partial<FeedManagerConfig> = {}) {
     this._config = { ...DEFAULT_CONFIG, ...config };
   }
@@ -131,6 +159,125 @@ export class FeedManagerImpl implements IFeedManager {
     console.log(`[FeedManager] Registered drone feed: ${feed.id}`);
   }
 
+  // ==========================================================================
+  // RUNTIME SOURCES
+  // ==========================================================================
+
+  /**
+   * Add a runtime source. The caller starts the feed; the manager merges it.
+   */
+  addSource(sourceId: string, feed: SourceFeed, name: string = feed.name): void {
+    this.removeSource(sourceId);
+
+    const source: MergedSource = {
+      feed,
+      name,
+      units: [],
+      reported: true,
+      onUpdate: () => {
+        source.reported = true;
+      },
+    };
+    feed.onUpdate(source.onUpdate);
+
+    this._sources.set(sourceId, source);
+    this._sourcesChanged.add(feed.type);
+    console.log(`[FeedManager] Added source ${sourceId}: ${feed.name}`);
+  }
+
+  /**
+   * Stop and remove a runtime source, disposing its feed (sources are
+   * re-created rather than restarted). Its units disappear on the next merge.
+   */
+  removeSource(sourceId: string): void {
+    const source = this._sources.get(sourceId);
+    if (!source) return;
+
+    source.feed.offUpdate(source.onUpdate);
+    if (source.feed.dispose) {
+      source.feed.dispose();
+    } else {
+      source.feed.stop();
+    }
+    this._sources.delete(sourceId);
+    this._sourcesChanged.add(source.feed.type);
+    console.log(`[FeedManager] Removed source ${sourceId}`);
+  }
+
+  /**
+   * Rename a source. Tracks pick the new name up on the next merge.
+   */
+  renameSource(sourceId: string, name: string): void {
+    const source = this._sources.get(sourceId);
+    if (!source) return;
+
+    source.name = name;
+    this._sourcesChanged.add(source.feed.type);
+  }
+
+  getSourceFeed(sourceId: string): SourceFeed | undefined {
+    return this._sources.get(sourceId)?.feed;
+  }
+
+  /**
+   * Whether any runtime source feeds this unit type.
+   */
+  hasSources(type: FeedUnitType): boolean {
+    for (const source of this._sources.values()) {
+      if (source.feed.type === type) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Fuse every source of a unit type into its state array. A unit reported
+   * by several sources appears once, correlated and blended by TrackFusion.
+   * Tracks are only re-correlated when a source has new reports; units moved
+   * in place (e.g. interpolation) just re-blend the fused tracks.
+   * `force` rebuilds the array even if no source changed (e.g. after
+   * something else wrote it). Returns true if the array changed.
+   */
+  mergeSources(type: FeedUnitType, stateArray: any[], force: boolean = false): boolean {
+    let reported = this._sourcesChanged.delete(type) || force;
+    let moved = false;
+
+    for (const source of this._sources.values()) {
+      if (source.feed.type !== type) continue;
+
+      if (source.feed.syncToState) {
+        // Units dropped without an emit still reshuffle the array
+        const count = source.units.length;
+        if (source.feed.syncToState(source.units)) moved = true;
+        if (source.units.length !== count) source.reported = true;
+      } else if (source.reported) {
+        source.units = source.feed.getUnits();
+      }
+      if (source.reported) {
+        source.reported = false;
+        reported = true;
+      }
+    }
+
+    let fusion = this._fusion.get(type);
+    if (!fusion) {
+      fusion = new TrackFusion(type);
+      this._fusion.set(type, fusion);
+    }
+
+    if (!reported) {
+      if (!moved) return false;
+      fusion.refresh();
+      return true;
+    }
+
+    const inputs: FusionSource[] = [];
+    for (const source of this._sources.values()) {
+      if (source.feed.type === type) inputs.push({ name: source.name, units: source.units });
+    }
+    fusion.fuse(inputs, stateArray);
+    return true;
+  }
+
   // ==========================================================================
   // LIFECYCLE
   // ==========================================================================
@@ -203,6 +350,7 @@ export class FeedManagerImpl implements IFeedManager {
               sog: update.sog,
               name: update.name || "Unknown",
               scale: 1.0,
+              lastUpdate: Date.now() / 1000,
               // BaseUnitState defaults
               targetHeading: update.heading,
               baseSpeed: 0,
@@ -217,6 +365,7 @@ export class FeedManagerImpl implements IFeedManager {
         ship.lon = update.lon;
         ship.heading = update.heading;
         ship.sog = update.sog;
+        ship.lastUpdate = Date.now() / 1000;
         if (update.name) ship.name = update.name;
       }
     }
@@ -393,6 +542,9 @@ export class FeedManagerImpl implements IFeedManager {
     for (const feed of this._droneFeeds.values()) {
       stats.set(feed.id, feed.getStats());
     }
+    for (const [sourceId, source] of this._sources) {
+      stats.set(sourceId, source.feed.getStats());
+    }
 
     return stats;
   }
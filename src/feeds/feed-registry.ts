@@ -0,0 +1,248 @@
+/**
+ * Feed Registry
+ *
+ * Feed types that can be added as sources at runtime. Each type declares a
+ * settings schema (used to generate its GUI and to validate saved settings)
+ * and a factory that builds a feed from those settings. Several sources of
+ * the same unit type run side by side and are merged by the feed manager.
+ */
+
+import type { SourceFeed } from "./types";
+import type { FeedUnitType } from "./session-recorder";
+import type { AdsbInputFormat } from "./shared";
+import { DEFAULT_RELAY_SERVER } from "./shared";
+import { AISStreamFeed } from "./ais-feed";
+import { OpenSkyRelayFeed } from "./opensky-relay-feed";
+import { AdsbReceiverFeed } from "./adsb-receiver-feed";
+import { CelesTrakSatelliteFeed } from "./celestrak-satellite-feed";
+import { MavlinkDroneFeed } from "./mavlink-drone-feed";
+import { RemoteIdFeed } from "./remote-id-feed";
+import { ReplayFeed } from "./replay-feed";
+import { loadSession } from "./session-recorder";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type FeedSettingValue = string | number | boolean;
+export type FeedSettings = Record<string, FeedSettingValue>;
+
+/** One configurable setting of a feed type */
+export interface FeedSettingField {
+  key: string;
+  label: string;
+  kind: "text" | "number" | "boolean" | "select";
+  default: FeedSettingValue;
+  /** Label -> value, for "select" fields */
+  options?: Record<string, string>;
+  /** Bounds for "number" fields */
+  min?: number;
+  max?: number;
+  step?: number;
+}
+
+export interface FeedTypeDefinition {
+  /** Registry key, stored with each source */
+  type: string;
+  label: string;
+  unitType: FeedUnitType;
+  schema: FeedSettingField[];
+  /** Build a (stopped) feed from complete, validated settings */
+  create(settings: FeedSettings): SourceFeed | Promise<SourceFeed>;
+}
+
+// =============================================================================
+// REGISTRY
+// =============================================================================
+
+const feedTypes = new Map<string, FeedTypeDefinition>();
+
+export function registerFeedType(definition: FeedTypeDefinition): void {
+  feedTypes.set(definition.type, definition);
+}
+
+export function getFeedType(type: string): FeedTypeDefinition | undefined {
+  return feedTypes.get(type);
+}
+
+/**
+ * Registered feed types, optionally only those for one unit type.
+ */
+export function getFeedTypes(unitType?: FeedUnitType): FeedTypeDefinition[] {
+  const types = Array.from(feedTypes.values());
+  return unitType ? types.filter((definition) => definition.unitType === unitType) : types;
+}
+
+/**
+ * Complete a (possibly partial or stale) settings object against a schema:
+ * unknown keys are dropped, missing or mistyped values fall back to defaults,
+ * numbers are clamped and select values must be one of the options.
+ */
+export function resolveFeedSettings(definition: FeedTypeDefinition, settings: Partial<FeedSettings> = {}): FeedSettings {
+  const resolved: FeedSettings = {};
+  for (const field of definition.schema) {
+    const value = settings[field.key];
+    resolved[field.key] = isValidSetting(field, value) ? clampSetting(field, value) : field.default;
+  }
+  return resolved;
+}
+
+function isValidSetting(field: FeedSettingField, value: FeedSettingValue | undefined): value is FeedSettingValue {
+  switch (field.kind) {
+    case "text":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "select":
+      return typeof value === "string" && Object.values(field.options ?? {}).includes(value);
+  }
+}
+
+function clampSetting(field: FeedSettingField, value: FeedSettingValue): FeedSettingValue {
+  if (field.kind !== "number" || typeof value !== "number") return value;
+  return Math.min(field.max ?? Infinity, Math.max(field.min ?? -Infinity, value));
+}
+
+// =============================================================================
+// BUILT-IN FEED TYPES
+// =============================================================================
+
+/** Relay base URL (VITE_RELAY_SERVER or the default server) */
+function defaultRelayBase(): string {
+  const baseRelay = import.meta.env.VITE_RELAY_SERVER;
+  return baseRelay && typeof baseRelay === "string" ? baseRelay.replace(/\/$/, "") : DEFAULT_RELAY_SERVER;
+}
+
+const relayField = (path: string): FeedSettingField => ({
+  key: "relayUrl",
+  label: "Relay URL",
+  kind: "text",
+  default: `${defaultRelayBase()}${path}`,
+});
+
+registerFeedType({
+  type: "ais-relay",
+  label: "AIS Relay",
+  unitType: "ship",
+  // /ais for aisstream.io, /nmea for our own NMEA receivers
+  schema: [
+    relayField("/ais"),
+    { key: "maxUnits", label: "Max Ships", kind: "number", default: 50000, min: 100, max: 100000, step: 100 },
+  ],
+  create: (settings) => new AISStreamFeed({
+    relayUrl: settings.relayUrl as string,
+    maxUnits: settings.maxUnits as number,
+  }),
+});
+
+registerFeedType({
+  type: "opensky",
+  label: "OpenSky Relay",
+  unitType: "aircraft",
+  schema: [
+    relayField("/opensky"),
+    { key: "interpolatePositions", label: "Interpolate", kind: "boolean", default: true },
+  ],
+  create: (settings) => new OpenSkyRelayFeed({
+    relayUrl: settings.relayUrl as string,
+    interpolatePositions: settings.interpolatePositions as boolean,
+  }),
+});
+
+registerFeedType({
+  type: "adsb-receiver",
+  label: "ADS-B Receiver",
+  unitType: "aircraft",
+  schema: [
+    {
+      key: "format",
+      label: "Format",
+      kind: "select",
+      default: "aircraft-json",
+      options: { "aircraft.json": "aircraft-json", "SBS-1 (TCP)": "sbs" },
+    },
+    { key: "aircraftJsonUrl", label: "JSON URL", kind: "text", default: "http://localhost:8080/data/aircraft.json" },
+    { key: "sbsAddress", label: "SBS Host:Port", kind: "text", default: "localhost:30003" },
+    { key: "staleAfterSeconds", label: "Stale After (s)", kind: "number", default: 60, min: 5, max: 600, step: 5 },
+  ],
+  create: (settings) => new AdsbReceiverFeed({
+    format: settings.format as AdsbInputFormat,
+    aircraftJsonUrl: settings.aircraftJsonUrl as string,
+    sbsAddress: settings.sbsAddress as string,
+    staleAfterSeconds: settings.staleAfterSeconds as number,
+  }),
+});
+
+registerFeedType({
+  type: "celestrak",
+  label: "CelesTrak",
+  unitType: "satellite",
+  schema: [
+    { key: "group", label: "Group", kind: "text", default: "active" },
+    { key: "tleUpdateIntervalMinutes", label: "TLE Refresh (min)", kind: "number", default: 60, min: 5, max: 1440, step: 5 },
+  ],
+  create: (settings) => new CelesTrakSatelliteFeed({
+    group: settings.group as string,
+    tleUpdateIntervalMinutes: settings.tleUpdateIntervalMinutes as number,
+  }),
+});
+
+registerFeedType({
+  type: "mavlink",
+  label: "MAVLink",
+  unitType: "drone",
+  schema: [
+    { ...relayField(""), label: "Relay Base URL" },
+    { key: "staleAfterSeconds", label: "Stale After (s)", kind: "number", default: 30, min: 5, max: 600, step: 5 },
+  ],
+  create: (settings) => new MavlinkDroneFeed({
+    relayUrl: settings.relayUrl as string,
+    staleAfterSeconds: settings.staleAfterSeconds as number,
+  }),
+});
+
+registerFeedType({
+  type: "remote-id",
+  label: "Remote ID",
+  unitType: "drone",
+  schema: [
+    { ...relayField(""), label: "Relay Base URL" },
+    { key: "staleAfterSeconds", label: "Stale After (s)", kind: "number", default: 30, min: 5, max: 600, step: 5 },
+  ],
+  create: (settings) => new RemoteIdFeed({
+    relayUrl: settings.relayUrl as string,
+    staleAfterSeconds: settings.staleAfterSeconds as number,
+  }),
+});
+
+// Archived sessions replay as one source per unit type
+const REPLAY_LABELS: Record<FeedUnitType, string> = {
+  ship: "Replay File (Ships)",
+  aircraft: "Replay File (Aircraft)",
+  satellite: "Replay File (Satellites)",
+  drone: "Replay File (Drones)",
+};
+
+for (const unitType of Object.keys(REPLAY_LABELS) as FeedUnitType[]) {
+  registerFeedType({
+    type: `replay-${unitType}`,
+    label: REPLAY_LABELS[unitType],
+    unitType,
+    schema: [
+      { key: "session", label: "Session", kind: "text", default: "" },
+      { key: "speed", label: "Speed", kind: "number", default: 1, min: 0.25, max: 60, step: 0.25 },
+      { key: "loop", label: "Loop", kind: "boolean", default: true },
+    ],
+    create: async (settings) => {
+      const name = settings.session as string;
+      const session = name ? await loadSession(name) : null;
+      if (!session) throw new Error(name ? `Session "${name}" not found` : "No session selected");
+      return new ReplayFeed(unitType, session, {
+        speed: settings.speed as number,
+        loop: settings.loop as boolean,
+      });
+    },
+  });
+}
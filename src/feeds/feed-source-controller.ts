@@ -0,0 +1,513 @@
+/**
+ * Feed Source Controller
+ *
+ * Runtime-configurable data sources: any number of feeds from the registry
+ * (e.g. two AIS relays plus a replay file), each with its own settings.
+ * While a unit type has an enabled source, its layer is merged from those
+ * sources by the feed manager and the built-in feed for that type is
+ * stopped; removing the last source restores the built-in feed. Sources
+ * persist in localStorage.
+ */
+
+import { feedManager } from "./feed-manager";
+import { getFeedType, resolveFeedSettings } from "./feed-registry";
+import type { FeedSettings } from "./feed-registry";
+import type { FeedUnitType } from "./session-recorder";
+import {
+  aisFeedParams,
+  aircraftFeedParams,
+  satelliteFeedParams,
+  droneFeedParams,
+  replayParams,
+  updateLiveIndicator,
+} from "./shared";
+import type { FeedMode, SatelliteFeedMode, DroneFeedMode } from "./shared";
+import { AISStreamFeed } from "./ais-feed";
+import { setAISFeedMode, stopAISFeed, handleAisAuxiliaryUpdate } from "./ais-feed-controller";
+import { startAircraftFeed, stopAircraftFeed, clearSarAircraft } from "./aircraft-feed-controller";
+import { startSatelliteFeed, stopSatelliteFeed } from "./satellite-feed-controller";
+import { setDroneFeedMode, stopDroneFeed } from "./drone-feed-controller";
+import { stopReplay } from "./replay-controller";
+import { clearAisStations } from "../scene/ais-stations";
+import { state, aircraftSelectionId } from "../state";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** A configured source (what is persisted) */
+export interface FeedSourceConfig {
+  id: string;
+  /** Feed type key in the registry */
+  type: string;
+  name: string;
+  enabled: boolean;
+  settings: FeedSettings;
+}
+
+/** Live status of a source (polled by the GUI) */
+export interface FeedSourceStatus {
+  status: string;
+  trackedCount: number;
+}
+
+export interface FeedSourceDependencies {
+  updateShipAttributes: () => void;
+  updateAircraftAttributes: () => void;
+  updateSatelliteAttributes: () => void;
+  updateDroneAttributes: () => void;
+  /** Called when a layer switches between built-in and merged sources */
+  onUnitVisibilityChange?: () => void;
+}
+
+// =============================================================================
+// STATE
+// =============================================================================
+
+const STORAGE_KEY = "feed-sources";
+const UNIT_TYPES: FeedUnitType[] = ["ship", "aircraft", "satellite", "drone"];
+
+const sources: FeedSourceConfig[] = [];
+const statuses = new Map<string, FeedSourceStatus>();
+const listeners = new Set<() => void>();
+
+/** Bumped on every start/stop so a slow create() can tell it was superseded */
+const startGenerations = new Map<string, number>();
+
+/** Built-in feed modes to restore when a layer's last source goes away */
+const previousModes = new Map<FeedUnitType, FeedMode | SatelliteFeedMode | DroneFeedMode>();
+
+let deps: FeedSourceDependencies | null = null;
+let replayWasActive = false;
+let statsInterval = 0;
+
+// =============================================================================
+// INITIALIZATION
+// =============================================================================
+
+/**
+ * Restore saved sources and start the enabled ones.
+ * Call after the built-in feed controllers are initialized.
+ */
+export function initFeedSourceController(dependencies: FeedSourceDependencies): void {
+  deps = dependencies;
+
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const saved = raw ? (JSON.parse(raw) as FeedSourceConfig[]) : [];
+    for (const config of saved) {
+      const definition = typeof config?.type === "string" ? getFeedType(config.type) : undefined;
+      if (!definition || typeof config.id !== "string") continue;
+      sources.push({
+        id: config.id,
+        type: config.type,
+        name: typeof config.name === "string" ? config.name : definition.label,
+        enabled: config.enabled === true,
+        settings: resolveFeedSettings(definition, config.settings),
+      });
+    }
+  } catch (err) {
+    console.error("[FeedSources] Failed to load saved sources:", err);
+  }
+
+  for (const config of sources) {
+    statuses.set(config.id, { status: "disabled", trackedCount: 0 });
+    if (config.enabled) void startSource(config);
+  }
+  notifyListeners();
+}
+
+// =============================================================================
+// SOURCE MANAGEMENT
+// =============================================================================
+
+export function getFeedSources(): readonly FeedSourceConfig[] {
+  return sources;
+}
+
+export function getFeedSourceStatus(id: string): FeedSourceStatus {
+  let status = statuses.get(id);
+  if (!status) {
+    status = { status: "disabled", trackedCount: 0 };
+    statuses.set(id, status);
+  }
+  return status;
+}
+
+/**
+ * Subscribe to sources being added, removed or renamed.
+ */
+export function onFeedSourcesChanged(listener: () => void): void {
+  listeners.add(listener);
+}
+
+/**
+ * Add a source of a registered feed type with default settings (disabled
+ * until the user enables it).
+ */
+export function addFeedSource(type: string): FeedSourceConfig | null {
+  const definition = getFeedType(type);
+  if (!definition) return null;
+
+  const count = sources.filter((source) => source.type === type).length;
+  const config: FeedSourceConfig = {
+    id: `${type}-${Date.now().toString(36)}`,
+    type,
+    name: count > 0 ? `${definition.label} ${count + 1}` : definition.label,
+    enabled: false,
+    settings: resolveFeedSettings(definition),
+  };
+  sources.push(config);
+  statuses.set(config.id, { status: "disabled", trackedCount: 0 });
+
+  persistSources();
+  notifyListeners();
+  return config;
+}
+
+export function removeFeedSource(id: string): void {
+  const index = sources.findIndex((source) => source.id === id);
+  if (index < 0) return;
+
+  const [config] = sources.splice(index, 1);
+  stopSource(config);
+  statuses.delete(id);
+
+  persistSources();
+  notifyListeners();
+}
+
+export function renameFeedSource(id: string, name: string): void {
+  const config = sources.find((source) => source.id === id);
+  if (!config || !name.trim()) return;
+
+  config.name = name.trim();
+  feedManager.renameSource(id, config.name);
+  persistSources();
+  notifyListeners();
+}
+
+/**
+ * Change some of a source's settings. A running source restarts with them.
+ */
+export function updateFeedSource(id: string, settings: Partial<FeedSettings>): void {
+  const config = sources.find((source) => source.id === id);
+  const definition = config && getFeedType(config.type);
+  if (!config || !definition) return;
+
+  config.settings = resolveFeedSettings(definition, { ...config.settings, ...settings });
+  persistSources();
+
+  if (config.enabled) {
+    stopSource(config, false);
+    void startSource(config);
+  }
+}
+
+export function setFeedSourceEnabled(id: string, enabled: boolean): void {
+  const config = sources.find((source) => source.id === id);
+  if (!config || config.enabled === enabled) return;
+
+  config.enabled = enabled;
+  persistSources();
+
+  if (enabled) {
+    void startSource(config);
+  } else {
+    stopSource(config);
+  }
+}
+
+// =============================================================================
+// START / STOP
+// =============================================================================
+
+async function startSource(config: FeedSourceConfig): Promise<void> {
+  const definition = getFeedType(config.type);
+  if (!definition) return;
+
+  const generation = (startGenerations.get(config.id) ?? 0) + 1;
+  startGenerations.set(config.id, generation);
+  const status = getFeedSourceStatus(config.id);
+  status.status = "starting";
+
+  try {
+    const feed = await definition.create(config.settings);
+    // Disabled, removed or restarted while the feed was being created
+    if (startGenerations.get(config.id) !== generation) {
+      feed.dispose?.();
+      return;
+    }
+
+    claimLayer(definition.unitType);
+    feedManager.addSource(config.id, feed, config.name);
+    if (feed instanceof AISStreamFeed) feed.onAuxiliaryUpdate(handleAisAuxiliaryUpdate);
+    feed.start();
+    status.status = "connecting";
+  } catch (err) {
+    if (startGenerations.get(config.id) !== generation) return;
+    status.status = `error: ${err instanceof Error ? err.message : String(err)}`;
+    console.error(`[FeedSources] Failed to start ${config.name}:`, err);
+
+    // A restart that fails must not leave the layer owned by no source
+    if (!feedManager.hasSources(definition.unitType)) releaseLayer(definition.unitType);
+  }
+}
+
+/**
+ * Stop a source. `releaseIfLast` hands its layer back to the built-in feed
+ * when no other source of that unit type is left.
+ */
+function stopSource(config: FeedSourceConfig, releaseIfLast: boolean = true): void {
+  startGenerations.set(config.id, (startGenerations.get(config.id) ?? 0) + 1);
+
+  feedManager.removeSource(config.id);
+
+  const status = getFeedSourceStatus(config.id);
+  status.status = "disabled";
+  status.trackedCount = 0;
+
+  // From the config: a source whose restart failed has no feed left to ask
+  const unitType = getFeedType(config.type)?.unitType;
+  if (unitType && releaseIfLast && !feedManager.hasSources(unitType)) {
+    releaseLayer(unitType);
+  }
+}
+
+// =============================================================================
+// LAYER OWNERSHIP
+// =============================================================================
+
+function getLayerParams(type: FeedUnitType) {
+  switch (type) {
+    case "ship":
+      return aisFeedParams;
+    case "aircraft":
+      return aircraftFeedParams;
+    case "satellite":
+      return satelliteFeedParams;
+    case "drone":
+      return droneFeedParams;
+  }
+}
+
+function getLayerUnits(type: FeedUnitType): any[] {
+  switch (type) {
+    case "ship":
+      return state.ships;
+    case "aircraft":
+      return state.aircraft;
+    case "satellite":
+      return state.satellites;
+    case "drone":
+      return state.drones;
+  }
+}
+
+/**
+ * Stop the built-in feed for a unit type and let the sources own its layer.
+ */
+function claimLayer(type: FeedUnitType): void {
+  const params = getLayerParams(type);
+  if (params.mode === "sources") return;
+
+  // A session replay owns every layer it plays; end it first
+  if (replayParams.active && type !== "drone") stopReplay();
+
+  previousModes.set(type, params.mode);
+  switch (type) {
+    case "ship":
+      stopAISFeed();
+      break;
+    case "aircraft":
+      stopAircraftFeed();
+      break;
+    case "satellite":
+      stopSatelliteFeed();
+      break;
+    case "drone":
+      stopDroneFeed();
+      break;
+  }
+
+  getLayerUnits(type).length = 0;
+  if (state.selectedUnit?.type === type) state.selectedUnit = null;
+
+  params.mode = "sources";
+  params.status = "Sources";
+  params.indicatorStatus = "connecting";
+  updateLiveIndicator();
+  deps?.onUnitVisibilityChange?.();
+}
+
+/**
+ * Give a unit type's layer back to its built-in feed, in its previous mode.
+ */
+function releaseLayer(type: FeedUnitType): void {
+  const params = getLayerParams(type);
+  if (params.mode !== "sources") return;
+
+  const previous = previousModes.get(type);
+  const mode = previous === "live" ? "live" : "simulated";
+  previousModes.delete(type);
+
+  getLayerUnits(type).length = 0;
+  if (state.selectedUnit?.type === type) state.selectedUnit = null;
+
+  switch (type) {
+    case "ship":
+      // Stations and SAR aircraft reported by the sources go with them
+      clearAisStations();
+      clearSarAircraft();
+      setAISFeedMode(mode);
+      break;
+    case "aircraft":
+      aircraftFeedParams.mode = mode;
+      startAircraftFeed();
+      break;
+    case "satellite":
+      satelliteFeedParams.mode = mode;
+      startSatelliteFeed();
+      break;
+    case "drone":
+      setDroneFeedMode(mode);
+      break;
+  }
+
+  updateLiveIndicator();
+  deps?.onUnitVisibilityChange?.();
+}
+
+// =============================================================================
+// PER-FRAME SYNC
+// =============================================================================
+
+/**
+ * Merge source units into the layers the sources own and refresh statuses.
+ * Call once per frame from the render loop, after the built-in feed syncs.
+ */
+export function syncFeedSourceState(): void {
+  // A session replay owns the ship/aircraft/satellite layers while it runs
+  const replayActive = replayParams.active;
+  const replayEnded = replayWasActive && !replayActive;
+  replayWasActive = replayActive;
+
+  for (const type of UNIT_TYPES) {
+    if (getLayerParams(type).mode !== "sources") continue;
+    if (replayActive && type !== "drone") continue;
+
+    const units = getLayerUnits(type);
+    if (feedManager.mergeSources(type, units, replayEnded)) {
+      followSelection(type, units);
+      updateLayerAttributes(type);
+    }
+  }
+
+  const now = performance.now();
+  if (now - statsInterval < 1000) return;
+  statsInterval = now;
+  updateStatuses();
+}
+
+function updateLayerAttributes(type: FeedUnitType): void {
+  switch (type) {
+    case "ship":
+      deps?.updateShipAttributes();
+      break;
+    case "aircraft":
+      deps?.updateAircraftAttributes();
+      break;
+    case "satellite":
+      deps?.updateSatelliteAttributes();
+      break;
+    case "drone":
+      deps?.updateDroneAttributes();
+      break;
+  }
+}
+
+/**
+ * Indices shift on every merge; keep the selection on the same unit.
+ */
+function followSelection(type: FeedUnitType, units: any[]): void {
+  const selected = state.selectedUnit;
+  if (!selected?.id || selected.type !== type) return;
+
+  const index = units.findIndex((unit) => {
+    switch (type) {
+      case "ship":
+        return unit.mmsi === selected.id;
+      case "aircraft":
+        return aircraftSelectionId(unit) === selected.id;
+      case "satellite":
+      case "drone":
+        return unit.name === selected.id;
+    }
+  });
+  if (index >= 0) {
+    selected.index = index;
+  } else {
+    state.selectedUnit = null;
+  }
+}
+
+function updateStatuses(): void {
+  const layerState = new Map<FeedUnitType, { live: boolean; error: boolean; msgRate: number }>();
+
+  for (const config of sources) {
+    const feed = feedManager.getSourceFeed(config.id);
+    if (!feed) continue;
+
+    const status = getFeedSourceStatus(config.id);
+    const stats = feed.getStats();
+    status.trackedCount = stats.activeUnits;
+    if (feed.lastError) {
+      status.status = `error: ${feed.lastError}`;
+    } else if (stats.activeUnits > 0) {
+      status.status = stats.status === "replay" ? "replay" : "live";
+    } else {
+      status.status = "connecting";
+    }
+
+    const layer = layerState.get(feed.type) ?? { live: false, error: false, msgRate: 0 };
+    layer.live ||= stats.activeUnits > 0;
+    layer.error ||= !!feed.lastError;
+    layer.msgRate += stats.messagesPerSec;
+    layerState.set(feed.type, layer);
+  }
+
+  let indicatorChanged = false;
+  for (const type of UNIT_TYPES) {
+    const params = getLayerParams(type);
+    const layer = layerState.get(type);
+    if (params.mode !== "sources" || !layer) continue;
+
+    const indicatorStatus = layer.live ? "live" : (layer.error ? "error" : "connecting");
+    params.trackedCount = getLayerUnits(type).length;
+    params.msgRate = layer.msgRate;
+    params.status = layer.error && layer.live ? "Sources (some failing)" : "Sources";
+    if (params.indicatorStatus !== indicatorStatus) {
+      params.indicatorStatus = indicatorStatus;
+      indicatorChanged = true;
+    }
+  }
+  if (indicatorChanged) updateLiveIndicator();
+}
+
+// =============================================================================
+// PERSISTENCE
+// =============================================================================
+
+function persistSources(): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(sources));
+  } catch (err) {
+    console.error("[FeedSources] Failed to save sources:", err);
+  }
+}
+
+function notifyListeners(): void {
+  for (const listener of listeners) {
+    listener();
+  }
+}
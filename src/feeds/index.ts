@@ -59,11 +59,56 @@ export type { DroneFeedConfig } from "./simulated-drone-feed";
 export { OpenSkyRelayFeed } from "./opensky-relay-feed";
 export type { OpenSkyRelayConfig } from "./opensky-relay-feed";
 
+export { AdsbReceiverFeed } from "./adsb-receiver-feed";
+export type { AdsbReceiverConfig } from "./adsb-receiver-feed";
+
+export { MavlinkDroneFeed } from "./mavlink-drone-feed";
+export type { MavlinkDroneFeedConfig } from "./mavlink-drone-feed";
+export { RemoteIdFeed } from "./remote-id-feed";
+export type { RemoteIdFeedConfig } from "./remote-id-feed";
+
 export { CelesTrakSatelliteFeed } from "./celestrak-satellite-feed";
 export type { CelesTrakFeedConfig } from "./celestrak-satellite-feed";
 
 export { AISStreamFeed } from "./ais-feed";
-export type { AISFeedConfig } from "./ais-feed";
+export type {
+  AISFeedConfig,
+  AisStationReport,
+  AisSarReport,
+  AisSafetyReport,
+  AisAuxiliaryUpdate,
+} from "./ais-feed";
+
+export {
+  aisSafetyParams,
+  pushSafetyMessages,
+  getSafetyMessages,
+  clearSafetyMessages,
+  onSafetyMessages,
+} from "./ais-safety";
+export type { AisSafetyMessage, AisSafetyParams } from "./ais-safety";
+
+// Session record & replay
+export { ReplayFeed } from "./replay-feed";
+export type { ReplayFeedConfig } from "./replay-feed";
+
+export {
+  SessionRecorder,
+  sessionRecorder,
+  saveSession,
+  loadSession,
+  listSessions,
+  deleteSession,
+  exportSessionFile,
+  importSessionFile,
+} from "./session-recorder";
+export type {
+  RecordedBatch,
+  RecordedSession,
+  SessionSummary,
+  SessionRecorderConfig,
+  FeedUnitType,
+} from "./session-recorder";
 
 // Feed manager
 export { FeedManagerImpl, feedManager } from "./feed-manager";
@@ -80,8 +125,12 @@ export {
   stopAircraftFeed,
   setFeedMode,
   setCoverageMode,
+  setAircraftLiveSource,
+  setAdsbSource,
   setInterpolation,
   setSimulatedCount,
+  updateSarAircraft,
+  clearSarAircraft,
   getFeedStats,
   syncLiveFeedState,
 } from "./aircraft-feed-controller";
@@ -96,6 +145,11 @@ export {
   getSatelliteFeedStats,
   syncSatelliteFeedState,
   setSimulatedSatelliteCount,
+  hasLiveTLEs,
+  predictSatellitePasses,
+  computeSatelliteGroundTrack,
+  screenSatelliteConjunctions,
+  cancelSatelliteConjunctionScreen,
 } from "./satellite-feed-controller";
 export type { SatelliteFeedDependencies } from "./satellite-feed-controller";
 
@@ -104,7 +158,81 @@ export {
   initAISFeedController,
   startAISFeed,
   setAISFeedMode,
+  setAISLiveSource,
   getAISFeedStats,
   syncAISFeedState,
   setSimulatedShipCount,
-} from "./ais-feed-controller";
\ No newline at end of file
+  stopAISFeed,
+} from "./ais-feed-controller";
+
+// Drone feed controller
+export {
+  initDroneFeedController,
+  setDroneFeedMode,
+  setDroneLiveSource,
+  stopDroneFeed,
+  syncDroneFeedState,
+  getDroneFeedStats,
+} from "./drone-feed-controller";
+
+// Feed registry (runtime-configurable source types)
+export {
+  registerFeedType,
+  getFeedType,
+  getFeedTypes,
+  resolveFeedSettings,
+} from "./feed-registry";
+export type {
+  FeedSettingValue,
+  FeedSettings,
+  FeedSettingField,
+  FeedTypeDefinition,
+} from "./feed-registry";
+
+// Feed source controller
+export {
+  initFeedSourceController,
+  getFeedSources,
+  getFeedSourceStatus,
+  onFeedSourcesChanged,
+  addFeedSource,
+  removeFeedSource,
+  renameFeedSource,
+  updateFeedSource,
+  setFeedSourceEnabled,
+  syncFeedSourceState,
+} from "./feed-source-controller";
+export type {
+  FeedSourceConfig,
+  FeedSourceStatus,
+  FeedSourceDependencies,
+} from "./feed-source-controller";
+
+// Feed health monitor (rolling per-feed series, gap detection, relay drops)
+export {
+  feedHealthParams,
+  initFeedHealthMonitor,
+  getFeedHealth,
+  getRelayHealth,
+  onFeedHealthChanged,
+  setFeedHealthDashboard,
+  formatGapDuration,
+} from "./feed-health";
+export type { FeedGap, FeedHealth, RelayHealth } from "./feed-health";
+
+// Replay controller
+export {
+  initReplayController,
+  startRecording,
+  stopRecording,
+  exportSession,
+  getArchivedSessionNames,
+  startReplay,
+  replayArchivedSession,
+  importAndReplaySession,
+  stopReplay,
+  setReplaySpeed,
+  setReplayLoop,
+  syncReplayState,
+} from "./replay-controller";
+export type { ReplayControllerDependencies } from "./replay-controller";
\ No newline at end of file
@@ -0,0 +1,484 @@
+/**
+ * MAVLink Drone Feed
+ *
+ * Real UAS telemetry: autopilots (or a ground station forwarding them) send
+ * MAVLink over UDP to the relay, which passes each datagram to /mavlink.
+ * Vehicles are keyed by MAVLink system ID. Besides position and attitude, the
+ * feed maps mission and sensor state onto DroneState so the selection visuals
+ * show real geometry:
+ * - target: camera ground point (CAMERA_FOV_STATUS), else the active mission
+ *   waypoint, else the guided-mode position target
+ * - patrol circle: the active loiter item's center and radius
+ */
+
+import { BaseFeed, DEFAULT_FEED_CONFIG } from "./base-feed";
+import type { DroneUpdate, FeedConfig, FeedStats } from "./types";
+import type { DroneState } from "../types";
+import { DEFAULT_RELAY_SERVER } from "./shared";
+import { MavlinkDecoder, isGlobalFrame, type MavlinkMessage, type MavlinkMissionItem } from "../utils/mavlink";
+import { droneDisplayAltitude } from "../utils/coordinates";
+import { EARTH_RADIUS, DRONE_ALTITUDE_MIN, MAX_DRONES } from "../constants";
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+export interface MavlinkDroneFeedConfig extends FeedConfig {
+  /** WebSocket relay base URL (the /mavlink path is appended) */
+  relayUrl: string;
+  /** Drop vehicles without a position report for this long */
+  staleAfterSeconds: number;
+  /** Camera ground points older than this fall back to the mission target */
+  sensorAimTimeoutSeconds: number;
+}
+
+const DEFAULT_CONFIG: MavlinkDroneFeedConfig = {
+  ...DEFAULT_FEED_CONFIG,
+  updateRateMs: 250,
+  maxUnits: MAX_DRONES,
+  relayUrl: "", // Calculated in constructor
+  staleAfterSeconds: 30,
+  sensorAimTimeoutSeconds: 5,
+};
+
+/** MAV_TYPE_GCS - heartbeats from ground stations, not vehicles */
+const MAV_TYPE_GCS = 6;
+
+/** Loiter MAV_CMDs and the param holding their radius (meters, negative = counter-clockwise) */
+const LOITER_RADIUS_PARAM: Record<number, number> = {
+  17: 2, // NAV_LOITER_UNLIM
+  18: 2, // NAV_LOITER_TURNS
+  19: 2, // NAV_LOITER_TIME
+  31: 1, // NAV_LOITER_TO_ALT
+};
+
+/** Used when a loiter item leaves the radius to the autopilot default */
+const DEFAULT_LOITER_RADIUS_M = 80;
+
+const METERS_TO_SCENE = EARTH_RADIUS / 6371000;
+const MPS_TO_KNOTS = 1.94384;
+
+/** Vehicle state plus the telemetry needed to derive target and patrol */
+interface MavlinkVehicle extends DroneState {
+  hasPosition: boolean;
+  /** Attitude yaw in degrees, for when GLOBAL_POSITION_INT has no heading */
+  yaw: number | null;
+  missionItems: Map<number, MavlinkMissionItem>;
+  sensorAimAt: number;
+  sensorLat: number;
+  sensorLon: number;
+  guidedLat: number;
+  guidedLon: number;
+}
+
+// =============================================================================
+// FEED IMPLEMENTATION
+// =============================================================================
+
+export class MavlinkDroneFeed extends BaseFeed<DroneUpdate, DroneState> {
+  readonly id = "mavlink-drones";
+  readonly name = "MAVLink UAS";
+  readonly type = "drone" as const;
+
+  protected _config: MavlinkDroneFeedConfig;
+  protected _units: Map<string, MavlinkVehicle> = new Map();
+  private _socket: WebSocket | null = null;
+  private _reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+  private _decoder = new MavlinkDecoder();
+  private _lastError: string | null = null;
+  private _consecutiveErrors: number = 0;
+  private _isDirty: boolean = false;
+  private _manuallyClosed: boolean = false;
+  /** System IDs that identified themselves as ground stations */
+  private _groundStations: Set<number> = new Set();
+  /** Vehicle IDs updated since the last tick */
+  private _pendingIds: Set<string> = new Set();
+
+  constructor(config: Partial<MavlinkDroneFeedConfig> = {}) {
+    super();
+    this._config = { ...DEFAULT_CONFIG, ...config };
+
+    if (!config.relayUrl) {
+      const baseRelay = import.meta.env.VITE_RELAY_SERVER;
+      this._config.relayUrl = baseRelay && typeof baseRelay === "string"
+        ? baseRelay.replace(/\/$/, "")
+        : DEFAULT_RELAY_SERVER;
+    }
+  }
+
+  get config(): MavlinkDroneFeedConfig {
+    return { ...this._config };
+  }
+
+  get lastError(): string | null {
+    return this._lastError;
+  }
+
+  start(): void {
+    if (this._running) return;
+    super.start();
+    this._manuallyClosed = false;
+    this.connect();
+  }
+
+  stop(): void {
+    this._manuallyClosed = true;
+    if (this._reconnectTimeout) {
+      clearTimeout(this._reconnectTimeout);
+      this._reconnectTimeout = null;
+    }
+    if (this._socket) {
+      this._socket.onopen = null;
+      this._socket.onmessage = null;
+      this._socket.onerror = null;
+      this._socket.onclose = null;
+
+      this._socket.close();
+      this._socket = null;
+    }
+    super.stop();
+  }
+
+  getStats(): FeedStats {
+    return {
+      messagesPerSec: this._messagesPerSec,
+      totalMessages: this._totalMessages,
+      ...this.getLatencyStats(),
+      reconnects: this._reconnectCount,
+      lastUpdateTime: this._lastUpdateTime,
+      activeUnits: this._units.size,
+      status: this._lastError ? "disconnected" : (this._running ? "connected" : "disconnected"),
+    };
+  }
+
+  protected initializeUnits(): void {
+    this._units.clear();
+    this._pendingIds.clear();
+    this._groundStations.clear();
+    this._decoder.reset();
+    this._lastError = null;
+    this._consecutiveErrors = 0;
+  }
+
+  protected getUnitId(unit: DroneState): string {
+    return unit.name;
+  }
+
+  // ===========================================================================
+  // CONNECTION
+  // ===========================================================================
+
+  private connect(): void {
+    if (this._socket) return;
+    if (this._manuallyClosed) return;
+
+    const url = `${this._config.relayUrl}/mavlink`;
+    console.log(`[${this.id}] Connecting to ${url}...`);
+
+    this._socket = new WebSocket(url);
+    this._socket.binaryType = "arraybuffer";
+
+    this._socket.onopen = () => {
+      console.log(`[${this.id}] Connected to relay`);
+      this._lastError = null;
+      this._consecutiveErrors = 0;
+    };
+
+    this._socket.onmessage = (event) => {
+      if (!(event.data instanceof ArrayBuffer)) return;
+      // Each message is one whole UDP datagram, so nothing carries over
+      this._decoder.reset();
+      for (const message of this._decoder.decode(new Uint8Array(event.data))) {
+        this.processMessage(message);
+      }
+    };
+
+    this._socket.onclose = (event) => {
+      if (this._manuallyClosed) return;
+
+      console.log(`[${this.id}] Disconnected:`, event.code, event.reason);
+      this._socket = null;
+      this._lastError = "Disconnected";
+
+      if (this._running) {
+        this._consecutiveErrors++;
+        const delay = Math.min(5000 * Math.pow(2, this._consecutiveErrors - 1), 60000);
+        console.log(`[${this.id}] Reconnecting in ${delay / 1000}s...`);
+        this._reconnectTimeout = setTimeout(() => {
+          this._reconnectTimeout = null;
+          this._reconnectCount++;
+          this.connect();
+        }, delay);
+      }
+    };
+
+    this._socket.onerror = (error) => {
+      if (this._manuallyClosed) return;
+      console.error(`[${this.id}] WebSocket error:`, error);
+      this._lastError = "Connection error";
+    };
+  }
+
+  // ===========================================================================
+  // MESSAGE HANDLING
+  // ===========================================================================
+
+  private processMessage(message: MavlinkMessage): void {
+    switch (message.type) {
+      case "HEARTBEAT":
+        if (message.vehicleType === MAV_TYPE_GCS) this._groundStations.add(message.systemId);
+        return;
+
+      case "GLOBAL_POSITION_INT": {
+        const vehicle = this.getOrCreateVehicle(message.systemId);
+        vehicle.lat = message.lat;
+        vehicle.lon = message.lon;
+        vehicle.altitudeMeters = message.altitudeMsl;
+        vehicle.altitude = droneDisplayAltitude(message.altitudeMsl);
+        vehicle.groundSpeed = Math.hypot(message.vx, message.vy) * MPS_TO_KNOTS;
+        vehicle.heading = message.heading
+          ?? vehicle.yaw
+          ?? normalizeDegrees(Math.atan2(message.vy, message.vx) * (180 / Math.PI));
+        vehicle.hasPosition = true;
+        vehicle.lastUpdate = Date.now() / 1000;
+        this.markPending(vehicle);
+        return;
+      }
+
+      case "ATTITUDE": {
+        const vehicle = this._units.get(vehicleId(message.systemId));
+        if (!vehicle) return;
+        vehicle.roll = message.roll * (180 / Math.PI);
+        vehicle.pitch = message.pitch * (180 / Math.PI);
+        vehicle.yaw = normalizeDegrees(message.yaw * (180 / Math.PI));
+        return;
+      }
+
+      case "MISSION_CURRENT": {
+        const vehicle = this._units.get(vehicleId(message.systemId));
+        if (!vehicle) return;
+        vehicle.missionSeq = message.seq;
+        this.markPending(vehicle);
+        return;
+      }
+
+      case "MISSION_ITEM_INT": {
+        // Only the flight plan; fence and rally points use the same message
+        if (message.missionType !== 0) return;
+        // Uploads come from the ground station and name the vehicle as target
+        const owner = this.isGroundStation(message.systemId) ? message.targetSystem : message.systemId;
+        const vehicle = this.getOrCreateVehicle(owner);
+        vehicle.missionItems.set(message.seq, message);
+        this.markPending(vehicle);
+        return;
+      }
+
+      case "POSITION_TARGET_GLOBAL_INT": {
+        const vehicle = this._units.get(vehicleId(message.systemId));
+        if (!vehicle) return;
+        vehicle.guidedLat = message.lat;
+        vehicle.guidedLon = message.lon;
+        this.markPending(vehicle);
+        return;
+      }
+
+      case "CAMERA_FOV_STATUS": {
+        const vehicle = this._units.get(vehicleId(message.systemId));
+        if (!vehicle || message.imageLat === null || message.imageLon === null) return;
+        vehicle.sensorLat = message.imageLat;
+        vehicle.sensorLon = message.imageLon;
+        vehicle.sensorAimAt = Date.now() / 1000;
+        this.markPending(vehicle);
+        return;
+      }
+    }
+  }
+
+  /** Queue a vehicle for the next tick once it has a position to show */
+  private markPending(vehicle: MavlinkVehicle): void {
+    if (vehicle.hasPosition) this._pendingIds.add(vehicle.name);
+  }
+
+  private isGroundStation(systemId: number): boolean {
+    // 255 is the conventional ground station ID even before its heartbeat arrives
+    return systemId === 255 || this._groundStations.has(systemId);
+  }
+
+  private getOrCreateVehicle(systemId: number): MavlinkVehicle {
+    const id = vehicleId(systemId);
+    let vehicle = this._units.get(id);
+    if (vehicle) return vehicle;
+
+    vehicle = {
+      lat: 0,
+      lon: 0,
+      heading: 0,
+      altitude: DRONE_ALTITUDE_MIN,
+      patrolCenterLat: 0,
+      patrolCenterLon: 0,
+      patrolRadius: 0,
+      targetLat: NaN,
+      targetLon: NaN,
+      phase: 0,
+      scale: 1.0,
+      name: id,
+      orbitDirection: 1,
+      orbitSpeed: 0,
+      lastUpdate: Date.now() / 1000,
+      hasPosition: false,
+      yaw: null,
+      missionItems: new Map(),
+      sensorAimAt: 0,
+      sensorLat: NaN,
+      sensorLon: NaN,
+      guidedLat: NaN,
+      guidedLon: NaN,
+    };
+    this._units.set(id, vehicle);
+    return vehicle;
+  }
+
+  /**
+   * Derive target and patrol geometry from the latest sensor and mission state.
+   */
+  private resolveGeometry(vehicle: MavlinkVehicle, nowUnix: number): void {
+    const item = vehicle.missionSeq !== undefined ? vehicle.missionItems.get(vehicle.missionSeq) : undefined;
+    const waypoint = item && isGlobalFrame(item.frame) && (item.lat !== 0 || item.lon !== 0) ? item : undefined;
+
+    if (nowUnix - vehicle.sensorAimAt <= this._config.sensorAimTimeoutSeconds) {
+      vehicle.targetLat = vehicle.sensorLat;
+      vehicle.targetLon = vehicle.sensorLon;
+      vehicle.targetKind = "sensor";
+    } else {
+      vehicle.targetKind = "mission";
+      vehicle.targetLat = waypoint ? waypoint.lat : vehicle.guidedLat;
+      vehicle.targetLon = waypoint ? waypoint.lon : vehicle.guidedLon;
+    }
+
+    const radiusParam = waypoint ? LOITER_RADIUS_PARAM[waypoint.command] : undefined;
+    if (waypoint && radiusParam !== undefined) {
+      const radius = waypoint.params[radiusParam] || DEFAULT_LOITER_RADIUS_M;
+      vehicle.patrolCenterLat = waypoint.lat;
+      vehicle.patrolCenterLon = waypoint.lon;
+      vehicle.patrolRadius = Math.abs(radius) * METERS_TO_SCENE;
+      vehicle.orbitDirection = radius < 0 ? -1 : 1;
+    } else {
+      // No loiter in progress - nothing to draw
+      vehicle.patrolCenterLat = vehicle.lat;
+      vehicle.patrolCenterLon = vehicle.lon;
+      vehicle.patrolRadius = 0;
+    }
+  }
+
+  // ===========================================================================
+  // TICK & SYNC
+  // ===========================================================================
+
+  /**
+   * Emit changes since the last tick and drop vehicles that went quiet.
+   */
+  protected tick(): void {
+    const nowUnix = Date.now() / 1000;
+    let removed = false;
+
+    for (const [id, vehicle] of this._units) {
+      if (nowUnix - (vehicle.lastUpdate ?? 0) > this._config.staleAfterSeconds) {
+        this._units.delete(id);
+        this._pendingIds.delete(id);
+        removed = true;
+      }
+    }
+
+    const timestamp = performance.now();
+    const updates: DroneUpdate[] = [];
+    for (const id of this._pendingIds) {
+      const vehicle = this._units.get(id);
+      if (!vehicle) continue;
+      this.resolveGeometry(vehicle, nowUnix);
+      updates.push({
+        id,
+        name: vehicle.name,
+        lat: vehicle.lat,
+        lon: vehicle.lon,
+        altitude: vehicle.altitude,
+        heading: vehicle.heading,
+        targetLat: vehicle.targetLat,
+        targetLon: vehicle.targetLon,
+        timestamp,
+      });
+    }
+    this._pendingIds.clear();
+
+    this.enforceMaxUnits();
+    if (updates.length > 0 || removed) this._isDirty = true;
+    this.emit(updates);
+  }
+
+  private enforceMaxUnits(): void {
+    if (this._units.size <= this._config.maxUnits) return;
+
+    const toRemove = this._units.size - this._config.maxUnits;
+    const entries = Array.from(this._units.keys());
+    for (let i = 0; i < toRemove; i++) {
+      this._units.delete(entries[i]);
+    }
+  }
+
+  /**
+   * Copy positioned vehicles into the state array.
+   */
+  syncToState(stateArray: DroneState[]): boolean {
+    if (!this._isDirty) return false;
+    this._isDirty = false;
+
+    let i = 0;
+    for (const vehicle of this._units.values()) {
+      if (!vehicle.hasPosition) continue;
+
+      const snapshot: DroneState = {
+        lat: vehicle.lat,
+        lon: vehicle.lon,
+        heading: vehicle.heading,
+        altitude: vehicle.altitude,
+        patrolCenterLat: vehicle.patrolCenterLat,
+        patrolCenterLon: vehicle.patrolCenterLon,
+        patrolRadius: vehicle.patrolRadius,
+        targetLat: vehicle.targetLat,
+        targetLon: vehicle.targetLon,
+        phase: 0,
+        scale: vehicle.scale,
+        name: vehicle.name,
+        orbitDirection: vehicle.orbitDirection,
+        orbitSpeed: 0,
+        altitudeMeters: vehicle.altitudeMeters,
+        groundSpeed: vehicle.groundSpeed,
+        roll: vehicle.roll,
+        pitch: vehicle.pitch,
+        missionSeq: vehicle.missionSeq,
+        targetKind: vehicle.targetKind,
+        lastUpdate: vehicle.lastUpdate,
+      };
+
+      if (i >= stateArray.length) {
+        stateArray.push(snapshot);
+      } else {
+        Object.assign(stateArray[i], snapshot);
+      }
+      i++;
+    }
+    stateArray.length = i;
+    return true;
+  }
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function vehicleId(systemId: number): string {
+  return `MAV-${String(systemId).padStart(3, "0")}`;
+}
+
+function normalizeDegrees(degrees: number): number {
+  return ((degrees % 360) + 360) % 360;
+}
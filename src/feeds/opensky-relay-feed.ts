@@ -176,7 +176,8 @@ export class OpenSkyRelayFeed extends BaseFeed<AircraftUpdate, AircraftState> {
     return {
       messagesPerSec: this._messagesPerSec,
       totalMessages: this._totalMessages,
-      avgLatencyMs: 0,
+      ...this.getLatencyStats(),
+      reconnects: this._reconnectCount,
       lastUpdateTime: this._lastUpdateTime,
       activeUnits: this._units.size,
       status: this._fetchError ? "disconnected" : (this._running ? "connected" : "disconnected"),
@@ -231,6 +232,7 @@ export class OpenSkyRelayFeed extends BaseFeed<AircraftUpdate, AircraftState> {
         console.log(`[${this.id}] Reconnecting in ${delay / 1000}s...`);
         this._reconnectTimeout = setTimeout(() => {
           this._reconnectTimeout = null;
+          this._reconnectCount++;
           this.connect();
         }, delay);
       }
@@ -266,6 +268,7 @@ export class OpenSkyRelayFeed extends BaseFeed<AircraftUpdate, AircraftState> {
       const velocityMs = (state[OS.VELOCITY] as number) || 0;
       const groundSpeedKnots = velocityMs * 1.94384;
       const timePosition = (state[OS.TIME_POSITION] as number) || nowUnix;
+      if (state[OS.TIME_POSITION]) this.recordLatency((nowUnix - timePosition) * 1000);
 
       // Project position forward to current time
       const lagSeconds = Math.min(Math.max(0, nowUnix - timePosition), MAX_SOURCE_POSITION_LAG_SECONDS);
@@ -305,6 +308,7 @@ export class OpenSkyRelayFeed extends BaseFeed<AircraftUpdate, AircraftState> {
           altitude: altitudeFeet,
           groundSpeed: groundSpeedKnots,
           callsign,
+          icao24,
           originCountry,
           aircraftType,
           icaoTypeCode: icaoTypecode,
@@ -480,6 +484,7 @@ export class OpenSkyRelayFeed extends BaseFeed<AircraftUpdate, AircraftState> {
           altitude: aircraft.altitude,
           groundSpeed: aircraft.groundSpeed,
           callsign: aircraft.callsign,
+          icao24: aircraft.icao24,
           originCountry: aircraft.originCountry,
           aircraftType: aircraft.aircraftType,
           icaoTypeCode: aircraft.icaoTypeCode,
@@ -502,6 +507,7 @@ export class OpenSkyRelayFeed extends BaseFeed<AircraftUpdate, AircraftState> {
         target.altitude = aircraft.altitude;
         target.groundSpeed = aircraft.groundSpeed;
         target.callsign = aircraft.callsign;
+        target.icao24 = aircraft.icao24;
         target.originCountry = aircraft.originCountry;
         target.aircraftType = aircraft.aircraftType;
         target.icaoTypeCode = aircraft.icaoTypeCode;
@@ -0,0 +1,419 @@
+/**
+ * Remote ID Drone Feed
+ *
+ * Drones broadcasting ASTM F3411 / Open Drone ID, picked up by a local
+ * receiver (Bluetooth or Wi-Fi sniffer) and sent as UDP to the relay. The
+ * relay passes JSON lines to /remoteid, one record per received frame:
+ *
+ *   {"id": "<transport ID, e.g. the sender MAC>", "msg": "<hex message or message pack>"}
+ *
+ * Raw binary datagrams are wrapped by the relay using the sender address as
+ * the ID. Drones show their serial number and UA type, and the observation
+ * line links each drone to its operator.
+ */
+
+import { BaseFeed, DEFAULT_FEED_CONFIG } from "./base-feed";
+import type { DroneUpdate, FeedConfig, FeedStats } from "./types";
+import type { DroneState } from "../types";
+import { DEFAULT_RELAY_SERVER } from "./shared";
+import { decodeOpenDroneId, hexToBytes, ODID_UA_TYPES, type OdidMessage } from "../utils/open-drone-id";
+import { droneDisplayAltitude } from "../utils/coordinates";
+import { DRONE_ALTITUDE_MIN, MAX_DRONES } from "../constants";
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+export interface RemoteIdFeedConfig extends FeedConfig {
+  /** WebSocket relay base URL (the /remoteid path is appended) */
+  relayUrl: string;
+  /** Drop drones without a location message for this long */
+  staleAfterSeconds: number;
+}
+
+const DEFAULT_CONFIG: RemoteIdFeedConfig = {
+  ...DEFAULT_FEED_CONFIG,
+  updateRateMs: 500,
+  maxUnits: MAX_DRONES,
+  relayUrl: "", // Calculated in constructor
+  staleAfterSeconds: 30,
+};
+
+/** Basic ID type for an ANSI/CTA-2063-A serial number */
+const ID_TYPE_SERIAL = 1;
+
+const MPS_TO_KNOTS = 1.94384;
+
+/** Record sent by the relay for each received Remote ID frame */
+interface RemoteIdRecord {
+  id?: string;
+  msg?: string;
+}
+
+/** Drone state plus the receiver-side bookkeeping */
+interface RemoteIdTrack extends DroneState {
+  hasPosition: boolean;
+  /** Transport-level ID (MAC or sender address) */
+  transportId: string;
+  /** Basic ID type behind `name` (serial numbers win over other IDs) */
+  nameIdType: number;
+}
+
+// =============================================================================
+// FEED IMPLEMENTATION
+// =============================================================================
+
+export class RemoteIdFeed extends BaseFeed<DroneUpdate, DroneState> {
+  readonly id = "remote-id";
+  readonly name = "Remote ID";
+  readonly type = "drone" as const;
+
+  protected _config: RemoteIdFeedConfig;
+  protected _units: Map<string, RemoteIdTrack> = new Map();
+  private _socket: WebSocket | null = null;
+  private _reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+  private _lastError: string | null = null;
+  private _consecutiveErrors: number = 0;
+  private _isDirty: boolean = false;
+  private _manuallyClosed: boolean = false;
+  /** Partial JSON line carried over between socket messages */
+  private _lineBuffer: string = "";
+  /** Transport IDs updated since the last tick */
+  private _pendingIds: Set<string> = new Set();
+
+  constructor(config: Partial<RemoteIdFeedConfig> = {}) {
+    super();
+    this._config = { ...DEFAULT_CONFIG, ...config };
+
+    if (!config.relayUrl) {
+      const baseRelay = import.meta.env.VITE_RELAY_SERVER;
+      this._config.relayUrl = baseRelay && typeof baseRelay === "string"
+        ? baseRelay.replace(/\/$/, "")
+        : DEFAULT_RELAY_SERVER;
+    }
+  }
+
+  get config(): RemoteIdFeedConfig {
+    return { ...this._config };
+  }
+
+  get lastError(): string | null {
+    return this._lastError;
+  }
+
+  start(): void {
+    if (this._running) return;
+    super.start();
+    this._manuallyClosed = false;
+    this.connect();
+  }
+
+  stop(): void {
+    this._manuallyClosed = true;
+    if (this._reconnectTimeout) {
+      clearTimeout(this._reconnectTimeout);
+      this._reconnectTimeout = null;
+    }
+    if (this._socket) {
+      this._socket.onopen = null;
+      this._socket.onmessage = null;
+      this._socket.onerror = null;
+      this._socket.onclose = null;
+
+      this._socket.close();
+      this._socket = null;
+    }
+    super.stop();
+  }
+
+  getStats(): FeedStats {
+    return {
+      messagesPerSec: this._messagesPerSec,
+      totalMessages: this._totalMessages,
+      ...this.getLatencyStats(),
+      reconnects: this._reconnectCount,
+      lastUpdateTime: this._lastUpdateTime,
+      activeUnits: this._units.size,
+      status: this._lastError ? "disconnected" : (this._running ? "connected" : "disconnected"),
+    };
+  }
+
+  protected initializeUnits(): void {
+    this._units.clear();
+    this._pendingIds.clear();
+    this._lineBuffer = "";
+    this._lastError = null;
+    this._consecutiveErrors = 0;
+  }
+
+  protected getUnitId(unit: DroneState): string {
+    return unit.name;
+  }
+
+  // ===========================================================================
+  // CONNECTION
+  // ===========================================================================
+
+  private connect(): void {
+    if (this._socket) return;
+    if (this._manuallyClosed) return;
+
+    const url = `${this._config.relayUrl}/remoteid`;
+    console.log(`[${this.id}] Connecting to ${url}...`);
+
+    this._socket = new WebSocket(url);
+
+    this._socket.onopen = () => {
+      console.log(`[${this.id}] Connected to relay`);
+      this._lastError = null;
+      this._consecutiveErrors = 0;
+    };
+
+    this._socket.onmessage = (event) => {
+      if (typeof event.data !== "string") return;
+      this.processChunk(event.data);
+    };
+
+    this._socket.onclose = (event) => {
+      if (this._manuallyClosed) return;
+
+      console.log(`[${this.id}] Disconnected:`, event.code, event.reason);
+      this._socket = null;
+      this._lastError = "Disconnected";
+
+      if (this._running) {
+        this._consecutiveErrors++;
+        const delay = Math.min(5000 * Math.pow(2, this._consecutiveErrors - 1), 60000);
+        console.log(`[${this.id}] Reconnecting in ${delay / 1000}s...`);
+        this._reconnectTimeout = setTimeout(() => {
+          this._reconnectTimeout = null;
+          this._reconnectCount++;
+          this.connect();
+        }, delay);
+      }
+    };
+
+    this._socket.onerror = (error) => {
+      if (this._manuallyClosed) return;
+      console.error(`[${this.id}] WebSocket error:`, error);
+      this._lastError = "Connection error";
+    };
+  }
+
+  /**
+   * Split a chunk into JSON lines; the trailing partial line waits for the next chunk.
+   */
+  private processChunk(chunk: string): void {
+    const lines = (this._lineBuffer + chunk).split(/\r?\n/);
+    this._lineBuffer = lines.pop() ?? "";
+
+    for (const line of lines) {
+      this.processLine(line.trim());
+    }
+  }
+
+  private processLine(line: string): void {
+    if (!line) return;
+
+    let record: RemoteIdRecord;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      return;
+    }
+    if (typeof record?.id !== "string" || typeof record.msg !== "string") return;
+
+    const bytes = hexToBytes(record.msg);
+    if (!bytes) return;
+
+    const messages = decodeOpenDroneId(bytes);
+    if (messages.length === 0) return;
+
+    const track = this.getOrCreateTrack(record.id);
+    for (const message of messages) {
+      this.applyMessage(track, message);
+    }
+    if (track.hasPosition) this._pendingIds.add(track.transportId);
+  }
+
+  // ===========================================================================
+  // MESSAGE HANDLING
+  // ===========================================================================
+
+  private applyMessage(track: RemoteIdTrack, message: OdidMessage): void {
+    switch (message.type) {
+      case "basic-id":
+        if (!message.uasId) return;
+        track.uaType = ODID_UA_TYPES[message.uaType] ?? ODID_UA_TYPES[0];
+        if (message.idType === ID_TYPE_SERIAL) track.serialNumber = message.uasId;
+        // Any ID beats the transport address; a serial number beats other IDs
+        if (track.nameIdType !== ID_TYPE_SERIAL) {
+          track.name = message.uasId;
+          track.nameIdType = message.idType;
+        }
+        return;
+
+      case "location": {
+        if (message.lat === null || message.lon === null) return;
+        track.lat = message.lat;
+        track.lon = message.lon;
+        if (message.track !== null) track.heading = message.track;
+        if (message.speed !== null) track.groundSpeed = message.speed * MPS_TO_KNOTS;
+        const altitude = message.geodeticAltitude ?? message.pressureAltitude ?? message.height;
+        if (altitude !== null) {
+          track.altitudeMeters = altitude;
+          track.altitude = droneDisplayAltitude(altitude);
+        }
+        track.hasPosition = true;
+        track.lastUpdate = Date.now() / 1000;
+        return;
+      }
+
+      case "system":
+        if (message.operatorLat === null || message.operatorLon === null) return;
+        track.operatorLat = message.operatorLat;
+        track.operatorLon = message.operatorLon;
+        track.targetLat = message.operatorLat;
+        track.targetLon = message.operatorLon;
+        return;
+
+      case "operator-id":
+        if (message.operatorId) track.operatorId = message.operatorId;
+        return;
+
+      case "self-id":
+        return;
+    }
+  }
+
+  private getOrCreateTrack(transportId: string): RemoteIdTrack {
+    let track = this._units.get(transportId);
+    if (track) return track;
+
+    track = {
+      lat: 0,
+      lon: 0,
+      heading: 0,
+      altitude: DRONE_ALTITUDE_MIN,
+      // Remote ID carries no mission; the patrol circle stays hidden
+      patrolCenterLat: 0,
+      patrolCenterLon: 0,
+      patrolRadius: 0,
+      targetLat: NaN,
+      targetLon: NaN,
+      targetKind: "operator",
+      phase: 0,
+      scale: 1.0,
+      name: `RID-${transportId}`,
+      orbitDirection: 1,
+      orbitSpeed: 0,
+      lastUpdate: Date.now() / 1000,
+      hasPosition: false,
+      transportId,
+      nameIdType: 0,
+    };
+    this._units.set(transportId, track);
+    return track;
+  }
+
+  // ===========================================================================
+  // TICK & SYNC
+  // ===========================================================================
+
+  /**
+   * Emit changes since the last tick and drop drones that went quiet.
+   */
+  protected tick(): void {
+    const nowUnix = Date.now() / 1000;
+    let removed = false;
+
+    for (const [id, track] of this._units) {
+      if (nowUnix - (track.lastUpdate ?? 0) > this._config.staleAfterSeconds) {
+        this._units.delete(id);
+        this._pendingIds.delete(id);
+        removed = true;
+      }
+    }
+
+    const timestamp = performance.now();
+    const updates: DroneUpdate[] = [];
+    for (const id of this._pendingIds) {
+      const track = this._units.get(id);
+      if (!track) continue;
+      updates.push({
+        id,
+        name: track.name,
+        lat: track.lat,
+        lon: track.lon,
+        altitude: track.altitude,
+        heading: track.heading,
+        targetLat: track.targetLat,
+        targetLon: track.targetLon,
+        timestamp,
+      });
+    }
+    this._pendingIds.clear();
+
+    this.enforceMaxUnits();
+    if (updates.length > 0 || removed) this._isDirty = true;
+    this.emit(updates);
+  }
+
+  private enforceMaxUnits(): void {
+    if (this._units.size <= this._config.maxUnits) return;
+
+    const toRemove = this._units.size - this._config.maxUnits;
+    const entries = Array.from(this._units.keys());
+    for (let i = 0; i < toRemove; i++) {
+      this._units.delete(entries[i]);
+    }
+  }
+
+  /**
+   * Copy positioned drones into the state array.
+   */
+  syncToState(stateArray: DroneState[]): boolean {
+    if (!this._isDirty) return false;
+    this._isDirty = false;
+
+    let i = 0;
+    for (const track of this._units.values()) {
+      if (!track.hasPosition) continue;
+
+      const snapshot: DroneState = {
+        lat: track.lat,
+        lon: track.lon,
+        heading: track.heading,
+        altitude: track.altitude,
+        patrolCenterLat: track.lat,
+        patrolCenterLon: track.lon,
+        patrolRadius: 0,
+        targetLat: track.targetLat,
+        targetLon: track.targetLon,
+        phase: 0,
+        scale: track.scale,
+        name: track.name,
+        orbitDirection: 1,
+        orbitSpeed: 0,
+        altitudeMeters: track.altitudeMeters,
+        groundSpeed: track.groundSpeed,
+        targetKind: "operator",
+        serialNumber: track.serialNumber,
+        uaType: track.uaType,
+        operatorId: track.operatorId,
+        operatorLat: track.operatorLat,
+        operatorLon: track.operatorLon,
+        lastUpdate: track.lastUpdate,
+      };
+
+      if (i >= stateArray.length) {
+        stateArray.push(snapshot);
+      } else {
+        Object.assign(stateArray[i], snapshot);
+      }
+      i++;
+    }
+    stateArray.length = i;
+    return true;
+  }
+}
@@ -0,0 +1,342 @@
+/**
+ * Replay Controller
+ *
+ * Records live feed traffic into the session archive and replays archived
+ * sessions in place of the live/simulated feeds.
+ */
+
+import { ReplayFeed } from "./replay-feed";
+import {
+  sessionRecorder,
+  saveSession,
+  loadSession,
+  listSessions,
+  exportSessionFile,
+  importSessionFile,
+} from "./session-recorder";
+import type { RecordedSession } from "./session-recorder";
+import type { ShipUpdate, AircraftUpdate, SatelliteUpdate } from "./types";
+import type { ShipState, AircraftState, SatelliteState } from "../types";
+import { startAircraftFeed, stopAircraftFeed } from "./aircraft-feed-controller";
+import { startSatelliteFeed, stopSatelliteFeed } from "./satellite-feed-controller";
+import { setAISFeedMode, stopAISFeed } from "./ais-feed-controller";
+import {
+  aircraftFeedParams,
+  satelliteFeedParams,
+  aisFeedParams,
+  replayParams,
+  updateLiveIndicator,
+} from "./shared";
+import type { FeedMode, SatelliteFeedMode } from "./shared";
+import { state, aircraftSelectionId } from "../state";
+import { onTimelineSeek } from "../simulation/timeline";
+
+// =============================================================================
+// STATE
+// =============================================================================
+
+let shipReplay: ReplayFeed<ShipUpdate, ShipState> | null = null;
+let aircraftReplay: ReplayFeed<AircraftUpdate, AircraftState> | null = null;
+let satelliteReplay: ReplayFeed<SatelliteUpdate, SatelliteState> | null = null;
+
+/** Most recently finished recording (kept for file export) */
+let lastRecordedSession: RecordedSession | null = null;
+
+/** Feed modes to restore when the replay stops */
+let previousModes: { aircraft: FeedMode; satellite: SatelliteFeedMode; ais: FeedMode } | null = null;
+
+// Dependencies
+let onShipAttributesUpdate: (() => void) | null = null;
+let onAircraftAttributesUpdate: (() => void) | null = null;
+let onSatelliteAttributesUpdate: (() => void) | null = null;
+let onUnitVisibilityChange: (() => void) | null = null;
+
+// =============================================================================
+// INITIALIZATION
+// =============================================================================
+
+export interface ReplayControllerDependencies {
+  updateShipAttributes: () => void;
+  updateAircraftAttributes: () => void;
+  updateSatelliteAttributes: () => void;
+  /** Called when replay starts/stops so simulated-only units can be hidden */
+  onUnitVisibilityChange?: () => void;
+}
+
+export function initReplayController(deps: ReplayControllerDependencies): void {
+  onShipAttributesUpdate = deps.updateShipAttributes;
+  onAircraftAttributesUpdate = deps.updateAircraftAttributes;
+  onSatelliteAttributesUpdate = deps.updateSatelliteAttributes;
+  onUnitVisibilityChange = deps.onUnitVisibilityChange || null;
+
+  // Scrubbing the global timeline moves the replay playhead by the same amount
+  onTimelineSeek((_timeMs, jumpMs) => {
+    if (!replayParams.active) return;
+    for (const feed of [shipReplay, aircraftReplay, satelliteReplay]) {
+      if (feed && feed.batchCount > 0) feed.seek(feed.playheadMs + jumpMs);
+    }
+    state.trails.shipHistory = [];
+    state.trails.aircraftHistory = [];
+  });
+}
+
+// =============================================================================
+// RECORDING
+// =============================================================================
+
+export function startRecording(): void {
+  sessionRecorder.start();
+  replayParams.recording = true;
+  replayParams.recordedUpdates = 0;
+  replayParams.status = "recording";
+}
+
+/**
+ * Stop recording and archive the session in IndexedDB.
+ */
+export async function stopRecording(): Promise<RecordedSession | null> {
+  const session = sessionRecorder.stop();
+  replayParams.recording = false;
+  if (!session) return null;
+
+  lastRecordedSession = session;
+  replayParams.session = session.name;
+
+  try {
+    await saveSession(session);
+    replayParams.status = `saved ${session.name}`;
+  } catch (err) {
+    replayParams.status = "archive error";
+    console.error("[ReplayController] Failed to archive session:", err);
+  }
+
+  return session;
+}
+
+/**
+ * Download the last recorded (or currently loaded) session as a file.
+ */
+export async function exportSession(): Promise<void> {
+  let session = lastRecordedSession;
+  if (replayParams.session && session?.name !== replayParams.session) {
+    session = await loadSession(replayParams.session);
+  }
+  if (session) {
+    exportSessionFile(session);
+  }
+}
+
+/**
+ * Names of archived sessions, newest first.
+ */
+export async function getArchivedSessionNames(): Promise<string[]> {
+  try {
+    const summaries = await listSessions();
+    return summaries.map((summary) => summary.name);
+  } catch (err) {
+    console.error("[ReplayController] Failed to list sessions:", err);
+    return [];
+  }
+}
+
+// =============================================================================
+// REPLAY
+// =============================================================================
+
+/**
+ * Replay a session in place of the running feeds.
+ */
+export function startReplay(session: RecordedSession): void {
+  stopReplayFeeds();
+
+  if (!replayParams.active) {
+    previousModes = {
+      aircraft: aircraftFeedParams.mode,
+      satellite: satelliteFeedParams.mode,
+      ais: aisFeedParams.mode,
+    };
+  }
+
+  stopAircraftFeed();
+  stopSatelliteFeed();
+  stopAISFeed();
+
+  state.ships.length = 0;
+  state.aircraft.length = 0;
+  state.satellites.length = 0;
+  state.trails.shipHistory = [];
+  state.trails.aircraftHistory = [];
+  state.selectedUnit = null;
+
+  const config = { speed: replayParams.speed, loop: replayParams.loop };
+  shipReplay = new ReplayFeed<ShipUpdate, ShipState>("ship", session, config);
+  aircraftReplay = new ReplayFeed<AircraftUpdate, AircraftState>("aircraft", session, config);
+  satelliteReplay = new ReplayFeed<SatelliteUpdate, SatelliteState>("satellite", session, config);
+
+  for (const feed of [shipReplay, aircraftReplay, satelliteReplay]) {
+    if (feed.batchCount > 0) feed.start();
+  }
+
+  aircraftFeedParams.mode = "replay";
+  satelliteFeedParams.mode = "replay";
+  aisFeedParams.mode = "replay";
+  aircraftFeedParams.indicatorStatus = "replay";
+  satelliteFeedParams.indicatorStatus = "replay";
+  aisFeedParams.indicatorStatus = "replay";
+  aircraftFeedParams.status = "replay";
+  satelliteFeedParams.status = "replay";
+  aisFeedParams.status = "replay";
+
+  replayParams.active = true;
+  replayParams.session = session.name;
+  replayParams.status = "playing";
+
+  if (onUnitVisibilityChange) onUnitVisibilityChange();
+  updateLiveIndicator();
+  console.log(`[ReplayController] Replaying ${session.name} (${session.batches.length} batches)`);
+}
+
+/**
+ * Replay a session from the IndexedDB archive.
+ */
+export async function replayArchivedSession(name: string): Promise<void> {
+  const session = await loadSession(name);
+  if (!session) {
+    replayParams.status = `not found: ${name}`;
+    return;
+  }
+  startReplay(session);
+}
+
+/**
+ * Import a session file, archive it, and replay it.
+ */
+export async function importAndReplaySession(file: File): Promise<void> {
+  try {
+    const session = await importSessionFile(file);
+    await saveSession(session);
+    startReplay(session);
+  } catch (err) {
+    replayParams.status = "import error";
+    console.error("[ReplayController] Failed to import session:", err);
+  }
+}
+
+/**
+ * Stop replaying and restore the feeds that were running before.
+ */
+export function stopReplay(): void {
+  if (!replayParams.active) return;
+
+  stopReplayFeeds();
+  replayParams.active = false;
+  replayParams.status = "idle";
+  replayParams.progress = "—";
+
+  const modes = previousModes || { aircraft: "simulated", satellite: "simulated", ais: "simulated" };
+  previousModes = null;
+
+  state.selectedUnit = null;
+  aircraftFeedParams.mode = modes.aircraft;
+  satelliteFeedParams.mode = modes.satellite;
+  aisFeedParams.mode = modes.ais;
+  // Layers owned by runtime sources resume merging on their own
+  if (modes.aircraft !== "sources") startAircraftFeed();
+  if (modes.satellite !== "sources") startSatelliteFeed();
+  if (modes.ais !== "sources") setAISFeedMode(modes.ais === "live" ? "live" : "simulated");
+
+  if (onUnitVisibilityChange) onUnitVisibilityChange();
+  updateLiveIndicator();
+}
+
+export function setReplaySpeed(speed: number): void {
+  replayParams.speed = speed;
+  shipReplay?.setSpeed(speed);
+  aircraftReplay?.setSpeed(speed);
+  satelliteReplay?.setSpeed(speed);
+}
+
+export function setReplayLoop(loop: boolean): void {
+  replayParams.loop = loop;
+  shipReplay?.setLoop(loop);
+  aircraftReplay?.setLoop(loop);
+  satelliteReplay?.setLoop(loop);
+}
+
+function stopReplayFeeds(): void {
+  shipReplay?.stop();
+  aircraftReplay?.stop();
+  satelliteReplay?.stop();
+  shipReplay = null;
+  aircraftReplay = null;
+  satelliteReplay = null;
+}
+
+// =============================================================================
+// PER-FRAME SYNC
+// =============================================================================
+
+/**
+ * Sync replayed units into state and update GPU buffers.
+ * Call this once per frame from the render loop.
+ */
+export function syncReplayState(): void {
+  if (replayParams.recording) {
+    replayParams.recordedUpdates = sessionRecorder.updateCount;
+    // Archive automatically once the recorder hits its update limit
+    if (sessionRecorder.limitReached) void stopRecording();
+  }
+
+  if (!replayParams.active) return;
+
+  if (shipReplay?.syncToState(state.ships) && onShipAttributesUpdate) {
+    onShipAttributesUpdate();
+  }
+  if (aircraftReplay?.syncToState(state.aircraft) && onAircraftAttributesUpdate) {
+    onAircraftAttributesUpdate();
+  }
+  if (satelliteReplay?.syncToState(state.satellites) && onSatelliteAttributesUpdate) {
+    onSatelliteAttributesUpdate();
+  }
+
+  // Unit indices change when the replayed set grows - keep the selection stable
+  const selected = state.selectedUnit;
+  if (selected?.id && (selected.type === "ship" || selected.type === "aircraft" || selected.type === "satellite")) {
+    const index = findUnitIndex(selected.type, selected.id);
+    if (index >= 0) {
+      selected.index = index;
+    } else {
+      state.selectedUnit = null;
+    }
+  }
+
+  aisFeedParams.trackedCount = state.ships.length;
+  aircraftFeedParams.trackedCount = state.aircraft.length;
+  satelliteFeedParams.trackedCount = state.satellites.length;
+
+  const clock = shipReplay || aircraftReplay || satelliteReplay;
+  if (clock) {
+    replayParams.progress = `${formatClock(clock.playheadMs)} / ${formatClock(clock.durationMs)}`;
+    const finished = [shipReplay, aircraftReplay, satelliteReplay]
+      .every((feed) => !feed || feed.batchCount === 0 || feed.finished);
+    replayParams.status = finished ? "finished" : "playing";
+  }
+}
+
+function findUnitIndex(type: "ship" | "aircraft" | "satellite", id: string): number {
+  switch (type) {
+    case "ship":
+      return state.ships.findIndex((s) => s.mmsi === id);
+    case "aircraft":
+      return state.aircraft.findIndex((a) => aircraftSelectionId(a) === id);
+    case "satellite":
+      return state.satellites.findIndex((s) => s.name === id);
+  }
+}
+
+function formatClock(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, "0")}`;
+}
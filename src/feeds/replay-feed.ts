@@ -0,0 +1,398 @@
+/**
+ * Replay Feed
+ *
+ * Plays back a RecordedSession as if it were a live feed. Batches are emitted
+ * on their original timing (scaled by the playback speed and the global
+ * timeline), so anything that consumes a DataFeed can be driven from an
+ * archived session offline. Satellites recorded with their TLEs are
+ * re-propagated to the playback time.
+ */
+
+import * as satellite from "satellite.js";
+import { BaseFeed, DEFAULT_FEED_CONFIG } from "./base-feed";
+import type {
+  FeedConfig,
+  FeedStats,
+  ShipUpdate,
+  AircraftUpdate,
+  SatelliteUpdate,
+  DroneUpdate,
+} from "./types";
+import type { RecordedBatch, RecordedSession, FeedUnitType } from "./session-recorder";
+import type { ShipState, AircraftState, SatelliteState, DroneState } from "../types";
+import { getTimelineRate } from "../simulation/timeline";
+import { EARTH_RADIUS } from "../constants";
+
+/** Replay-specific feed configuration */
+export interface ReplayFeedConfig extends FeedConfig {
+  /** Playback speed multiplier (1 = real time) */
+  speed: number;
+  /** Restart from the beginning when the session ends */
+  loop: boolean;
+}
+
+const DEFAULT_REPLAY_CONFIG: ReplayFeedConfig = {
+  ...DEFAULT_FEED_CONFIG,
+  updateRateMs: 50,
+  maxUnits: 50000,
+  speed: 1,
+  loop: false,
+};
+
+/** Satellites re-propagated per tick (round robin), bounding main-thread work */
+const PROPAGATIONS_PER_TICK = 1000;
+
+const EARTH_RADIUS_KM = 6371;
+const EARTH_ROTATION_RAD_S = 7.2921159e-5;
+const RAD_TO_DEG = 180 / Math.PI;
+
+/**
+ * Replays the batches of one unit type from a recorded session.
+ */
+export class ReplayFeed<TUpdate = unknown, TState = unknown> extends BaseFeed<TUpdate, TState> {
+  readonly id: string;
+  readonly name: string;
+  readonly type: FeedUnitType;
+
+  protected _config: ReplayFeedConfig;
+  protected _units: Map<string, any> = new Map();
+  private _batches: RecordedBatch[];
+  private _durationMs: number;
+  private _startedAt: number;
+  /** Orbits of satellites recorded with TLEs, by unit ID */
+  private _satrecs: Map<string, satellite.SatRec> = new Map();
+  private _satrecIds: string[] = [];
+  private _propagationCursor: number = 0;
+  private _cursor: number = 0;
+  private _playheadMs: number = 0;
+  private _lastTickTime: number = 0;
+  private _finished: boolean = false;
+  private _isDirty: boolean = false;
+  private _membershipChanged: boolean = false;
+
+  constructor(type: FeedUnitType, session: RecordedSession, config: Partial<ReplayFeedConfig> = {}) {
+    super();
+    this._config = { ...DEFAULT_REPLAY_CONFIG, ...config };
+    this.type = type;
+    this.id = `replay-${type}`;
+    this.name = `Replay (${session.name})`;
+    this._batches = session.batches.filter((batch) => batch.type === type);
+    this._durationMs = session.durationMs;
+    this._startedAt = session.startedAt;
+  }
+
+  get config(): ReplayFeedConfig {
+    return { ...this._config };
+  }
+
+  /** Current playback position in milliseconds from session start */
+  get playheadMs(): number {
+    return this._playheadMs;
+  }
+
+  get durationMs(): number {
+    return this._durationMs;
+  }
+
+  /** True once a non-looping replay has emitted its last batch */
+  get finished(): boolean {
+    return this._finished;
+  }
+
+  /** Number of batches available for this feed's unit type */
+  get batchCount(): number {
+    return this._batches.length;
+  }
+
+  getStats(): FeedStats {
+    return {
+      ...super.getStats(),
+      status: this._running ? "replay" : "disconnected",
+    };
+  }
+
+  setSpeed(speed: number): void {
+    this._config.speed = Math.max(0, speed);
+  }
+
+  setLoop(loop: boolean): void {
+    this._config.loop = loop;
+  }
+
+  /**
+   * Jump to a playback position, rebuilding unit state from the session start.
+   */
+  seek(playheadMs: number): void {
+    const target = Math.max(0, Math.min(playheadMs, this._durationMs));
+
+    this._units.clear();
+    this._cursor = 0;
+    while (this._cursor < this._batches.length && this._batches[this._cursor].t <= target) {
+      for (const update of this._batches[this._cursor].updates) {
+        this.applyUpdate(update);
+      }
+      this._cursor++;
+    }
+
+    this._playheadMs = target;
+    this.propagateSatellites(this._satrecIds.length);
+    this._finished = false;
+    this._membershipChanged = true;
+    this._isDirty = true;
+  }
+
+  protected initializeUnits(): void {
+    this._units.clear();
+    this._satrecs.clear();
+    this._satrecIds = [];
+    this._cursor = 0;
+    this._playheadMs = 0;
+    this._finished = false;
+    this._membershipChanged = true;
+    this._lastTickTime = performance.now();
+  }
+
+  protected tick(): void {
+    const now = performance.now();
+    const deltaMs = now - this._lastTickTime;
+    this._lastTickTime = now;
+
+    if (this._finished) return;
+
+    // Scale by the global timeline (0 while paused)
+    this._playheadMs += deltaMs * this._config.speed * getTimelineRate();
+
+    while (this._cursor < this._batches.length && this._batches[this._cursor].t <= this._playheadMs) {
+      const updates = this._batches[this._cursor].updates as TUpdate[];
+      for (const update of updates) {
+        this.applyUpdate(update);
+      }
+      this._cursor++;
+      this._isDirty = true;
+      this.emit(updates);
+    }
+
+    if (this._satrecIds.length > 0) {
+      this.propagateSatellites(PROPAGATIONS_PER_TICK);
+      this._isDirty = true;
+    }
+
+    if (this._playheadMs >= this._durationMs) {
+      if (this._config.loop) {
+        this._cursor = 0;
+        this._playheadMs = 0;
+      } else {
+        this._finished = true;
+        console.log(`[${this.id}] Replay finished`);
+      }
+    }
+  }
+
+  protected getUnitId(unit: any): string {
+    switch (this.type) {
+      case "ship":
+        return unit.mmsi;
+      case "aircraft":
+        return unit.callsign;
+      case "satellite":
+        return unit.noradId ?? unit.name;
+      case "drone":
+        return unit.id ?? unit.name;
+    }
+  }
+
+  /**
+   * Sync replayed units into a state array.
+   * Returns true if GPU buffers need updating.
+   */
+  syncToState(stateArray: TState[]): boolean {
+    if (!this._isDirty && !this._membershipChanged) return false;
+
+    if (this._membershipChanged || stateArray.length !== this._units.size) {
+      stateArray.length = 0;
+      for (const unit of this._units.values()) {
+        stateArray.push(unit);
+      }
+      this._membershipChanged = false;
+    }
+
+    this._isDirty = false;
+    return true;
+  }
+
+  private applyUpdate(update: any): void {
+    const id = this.getUnitId(update);
+    if (update.tleLine1 && update.tleLine2) this.setSatrec(id, update.tleLine1, update.tleLine2);
+    const unit = this._units.get(id);
+
+    if (unit) {
+      unit.lat = update.lat;
+      unit.lon = update.lon;
+      unit.heading = update.heading;
+      switch (this.type) {
+        case "ship":
+          unit.sog = update.sog;
+          if (update.name) unit.name = update.name;
+          break;
+        case "aircraft":
+          unit.altitudeTrend = Math.sign(update.altitude - unit.altitude);
+          unit.prevAltitude = unit.altitude;
+          unit.altitude = update.altitude;
+          unit.flightLevel = Math.floor(update.altitude / 100);
+          unit.groundSpeed = update.groundSpeed;
+          break;
+        case "satellite":
+        case "drone":
+          unit.altitude = update.altitude;
+          break;
+      }
+      if (this.type === "drone") {
+        if (update.targetLat !== undefined) unit.targetLat = update.targetLat;
+        if (update.targetLon !== undefined) unit.targetLon = update.targetLon;
+      }
+      return;
+    }
+
+    if (this._units.size >= this._config.maxUnits) return;
+
+    this._units.set(id, this.createUnit(update));
+    this._membershipChanged = true;
+  }
+
+  private setSatrec(id: string, line1: string, line2: string): void {
+    if (!this._satrecs.has(id)) this._satrecIds.push(id);
+    this._satrecs.set(id, satellite.twoline2satrec(line1, line2));
+  }
+
+  /**
+   * Move the next `count` TLE satellites to the playback time.
+   */
+  private propagateSatellites(count: number): void {
+    const ids = this._satrecIds;
+    if (ids.length === 0) return;
+
+    const date = new Date(this._startedAt + this._playheadMs);
+    const gmst = satellite.gstime(date);
+    for (let n = Math.min(count, ids.length); n > 0; n--) {
+      if (this._propagationCursor >= ids.length) this._propagationCursor = 0;
+      const id = ids[this._propagationCursor++];
+      const unit = this._units.get(id);
+      const pv = unit && satellite.propagate(this._satrecs.get(id)!, date);
+      if (!pv || !pv.position || typeof pv.position === "boolean") continue;
+
+      const geodetic = satellite.eciToGeodetic(pv.position, gmst);
+      unit.lat = geodetic.latitude * RAD_TO_DEG;
+      unit.lon = geodetic.longitude * RAD_TO_DEG;
+      unit.altitude = (geodetic.height / EARTH_RADIUS_KM) * EARTH_RADIUS;
+      if (pv.velocity && typeof pv.velocity !== "boolean") {
+        unit.heading = groundHeading(pv.position, pv.velocity, gmst, geodetic.latitude, geodetic.longitude);
+      }
+    }
+  }
+
+  private createUnit(update: any): ShipState | AircraftState | SatelliteState | DroneState {
+    switch (this.type) {
+      case "ship":
+        return createShipState(update);
+      case "aircraft":
+        return createAircraftState(update);
+      case "satellite":
+        return createSatelliteState(update);
+      case "drone":
+        return createDroneState(update);
+    }
+  }
+}
+
+// =============================================================================
+// UPDATE -> STATE CONVERSION
+// =============================================================================
+
+function createShipState(update: ShipUpdate): ShipState {
+  return {
+    mmsi: update.mmsi,
+    lat: update.lat,
+    lon: update.lon,
+    heading: update.heading,
+    sog: update.sog,
+    name: update.name || "Unknown",
+    scale: 1.0,
+    targetHeading: update.heading,
+    baseSpeed: 0,
+    baseTurnRate: 0,
+    nextCourseChange: 0,
+  };
+}
+
+function createAircraftState(update: AircraftUpdate): AircraftState {
+  return {
+    callsign: update.callsign,
+    lat: update.lat,
+    lon: update.lon,
+    heading: update.heading,
+    altitude: update.altitude,
+    groundSpeed: update.groundSpeed,
+    flightLevel: Math.floor(update.altitude / 100),
+    altitudeTrend: 0,
+    prevAltitude: update.altitude,
+    scale: 1.0,
+    targetHeading: update.heading,
+    baseSpeed: 0,
+    baseTurnRate: 0,
+    nextCourseChange: 0,
+  };
+}
+
+function createSatelliteState(update: SatelliteUpdate): SatelliteState {
+  return {
+    lat: update.lat,
+    lon: update.lon,
+    heading: update.heading,
+    altitude: update.altitude,
+    scale: 1.0,
+    inclination: 0,
+    ascendingNode: 0,
+    phase: 0,
+    orbitalPeriod: 0,
+    name: update.name,
+    orbitTypeLabel: update.orbitType || "LEO",
+    isMilitary: false,
+  };
+}
+
+/**
+ * Ground track heading (degrees) from an ECI state: the velocity relative to
+ * the rotating Earth, resolved into local east/north.
+ */
+function groundHeading(position: satellite.Eci, velocity: satellite.Eci, gmst: number, lat: number, lon: number): number {
+  const cosG = Math.cos(gmst);
+  const sinG = Math.sin(gmst);
+  const x = cosG * position.x + sinG * position.y;
+  const y = -sinG * position.x + cosG * position.y;
+  const vx = cosG * velocity.x + sinG * velocity.y + EARTH_ROTATION_RAD_S * y;
+  const vy = -sinG * velocity.x + cosG * velocity.y - EARTH_ROTATION_RAD_S * x;
+  const vz = velocity.z;
+
+  const east = -Math.sin(lon) * vx + Math.cos(lon) * vy;
+  const north = -Math.sin(lat) * Math.cos(lon) * vx - Math.sin(lat) * Math.sin(lon) * vy + Math.cos(lat) * vz;
+  return (Math.atan2(east, north) * RAD_TO_DEG + 360) % 360;
+}
+
+function createDroneState(update: DroneUpdate): DroneState {
+  return {
+    lat: update.lat,
+    lon: update.lon,
+    heading: update.heading,
+    altitude: update.altitude,
+    patrolCenterLat: update.lat,
+    patrolCenterLon: update.lon,
+    patrolRadius: 0,
+    targetLat: update.targetLat ?? update.lat,
+    targetLon: update.targetLon ?? update.lon,
+    phase: 0,
+    scale: 1.0,
+    name: update.name,
+    orbitDirection: 1,
+    orbitSpeed: 0,
+  };
+}
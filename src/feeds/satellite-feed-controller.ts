@@ -11,6 +11,10 @@ import type { SatelliteState } from "../types";
 import { satelliteFeedParams } from "./shared";
 import type { SatelliteFeedMode, SatelliteFeedParams } from "./shared";
 import { updateLiveIndicator } from "./shared";
+import { sessionRecorder } from "./session-recorder";
+import { getTimelineDeltaSeconds } from "../simulation/timeline";
+import type { PassRequest, SatellitePass, GroundTrackPoint } from "../utils/pass-prediction";
+import type { ConjunctionRequest, Conjunction } from "../utils/conjunctions";
 
 export type { SatelliteFeedMode, SatelliteFeedParams };
 export { satelliteFeedParams };
@@ -43,6 +47,7 @@ export function initSatelliteFeedController(deps: SatelliteFeedDependencies): vo
   liveFeed = new CelesTrakSatelliteFeed({
     group: satelliteFeedParams.liveGroup,
   });
+  sessionRecorder.attach(liveFeed);
 
   console.log("[SatelliteFeedController] Initialized");
 }
@@ -111,16 +116,12 @@ export function getSatelliteFeedStats() {
   };
 }
 
-let lastSyncTime = 0;
-
 /**
  * Sync live feed state to state.satellites and update GPU buffers.
- * Call this once per frame from the render loop.
+ * Call this once per frame from the render loop, after the timeline advances.
  */
 export function syncSatelliteFeedState(): void {
-  const now = performance.now();
-  const deltaTime = lastSyncTime === 0 ? 0 : (now - lastSyncTime) / 1000;
-  lastSyncTime = now;
+  const deltaTime = getTimelineDeltaSeconds();
 
   // Handle Simulated Mode
   if (satelliteFeedParams.mode === "simulated" && simulatedFeed) {
@@ -175,3 +176,58 @@ export function setSimulatedSatelliteCount(count: number): void {
     simulatedFeed.setSatelliteCount(count);
   }
 }
+
+// =============================================================================
+// PASS PREDICTION
+// =============================================================================
+
+/**
+ * Whether live TLEs are loaded. Pass prediction and conjunction screening
+ * need them; simulated satellites have no orbital elements.
+ */
+export function hasLiveTLEs(): boolean {
+  return satelliteFeedParams.mode === "live" && !!liveFeed && liveFeed.unitCount > 0;
+}
+
+/**
+ * Predict passes of the live satellites over an observer.
+ */
+export function predictSatellitePasses(
+  request: PassRequest,
+  onProgress?: (done: number, total: number) => void
+): Promise<SatellitePass[]> {
+  if (!hasLiveTLEs()) return Promise.resolve([]);
+  return liveFeed!.predictPasses(request, onProgress);
+}
+
+/**
+ * Ground track of a live satellite between two times.
+ */
+export function computeSatelliteGroundTrack(
+  satnum: string,
+  start: number,
+  end: number,
+  stepMs: number
+): Promise<GroundTrackPoint[]> {
+  if (!liveFeed) return Promise.resolve([]);
+  return liveFeed.computeGroundTrack(satnum, start, end, stepMs);
+}
+
+// =============================================================================
+// CONJUNCTION SCREENING
+// =============================================================================
+
+/**
+ * Screen the live satellites for close approaches.
+ */
+export function screenSatelliteConjunctions(
+  request: ConjunctionRequest,
+  onProgress?: (progress: number) => void
+): Promise<Conjunction[]> {
+  if (!hasLiveTLEs()) return Promise.resolve([]);
+  return liveFeed!.screenConjunctions(request, onProgress);
+}
+
+export function cancelSatelliteConjunctionScreen(): void {
+  liveFeed?.cancelConjunctionScreen();
+}
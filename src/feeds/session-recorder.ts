@@ -0,0 +1,343 @@
+/**
+ * Session Recorder
+ *
+ * Captures the raw update batches emitted by live feeds (OpenSky, AIS, CelesTrak)
+ * into a timestamped session that can be archived in IndexedDB or exported as a
+ * file, then played back later through a ReplayFeed.
+ */
+
+import type { DataFeed } from "./types";
+
+// =============================================================================
+// SESSION TYPES
+// =============================================================================
+
+/** Unit type carried by a feed */
+export type FeedUnitType = DataFeed<unknown, unknown>["type"];
+
+/** A single batch of updates as emitted by a feed */
+export interface RecordedBatch {
+  /** Offset from session start in milliseconds */
+  t: number;
+  /** ID of the feed that emitted the batch */
+  feedId: string;
+  /** Unit type of the emitting feed */
+  type: FeedUnitType;
+  /** Raw update objects (ShipUpdate, AircraftUpdate, ...) */
+  updates: unknown[];
+}
+
+/** A complete recorded session */
+export interface RecordedSession {
+  /** Format version for forward compatibility */
+  version: 1;
+  /** Session name (also the archive key) */
+  name: string;
+  /** Wall-clock start time (unix ms) */
+  startedAt: number;
+  /** Session length in milliseconds */
+  durationMs: number;
+  /** IDs of feeds that were attached while recording */
+  feeds: string[];
+  /** Batches in emission order */
+  batches: RecordedBatch[];
+}
+
+/** Archive listing entry (avoids loading every batch to show a list) */
+export interface SessionSummary {
+  name: string;
+  startedAt: number;
+  durationMs: number;
+  batchCount: number;
+}
+
+/** Recorder configuration */
+export interface SessionRecorderConfig {
+  /** Stop capturing once this many updates have been recorded */
+  maxUpdates: number;
+}
+
+const DEFAULT_RECORDER_CONFIG: SessionRecorderConfig = {
+  maxUpdates: 2_000_000,
+};
+
+const SESSION_FORMAT_VERSION = 1;
+
+// =============================================================================
+// RECORDER
+// =============================================================================
+
+interface AttachedFeed {
+  feed: DataFeed<unknown, unknown>;
+  callback: (updates: unknown[]) => void;
+}
+
+/**
+ * Records update batches from any number of attached feeds.
+ * Feeds stay attached between recordings; batches are only kept while recording.
+ */
+export class SessionRecorder {
+  private _config: SessionRecorderConfig;
+  private _feeds: Map<string, AttachedFeed> = new Map();
+  private _recording: boolean = false;
+  private _startedAt: number = 0;
+  private _startTime: number = 0;
+  private _batches: RecordedBatch[] = [];
+  private _updateCount: number = 0;
+  private _limitReached: boolean = false;
+
+  constructor(config: Partial<SessionRecorderConfig> = {}) {
+    this._config = { ...DEFAULT_RECORDER_CONFIG, ...config };
+  }
+
+  get isRecording(): boolean {
+    return this._recording;
+  }
+
+  get batchCount(): number {
+    return this._batches.length;
+  }
+
+  get updateCount(): number {
+    return this._updateCount;
+  }
+
+  /** True once maxUpdates is reached; further batches are dropped until stop() */
+  get limitReached(): boolean {
+    return this._limitReached;
+  }
+
+  /** Milliseconds since recording started (0 when idle) */
+  get elapsedMs(): number {
+    return this._recording ? performance.now() - this._startTime : 0;
+  }
+
+  /**
+   * Subscribe to a feed's updates. Safe to call more than once per feed.
+   */
+  attach(feed: DataFeed<any, any>): void {
+    if (this._feeds.has(feed.id)) return;
+
+    const callback = (updates: unknown[]) => this.capture(feed, updates);
+    feed.onUpdate(callback);
+    this._feeds.set(feed.id, { feed, callback });
+  }
+
+  /**
+   * Unsubscribe from a feed.
+   */
+  detach(feedId: string): void {
+    const attached = this._feeds.get(feedId);
+    if (!attached) return;
+
+    attached.feed.offUpdate(attached.callback);
+    this._feeds.delete(feedId);
+  }
+
+  /**
+   * Begin a new recording, discarding any unsaved batches.
+   */
+  start(): void {
+    if (this._recording) return;
+
+    this._batches = [];
+    this._updateCount = 0;
+    this._limitReached = false;
+    this._startedAt = Date.now();
+    this._startTime = performance.now();
+    this._recording = true;
+
+    for (const { feed } of this._feeds.values()) {
+      const snapshot = feed.getRecordingSnapshot?.();
+      if (snapshot) this.capture(feed, snapshot);
+    }
+
+    console.log(`[SessionRecorder] Recording started (${this._feeds.size} feeds attached)`);
+  }
+
+  /**
+   * Stop recording and return the captured session.
+   */
+  stop(name?: string): RecordedSession | null {
+    if (!this._recording) return null;
+
+    const durationMs = performance.now() - this._startTime;
+    this._recording = false;
+
+    const session: RecordedSession = {
+      version: SESSION_FORMAT_VERSION,
+      name: name || defaultSessionName(this._startedAt),
+      startedAt: this._startedAt,
+      durationMs,
+      feeds: Array.from(new Set(this._batches.map((batch) => batch.feedId))),
+      batches: this._batches,
+    };
+
+    this._batches = [];
+
+    console.log(`[SessionRecorder] Recording stopped: ${session.batches.length} batches, ` +
+                `${this._updateCount} updates over ${(durationMs / 1000).toFixed(1)}s`);
+    return session;
+  }
+
+  private capture(feed: DataFeed<unknown, unknown>, updates: unknown[]): void {
+    if (!this._recording || this._limitReached || updates.length === 0) return;
+
+    this._batches.push({
+      t: performance.now() - this._startTime,
+      feedId: feed.id,
+      type: feed.type,
+      updates: updates.slice(),
+    });
+    this._updateCount += updates.length;
+
+    if (this._updateCount >= this._config.maxUpdates) {
+      console.warn(`[SessionRecorder] Update limit (${this._config.maxUpdates}) reached, dropping further batches`);
+      this._limitReached = true;
+    }
+  }
+}
+
+/**
+ * Build a default session name from its start time (e.g. "2024-05-01 14:03:22").
+ */
+function defaultSessionName(startedAt: number): string {
+  return new Date(startedAt).toISOString().replace("T", " ").slice(0, 19);
+}
+
+/** Global recorder instance (live feed controllers attach to it on init) */
+export const sessionRecorder = new SessionRecorder();
+
+// =============================================================================
+// INDEXEDDB ARCHIVE
+// =============================================================================
+
+const ARCHIVE_DB_NAME = "session-archive";
+const ARCHIVE_DB_VERSION = 1;
+const SESSION_STORE = "sessions";
+const SUMMARY_STORE = "summaries";
+
+let archivePromise: Promise<IDBDatabase> | null = null;
+
+function openArchive(): Promise<IDBDatabase> {
+  if (archivePromise) return archivePromise;
+
+  archivePromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(ARCHIVE_DB_NAME, ARCHIVE_DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SESSION_STORE)) {
+        db.createObjectStore(SESSION_STORE, { keyPath: "name" });
+      }
+      if (!db.objectStoreNames.contains(SUMMARY_STORE)) {
+        db.createObjectStore(SUMMARY_STORE, { keyPath: "name" });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      archivePromise = null;
+      reject(request.error);
+    };
+  });
+
+  return archivePromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/**
+ * Save a session to the archive, replacing any session with the same name.
+ */
+export async function saveSession(session: RecordedSession): Promise<void> {
+  const db = await openArchive();
+  const tx = db.transaction([SESSION_STORE, SUMMARY_STORE], "readwrite");
+
+  tx.objectStore(SESSION_STORE).put(session);
+  tx.objectStore(SUMMARY_STORE).put({
+    name: session.name,
+    startedAt: session.startedAt,
+    durationMs: session.durationMs,
+    batchCount: session.batches.length,
+  } as SessionSummary);
+
+  await transactionDone(tx);
+}
+
+/**
+ * Load a session from the archive.
+ */
+export async function loadSession(name: string): Promise<RecordedSession | null> {
+  const db = await openArchive();
+  const tx = db.transaction(SESSION_STORE, "readonly");
+  const session = await requestToPromise(tx.objectStore(SESSION_STORE).get(name));
+  return (session as RecordedSession) || null;
+}
+
+/**
+ * List archived sessions, newest first.
+ */
+export async function listSessions(): Promise<SessionSummary[]> {
+  const db = await openArchive();
+  const tx = db.transaction(SUMMARY_STORE, "readonly");
+  const summaries = await requestToPromise(tx.objectStore(SUMMARY_STORE).getAll());
+  return (summaries as SessionSummary[]).sort((a, b) => b.startedAt - a.startedAt);
+}
+
+/**
+ * Remove a session from the archive.
+ */
+export async function deleteSession(name: string): Promise<void> {
+  const db = await openArchive();
+  const tx = db.transaction([SESSION_STORE, SUMMARY_STORE], "readwrite");
+  tx.objectStore(SESSION_STORE).delete(name);
+  tx.objectStore(SUMMARY_STORE).delete(name);
+  await transactionDone(tx);
+}
+
+// =============================================================================
+// FILE EXPORT / IMPORT
+// =============================================================================
+
+/**
+ * Download a session as a JSON file.
+ */
+export function exportSessionFile(session: RecordedSession): void {
+  const blob = new Blob([JSON.stringify(session)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${session.name.replace(/[^\w.-]+/g, "_")}.session.json`;
+  link.click();
+
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Parse a session file previously written by exportSessionFile.
+ * Throws if the file isn't a recognizable session.
+ */
+export async function importSessionFile(file: File): Promise<RecordedSession> {
+  const session = JSON.parse(await file.text()) as RecordedSession;
+
+  if (!session || session.version !== SESSION_FORMAT_VERSION || !Array.isArray(session.batches)) {
+    throw new Error(`${file.name} is not a recorded session`);
+  }
+
+  session.name = session.name || file.name.replace(/\.session\.json$/, "");
+  return session;
+}
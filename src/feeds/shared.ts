@@ -15,20 +15,37 @@ export const DEFAULT_RELAY_SERVER = "wss://ais-relay-server-722040785601.us-cent
 // TYPES
 // =============================================================================
 
-export type FeedMode = "simulated" | "live";
+/** "sources": the layer is merged from runtime sources (feed-source-controller.ts) */
+export type FeedMode = "simulated" | "live" | "replay" | "sources";
 export type CoverageMode = "worldwide" | "viewport";
-export type SatelliteFeedMode = "simulated" | "live";
+export type SatelliteFeedMode = "simulated" | "live" | "replay" | "sources";
+/** Simulated patrols, real vehicles via the relay, or runtime sources */
+export type DroneFeedMode = "simulated" | "live" | "sources";
+/** Live drones: MAVLink telemetry, or ASTM F3411 Remote ID broadcasts */
+export type DroneLiveSource = "mavlink" | "remoteid";
+/** Where live aircraft come from: OpenSky via the relay, or a local ADS-B receiver */
+export type AircraftLiveSource = "opensky" | "adsb";
+/** Live AIS input: aisstream.io via the relay, or raw NMEA from our own receivers */
+export type AISLiveSource = "aisstream" | "nmea";
+/** ADS-B receiver output: dump1090/readsb aircraft.json, or the SBS-1 TCP stream */
+export type AdsbInputFormat = "aircraft-json" | "sbs";
 
 export interface AircraftFeedParams {
   mode: FeedMode;
+  source: AircraftLiveSource;
   coverage: CoverageMode;
   interpolation: boolean;
+  adsbFormat: AdsbInputFormat;
+  /** aircraft.json URL for the "aircraft-json" format */
+  adsbJsonUrl: string;
+  /** Receiver host:port for the "sbs" format (reached through the relay) */
+  adsbSbsAddress: string;
   simulatedCount: number;
   lastError: string;
   trackedCount: number;
   msgRate: number;
   status: string;
-  indicatorStatus: "simulated" | "live" | "connecting" | "error";
+  indicatorStatus: "simulated" | "live" | "connecting" | "error" | "replay";
 }
 
 export interface SatelliteFeedParams {
@@ -36,7 +53,7 @@ export interface SatelliteFeedParams {
   simulatedCount: number;
   liveGroup: string;
   status: string;
-  indicatorStatus: "simulated" | "live" | "connecting" | "error";
+  indicatorStatus: "simulated" | "live" | "connecting" | "error" | "replay";
   lastError: string;
   trackedCount: number;
   msgRate: number;
@@ -44,21 +61,54 @@ export interface SatelliteFeedParams {
 
 export interface AISFeedParams {
   mode: FeedMode;
+  source: AISLiveSource;
   status: string;
-  indicatorStatus: "simulated" | "live" | "connecting" | "error";
+  indicatorStatus: "simulated" | "live" | "connecting" | "error" | "replay";
   lastError: string;
   trackedCount: number;
   msgRate: number;
 }
 
+export interface DroneFeedParams {
+  mode: DroneFeedMode;
+  source: DroneLiveSource;
+  status: string;
+  indicatorStatus: "simulated" | "live" | "connecting" | "error" | "replay";
+  lastError: string;
+  trackedCount: number;
+  msgRate: number;
+}
+
+export interface ReplayParams {
+  /** Whether live feed traffic is currently being recorded */
+  recording: boolean;
+  /** Updates captured in the current recording */
+  recordedUpdates: number;
+  /** Archived session selected for replay */
+  session: string;
+  /** Playback speed multiplier */
+  speed: number;
+  /** Restart the session when it ends */
+  loop: boolean;
+  /** Whether a replay is driving the unit state */
+  active: boolean;
+  status: string;
+  /** Playback position, formatted for display */
+  progress: string;
+}
+
 // =============================================================================
 // STATE
 // =============================================================================
 
 export const aircraftFeedParams: AircraftFeedParams = {
   mode: "simulated",
+  source: "opensky",
   coverage: "worldwide",
   interpolation: true,
+  adsbFormat: "aircraft-json",
+  adsbJsonUrl: "http://localhost:8080/data/aircraft.json",
+  adsbSbsAddress: "localhost:30003",
   simulatedCount: 500,
   lastError: "",
   trackedCount: 0,
@@ -80,6 +130,17 @@ export const satelliteFeedParams: SatelliteFeedParams = {
 
 export const aisFeedParams: AISFeedParams = {
   mode: "simulated",
+  source: "aisstream",
+  status: "idle",
+  indicatorStatus: "simulated",
+  lastError: "",
+  trackedCount: 0,
+  msgRate: 0,
+};
+
+export const droneFeedParams: DroneFeedParams = {
+  mode: "simulated",
+  source: "mavlink",
   status: "idle",
   indicatorStatus: "simulated",
   lastError: "",
@@ -87,6 +148,17 @@ export const aisFeedParams: AISFeedParams = {
   msgRate: 0,
 };
 
+export const replayParams: ReplayParams = {
+  recording: false,
+  recordedUpdates: 0,
+  session: "",
+  speed: 1,
+  loop: false,
+  active: false,
+  status: "idle",
+  progress: "—",
+};
+
 // =============================================================================
 // UI UPDATES
 // =============================================================================
@@ -96,6 +168,7 @@ export const INDICATOR_LABELS: Record<string, string> = {
   live: "LIVE",
   connecting: "CONNECTING",
   error: "ERROR",
+  replay: "REPLAY",
 };
 
 /**
@@ -108,23 +181,26 @@ export function updateLiveIndicator(): void {
   if (!indicator || !textEl) return;
 
   // Determine combined status
-  // Priority: Error > Connecting > Live > Simulated
+  // Priority: Replay > Error > Connecting > Live > Simulated
   let status: string = "simulated";
 
   const air = aircraftFeedParams.indicatorStatus;
   const sat = satelliteFeedParams.indicatorStatus;
   const ais = aisFeedParams.indicatorStatus;
+  const uav = droneFeedParams.indicatorStatus;
 
-  if (air === "error" || sat === "error" || ais === "error") {
+  if (replayParams.active) {
+    status = "replay";
+  } else if (air === "error" || sat === "error" || ais === "error" || uav === "error") {
     status = "error";
-  } else if (air === "connecting" || sat === "connecting" || ais === "connecting") {
+  } else if (air === "connecting" || sat === "connecting" || ais === "connecting" || uav === "connecting") {
     status = "connecting";
-  } else if (air === "live" || sat === "live" || ais === "live") {
+  } else if (air === "live" || sat === "live" || ais === "live" || uav === "live") {
     status = "live";
   }
 
   // Remove all mode classes
-  indicator.classList.remove("mode-simulated", "mode-live", "mode-connecting", "mode-error");
+  indicator.classList.remove("mode-simulated", "mode-live", "mode-connecting", "mode-error", "mode-replay");
 
   // Add current mode class
   indicator.classList.add(`mode-${status}`);
@@ -6,6 +6,7 @@
  */
 
 import { BaseFeed, DEFAULT_FEED_CONFIG } from "./base-feed";
+import { getTimelineRate } from "../simulation/timeline";
 import type { AircraftUpdate, FeedConfig } from "./types";
 import type { AircraftState } from "../types";
 import {
@@ -134,11 +135,14 @@ export class SimulatedAircraftFeed extends BaseFeed<AircraftUpdate, AircraftStat
 
   protected tick(): void {
     const now = performance.now();
-    const deltaTime = (now - this._lastTickTime) / 1000;
+    const realDeltaTime = (now - this._lastTickTime) / 1000;
     this._lastTickTime = now;
 
     // Skip if delta is too large (tab was inactive)
-    if (deltaTime > 1) return;
+    if (realDeltaTime > 1) return;
+
+    // Scale by the global timeline (0 while paused)
+    const deltaTime = realDeltaTime * getTimelineRate();
 
     const updates: AircraftUpdate[] = [];
 
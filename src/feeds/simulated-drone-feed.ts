@@ -3,10 +3,12 @@
  *
  * Generates realistic simulated UAV/drone patrol data.
  * Drones fly circular patrol patterns over strategic regions.
- * Can be replaced with a real tactical feed later.
+ * Real vehicles come from MavlinkDroneFeed (MAVLink telemetry) or
+ * RemoteIdFeed (Remote ID broadcasts), both via the relay.
  */
 
 import { BaseFeed, DEFAULT_FEED_CONFIG } from "./base-feed";
+import { getTimelineRate } from "../simulation/timeline";
 import type { DroneUpdate, FeedConfig } from "./types";
 import type { DroneState } from "../types";
 import {
@@ -118,10 +120,13 @@ export class SimulatedDroneFeed extends BaseFeed<DroneUpdate, DroneState> {
 
   protected tick(): void {
     const now = performance.now();
-    const deltaTime = (now - this._lastTickTime) / 1000;
+    const realDeltaTime = (now - this._lastTickTime) / 1000;
     this._lastTickTime = now;
 
-    if (deltaTime > 1) return;
+    if (realDeltaTime > 1) return;
+
+    // Scale by the global timeline (0 while paused)
+    const deltaTime = realDeltaTime * getTimelineRate();
 
     const updates: DroneUpdate[] = [];
 
@@ -6,6 +6,7 @@
  */
 
 import { BaseFeed, DEFAULT_FEED_CONFIG } from "./base-feed";
+import { getTimelineRate } from "../simulation/timeline";
 import type { ShipUpdate, FeedConfig } from "./types";
 import type { ShipState } from "../types";
 import {
@@ -115,11 +116,14 @@ export class SimulatedShipFeed extends BaseFeed<ShipUpdate, ShipState> {
 
   protected tick(): void {
     const now = performance.now();
-    const deltaTime = (now - this._lastTickTime) / 1000;
+    const realDeltaTime = (now - this._lastTickTime) / 1000;
     this._lastTickTime = now;
 
     // Skip if delta is too large (tab was inactive)
-    if (deltaTime > 1) return;
+    if (realDeltaTime > 1) return;
+
+    // Scale by the global timeline (0 while paused)
+    const deltaTime = realDeltaTime * getTimelineRate();
 
     const updates: ShipUpdate[] = [];
 
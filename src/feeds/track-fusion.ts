@@ -0,0 +1,335 @@
+/**
+ * Track Fusion
+ *
+ * Correlates the units reported by several sources of one unit type into a
+ * single track per real-world unit. Reports are matched by identity (ICAO24,
+ * MMSI, NORAD number, Remote ID serial); reports without one are matched to
+ * the nearest track from other sources within a distance, time and altitude
+ * gate. A fused track takes its attributes from the freshest report, averages
+ * positions reported at nearly the same time, and lists the contributing
+ * sources in `sources`.
+ */
+
+import type { FeedUnitType } from "./session-recorder";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** The current units of one source */
+export interface FusionSource {
+  /** Display name, recorded on the tracks it contributes to */
+  name: string;
+  units: any[];
+}
+
+/** How close an unidentified report must be to join another source's track */
+interface ProximityGate {
+  distanceKm: number;
+  /** Max difference between the two reports' lastUpdate (seconds) */
+  maxTimeDeltaSeconds: number;
+  /** Max difference in the unit's `altitude` field, if compared */
+  maxAltitudeDelta?: number;
+}
+
+interface Report {
+  unit: any;
+  source: string;
+}
+
+interface Track {
+  key: string;
+  identity?: string;
+  reports: Report[];
+  /** Freshest report; its position places the track for proximity matching */
+  latest: Report;
+  /** Set once the track has been folded into another one */
+  absorbed: boolean;
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+const PROXIMITY_GATES: Record<FeedUnitType, ProximityGate | null> = {
+  ship: { distanceKm: 0.2, maxTimeDeltaSeconds: 60 },
+  aircraft: { distanceKm: 2, maxTimeDeltaSeconds: 15, maxAltitudeDelta: 1000 }, // feet
+  // Orbits are propagated from catalogued TLEs; only NORAD numbers correlate
+  satellite: null,
+  drone: { distanceKm: 0.15, maxTimeDeltaSeconds: 10 },
+};
+
+/** Reports this close in time to the freshest one have their positions averaged */
+const BLEND_WINDOW_SECONDS = 2;
+
+const KM_PER_DEG = 111.32;
+const DEG_TO_RAD = Math.PI / 180;
+
+// =============================================================================
+// IDENTITY
+// =============================================================================
+
+/**
+ * Identity that is the same in every source reporting the unit, if known.
+ */
+function trackIdentity(type: FeedUnitType, unit: any): string | undefined {
+  switch (type) {
+    case "ship":
+      return unit.mmsi ? String(unit.mmsi) : undefined;
+    case "aircraft":
+      return unit.icao24 || undefined;
+    case "satellite":
+      return unit.satnum || undefined;
+    case "drone":
+      return unit.serialNumber || undefined;
+  }
+}
+
+function displayName(type: FeedUnitType, unit: any): string {
+  return type === "aircraft" ? unit.callsign : unit.name;
+}
+
+// =============================================================================
+// FUSION
+// =============================================================================
+
+/**
+ * Fuses the sources of one unit type. Tracks reported by several sources
+ * are written into objects owned by the fusion (reused across calls), so
+ * source units are never modified beyond their `sources` list.
+ */
+export class TrackFusion {
+  private readonly _type: FeedUnitType;
+  private readonly _gate: ProximityGate | null;
+  private _fused: Map<string, any> = new Map();
+  /** Multi-source tracks of the last fuse(), re-blended by refresh() */
+  private _blended: Track[] = [];
+  /** Shared `sources` arrays for single-source tracks */
+  private _singleSourceLists: Map<string, string[]> = new Map();
+
+  constructor(type: FeedUnitType) {
+    this._type = type;
+    this._gate = PROXIMITY_GATES[type];
+  }
+
+  /**
+   * Rebuild a state array from the current units of every source.
+   */
+  fuse(sources: FusionSource[], stateArray: any[]): void {
+    const tracks = this.correlateByIdentity(sources);
+    if (this._gate && sources.length > 1) this.correlateByProximity(tracks, this._gate);
+
+    const fused = new Map<string, any>();
+    this._blended = [];
+    stateArray.length = 0;
+
+    for (const track of tracks.values()) {
+      if (track.absorbed) continue;
+
+      const contributors = new Set<string>();
+      for (const report of track.reports) contributors.add(report.source);
+
+      if (contributors.size === 1) {
+        const unit = track.latest.unit;
+        unit.sources = this.singleSourceList(track.latest.source);
+        stateArray.push(unit);
+      } else {
+        const unit = this.blend(track, this._fused.get(track.key) ?? {});
+        unit.sources = Array.from(contributors);
+        fused.set(track.key, unit);
+        this._blended.push(track);
+        stateArray.push(unit);
+      }
+    }
+
+    this._fused = fused;
+  }
+
+  /**
+   * Re-blend the multi-source tracks of the last fuse() after their sources
+   * moved units in place without new reports (e.g. interpolation). Single-source
+   * tracks are the source units themselves, so they need nothing.
+   */
+  refresh(): void {
+    for (const track of this._blended) {
+      this.blend(track, this._fused.get(track.key));
+    }
+  }
+
+  /**
+   * Group reports by identity. A report without one starts its own track,
+   * keyed by source and name so a fused object is reused across calls; names
+   * such as MAV-001 repeat between sources, so only the proximity gate may
+   * join it to another source's track.
+   */
+  private correlateByIdentity(sources: FusionSource[]): Map<string, Track> {
+    const tracks = new Map<string, Track>();
+
+    for (const source of sources) {
+      for (const unit of source.units) {
+        const identity = trackIdentity(this._type, unit);
+        const report: Report = { unit, source: source.name };
+
+        if (!identity) {
+          const base = `@${source.name}/${displayName(this._type, unit)}`;
+          let key = base;
+          for (let n = 2; tracks.has(key); n++) key = `${base}/${n}`;
+          tracks.set(key, { key, reports: [report], latest: report, absorbed: false });
+          continue;
+        }
+
+        const key = `#${identity}`;
+        const track = tracks.get(key);
+        if (!track) {
+          tracks.set(key, { key, identity, reports: [report], latest: report, absorbed: false });
+          continue;
+        }
+        track.reports.push(report);
+        if ((unit.lastUpdate ?? 0) >= (track.latest.unit.lastUpdate ?? 0)) track.latest = report;
+      }
+    }
+    return tracks;
+  }
+
+  /**
+   * Fold each track without an identity into the nearest track within the
+   * gate that no source reports twice. Tracks with different identities are
+   * never merged.
+   */
+  private correlateByProximity(tracks: Map<string, Track>, gate: ProximityGate): void {
+    let unidentified = 0;
+    for (const track of tracks.values()) {
+      if (!track.identity) unidentified++;
+    }
+    if (unidentified === 0) return;
+
+    // Bucket tracks on a lat/lon grid with cells one gate distance tall
+    const cellDeg = gate.distanceKm / KM_PER_DEG;
+    const grid = new Map<string, Track[]>();
+    for (const track of tracks.values()) {
+      const { lat, lon } = track.latest.unit;
+      const cellKey = `${Math.floor(lat / cellDeg)},${Math.floor(lon / cellDeg)}`;
+      const cell = grid.get(cellKey);
+      if (cell) cell.push(track);
+      else grid.set(cellKey, [track]);
+    }
+
+    for (const track of tracks.values()) {
+      if (track.identity || track.absorbed) continue;
+
+      const { lat, lon } = track.latest.unit;
+      const row = Math.floor(lat / cellDeg);
+      const col = Math.floor(lon / cellDeg);
+      // A gate distance spans more degrees of longitude away from the equator
+      const colSpan = Math.min(Math.ceil(1 / Math.max(Math.cos(lat * DEG_TO_RAD), 0.01)), 50);
+
+      let best: Track | null = null;
+      let bestDistance = Infinity;
+      for (let r = row - 1; r <= row + 1; r++) {
+        for (let c = col - colSpan; c <= col + colSpan; c++) {
+          const cell = grid.get(`${r},${c}`);
+          if (!cell) continue;
+
+          for (const candidate of cell) {
+            if (candidate === track || candidate.absorbed || sharesSource(track, candidate)) continue;
+            const distance = gateDistance(track.latest.unit, candidate.latest.unit, gate);
+            if (distance < bestDistance) {
+              best = candidate;
+              bestDistance = distance;
+            }
+          }
+        }
+      }
+      if (!best) continue;
+
+      best.reports.push(...track.reports);
+      if ((track.latest.unit.lastUpdate ?? 0) > (best.latest.unit.lastUpdate ?? 0)) best.latest = track.latest;
+      track.absorbed = true;
+    }
+  }
+
+  /**
+   * Write a multi-source track into `target`: attributes from the freshest
+   * report (older reports fill fields it lacks), position averaged over the
+   * reports within BLEND_WINDOW_SECONDS of it.
+   */
+  private blend(track: Track, target: any): any {
+    const reports = [...track.reports].sort(
+      (a, b) => (a.unit.lastUpdate ?? 0) - (b.unit.lastUpdate ?? 0)
+    );
+    for (const { unit } of reports) {
+      for (const key in unit) {
+        if (unit[key] !== undefined) target[key] = unit[key];
+      }
+    }
+
+    const latest = reports[reports.length - 1].unit;
+    const latestTime = latest.lastUpdate ?? 0;
+    let latSum = 0;
+    let lonOffsetSum = 0;
+    let count = 0;
+    for (const { unit } of reports) {
+      if (latestTime - (unit.lastUpdate ?? 0) > BLEND_WINDOW_SECONDS) continue;
+      latSum += unit.lat;
+      lonOffsetSum += wrapLongitude(unit.lon - latest.lon);
+      count++;
+    }
+    target.lat = latSum / count;
+    target.lon = wrapLongitude(latest.lon + lonOffsetSum / count);
+
+    // Feeds fall back to the ICAO24 hex when no flight ID is known; prefer a real one
+    if (this._type === "aircraft" && target.icao24 && target.callsign?.toLowerCase() === target.icao24) {
+      for (let i = reports.length - 1; i >= 0; i--) {
+        const callsign = reports[i].unit.callsign;
+        if (callsign && callsign.toLowerCase() !== target.icao24) {
+          target.callsign = callsign;
+          break;
+        }
+      }
+    }
+    return target;
+  }
+
+  private singleSourceList(source: string): string[] {
+    let list = this._singleSourceLists.get(source);
+    if (!list) {
+      list = [source];
+      this._singleSourceLists.set(source, list);
+    }
+    return list;
+  }
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function sharesSource(a: Track, b: Track): boolean {
+  for (const report of a.reports) {
+    if (b.reports.some((other) => other.source === report.source)) return true;
+  }
+  return false;
+}
+
+/**
+ * Horizontal distance in km between two units, or Infinity if they fall
+ * outside the gate.
+ */
+function gateDistance(a: any, b: any, gate: ProximityGate): number {
+  if (a.lastUpdate !== undefined && b.lastUpdate !== undefined &&
+      Math.abs(a.lastUpdate - b.lastUpdate) > gate.maxTimeDeltaSeconds) {
+    return Infinity;
+  }
+  if (gate.maxAltitudeDelta !== undefined && Math.abs((a.altitude ?? 0) - (b.altitude ?? 0)) > gate.maxAltitudeDelta) {
+    return Infinity;
+  }
+
+  const dLat = (b.lat - a.lat) * KM_PER_DEG;
+  const dLon = wrapLongitude(b.lon - a.lon) * KM_PER_DEG * Math.cos(((a.lat + b.lat) / 2) * DEG_TO_RAD);
+  const distance = Math.hypot(dLat, dLon);
+  return distance <= gate.distanceKm ? distance : Infinity;
+}
+
+function wrapLongitude(lon: number): number {
+  return ((((lon + 180) % 360) + 360) % 360) - 180;
+}
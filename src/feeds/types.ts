@@ -50,6 +50,9 @@ export interface SatelliteUpdate {
   heading: number;
   orbitType?: "LEO" | "MEO" | "GEO";
   timestamp?: number;
+  /** TLE lines; recordings carry them once so replays can re-propagate */
+  tleLine1?: string;
+  tleLine2?: string;
 }
 
 /** Drone position update from a data feed */
@@ -82,7 +85,14 @@ export interface FeedStats {
   /** Number of active units being tracked */
   activeUnits: number;
   /** Connection status (for real feeds) */
-  status: "connected" | "disconnected" | "connecting" | "simulated";
+  status: "connected" | "disconnected" | "connecting" | "simulated" | "replay";
+  /** Latency percentiles over recent messages (feeds that know source time) */
+  latencyP50Ms?: number;
+  latencyP95Ms?: number;
+  /** Reconnect attempts since the feed was created (for real feeds) */
+  reconnects?: number;
+  /** Messages waiting to be processed (AIS worker queue) */
+  queueSize?: number;
 }
 
 // =============================================================================
@@ -123,6 +133,9 @@ export interface DataFeed<TUpdate, TState> {
   /** Stop receiving/generating data */
   stop(): void;
 
+  /** Stop and release resources (e.g. workers) for good; the feed is not restarted */
+  dispose?(): void;
+
   /** Check if feed is running */
   isRunning(): boolean;
 
@@ -140,6 +153,12 @@ export interface DataFeed<TUpdate, TState> {
 
   /** Update configuration */
   setConfig(config: Partial<FeedConfig>): void;
+
+  /**
+   * Opening batch for a new recording, for feeds whose updates don't carry
+   * their whole state (e.g. orbits propagated from a TLE catalogue)
+   */
+  getRecordingSnapshot?(): TUpdate[];
 }
 
 // =============================================================================
@@ -151,6 +170,18 @@ export type AircraftFeed = DataFeed<AircraftUpdate, AircraftState>;
 export type SatelliteFeed = DataFeed<SatelliteUpdate, SatelliteState>;
 export type DroneFeed = DataFeed<DroneUpdate, DroneState>;
 
+/**
+ * A feed that can run as one of several merged sources for its unit type.
+ * Feeds that keep full unit state expose syncToState(); the rest are read
+ * through getUnits() whenever they emit.
+ */
+export interface SourceFeed<TState = any> extends DataFeed<any, TState> {
+  /** Copy the feed's units into an array. Returns true if anything changed. */
+  syncToState?(stateArray: TState[]): boolean;
+  /** Last connection or fetch error, if the feed reports one */
+  readonly lastError?: string | null;
+}
+
 // =============================================================================
 // FEED MANAGER INTERFACE
 // =============================================================================
@@ -0,0 +1,189 @@
+/**
+ * Unit Filter Queries
+ *
+ * Applies a query (see utils/filter-query.ts) on top of the fixed visibility
+ * toggles. Icons, labels, click picking, H3 density and exports all go
+ * through unitMatchesFilter(). Named queries persist in localStorage.
+ */
+
+import { compileFilterQuery, type FilterUnitType, type FilterUnit, type UnitPredicate } from "../utils/filter-query";
+
+// =============================================================================
+// TYPES & PARAMETERS
+// =============================================================================
+
+export interface SavedFilter {
+  name: string;
+  query: string;
+}
+
+export interface FilterQueryParams {
+  /** Apply the query (when off, only the fixed toggles filter units) */
+  enabled: boolean;
+  /** Query text as typed */
+  query: string;
+  /** Name used by saveNamedFilter() */
+  name: string;
+  /** Status text for the GUI */
+  status: string;
+}
+
+export const filterQueryParams: FilterQueryParams = {
+  enabled: false,
+  query: "",
+  name: "Filter",
+  status: "off",
+};
+
+const STORAGE_KEY = "unit-filter-queries";
+
+// =============================================================================
+// STATE
+// =============================================================================
+
+let activePredicate: UnitPredicate | null = null;
+const savedFilters: SavedFilter[] = [];
+const savedListeners = new Set<() => void>();
+
+// =============================================================================
+// ACTIVE QUERY
+// =============================================================================
+
+/**
+ * True if the unit passes the active query (always true when none is applied).
+ */
+export function unitMatchesFilter(type: FilterUnitType, unit: FilterUnit): boolean {
+  return !activePredicate || activePredicate(type, unit);
+}
+
+export function isFilterQueryActive(): boolean {
+  return activePredicate !== null;
+}
+
+/**
+ * Compile filterQueryParams.query and make it active if enabled.
+ * A query that fails to parse leaves units unfiltered and reports the error.
+ * Returns true when the query is valid (or empty).
+ */
+export function applyFilterQuery(): boolean {
+  const query = filterQueryParams.query.trim();
+  activePredicate = null;
+
+  if (!query) {
+    filterQueryParams.status = "no query";
+    return true;
+  }
+
+  let predicate: UnitPredicate;
+  try {
+    predicate = compileFilterQuery(query);
+  } catch (error) {
+    filterQueryParams.status = error instanceof Error ? error.message : String(error);
+    return false;
+  }
+
+  if (filterQueryParams.enabled) {
+    activePredicate = predicate;
+    filterQueryParams.status = "applied";
+  } else {
+    filterQueryParams.status = "valid (off)";
+  }
+  return true;
+}
+
+export function setFilterQueryEnabled(enabled: boolean): void {
+  filterQueryParams.enabled = enabled;
+  applyFilterQuery();
+}
+
+// =============================================================================
+// SAVED QUERIES
+// =============================================================================
+
+export function getSavedFilters(): readonly SavedFilter[] {
+  return savedFilters;
+}
+
+export function onSavedFiltersChanged(listener: () => void): void {
+  savedListeners.add(listener);
+}
+
+/**
+ * Save the current query under filterQueryParams.name (replacing a query of
+ * the same name). Invalid queries are not saved.
+ */
+export function saveNamedFilter(): void {
+  const name = filterQueryParams.name.trim();
+  const query = filterQueryParams.query.trim();
+  if (!name || !query) {
+    filterQueryParams.status = "name and query required";
+    return;
+  }
+  try {
+    compileFilterQuery(query);
+  } catch (error) {
+    filterQueryParams.status = error instanceof Error ? error.message : String(error);
+    return;
+  }
+
+  const existing = savedFilters.find((filter) => filter.name === name);
+  if (existing) {
+    existing.query = query;
+  } else {
+    savedFilters.push({ name, query });
+  }
+  persistSavedFilters();
+  filterQueryParams.status = `saved "${name}"`;
+}
+
+/**
+ * Load a saved query into the editor and apply it.
+ */
+export function loadNamedFilter(name: string): void {
+  const filter = savedFilters.find((f) => f.name === name);
+  if (!filter) return;
+  filterQueryParams.name = filter.name;
+  filterQueryParams.query = filter.query;
+  applyFilterQuery();
+}
+
+export function deleteNamedFilter(name: string): void {
+  const index = savedFilters.findIndex((filter) => filter.name === name);
+  if (index < 0) return;
+  savedFilters.splice(index, 1);
+  persistSavedFilters();
+}
+
+/**
+ * Restore queries saved by a previous session.
+ */
+export function loadSavedFilters(): void {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return;
+
+    const saved = JSON.parse(raw) as SavedFilter[];
+    savedFilters.length = 0;
+    for (const filter of saved) {
+      if (typeof filter?.name === "string" && typeof filter?.query === "string") {
+        savedFilters.push({ name: filter.name, query: filter.query });
+      }
+    }
+    for (const listener of savedListeners) {
+      listener();
+    }
+  } catch (err) {
+    console.error("[Filters] Failed to load saved queries:", err);
+  }
+}
+
+function persistSavedFilters(): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(savedFilters));
+  } catch (err) {
+    console.error("[Filters] Failed to save queries:", err);
+  }
+  for (const listener of savedListeners) {
+    listener();
+  }
+}
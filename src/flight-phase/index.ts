@@ -0,0 +1,223 @@
+/**
+ * Flight Phases & Airport Boards
+ *
+ * Tracks every aircraft's phase of flight (taxi, takeoff, climb, cruise,
+ * descent, approach, landed) from its recent altitude and speed, and derives
+ * live arrivals/departures boards for an airport from those phases.
+ */
+
+import { EARTH_RADIUS } from "../constants";
+import { state, aircraftSelectionId } from "../state";
+import { AIRPORTS } from "../data/airports";
+import { greatCircleDistance } from "../utils/coordinates";
+import { getTimelineTime } from "../simulation/timeline";
+import { inferFlightPhase, type FlightPhase } from "../utils/flight-phase";
+import type { Airport } from "../types";
+
+// =============================================================================
+// TYPES & PARAMETERS
+// =============================================================================
+
+export interface BoardEntry {
+  /** aircraftSelectionId() of the aircraft */
+  id: string;
+  callsign: string;
+  /** ICAO type code or category (empty if unknown) */
+  type: string;
+  phase: FlightPhase;
+  /** Feet */
+  altitude: number;
+  /** Knots */
+  groundSpeed: number;
+  /** Distance from the airport (km) */
+  distanceKm: number;
+  /** Minutes to the airport at current ground speed (arrivals in the air only) */
+  etaMinutes: number | null;
+}
+
+export interface AirportBoard {
+  arrivals: BoardEntry[];
+  departures: BoardEntry[];
+}
+
+export interface FlightPhaseParams {
+  enabled: boolean;
+  /** Aircraft within this distance of the selected airport are listed (km) */
+  boardRadiusKm: number;
+  /** Real time between phase updates (ms) */
+  updateIntervalMs: number;
+}
+
+export const flightPhaseParams: FlightPhaseParams = {
+  enabled: true,
+  boardRadiusKm: 50,
+  updateIntervalMs: 2000,
+};
+
+const KM_PER_SCENE_UNIT = 6371 / EARTH_RADIUS;
+const KM_PER_DEGREE = 111.32;
+
+/** Nearest-airport search radius for phase inference (approach radius plus margin) */
+const AIRPORT_SEARCH_KM = 40;
+
+/** Weight of the newest sample in the smoothed vertical rate */
+const VERTICAL_RATE_SMOOTHING = 0.5;
+
+const ARRIVAL_PHASES: ReadonlySet<FlightPhase> = new Set(["descent", "approach", "landed"]);
+const DEPARTURE_PHASES: ReadonlySet<FlightPhase> = new Set(["taxi", "takeoff", "climb"]);
+
+// =============================================================================
+// STATE
+// =============================================================================
+
+interface PhaseTrack {
+  phase: FlightPhase;
+  altitude: number;
+  /** Timeline time of the altitude sample (unix ms) */
+  time: number;
+  /** Smoothed ft/min (null until two samples) */
+  verticalRate: number | null;
+  /** Altitude when last seen on the ground (feet) */
+  groundAltitude: number | null;
+}
+
+/** Phase history by aircraftSelectionId() */
+const tracks = new Map<string, PhaseTrack>();
+
+let lastUpdateTime = 0;
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Re-infer every aircraft's phase and store it on the aircraft state.
+ * Call once per frame; throttled by flightPhaseParams.updateIntervalMs.
+ */
+export function updateFlightPhases(): void {
+  if (!flightPhaseParams.enabled) return;
+
+  const now = performance.now();
+  if (now - lastUpdateTime < flightPhaseParams.updateIntervalMs) return;
+  lastUpdateTime = now;
+
+  const time = getTimelineTime();
+  const seen = new Set<string>();
+
+  for (const ac of state.aircraft) {
+    const id = aircraftSelectionId(ac);
+    if (!id) continue;
+    seen.add(id);
+
+    const track = tracks.get(id);
+    const verticalRate = track ? sampleVerticalRate(track, ac.altitude, time) : null;
+    const trend = ac.altitudeTrend ?? 0;
+
+    const phase = inferFlightPhase(
+      {
+        groundSpeed: ac.groundSpeed,
+        height: ac.altitude - (track?.groundAltitude ?? 0),
+        // Fall back to the feed's climb/descend flag until a rate is available
+        verticalRate: verticalRate ?? trend * 1000,
+        airportDistanceKm: nearestAirportKm(ac.lat, ac.lon),
+      },
+      track?.phase ?? null
+    );
+
+    const onGround = phase === "taxi" || phase === "landed";
+    tracks.set(id, {
+      phase,
+      altitude: ac.altitude,
+      time,
+      verticalRate,
+      groundAltitude: onGround ? ac.altitude : track?.groundAltitude ?? null,
+    });
+    ac.flightPhase = phase;
+  }
+
+  // Forget aircraft that have left the feed
+  for (const id of tracks.keys()) {
+    if (!seen.has(id)) tracks.delete(id);
+  }
+}
+
+/**
+ * Turn inference on or off. Turning it off clears phases (and so the boards).
+ */
+export function setFlightPhaseInference(enabled: boolean): void {
+  flightPhaseParams.enabled = enabled;
+  lastUpdateTime = 0;
+  if (enabled) return;
+
+  tracks.clear();
+  for (const ac of state.aircraft) {
+    ac.flightPhase = undefined;
+  }
+}
+
+/**
+ * Arrivals and departures around an airport, nearest first.
+ */
+export function getAirportBoard(airport: Airport): AirportBoard {
+  const radiusKm = flightPhaseParams.boardRadiusKm;
+  const latRange = radiusKm / KM_PER_DEGREE;
+  const arrivals: BoardEntry[] = [];
+  const departures: BoardEntry[] = [];
+
+  for (const ac of state.aircraft) {
+    const phase = ac.flightPhase;
+    if (!phase || Math.abs(ac.lat - airport.lat) > latRange) continue;
+
+    const isArrival = ARRIVAL_PHASES.has(phase);
+    if (!isArrival && !DEPARTURE_PHASES.has(phase)) continue;
+
+    const distanceKm = distanceBetweenKm(ac.lat, ac.lon, airport.lat, airport.lon);
+    if (distanceKm > radiusKm) continue;
+
+    const entry: BoardEntry = {
+      id: aircraftSelectionId(ac),
+      callsign: ac.callsign,
+      type: ac.icaoTypeCode || ac.aircraftType || "",
+      phase,
+      altitude: ac.altitude,
+      groundSpeed: ac.groundSpeed,
+      distanceKm,
+      etaMinutes: isArrival && phase !== "landed" && ac.groundSpeed > 0
+        ? (distanceKm / (ac.groundSpeed * 1.852)) * 60
+        : null,
+    };
+    (isArrival ? arrivals : departures).push(entry);
+  }
+
+  arrivals.sort((a, b) => a.distanceKm - b.distanceKm);
+  departures.sort((a, b) => a.distanceKm - b.distanceKm);
+  return { arrivals, departures };
+}
+
+// =============================================================================
+// INTERNALS
+// =============================================================================
+
+function sampleVerticalRate(track: PhaseTrack, altitude: number, time: number): number | null {
+  const minutes = (time - track.time) / 60000;
+  // Paused or rewound timeline: keep the last rate
+  if (minutes <= 0) return track.verticalRate;
+
+  const rate = (altitude - track.altitude) / minutes;
+  if (track.verticalRate === null) return rate;
+  return track.verticalRate + (rate - track.verticalRate) * VERTICAL_RATE_SMOOTHING;
+}
+
+function nearestAirportKm(lat: number, lon: number): number {
+  const latRange = AIRPORT_SEARCH_KM / KM_PER_DEGREE;
+  let nearest = Infinity;
+  for (const airport of AIRPORTS) {
+    if (Math.abs(airport.lat - lat) > latRange) continue;
+    nearest = Math.min(nearest, distanceBetweenKm(lat, lon, airport.lat, airport.lon));
+  }
+  return nearest;
+}
+
+function distanceBetweenKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  return greatCircleDistance(lat1, lon1, lat2, lon2) * KM_PER_SCENE_UNIT;
+}
@@ -0,0 +1,574 @@
+/**
+ * Geofence Zones
+ *
+ * Named polygon/circle zones drawn on the globe. Ships, aircraft and drones are
+ * tested against each zone periodically; crossing a zone boundary raises an
+ * entry/exit alert when the unit matches the zone's rule (type, speed, country).
+ * Zones persist in localStorage.
+ */
+
+import { EARTH_RADIUS } from "../constants";
+import { state, aircraftSelectionId } from "../state";
+import { getCountryFromMMSI } from "../data/mmsi-mid";
+import { greatCircleDistance } from "../utils/coordinates";
+import { getTimelineTime } from "../simulation/timeline";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type GeofenceShape = "polygon" | "circle";
+
+/** Unit types that can trigger geofence alerts */
+export type GeofenceUnitType = "ship" | "aircraft" | "drone";
+
+export interface LatLon {
+  lat: number;
+  lon: number;
+}
+
+/** Which units a zone alerts on */
+export interface GeofenceRule {
+  ships: boolean;
+  aircraft: boolean;
+  drones: boolean;
+  /** Minimum speed in knots (0 = no minimum) */
+  minSpeed: number;
+  /** Maximum speed in knots (0 = no maximum) */
+  maxSpeed: number;
+  /** Country name filter, case-insensitive substring (empty = any) */
+  country: string;
+  alertOnEntry: boolean;
+  alertOnExit: boolean;
+}
+
+export interface GeofenceZone {
+  id: string;
+  name: string;
+  shape: GeofenceShape;
+  /** Polygon vertices (polygon zones) */
+  points: LatLon[];
+  /** Circle center (circle zones) */
+  center?: LatLon;
+  /** Circle radius in km (circle zones) */
+  radiusKm?: number;
+  /** Outline color (hex string) */
+  color: string;
+  enabled: boolean;
+  rule: GeofenceRule;
+}
+
+export interface GeofenceAlert {
+  id: number;
+  /** Simulation time of the crossing (unix ms) */
+  time: number;
+  event: "entry" | "exit";
+  zoneId: string;
+  zoneName: string;
+  unitType: GeofenceUnitType;
+  /** Stable unit ID (mmsi, aircraftSelectionId(), drone name) */
+  unitId: string;
+  /** Display label for the unit */
+  unitLabel: string;
+  lat: number;
+  lon: number;
+}
+
+// =============================================================================
+// PARAMETERS
+// =============================================================================
+
+export interface GeofenceParams {
+  /** Evaluate zones and raise alerts */
+  enabled: boolean;
+  /** Milliseconds between zone evaluations */
+  checkIntervalMs: number;
+  /** Alerts kept in the panel (oldest dropped first) */
+  maxAlerts: number;
+}
+
+export const geofenceParams: GeofenceParams = {
+  enabled: true,
+  checkIntervalMs: 1000,
+  maxAlerts: 200,
+};
+
+export const DEFAULT_GEOFENCE_RULE: GeofenceRule = {
+  ships: true,
+  aircraft: true,
+  drones: true,
+  minSpeed: 0,
+  maxSpeed: 0,
+  country: "",
+  alertOnEntry: true,
+  alertOnExit: true,
+};
+
+const ZONE_COLORS = ["#f97316", "#ef4444", "#eab308", "#22d3ee", "#ec4899", "#a3e635"];
+
+const STORAGE_KEY = "geofence-zones";
+
+const KM_PER_SCENE_UNIT = 6371 / EARTH_RADIUS;
+
+// =============================================================================
+// STATE
+// =============================================================================
+
+const zones: GeofenceZone[] = [];
+
+/** Unit IDs currently inside each zone (keyed by zone ID, then "type:id") */
+const occupancy = new Map<string, Set<string>>();
+
+/** Zones added since the last evaluation; seeded silently so existing occupants don't alert */
+const pendingSeed = new Set<string>();
+
+const alerts: GeofenceAlert[] = [];
+let nextAlertId = 1;
+let lastCheckTime = 0;
+
+const zoneListeners = new Set<() => void>();
+const alertListeners = new Set<(alerts: readonly GeofenceAlert[]) => void>();
+
+// =============================================================================
+// ZONE MANAGEMENT
+// =============================================================================
+
+export function getZones(): readonly GeofenceZone[] {
+  return zones;
+}
+
+export function getZone(id: string): GeofenceZone | undefined {
+  return zones.find((zone) => zone.id === id);
+}
+
+/**
+ * Add a polygon zone. Requires at least three vertices.
+ */
+export function addPolygonZone(name: string, points: LatLon[]): GeofenceZone | null {
+  if (points.length < 3) return null;
+  return addZone({ shape: "polygon", name, points: points.map((p) => ({ lat: p.lat, lon: p.lon })) });
+}
+
+/**
+ * Add a circle zone.
+ */
+export function addCircleZone(name: string, center: LatLon, radiusKm: number): GeofenceZone | null {
+  if (radiusKm <= 0) return null;
+  return addZone({ shape: "circle", name, points: [], center: { lat: center.lat, lon: center.lon }, radiusKm });
+}
+
+function addZone(partial: Pick<GeofenceZone, "shape" | "name" | "points" | "center" | "radiusKm">): GeofenceZone {
+  const zone: GeofenceZone = {
+    ...partial,
+    id: `zone-${Date.now().toString(36)}-${Math.floor(Math.random() * 1e6).toString(36)}`,
+    name: uniqueZoneName(partial.name || "Zone"),
+    color: ZONE_COLORS[zones.length % ZONE_COLORS.length],
+    enabled: true,
+    rule: { ...DEFAULT_GEOFENCE_RULE },
+  };
+
+  zones.push(zone);
+  pendingSeed.add(zone.id);
+  zonesChanged();
+  return zone;
+}
+
+export function removeZone(id: string): void {
+  const index = zones.findIndex((zone) => zone.id === id);
+  if (index < 0) return;
+
+  zones.splice(index, 1);
+  occupancy.delete(id);
+  pendingSeed.delete(id);
+  zonesChanged();
+}
+
+/**
+ * Apply changes to a zone (name, color, enabled, rule fields).
+ */
+export function updateZone(id: string, changes: Partial<Omit<GeofenceZone, "id" | "rule">> & { rule?: Partial<GeofenceRule> }): void {
+  const zone = getZone(id);
+  if (!zone) return;
+
+  const { rule, ...rest } = changes;
+  Object.assign(zone, rest);
+  if (rule) Object.assign(zone.rule, rule);
+
+  // Re-seed so a rule change doesn't fire alerts for units already inside
+  occupancy.delete(id);
+  pendingSeed.add(id);
+  zonesChanged();
+}
+
+/**
+ * Register a callback for zone list/shape changes (used by visuals and GUI).
+ */
+export function onZonesChanged(listener: () => void): void {
+  zoneListeners.add(listener);
+}
+
+function zonesChanged(): void {
+  saveZones();
+  for (const listener of zoneListeners) {
+    listener();
+  }
+}
+
+function uniqueZoneName(name: string): string {
+  let candidate = name;
+  let suffix = 2;
+  while (zones.some((zone) => zone.name === candidate)) {
+    candidate = `${name} ${suffix++}`;
+  }
+  return candidate;
+}
+
+// =============================================================================
+// PERSISTENCE
+// =============================================================================
+
+/**
+ * Restore zones saved by a previous session.
+ */
+export function loadZones(): void {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return;
+
+    const saved = JSON.parse(raw) as GeofenceZone[];
+    zones.length = 0;
+    for (const zone of saved) {
+      zones.push({ ...zone, rule: { ...DEFAULT_GEOFENCE_RULE, ...zone.rule } });
+      pendingSeed.add(zone.id);
+    }
+    for (const listener of zoneListeners) {
+      listener();
+    }
+  } catch (err) {
+    console.error("[Geofence] Failed to load zones:", err);
+  }
+}
+
+function saveZones(): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(zones));
+  } catch (err) {
+    console.error("[Geofence] Failed to save zones:", err);
+  }
+}
+
+// =============================================================================
+// GEOMETRY
+// =============================================================================
+
+/**
+ * Distance between two points in km.
+ */
+export function distanceKm(a: LatLon, b: LatLon): number {
+  return greatCircleDistance(a.lat, a.lon, b.lat, b.lon) * KM_PER_SCENE_UNIT;
+}
+
+/**
+ * Test whether a point lies inside a zone.
+ * Polygons use ray casting in lat/lon, with longitudes unwrapped around the
+ * first vertex so zones crossing the antimeridian work.
+ */
+export function isInsideZone(zone: GeofenceZone, lat: number, lon: number): boolean {
+  if (zone.shape === "circle") {
+    if (!zone.center || !zone.radiusKm) return false;
+    return distanceKm(zone.center, { lat, lon }) <= zone.radiusKm;
+  }
+
+  const points = zone.points;
+  if (points.length < 3) return false;
+
+  const refLon = points[0].lon;
+  const x = unwrapLon(lon, refLon);
+  let inside = false;
+
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const xi = unwrapLon(points[i].lon, refLon);
+    const yi = points[i].lat;
+    const xj = unwrapLon(points[j].lon, refLon);
+    const yj = points[j].lat;
+
+    if ((yi > lat) !== (yj > lat) && x < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+function unwrapLon(lon: number, refLon: number): number {
+  let d = lon - refLon;
+  if (d > 180) d -= 360;
+  if (d < -180) d += 360;
+  return refLon + d;
+}
+
+/** Lat/lon bounding box for cheap rejection before the exact test */
+interface ZoneBounds {
+  minLat: number;
+  maxLat: number;
+  minLon: number;
+  maxLon: number;
+  refLon: number;
+}
+
+function getZoneBounds(zone: GeofenceZone): ZoneBounds | null {
+  if (zone.shape === "circle") {
+    if (!zone.center || !zone.radiusKm) return null;
+    const dLat = zone.radiusKm / 111.32;
+    const cosLat = Math.max(Math.cos((zone.center.lat * Math.PI) / 180), 0.01);
+    const dLon = Math.min(180, dLat / cosLat);
+    return {
+      minLat: zone.center.lat - dLat,
+      maxLat: zone.center.lat + dLat,
+      minLon: zone.center.lon - dLon,
+      maxLon: zone.center.lon + dLon,
+      refLon: zone.center.lon,
+    };
+  }
+
+  if (zone.points.length < 3) return null;
+  const refLon = zone.points[0].lon;
+  const bounds: ZoneBounds = { minLat: 90, maxLat: -90, minLon: Infinity, maxLon: -Infinity, refLon };
+  for (const point of zone.points) {
+    const lon = unwrapLon(point.lon, refLon);
+    bounds.minLat = Math.min(bounds.minLat, point.lat);
+    bounds.maxLat = Math.max(bounds.maxLat, point.lat);
+    bounds.minLon = Math.min(bounds.minLon, lon);
+    bounds.maxLon = Math.max(bounds.maxLon, lon);
+  }
+  return bounds;
+}
+
+function inBounds(bounds: ZoneBounds, lat: number, lon: number): boolean {
+  if (lat < bounds.minLat || lat > bounds.maxLat) return false;
+  const x = unwrapLon(lon, bounds.refLon);
+  return x >= bounds.minLon && x <= bounds.maxLon;
+}
+
+// =============================================================================
+// RULE MATCHING
+// =============================================================================
+
+interface UnitSnapshot {
+  type: GeofenceUnitType;
+  id: string;
+  label: string;
+  lat: number;
+  lon: number;
+  /** Speed in knots (undefined when the unit type doesn't report one) */
+  speed?: number;
+  country: string;
+}
+
+function matchesRule(rule: GeofenceRule, unit: UnitSnapshot): boolean {
+  if (unit.type === "ship" && !rule.ships) return false;
+  if (unit.type === "aircraft" && !rule.aircraft) return false;
+  if (unit.type === "drone" && !rule.drones) return false;
+
+  if (unit.speed !== undefined) {
+    if (rule.minSpeed > 0 && unit.speed < rule.minSpeed) return false;
+    if (rule.maxSpeed > 0 && unit.speed > rule.maxSpeed) return false;
+  }
+
+  const country = rule.country.trim().toLowerCase();
+  if (country && !unit.country.toLowerCase().includes(country)) return false;
+
+  return true;
+}
+
+// =============================================================================
+// EVALUATION
+// =============================================================================
+
+/**
+ * Test all units against all zones and raise entry/exit alerts.
+ * Call once per frame; throttled by geofenceParams.checkIntervalMs.
+ */
+export function updateGeofences(): void {
+  if (!geofenceParams.enabled || zones.length === 0) return;
+
+  const now = performance.now();
+  if (now - lastCheckTime < geofenceParams.checkIntervalMs) return;
+  lastCheckTime = now;
+
+  const time = getTimelineTime();
+  const newAlerts: GeofenceAlert[] = [];
+
+  for (const zone of zones) {
+    if (!zone.enabled) continue;
+
+    const bounds = getZoneBounds(zone);
+    if (!bounds) continue;
+
+    const previous = occupancy.get(zone.id) || new Set<string>();
+    const current = new Set<string>();
+    const seeding = pendingSeed.has(zone.id);
+    const { rule } = zone;
+    const watchShips = rule.ships;
+    const watchAircraft = rule.aircraft;
+    const watchDrones = rule.drones;
+
+    // Units inside now; alert on those that weren't before
+    const visit = (unit: UnitSnapshot) => {
+      const key = `${unit.type}:${unit.id}`;
+      current.add(key);
+      if (seeding || previous.has(key)) {
+        previous.delete(key);
+        return;
+      }
+      if (rule.alertOnEntry && matchesRule(rule, unit)) {
+        newAlerts.push(createAlert("entry", zone, unit, time));
+      }
+    };
+
+    if (watchShips) {
+      for (const ship of state.ships) {
+        if (!inBounds(bounds, ship.lat, ship.lon) || !isInsideZone(zone, ship.lat, ship.lon)) continue;
+        visit({
+          type: "ship",
+          id: ship.mmsi,
+          label: ship.name && ship.name !== "Unknown" ? ship.name : `MMSI ${ship.mmsi}`,
+          lat: ship.lat,
+          lon: ship.lon,
+          speed: ship.sog,
+          country: ship.country || getCountryFromMMSI(ship.mmsi),
+        });
+      }
+    }
+    if (watchAircraft) {
+      for (const ac of state.aircraft) {
+        if (!inBounds(bounds, ac.lat, ac.lon) || !isInsideZone(zone, ac.lat, ac.lon)) continue;
+        visit({
+          type: "aircraft",
+          id: aircraftSelectionId(ac),
+          label: ac.callsign,
+          lat: ac.lat,
+          lon: ac.lon,
+          speed: ac.groundSpeed,
+          country: ac.originCountry || "",
+        });
+      }
+    }
+    if (watchDrones) {
+      for (const drone of state.drones) {
+        if (!inBounds(bounds, drone.lat, drone.lon) || !isInsideZone(zone, drone.lat, drone.lon)) continue;
+        visit({
+          type: "drone",
+          id: drone.name,
+          label: drone.name,
+          lat: drone.lat,
+          lon: drone.lon,
+          country: "",
+        });
+      }
+    }
+
+    // Whatever is left in previous has left the zone (or disappeared)
+    if (!seeding && rule.alertOnExit) {
+      for (const key of previous) {
+        const unit = findUnitByKey(key);
+        if (unit && matchesRule(rule, unit)) {
+          newAlerts.push(createAlert("exit", zone, unit, time));
+        }
+      }
+    }
+
+    occupancy.set(zone.id, current);
+    pendingSeed.delete(zone.id);
+  }
+
+  if (newAlerts.length > 0) {
+    pushAlerts(newAlerts);
+  }
+}
+
+/**
+ * Look up a unit that just left a zone. Units that vanished from state
+ * (feed dropped them) are not reported as exits.
+ */
+function findUnitByKey(key: string): UnitSnapshot | null {
+  const separator = key.indexOf(":");
+  const type = key.slice(0, separator) as GeofenceUnitType;
+  const id = key.slice(separator + 1);
+
+  switch (type) {
+    case "ship": {
+      const ship = state.ships.find((s) => s.mmsi === id);
+      if (!ship) return null;
+      return {
+        type,
+        id,
+        label: ship.name && ship.name !== "Unknown" ? ship.name : `MMSI ${ship.mmsi}`,
+        lat: ship.lat,
+        lon: ship.lon,
+        speed: ship.sog,
+        country: ship.country || getCountryFromMMSI(ship.mmsi),
+      };
+    }
+    case "aircraft": {
+      const ac = state.aircraft.find((a) => aircraftSelectionId(a) === id);
+      if (!ac) return null;
+      return { type, id, label: ac.callsign, lat: ac.lat, lon: ac.lon, speed: ac.groundSpeed, country: ac.originCountry || "" };
+    }
+    case "drone": {
+      const drone = state.drones.find((d) => d.name === id);
+      if (!drone) return null;
+      return { type, id, label: drone.name, lat: drone.lat, lon: drone.lon, country: "" };
+    }
+  }
+}
+
+function createAlert(event: "entry" | "exit", zone: GeofenceZone, unit: UnitSnapshot, time: number): GeofenceAlert {
+  return {
+    id: nextAlertId++,
+    time,
+    event,
+    zoneId: zone.id,
+    zoneName: zone.name,
+    unitType: unit.type,
+    unitId: unit.id,
+    unitLabel: unit.label,
+    lat: unit.lat,
+    lon: unit.lon,
+  };
+}
+
+// =============================================================================
+// ALERTS
+// =============================================================================
+
+function pushAlerts(newAlerts: GeofenceAlert[]): void {
+  alerts.unshift(...newAlerts.reverse());
+  if (alerts.length > geofenceParams.maxAlerts) {
+    alerts.length = geofenceParams.maxAlerts;
+  }
+  notifyAlertListeners();
+}
+
+/** Alerts, newest first */
+export function getAlerts(): readonly GeofenceAlert[] {
+  return alerts;
+}
+
+export function clearAlerts(): void {
+  alerts.length = 0;
+  notifyAlertListeners();
+}
+
+/**
+ * Register a callback for new/cleared alerts (used by the alert panel).
+ */
+export function onGeofenceAlerts(listener: (alerts: readonly GeofenceAlert[]) => void): void {
+  alertListeners.add(listener);
+}
+
+function notifyAlertListeners(): void {
+  for (const listener of alertListeners) {
+    listener(alerts);
+  }
+}
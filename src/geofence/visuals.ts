@@ -0,0 +1,309 @@
+/**
+ * Geofence Visuals
+ *
+ * Renders zone outlines on the globe and handles interactive zone drawing:
+ * - Polygon: click to add vertices, double-click (or Finish) to close
+ * - Circle: click the center, then click a point on the edge
+ */
+
+import * as THREE from "three";
+import { EARTH_RADIUS, GRID_ALTITUDE } from "../constants";
+import { latLonToPosition, positionToLatLon } from "../utils/coordinates";
+import { replaceGeometryPoints } from "../utils/geometry";
+import {
+  getZones,
+  onZonesChanged,
+  addPolygonZone,
+  addCircleZone,
+  distanceKm,
+  type GeofenceShape,
+  type GeofenceZone,
+  type LatLon,
+} from "./index";
+
+// =============================================================================
+// PARAMETERS
+// =============================================================================
+
+export interface GeofenceDrawParams {
+  /** Shape drawn by the next startZoneDrawing() */
+  shape: GeofenceShape;
+  /** Name given to the next zone */
+  name: string;
+  /** True while clicks on the globe place zone points */
+  drawing: boolean;
+  /** Status text for the GUI */
+  status: string;
+  /** Show zone outlines */
+  visible: boolean;
+}
+
+export const geofenceDrawParams: GeofenceDrawParams = {
+  shape: "polygon",
+  name: "Zone",
+  drawing: false,
+  status: "idle",
+  visible: true,
+};
+
+/** Outline segments per polygon edge (keeps long edges on the surface) */
+const EDGE_SUBDIVISIONS = 16;
+
+/** Outline segments for circle zones */
+const CIRCLE_SEGMENTS = 96;
+
+const ZONE_ALTITUDE = GRID_ALTITUDE * 1.5;
+
+// =============================================================================
+// STATE
+// =============================================================================
+
+/** Parent for all zone meshes; child of the Earth mesh so it rotates with it */
+const zoneGroup = new THREE.Group();
+zoneGroup.renderOrder = 4;
+
+const draftMaterial = new THREE.LineDashedMaterial({
+  color: 0xffffff,
+  transparent: true,
+  opacity: 0.9,
+  dashSize: 0.01,
+  gapSize: 0.006,
+  depthWrite: false,
+});
+
+const draftLine = new THREE.Line(new THREE.BufferGeometry(), draftMaterial);
+draftLine.visible = false;
+draftLine.renderOrder = 5;
+
+const draftPointsMaterial = new THREE.PointsMaterial({
+  color: 0xffffff,
+  size: 6,
+  sizeAttenuation: false,
+  depthWrite: false,
+});
+
+const draftPoints = new THREE.Points(new THREE.BufferGeometry(), draftPointsMaterial);
+draftPoints.visible = false;
+draftPoints.renderOrder = 5;
+
+let draftVertices: LatLon[] = [];
+
+let earthMesh: THREE.Object3D | null = null;
+const raycaster = new THREE.Raycaster();
+const earthSphere = new THREE.Sphere(new THREE.Vector3(0, 0, 0), EARTH_RADIUS);
+const _ndc = new THREE.Vector2();
+const _hit = new THREE.Vector3();
+
+// =============================================================================
+// INITIALIZATION
+// =============================================================================
+
+/**
+ * Attach zone rendering to the Earth mesh and listen for drawing clicks.
+ */
+export function initGeofenceVisuals(earth: THREE.Object3D, camera: THREE.Camera, canvas: HTMLCanvasElement): void {
+  earthMesh = earth;
+  earth.add(zoneGroup);
+  earth.add(draftLine);
+  earth.add(draftPoints);
+
+  onZonesChanged(rebuildZoneMeshes);
+  rebuildZoneMeshes();
+
+  canvas.addEventListener("click", (event) => {
+    if (!geofenceDrawParams.drawing || event.detail > 1) return;
+    const point = pickLatLon(event, camera, canvas);
+    if (point) addDraftVertex(point);
+  });
+  canvas.addEventListener("dblclick", () => {
+    if (geofenceDrawParams.drawing && geofenceDrawParams.shape === "polygon") {
+      finishZoneDrawing();
+    }
+  });
+}
+
+/**
+ * Show or hide all zone outlines.
+ */
+export function setZonesVisible(visible: boolean): void {
+  geofenceDrawParams.visible = visible;
+  zoneGroup.visible = visible;
+}
+
+// =============================================================================
+// DRAWING
+// =============================================================================
+
+export function isDrawingZone(): boolean {
+  return geofenceDrawParams.drawing;
+}
+
+export function startZoneDrawing(): void {
+  draftVertices = [];
+  geofenceDrawParams.drawing = true;
+  updateDraft();
+}
+
+/**
+ * Close the current polygon and save it as a zone.
+ */
+export function finishZoneDrawing(): GeofenceZone | null {
+  if (!geofenceDrawParams.drawing) return null;
+
+  let zone: GeofenceZone | null = null;
+  if (geofenceDrawParams.shape === "polygon") {
+    zone = addPolygonZone(geofenceDrawParams.name, draftVertices);
+    if (!zone) {
+      geofenceDrawParams.status = "need 3+ points";
+      return null;
+    }
+  }
+
+  cancelZoneDrawing();
+  if (zone) geofenceDrawParams.status = `added ${zone.name}`;
+  return zone;
+}
+
+export function cancelZoneDrawing(): void {
+  draftVertices = [];
+  geofenceDrawParams.drawing = false;
+  geofenceDrawParams.status = "idle";
+  updateDraft();
+}
+
+function addDraftVertex(point: LatLon): void {
+  draftVertices.push(point);
+
+  if (geofenceDrawParams.shape === "circle" && draftVertices.length === 2) {
+    const [center, edge] = draftVertices;
+    const zone = addCircleZone(geofenceDrawParams.name, center, distanceKm(center, edge));
+    cancelZoneDrawing();
+    if (zone) geofenceDrawParams.status = `added ${zone.name}`;
+    return;
+  }
+
+  updateDraft();
+}
+
+function updateDraft(): void {
+  const drawing = geofenceDrawParams.drawing;
+  const count = draftVertices.length;
+
+  if (drawing && geofenceDrawParams.shape === "circle") {
+    geofenceDrawParams.status = count === 0 ? "click center" : "click edge";
+  } else if (drawing) {
+    geofenceDrawParams.status = count < 3 ? `click points (${count})` : `${count} points, double-click to close`;
+  }
+
+  draftPoints.visible = drawing && count > 0;
+  draftLine.visible = drawing && count > 1;
+  if (!draftPoints.visible) return;
+
+  replaceGeometryPoints(draftPoints, draftVertices.map((v) => latLonToPosition(v.lat, v.lon, ZONE_ALTITUDE)));
+  if (draftLine.visible) {
+    replaceGeometryPoints(draftLine, buildPathPoints(draftVertices, false));
+    draftLine.computeLineDistances();
+  }
+}
+
+/**
+ * Raycast a click against the globe and return its lat/lon (earth-fixed).
+ */
+function pickLatLon(event: MouseEvent, camera: THREE.Camera, canvas: HTMLCanvasElement): LatLon | null {
+  if (!earthMesh) return null;
+  if ((event.target as HTMLElement).closest(".lil-gui")) return null;
+
+  const rect = canvas.getBoundingClientRect();
+  _ndc.set(
+    ((event.clientX - rect.left) / rect.width) * 2 - 1,
+    -((event.clientY - rect.top) / rect.height) * 2 + 1
+  );
+  raycaster.setFromCamera(_ndc, camera);
+  if (!raycaster.ray.intersectSphere(earthSphere, _hit)) return null;
+
+  return positionToLatLon(earthMesh.worldToLocal(_hit.clone()));
+}
+
+// =============================================================================
+// ZONE MESHES
+// =============================================================================
+
+function rebuildZoneMeshes(): void {
+  for (const child of zoneGroup.children) {
+    const line = child as THREE.LineLoop;
+    line.geometry.dispose();
+    (line.material as THREE.Material).dispose();
+  }
+  zoneGroup.clear();
+
+  for (const zone of getZones()) {
+    const points = zone.shape === "circle" ? buildCirclePoints(zone) : buildPathPoints(zone.points, true);
+    if (points.length < 2) continue;
+
+    const material = new THREE.LineBasicMaterial({
+      color: new THREE.Color(zone.color),
+      transparent: true,
+      opacity: zone.enabled ? 0.9 : 0.3,
+      depthWrite: false,
+    });
+    const line = new THREE.LineLoop(new THREE.BufferGeometry().setFromPoints(points), material);
+    line.name = zone.id;
+    line.renderOrder = 4;
+    zoneGroup.add(line);
+  }
+}
+
+/**
+ * Subdivide a lat/lon path so edges follow the globe's surface.
+ */
+function buildPathPoints(vertices: LatLon[], closed: boolean): THREE.Vector3[] {
+  const points: THREE.Vector3[] = [];
+  const edgeCount = closed ? vertices.length : vertices.length - 1;
+
+  for (let i = 0; i < edgeCount; i++) {
+    const a = vertices[i];
+    const b = vertices[(i + 1) % vertices.length];
+    let dLon = b.lon - a.lon;
+    if (dLon > 180) dLon -= 360;
+    if (dLon < -180) dLon += 360;
+
+    for (let s = 0; s < EDGE_SUBDIVISIONS; s++) {
+      const t = s / EDGE_SUBDIVISIONS;
+      points.push(latLonToPosition(a.lat + (b.lat - a.lat) * t, a.lon + dLon * t, ZONE_ALTITUDE));
+    }
+  }
+
+  if (!closed && vertices.length > 0) {
+    const last = vertices[vertices.length - 1];
+    points.push(latLonToPosition(last.lat, last.lon, ZONE_ALTITUDE));
+  }
+
+  return points;
+}
+
+/**
+ * Points on a circle of radiusKm around the zone center (destination-point formula).
+ */
+function buildCirclePoints(zone: GeofenceZone): THREE.Vector3[] {
+  if (!zone.center || !zone.radiusKm) return [];
+
+  const toRad = Math.PI / 180;
+  const lat1 = zone.center.lat * toRad;
+  const lon1 = zone.center.lon * toRad;
+  const angular = zone.radiusKm / 6371;
+  const points: THREE.Vector3[] = [];
+
+  for (let i = 0; i < CIRCLE_SEGMENTS; i++) {
+    const bearing = (i / CIRCLE_SEGMENTS) * Math.PI * 2;
+    const lat2 = Math.asin(
+      Math.sin(lat1) * Math.cos(angular) + Math.cos(lat1) * Math.sin(angular) * Math.cos(bearing)
+    );
+    const lon2 = lon1 + Math.atan2(
+      Math.sin(bearing) * Math.sin(angular) * Math.cos(lat1),
+      Math.cos(angular) - Math.sin(lat1) * Math.sin(lat2)
+    );
+    points.push(latLonToPosition(lat2 / toRad, lon2 / toRad, ZONE_ALTITUDE));
+  }
+
+  return points;
+}
@@ -5,6 +5,9 @@
 
 import * as h3 from 'h3-js';
 
+/** Approximate H3 cell edge length (km) by resolution */
+const H3_EDGE_LENGTH_KM = [1107, 418, 158, 60, 22, 8, 3, 1.2, 0.46, 0.17];
+
 /**
  * Check if longitude is within range (handles wrap-around)
  */
@@ -23,7 +26,7 @@ function getVisibleH3Cells(resolution, centerLat, centerLon, radiusDegrees) {
   try {
     const centerCell = h3.latLngToCell(centerLat, centerLon, resolution);
     // H3 cell edge length varies by resolution
-    const edgeLengthKm = [1107, 418, 158, 60, 22, 8, 3, 1.2, 0.46, 0.17][resolution] || 1;
+    const edgeLengthKm = H3_EDGE_LENGTH_KM[resolution] || 1;
     const radiusKm = radiusDegrees * 111; // Rough conversion
     const k = Math.min(Math.ceil(radiusKm / edgeLengthKm), 50); // Cap at 50 rings
     return h3.gridDisk(centerCell, k);
@@ -297,6 +300,112 @@ function queryVisibleUnits(data) {
   }
 }
 
+// =============================================================================
+// VESSEL CPA SCREEN
+// =============================================================================
+
+const KM_PER_NM = 1.852;
+const DEG_TO_RAD = Math.PI / 180;
+
+/**
+ * Closest point of approach between vessels. Ships slower than minSpeedKn
+ * (moored or anchored) are still targets for moving ships, but two slow
+ * ships are never compared. Ships are bucketed by H3 cell (cells at least one range wide, so any pair
+ * within range lies within two rings) and only nearby pairs are compared.
+ * Positions are projected onto a local flat plane around each pair, which is
+ * accurate at these ranges.
+ */
+function screenVesselCpa(data) {
+  const { lats, lons, headings, speeds, rangeNm, cpaNm, tcpaMinutes, minSpeedKn } = data;
+  const count = lats.length;
+
+  // Finest resolution whose cells are still wider than the search range
+  const rangeKm = rangeNm * KM_PER_NM;
+  let resolution = 0;
+  while (resolution < H3_EDGE_LENGTH_KM.length - 1 && H3_EDGE_LENGTH_KM[resolution + 1] >= rangeKm) {
+    resolution++;
+  }
+
+  const cells = new Map();
+  const shipCells = new Array(count);
+  const moving = new Uint8Array(count);
+  const vxs = new Float64Array(count);
+  const vys = new Float64Array(count);
+  for (let i = 0; i < count; i++) {
+    const hasHeading = headings[i] >= 0 && headings[i] < 360;
+    if (speeds[i] >= minSpeedKn) {
+      // A moving ship without a heading can't be projected
+      if (!hasHeading) continue;
+      moving[i] = 1;
+    }
+    // Slow ships without a heading are treated as stationary
+    if (hasHeading && speeds[i] > 0) {
+      const heading = headings[i] * DEG_TO_RAD;
+      vxs[i] = speeds[i] * Math.sin(heading);
+      vys[i] = speeds[i] * Math.cos(heading);
+    }
+    try {
+      const cell = h3.latLngToCell(lats[i], lons[i], resolution);
+      shipCells[i] = cell;
+      if (!cells.has(cell)) {
+        cells.set(cell, []);
+      }
+      cells.get(cell).push(i);
+    } catch (e) { /* Skip invalid coords */ }
+  }
+
+  const pairs = [];
+  const neighbours = new Map();
+  const tcpaHours = tcpaMinutes / 60;
+
+  for (let i = 0; i < count; i++) {
+    const cell = shipCells[i];
+    if (!cell) continue;
+
+    let disk = neighbours.get(cell);
+    if (!disk) {
+      disk = h3.gridDisk(cell, 2);
+      neighbours.set(cell, disk);
+    }
+
+    for (const neighbour of disk) {
+      const bucket = cells.get(neighbour);
+      if (!bucket) continue;
+
+      for (const j of bucket) {
+        if (j <= i || (!moving[i] && !moving[j])) continue;
+
+        // Relative position of j from i (nautical miles, east/north)
+        let dLon = lons[j] - lons[i];
+        if (dLon > 180) dLon -= 360;
+        if (dLon < -180) dLon += 360;
+        const cosLat = Math.cos(((lats[i] + lats[j]) / 2) * DEG_TO_RAD);
+        const rx = dLon * 60 * cosLat;
+        const ry = (lats[j] - lats[i]) * 60;
+        const range = Math.hypot(rx, ry);
+        if (range > rangeNm) continue;
+
+        // Relative velocity (knots)
+        const vx = vxs[j] - vxs[i];
+        const vy = vys[j] - vys[i];
+        const vv = vx * vx + vy * vy;
+        if (vv < 1e-6) continue;
+
+        // Only converging pairs whose approach is still ahead
+        const tcpa = -(rx * vx + ry * vy) / vv;
+        if (tcpa < 0 || tcpa > tcpaHours) continue;
+
+        const cpa = Math.hypot(rx + vx * tcpa, ry + vy * tcpa);
+        if (cpa > cpaNm) continue;
+
+        pairs.push({ i, j, cpaNm: cpa, tcpaMinutes: tcpa * 60, rangeNm: range });
+      }
+    }
+  }
+
+  return { pairs };
+}
+
 // Handle messages from main thread
 self.onmessage = function(e) {
   const { type, data } = e.data;
@@ -315,4 +424,9 @@ self.onmessage = function(e) {
     const result = queryVisibleUnits(data);
     self.postMessage({ type: 'visibleUnitsResult', data: result });
   }
+
+  if (type === 'screenVesselCpa') {
+    const result = screenVesselCpa(data);
+    self.postMessage({ type: 'vesselCpaResult', data: { ...result, requestId: data.requestId } });
+  }
 };
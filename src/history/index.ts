@@ -0,0 +1,209 @@
+/**
+ * Track History
+ *
+ * Long-duration position history per ship (MMSI) and aircraft (ICAO24, or
+ * callsign when a feed has none),
+ * kept by the history worker: recent points in memory, older ones in
+ * IndexedDB, bounded by a retention window. Display trails (units/trails.ts)
+ * only keep a handful of points; this store answers "where has this unit
+ * been over the last hours".
+ */
+
+import { state, aircraftSelectionId } from "../state";
+import { getTimelineTime } from "../simulation/timeline";
+
+// =============================================================================
+// TYPES & PARAMETERS
+// =============================================================================
+
+export interface TrackPoint {
+  /** Timeline time (unix ms) */
+  time: number;
+  lat: number;
+  lon: number;
+  /** Feet (aircraft), 0 for ships */
+  altitude: number;
+}
+
+export type TrackUnitType = "ship" | "aircraft";
+
+export interface TrackHistoryParams {
+  enabled: boolean;
+  /** Timeline time between samples (seconds) */
+  sampleIntervalSeconds: number;
+  /** Points older than this are dropped (hours) */
+  retentionHours: number;
+  /** Points newer than this stay in worker memory; older ones go to IndexedDB (minutes) */
+  memoryMinutes: number;
+  /** Units of each type recorded per sample */
+  maxUnitsPerType: number;
+  /** Draw the selected unit's recorded track */
+  showSelectedTrack: boolean;
+  /** How far back the selected unit's track reaches (hours) */
+  displayHours: number;
+  /** Status text for the GUI */
+  status: string;
+}
+
+export const trackHistoryParams: TrackHistoryParams = {
+  enabled: true,
+  sampleIntervalSeconds: 10,
+  retentionHours: 6,
+  memoryMinutes: 5,
+  maxUnitsPerType: 20000,
+  showSelectedTrack: true,
+  displayHours: 2,
+  status: "idle",
+};
+
+/** Minimum real time between samples, however fast the timeline runs (ms) */
+const MIN_SAMPLE_REAL_MS = 1000;
+
+/** Numbers per point in worker track replies (time, lat, lon, altitude) */
+const POINT_STRIDE = 4;
+
+// =============================================================================
+// STATE
+// =============================================================================
+
+let worker: Worker | null = null;
+let lastSampleTime = 0;
+let lastSampleRealTime = 0;
+
+let nextRequestId = 1;
+const pendingQueries = new Map<number, { resolve: (points: TrackPoint[]) => void; reject: (error: Error) => void }>();
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Start the history worker. Safe to call more than once.
+ */
+export function initTrackHistory(): void {
+  if (worker) return;
+
+  worker = new Worker(new URL("../workers/history-worker.ts", import.meta.url), { type: "module" });
+  worker.onmessage = handleWorkerMessage;
+  worker.onerror = (error) => {
+    console.error("[TrackHistory] Worker error:", error);
+    trackHistoryParams.status = "worker error";
+  };
+
+  applyTrackHistoryConfig();
+}
+
+/**
+ * Push retention settings to the worker (call after changing them).
+ */
+export function applyTrackHistoryConfig(): void {
+  worker?.postMessage({
+    type: "configure",
+    retentionHours: trackHistoryParams.retentionHours,
+    memoryMinutes: trackHistoryParams.memoryMinutes,
+  });
+}
+
+/**
+ * Sample ship and aircraft positions into the store.
+ * Call once per frame; throttled by timeline time and real time.
+ */
+export function recordTrackHistory(): void {
+  if (!worker || !trackHistoryParams.enabled) return;
+
+  const time = getTimelineTime();
+  const realNow = performance.now();
+  const intervalMs = trackHistoryParams.sampleIntervalSeconds * 1000;
+  // A rewind is recorded immediately so the worker can drop the "future"
+  const rewound = time < lastSampleTime;
+  if (!rewound && time - lastSampleTime < intervalMs) return;
+  if (realNow - lastSampleRealTime < MIN_SAMPLE_REAL_MS) return;
+  lastSampleTime = time;
+  lastSampleRealTime = realNow;
+
+  const keys: string[] = [];
+  const values: number[] = [];
+  const limit = trackHistoryParams.maxUnitsPerType;
+
+  let count = 0;
+  for (const ship of state.ships) {
+    if (count >= limit) break;
+    // Dead-reckoned positions are guesses, not history
+    if (!ship.mmsi || ship.predicted) continue;
+    keys.push(historyKey("ship", ship.mmsi));
+    values.push(ship.lat, ship.lon, 0);
+    count++;
+  }
+
+  count = 0;
+  for (const ac of state.aircraft) {
+    if (count >= limit) break;
+    const id = aircraftSelectionId(ac);
+    if (!id || ac.predicted) continue;
+    keys.push(historyKey("aircraft", id));
+    values.push(ac.lat, ac.lon, ac.altitude);
+    count++;
+  }
+
+  const positions = new Float64Array(values);
+  worker.postMessage({ type: "record", time, keys, positions }, [positions.buffer]);
+}
+
+/**
+ * Recorded track of one unit between two timeline times (unix ms), oldest first.
+ * Resolves empty if the store isn't running; rejects if the query fails.
+ */
+export function fetchUnitTrack(type: TrackUnitType, id: string, from: number, to: number): Promise<TrackPoint[]> {
+  if (!worker) return Promise.resolve([]);
+
+  const requestId = nextRequestId++;
+  return new Promise((resolve, reject) => {
+    pendingQueries.set(requestId, { resolve, reject });
+    worker!.postMessage({ type: "query", requestId, key: historyKey(type, id), from, to });
+  });
+}
+
+/**
+ * Delete all recorded history (memory and IndexedDB).
+ */
+export function clearTrackHistory(): void {
+  worker?.postMessage({ type: "clear" });
+  trackHistoryParams.status = "cleared";
+}
+
+// =============================================================================
+// INTERNALS
+// =============================================================================
+
+function historyKey(type: TrackUnitType, id: string): string {
+  return `${type}:${id}`;
+}
+
+function handleWorkerMessage(e: MessageEvent): void {
+  const message = e.data;
+
+  if (message.type === "recorded") {
+    trackHistoryParams.status = `${message.units.toLocaleString()} units · ${message.memoryPoints.toLocaleString()} recent pts`;
+  } else if (message.type === "track") {
+    const pending = pendingQueries.get(message.requestId);
+    if (!pending) return;
+    pendingQueries.delete(message.requestId);
+    pending.resolve(unpackPoints(message.points));
+  } else if (message.type === "error") {
+    console.error("[TrackHistory] Storage error:", message.message);
+    trackHistoryParams.status = "storage error";
+
+    const pending = message.requestId !== undefined ? pendingQueries.get(message.requestId) : undefined;
+    if (!pending) return;
+    pendingQueries.delete(message.requestId);
+    pending.reject(new Error(message.message));
+  }
+}
+
+function unpackPoints(points: Float64Array): TrackPoint[] {
+  const result: TrackPoint[] = [];
+  for (let i = 0; i < points.length; i += POINT_STRIDE) {
+    result.push({ time: points[i], lat: points[i + 1], lon: points[i + 2], altitude: points[i + 3] });
+  }
+  return result;
+}
@@ -22,6 +22,7 @@ import { getCameraLatLon } from '../utils/coordinates';
 import { getH3Worker } from '../scene/h3-grid';
 import { unitCountParams } from '../simulation/demo-data';
 import { isSatelliteVisibleByFilters } from '../utils/satellite-visibility';
+import { unitMatchesFilter } from '../filters';
 
 // Pre-allocate buffers for this many labels (runtime maxLabels is capped to this)
 const LABEL_BUFFER_CAPACITY = 500;
@@ -560,7 +561,7 @@ export function updateLabelAssignments(camera) {
                     if (!unit.name || unit.name === "Unknown" || unit.name.trim() === "") return false;
                     if (!unit.destination || unit.destination.trim() === "") return false;
                 }
-                return true;
+                return unitMatchesFilter('ship', unit);
             },
             camera,
             state.earthRotation.y
@@ -568,11 +569,35 @@ export function updateLabelAssignments(camera) {
     }
 
     if (labelParams.showAircraftLabels && state.unitCounts.showAircraft) {
-        appendVisibleLabelCandidates(candidates, aircraftIndices, 1, selectedTypeInt, selectedIndex, null, camera, state.earthRotation.y);
+        appendVisibleLabelCandidates(
+            candidates,
+            aircraftIndices,
+            1,
+            selectedTypeInt,
+            selectedIndex,
+            (unitIndex) => {
+                const unit = state.aircraft[unitIndex];
+                return !!unit && unitMatchesFilter('aircraft', unit);
+            },
+            camera,
+            state.earthRotation.y
+        );
     }
 
     if (labelParams.showDroneLabels && state.unitCounts.showDrones) {
-        appendVisibleLabelCandidates(candidates, droneIndices, 2, selectedTypeInt, selectedIndex, null, camera, state.earthRotation.y);
+        appendVisibleLabelCandidates(
+            candidates,
+            droneIndices,
+            2,
+            selectedTypeInt,
+            selectedIndex,
+            (unitIndex) => {
+                const unit = state.drones[unitIndex];
+                return !!unit && unitMatchesFilter('drone', unit);
+            },
+            camera,
+            state.earthRotation.y
+        );
     }
 
     if (labelParams.showSatelliteLabels && state.unitCounts.showSatellites) {
@@ -584,7 +609,7 @@ export function updateLabelAssignments(camera) {
             selectedIndex,
             (unitIndex) => {
                 const unit = state.satellites[unitIndex];
-                return !!unit && isSatelliteVisibleByFilters(unit, unitCountParams);
+                return !!unit && isSatelliteVisibleByFilters(unit, unitCountParams) && unitMatchesFilter('satellite', unit);
             },
             camera,
             state.earthRotation.y
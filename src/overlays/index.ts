@@ -0,0 +1,306 @@
+/**
+ * Imported Overlays
+ *
+ * Static map layers loaded from GeoJSON or KML files (EEZs, restricted
+ * airspace, port polygons, pipelines). Layers live for the session only;
+ * rendering is in overlays/visuals.ts and feature picking feeds the unit
+ * info panel.
+ */
+
+import { distanceKm, type LatLon } from "../geofence";
+import { parseOverlayFile, type OverlayProperties } from "./parse";
+
+// =============================================================================
+// TYPES & PARAMETERS
+// =============================================================================
+
+export interface OverlayFeature {
+  id: string;
+  layerId: string;
+  name: string;
+  properties: OverlayProperties;
+  points: LatLon[];
+  lines: LatLon[][];
+  /** Each polygon is [outer ring, ...holes] */
+  polygons: LatLon[][][];
+  /** simplestyle-spec `stroke`/`fill` override the layer color */
+  color: string;
+  bounds: FeatureBounds;
+}
+
+export interface OverlayLayer {
+  id: string;
+  name: string;
+  color: string;
+  visible: boolean;
+  features: OverlayFeature[];
+}
+
+/** Lat/lon box with longitudes unwrapped around refLon */
+interface FeatureBounds {
+  minLat: number;
+  maxLat: number;
+  minLon: number;
+  maxLon: number;
+  refLon: number;
+}
+
+export interface OverlayParams {
+  /** Show all imported layers */
+  visible: boolean;
+  /** Opacity of polygon fills (outlines stay opaque) */
+  fillOpacity: number;
+  /** Status text for the GUI */
+  status: string;
+}
+
+export const overlayParams: OverlayParams = {
+  visible: true,
+  fillOpacity: 0.15,
+  status: "drop a GeoJSON or KML file",
+};
+
+const LAYER_COLORS = ["#f472b6", "#38bdf8", "#a3e635", "#fb923c", "#c084fc", "#facc15"];
+
+// =============================================================================
+// STATE
+// =============================================================================
+
+const layers: OverlayLayer[] = [];
+const layerListeners = new Set<() => void>();
+let nextLayerId = 1;
+
+export function getOverlayLayers(): readonly OverlayLayer[] {
+  return layers;
+}
+
+export function onOverlaysChanged(listener: () => void): void {
+  layerListeners.add(listener);
+}
+
+function notifyChanged(): void {
+  const featureCount = layers.reduce((sum, layer) => sum + layer.features.length, 0);
+  overlayParams.status = layers.length === 0
+    ? "drop a GeoJSON or KML file"
+    : `${layers.length} layers, ${featureCount.toLocaleString()} features`;
+  for (const listener of layerListeners) listener();
+}
+
+// =============================================================================
+// LAYER MANAGEMENT
+// =============================================================================
+
+/**
+ * Read a GeoJSON or KML file and add it as a new layer.
+ * Throws if the file can't be parsed or holds no supported geometry.
+ */
+export async function importOverlayFile(file: File): Promise<OverlayLayer> {
+  const parsed = parseOverlayFile(file.name, await file.text());
+
+  const id = `overlay-${nextLayerId++}`;
+  const color = LAYER_COLORS[layers.length % LAYER_COLORS.length];
+  const layer: OverlayLayer = {
+    id,
+    name: file.name.replace(/\.(geo)?json$|\.kml$/i, ""),
+    color,
+    visible: true,
+    features: parsed.map((feature, index) => ({
+      ...feature,
+      id: `${id}-${index}`,
+      layerId: id,
+      color: styleColor(feature.properties) ?? color,
+      bounds: featureBounds(feature),
+    })),
+  };
+
+  layers.push(layer);
+  notifyChanged();
+  return layer;
+}
+
+/**
+ * Import several files (from a drop or file picker), reporting failures in
+ * the status line instead of throwing so one bad file doesn't stop the rest.
+ */
+export async function importOverlayFiles(files: Iterable<File>): Promise<void> {
+  for (const file of files) {
+    try {
+      await importOverlayFile(file);
+    } catch (error) {
+      console.warn(`[Overlays] Failed to import ${file.name}:`, error);
+      overlayParams.status = `${file.name}: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+}
+
+export function removeOverlayLayer(id: string): void {
+  const index = layers.findIndex((layer) => layer.id === id);
+  if (index < 0) return;
+  layers.splice(index, 1);
+  notifyChanged();
+}
+
+export function setOverlayLayerVisible(id: string, visible: boolean): void {
+  const layer = layers.find((l) => l.id === id);
+  if (!layer || layer.visible === visible) return;
+  layer.visible = visible;
+  notifyChanged();
+}
+
+export function clearOverlays(): void {
+  if (layers.length === 0) return;
+  layers.length = 0;
+  notifyChanged();
+}
+
+export function getOverlayLayer(id: string): OverlayLayer | undefined {
+  return layers.find((layer) => layer.id === id);
+}
+
+function styleColor(properties: OverlayProperties): string | null {
+  const value = properties.stroke ?? properties.fill;
+  return typeof value === "string" && /^#[0-9a-f]{3}([0-9a-f]{3})?$/i.test(value) ? value : null;
+}
+
+// =============================================================================
+// PICKING
+// =============================================================================
+
+/**
+ * Find the visible feature under a globe point.
+ * Points and lines within toleranceKm win over polygons; among polygons the
+ * smallest containing one wins, so a port inside an EEZ is still clickable.
+ */
+export function pickOverlayFeature(lat: number, lon: number, toleranceKm: number): OverlayFeature | null {
+  if (!overlayParams.visible) return null;
+
+  const target: LatLon = { lat, lon };
+  const toleranceDeg = toleranceKm / 111.32;
+  let bestNear: OverlayFeature | null = null;
+  let bestNearKm = toleranceKm;
+  let bestPolygon: OverlayFeature | null = null;
+  let bestPolygonArea = Infinity;
+
+  for (const layer of layers) {
+    if (!layer.visible) continue;
+
+    for (const feature of layer.features) {
+      if (!withinBounds(feature.bounds, lat, lon, toleranceDeg)) continue;
+
+      for (const point of feature.points) {
+        const d = distanceKm(point, target);
+        if (d <= bestNearKm) {
+          bestNearKm = d;
+          bestNear = feature;
+        }
+      }
+      for (const line of feature.lines) {
+        const d = distanceToPathKm(line, target);
+        if (d <= bestNearKm) {
+          bestNearKm = d;
+          bestNear = feature;
+        }
+      }
+
+      if (feature.polygons.length > 0 && insidePolygons(feature.polygons, lat, lon)) {
+        const b = feature.bounds;
+        const area = (b.maxLat - b.minLat) * (b.maxLon - b.minLon);
+        if (area < bestPolygonArea) {
+          bestPolygonArea = area;
+          bestPolygon = feature;
+        }
+      }
+    }
+  }
+
+  return bestNear ?? bestPolygon;
+}
+
+function featureBounds(feature: { points: LatLon[]; lines: LatLon[][]; polygons: LatLon[][][] }): FeatureBounds {
+  const first = feature.points[0] ?? feature.lines[0]?.[0] ?? feature.polygons[0][0][0];
+  const bounds: FeatureBounds = { minLat: 90, maxLat: -90, minLon: Infinity, maxLon: -Infinity, refLon: first.lon };
+
+  const extend = (point: LatLon) => {
+    const lon = unwrapLon(point.lon, bounds.refLon);
+    bounds.minLat = Math.min(bounds.minLat, point.lat);
+    bounds.maxLat = Math.max(bounds.maxLat, point.lat);
+    bounds.minLon = Math.min(bounds.minLon, lon);
+    bounds.maxLon = Math.max(bounds.maxLon, lon);
+  };
+  feature.points.forEach(extend);
+  for (const line of feature.lines) line.forEach(extend);
+  for (const polygon of feature.polygons) polygon[0].forEach(extend);
+
+  return bounds;
+}
+
+function withinBounds(bounds: FeatureBounds, lat: number, lon: number, marginDeg: number): boolean {
+  if (lat < bounds.minLat - marginDeg || lat > bounds.maxLat + marginDeg) return false;
+  const lonMargin = marginDeg / Math.max(Math.cos((lat * Math.PI) / 180), 0.01);
+  const x = unwrapLon(lon, bounds.refLon);
+  return x >= bounds.minLon - lonMargin && x <= bounds.maxLon + lonMargin;
+}
+
+/** Inside any outer ring and outside all of that polygon's holes */
+function insidePolygons(polygons: LatLon[][][], lat: number, lon: number): boolean {
+  for (const [outer, ...holes] of polygons) {
+    if (!insideRing(outer, lat, lon)) continue;
+    if (!holes.some((hole) => insideRing(hole, lat, lon))) return true;
+  }
+  return false;
+}
+
+/**
+ * Ray casting in lat/lon with longitudes unwrapped around the first vertex,
+ * as geofence/index.ts does for zones.
+ */
+function insideRing(ring: LatLon[], lat: number, lon: number): boolean {
+  const refLon = ring[0].lon;
+  const x = unwrapLon(lon, refLon);
+  let inside = false;
+
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const xi = unwrapLon(ring[i].lon, refLon);
+    const yi = ring[i].lat;
+    const xj = unwrapLon(ring[j].lon, refLon);
+    const yj = ring[j].lat;
+
+    if ((yi > lat) !== (yj > lat) && x < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+/**
+ * Distance from a point to a polyline in km, using a local equirectangular
+ * projection around the target (fine at click-tolerance scales).
+ */
+function distanceToPathKm(path: LatLon[], target: LatLon): number {
+  const kmPerDegLat = 111.32;
+  const kmPerDegLon = kmPerDegLat * Math.cos((target.lat * Math.PI) / 180);
+  const project = (p: LatLon) => ({
+    x: (unwrapLon(p.lon, target.lon) - target.lon) * kmPerDegLon,
+    y: (p.lat - target.lat) * kmPerDegLat,
+  });
+
+  let best = Infinity;
+  for (let i = 0; i < path.length - 1; i++) {
+    const a = project(path[i]);
+    const b = project(path[i + 1]);
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSq = dx * dx + dy * dy;
+    const t = lengthSq > 0 ? Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / lengthSq)) : 0;
+    best = Math.min(best, Math.hypot(a.x + dx * t, a.y + dy * t));
+  }
+  return best;
+}
+
+function unwrapLon(lon: number, refLon: number): number {
+  let d = lon - refLon;
+  if (d > 180) d -= 360;
+  if (d < -180) d += 360;
+  return refLon + d;
+}
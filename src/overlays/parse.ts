@@ -0,0 +1,270 @@
+/**
+ * Overlay File Parsing
+ *
+ * Reads GeoJSON and KML into a flat list of features, each holding its
+ * points, lines and polygon rings in lat/lon. Unsupported geometry is skipped
+ * rather than failing the whole file.
+ */
+
+import type { LatLon } from "../geofence";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type OverlayProperties = Record<string, string | number | boolean | null>;
+
+export interface ParsedFeature {
+  name: string;
+  properties: OverlayProperties;
+  points: LatLon[];
+  lines: LatLon[][];
+  /** Each polygon is [outer ring, ...holes]; rings are not closed (no repeated first vertex) */
+  polygons: LatLon[][][];
+}
+
+// =============================================================================
+// FORMAT DETECTION
+// =============================================================================
+
+/**
+ * Parse a dropped or picked file by extension (falling back to content sniffing).
+ * Throws if the file is neither GeoJSON nor KML, or holds no usable features.
+ */
+export function parseOverlayFile(fileName: string, text: string): ParsedFeature[] {
+  const lower = fileName.toLowerCase();
+  const isKml = lower.endsWith(".kml") || (!lower.endsWith("json") && text.trimStart().startsWith("<"));
+
+  const features = isKml ? parseKML(text) : parseGeoJSON(JSON.parse(text));
+  if (features.length === 0) {
+    throw new Error(`${fileName} contains no supported features`);
+  }
+  return features;
+}
+
+// =============================================================================
+// GEOJSON
+// =============================================================================
+
+/**
+ * Features from a FeatureCollection, Feature or bare geometry.
+ */
+export function parseGeoJSON(json: any): ParsedFeature[] {
+  if (!json || typeof json !== "object") throw new Error("Not a GeoJSON object");
+
+  if (json.type === "FeatureCollection") {
+    const features: ParsedFeature[] = [];
+    for (const feature of json.features ?? []) {
+      const parsed = geoJSONFeature(feature, features.length);
+      if (parsed) features.push(parsed);
+    }
+    return features;
+  }
+  if (json.type === "Feature") {
+    const parsed = geoJSONFeature(json, 0);
+    return parsed ? [parsed] : [];
+  }
+
+  const parsed = geoJSONFeature({ type: "Feature", geometry: json, properties: {} }, 0);
+  return parsed ? [parsed] : [];
+}
+
+function geoJSONFeature(feature: any, index: number): ParsedFeature | null {
+  if (!feature?.geometry) return null;
+
+  const properties = flattenProperties(feature.properties ?? {});
+  const parsed: ParsedFeature = {
+    name: String(properties.name ?? properties.NAME ?? properties.title ?? feature.id ?? `Feature ${index + 1}`),
+    properties,
+    points: [],
+    lines: [],
+    polygons: [],
+  };
+  addGeoJSONGeometry(parsed, feature.geometry);
+
+  const empty = parsed.points.length === 0 && parsed.lines.length === 0 && parsed.polygons.length === 0;
+  return empty ? null : parsed;
+}
+
+function addGeoJSONGeometry(feature: ParsedFeature, geometry: any): void {
+  if (!geometry) return;
+  const coordinates = geometry.coordinates;
+
+  switch (geometry.type) {
+    case "Point":
+      pushIfValid(feature.points, position(coordinates));
+      break;
+    case "MultiPoint":
+      for (const c of coordinates ?? []) pushIfValid(feature.points, position(c));
+      break;
+    case "LineString":
+      pushLine(feature.lines, coordinates);
+      break;
+    case "MultiLineString":
+      for (const line of coordinates ?? []) pushLine(feature.lines, line);
+      break;
+    case "Polygon":
+      pushPolygon(feature.polygons, coordinates);
+      break;
+    case "MultiPolygon":
+      for (const polygon of coordinates ?? []) pushPolygon(feature.polygons, polygon);
+      break;
+    case "GeometryCollection":
+      for (const child of geometry.geometries ?? []) addGeoJSONGeometry(feature, child);
+      break;
+  }
+}
+
+function position(c: any): LatLon | null {
+  if (!Array.isArray(c) || !Number.isFinite(c[0]) || !Number.isFinite(c[1])) return null;
+  return { lat: c[1], lon: c[0] };
+}
+
+function pushLine(lines: LatLon[][], coordinates: any): void {
+  const line = (coordinates ?? []).map(position).filter(Boolean) as LatLon[];
+  if (line.length >= 2) lines.push(line);
+}
+
+function pushPolygon(polygons: LatLon[][][], rings: any): void {
+  const parsed: LatLon[][] = [];
+  for (const ring of rings ?? []) {
+    const points = openRing((ring ?? []).map(position).filter(Boolean) as LatLon[]);
+    if (points.length >= 3) parsed.push(points);
+  }
+  if (parsed.length > 0) polygons.push(parsed);
+}
+
+// =============================================================================
+// KML
+// =============================================================================
+
+/**
+ * Placemarks from a KML document (Point, LineString, LinearRing, Polygon,
+ * MultiGeometry and gx:Track). Names come from <name>; properties from
+ * ExtendedData (Data and SchemaData) plus <description>.
+ */
+export function parseKML(text: string): ParsedFeature[] {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("Not a valid KML document");
+  }
+
+  const features: ParsedFeature[] = [];
+  const placemarks = doc.getElementsByTagName("Placemark");
+  for (let i = 0; i < placemarks.length; i++) {
+    const placemark = placemarks[i];
+    const properties = kmlProperties(placemark);
+    const name = childText(placemark, "name") || `Placemark ${i + 1}`;
+    const feature: ParsedFeature = { name, properties: { name, ...properties }, points: [], lines: [], polygons: [] };
+
+    for (const point of descendants(placemark, "Point")) {
+      const [first] = kmlCoordinates(point);
+      pushIfValid(feature.points, first ?? null);
+    }
+    for (const line of descendants(placemark, "LineString")) {
+      const coords = kmlCoordinates(line);
+      if (coords.length >= 2) feature.lines.push(coords);
+    }
+    for (const polygon of descendants(placemark, "Polygon")) {
+      const rings: LatLon[][] = [];
+      for (const boundary of ["outerBoundaryIs", "innerBoundaryIs"]) {
+        for (const element of descendants(polygon, boundary)) {
+          const ring = openRing(kmlCoordinates(element));
+          if (ring.length >= 3) rings.push(ring);
+        }
+      }
+      if (rings.length > 0) feature.polygons.push(rings);
+    }
+    // Bare LinearRings (outside a Polygon) are drawn as closed lines
+    for (const ring of descendants(placemark, "LinearRing")) {
+      if (ring.parentElement && /BoundaryIs$/.test(ring.parentElement.localName)) continue;
+      const coords = kmlCoordinates(ring);
+      if (coords.length >= 2) feature.lines.push(coords);
+    }
+    for (const track of descendants(placemark, "Track")) {
+      const coords: LatLon[] = [];
+      for (const coord of descendants(track, "coord")) {
+        const [lon, lat] = (coord.textContent ?? "").trim().split(/\s+/).map(Number);
+        if (Number.isFinite(lat) && Number.isFinite(lon)) coords.push({ lat, lon });
+      }
+      if (coords.length >= 2) feature.lines.push(coords);
+    }
+
+    if (feature.points.length > 0 || feature.lines.length > 0 || feature.polygons.length > 0) {
+      features.push(feature);
+    }
+  }
+
+  return features;
+}
+
+function kmlCoordinates(element: Element): LatLon[] {
+  const node = descendants(element, "coordinates")[0];
+  if (!node) return [];
+
+  const points: LatLon[] = [];
+  for (const tuple of (node.textContent ?? "").trim().split(/\s+/)) {
+    const [lon, lat] = tuple.split(",").map(Number);
+    if (Number.isFinite(lat) && Number.isFinite(lon)) points.push({ lat, lon });
+  }
+  return points;
+}
+
+function kmlProperties(placemark: Element): OverlayProperties {
+  const properties: OverlayProperties = {};
+
+  for (const data of descendants(placemark, "Data")) {
+    const key = data.getAttribute("name");
+    if (key) properties[key] = childText(data, "value");
+  }
+  for (const data of descendants(placemark, "SimpleData")) {
+    const key = data.getAttribute("name");
+    if (key) properties[key] = (data.textContent ?? "").trim();
+  }
+
+  const description = childText(placemark, "description");
+  if (description) properties.description = description.replace(/<[^>]+>/g, " ").replace(/\s+/g, " ").trim();
+
+  return properties;
+}
+
+/** Elements by local name, so namespaced tags (gx:Track, gx:coord) match too */
+function descendants(element: Element, localName: string): Element[] {
+  return Array.from(element.getElementsByTagNameNS("*", localName));
+}
+
+function childText(element: Element, localName: string): string {
+  for (const child of Array.from(element.children)) {
+    if (child.localName === localName) return (child.textContent ?? "").trim();
+  }
+  return "";
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function pushIfValid(points: LatLon[], point: LatLon | null): void {
+  if (point) points.push(point);
+}
+
+/** Drop the closing vertex GeoJSON and KML repeat at the end of each ring */
+function openRing(ring: LatLon[]): LatLon[] {
+  if (ring.length < 2) return ring;
+  const first = ring[0];
+  const last = ring[ring.length - 1];
+  return first.lat === last.lat && first.lon === last.lon ? ring.slice(0, -1) : ring;
+}
+
+/** Nested objects/arrays become JSON strings so every property is displayable */
+function flattenProperties(properties: Record<string, unknown>): OverlayProperties {
+  const result: OverlayProperties = {};
+  for (const [key, value] of Object.entries(properties)) {
+    if (value === null || typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
+      result[key] = value as string | number | boolean | null;
+    } else if (value !== undefined) {
+      result[key] = JSON.stringify(value);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,262 @@
+/**
+ * Imported Overlay Visuals
+ *
+ * Drapes imported layers on the globe: outlines and lines just above the
+ * lat/lon grid, translucent polygon fills underneath, and point markers.
+ * Each layer is one batched mesh per primitive with per-vertex colors.
+ * Files dropped anywhere on the page are imported as new layers.
+ */
+
+import * as THREE from "three";
+import { GRID_ALTITUDE } from "../constants";
+import { latLonToPosition } from "../utils/coordinates";
+import type { LatLon } from "../geofence";
+import {
+  overlayParams,
+  getOverlayLayers,
+  onOverlaysChanged,
+  importOverlayFiles,
+  type OverlayLayer,
+} from "./index";
+
+const LINE_ALTITUDE = GRID_ALTITUDE * 1.2;
+const FILL_ALTITUDE = GRID_ALTITUDE * 1.1;
+
+/** Longest line segment before it is split to follow the surface (degrees) */
+const MAX_SEGMENT_DEG = 1;
+
+/** Longest fill triangle edge before it is split (degrees) */
+const MAX_FILL_EDGE_DEG = 2;
+
+/** Cap on fill triangles per feature, so huge polygons stay bounded */
+const MAX_FILL_TRIANGLES = 4096;
+
+const OVERLAY_FILE_PATTERN = /\.(geojson|json|kml)$/i;
+
+// =============================================================================
+// STATE
+// =============================================================================
+
+/** Parent for all layer meshes; child of the Earth mesh so it rotates with it */
+const overlayGroup = new THREE.Group();
+
+const lineMaterial = new THREE.LineBasicMaterial({
+  vertexColors: true,
+  transparent: true,
+  opacity: 0.9,
+  depthWrite: false,
+});
+
+const fillMaterial = new THREE.MeshBasicMaterial({
+  vertexColors: true,
+  transparent: true,
+  opacity: overlayParams.fillOpacity,
+  side: THREE.DoubleSide,
+  depthWrite: false,
+});
+
+const pointMaterial = new THREE.PointsMaterial({
+  vertexColors: true,
+  size: 6,
+  sizeAttenuation: false,
+  depthWrite: false,
+});
+
+// =============================================================================
+// INITIALIZATION
+// =============================================================================
+
+/**
+ * Attach overlay rendering to the Earth mesh and accept dropped files.
+ */
+export function initOverlayVisuals(earth: THREE.Object3D): void {
+  earth.add(overlayGroup);
+  overlayGroup.visible = overlayParams.visible;
+
+  onOverlaysChanged(rebuildOverlayMeshes);
+  rebuildOverlayMeshes();
+
+  document.addEventListener("dragover", (event) => {
+    if (!event.dataTransfer?.types.includes("Files")) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = "copy";
+  });
+  document.addEventListener("drop", (event) => {
+    const files = Array.from(event.dataTransfer?.files ?? []).filter((file) => OVERLAY_FILE_PATTERN.test(file.name));
+    if (files.length === 0) return;
+    event.preventDefault();
+    importOverlayFiles(files);
+  });
+}
+
+export function setOverlaysVisible(visible: boolean): void {
+  overlayParams.visible = visible;
+  overlayGroup.visible = visible;
+}
+
+export function setOverlayFillOpacity(opacity: number): void {
+  overlayParams.fillOpacity = opacity;
+  fillMaterial.opacity = opacity;
+}
+
+// =============================================================================
+// LAYER MESHES
+// =============================================================================
+
+function rebuildOverlayMeshes(): void {
+  for (const child of overlayGroup.children) {
+    for (const object of child.children) {
+      (object as THREE.Mesh).geometry.dispose();
+    }
+  }
+  overlayGroup.clear();
+
+  for (const layer of getOverlayLayers()) {
+    if (!layer.visible) continue;
+    overlayGroup.add(buildLayerGroup(layer));
+  }
+}
+
+function buildLayerGroup(layer: OverlayLayer): THREE.Group {
+  const group = new THREE.Group();
+  group.name = layer.id;
+
+  const line = { positions: [] as number[], colors: [] as number[] };
+  const fill = { positions: [] as number[], colors: [] as number[] };
+  const point = { positions: [] as number[], colors: [] as number[] };
+  const color = new THREE.Color();
+
+  for (const feature of layer.features) {
+    color.set(feature.color);
+    const fillBudget = { triangles: MAX_FILL_TRIANGLES };
+
+    for (const path of feature.lines) {
+      addPathSegments(line.positions, line.colors, path, false, color);
+    }
+    for (const polygon of feature.polygons) {
+      for (const ring of polygon) {
+        addPathSegments(line.positions, line.colors, ring, true, color);
+      }
+      addPolygonFill(fill.positions, fill.colors, polygon, color, fillBudget);
+    }
+    for (const p of feature.points) {
+      const v = latLonToPosition(p.lat, p.lon, LINE_ALTITUDE);
+      point.positions.push(v.x, v.y, v.z);
+      point.colors.push(color.r, color.g, color.b);
+    }
+  }
+
+  if (fill.positions.length > 0) {
+    const mesh = new THREE.Mesh(buildGeometry(fill.positions, fill.colors), fillMaterial);
+    mesh.renderOrder = 3;
+    group.add(mesh);
+  }
+  if (line.positions.length > 0) {
+    const lines = new THREE.LineSegments(buildGeometry(line.positions, line.colors), lineMaterial);
+    lines.renderOrder = 4;
+    group.add(lines);
+  }
+  if (point.positions.length > 0) {
+    const points = new THREE.Points(buildGeometry(point.positions, point.colors), pointMaterial);
+    points.renderOrder = 4;
+    group.add(points);
+  }
+
+  return group;
+}
+
+function buildGeometry(positions: number[], colors: number[]): THREE.BufferGeometry {
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute("position", new THREE.Float32BufferAttribute(positions, 3));
+  geometry.setAttribute("color", new THREE.Float32BufferAttribute(colors, 3));
+  return geometry;
+}
+
+/**
+ * Segment pairs along a path, each edge split so it follows the globe's surface.
+ */
+function addPathSegments(positions: number[], colors: number[], path: LatLon[], closed: boolean, color: THREE.Color): void {
+  const edgeCount = closed ? path.length : path.length - 1;
+
+  for (let i = 0; i < edgeCount; i++) {
+    const a = path[i];
+    const b = path[(i + 1) % path.length];
+    let dLon = b.lon - a.lon;
+    if (dLon > 180) dLon -= 360;
+    if (dLon < -180) dLon += 360;
+    const dLat = b.lat - a.lat;
+
+    const steps = Math.max(1, Math.ceil(Math.max(Math.abs(dLat), Math.abs(dLon)) / MAX_SEGMENT_DEG));
+    let prev = latLonToPosition(a.lat, a.lon, LINE_ALTITUDE);
+    for (let s = 1; s <= steps; s++) {
+      const t = s / steps;
+      const next = latLonToPosition(a.lat + dLat * t, a.lon + dLon * t, LINE_ALTITUDE);
+      positions.push(prev.x, prev.y, prev.z, next.x, next.y, next.z);
+      colors.push(color.r, color.g, color.b, color.r, color.g, color.b);
+      prev = next;
+    }
+  }
+}
+
+/**
+ * Triangulate a polygon (with holes) in lon/lat space, longitudes unwrapped
+ * around the first vertex so antimeridian-crossing shapes stay whole, then
+ * bisect long triangle edges so the fill hugs the globe instead of cutting
+ * through it. Triangles are split breadth first, so a feature that runs out
+ * of its triangle budget is refined evenly rather than in one corner.
+ */
+function addPolygonFill(
+  positions: number[],
+  colors: number[],
+  polygon: LatLon[][],
+  color: THREE.Color,
+  budget: { triangles: number }
+): void {
+  const refLon = polygon[0][0].lon;
+  const toVec = (p: LatLon) => {
+    let d = p.lon - refLon;
+    if (d > 180) d -= 360;
+    if (d < -180) d += 360;
+    return new THREE.Vector2(refLon + d, p.lat);
+  };
+
+  const contour = polygon[0].map(toVec);
+  const holes = polygon.slice(1).map((ring) => ring.map(toVec));
+  const vertices = contour.concat(...holes);
+
+  const queue: THREE.Vector2[][] = [];
+  for (const [i, j, k] of THREE.ShapeUtils.triangulateShape(contour, holes)) {
+    queue.push([vertices[i], vertices[j], vertices[k]]);
+  }
+  budget.triangles -= queue.length;
+
+  for (let q = 0; q < queue.length; q++) {
+    const [a, b, c] = queue[q];
+    const ab = a.distanceTo(b);
+    const bc = b.distanceTo(c);
+    const ca = c.distanceTo(a);
+    const longest = Math.max(ab, bc, ca);
+
+    // Halve the longest edge; each split adds one triangle
+    if (longest > MAX_FILL_EDGE_DEG && budget.triangles > 0) {
+      budget.triangles--;
+      if (longest === ab) {
+        const m = a.clone().add(b).multiplyScalar(0.5);
+        queue.push([a, m, c], [m, b, c]);
+      } else if (longest === bc) {
+        const m = b.clone().add(c).multiplyScalar(0.5);
+        queue.push([b, m, a], [m, c, a]);
+      } else {
+        const m = c.clone().add(a).multiplyScalar(0.5);
+        queue.push([c, m, b], [m, a, b]);
+      }
+      continue;
+    }
+
+    for (const v of [a, b, c]) {
+      const p = latLonToPosition(v.y, v.x, FILL_ALTITUDE);
+      positions.push(p.x, p.y, p.z);
+      colors.push(color.r, color.g, color.b);
+    }
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Satellite Passes
+ *
+ * Pass predictions for a ground observer, computed by the satellite worker from
+ * the live CelesTrak TLEs. Holds the observer location, the latest result and
+ * the selected pass (whose ground track is drawn on the globe).
+ */
+
+import {
+  hasLiveTLEs,
+  predictSatellitePasses,
+  computeSatelliteGroundTrack,
+} from "../feeds/satellite-feed-controller";
+import { getTimelineTime } from "../simulation/timeline";
+import type { SatellitePass, GroundTrackPoint } from "../utils/pass-prediction";
+
+// =============================================================================
+// TYPES & PARAMETERS
+// =============================================================================
+
+export interface PredictedPass extends SatellitePass {
+  id: number;
+}
+
+export interface PassParams {
+  /** Observer latitude (degrees) */
+  observerLat: number;
+  /** Observer longitude (degrees) */
+  observerLon: number;
+  /** Observer altitude (meters) */
+  observerAltitude: number;
+  /** Prediction window from the current timeline time (hours) */
+  hours: number;
+  /** Minimum peak elevation (degrees) */
+  minElevation: number;
+  /** Only satellites whose name contains this; empty for all */
+  nameFilter: string;
+  /** Status text for the GUI */
+  status: string;
+}
+
+export const passParams: PassParams = {
+  observerLat: 51.4779,
+  observerLon: -0.0015,
+  observerAltitude: 45,
+  hours: 24,
+  minElevation: 10,
+  nameFilter: "",
+  status: "idle",
+};
+
+/** Ground track points per selected pass (more for long passes, capped by step) */
+const TRACK_POINTS = 120;
+const MIN_TRACK_STEP_MS = 5000;
+
+// =============================================================================
+// STATE
+// =============================================================================
+
+let passes: PredictedPass[] = [];
+let selectedPassId: number | null = null;
+let selectedTrack: GroundTrackPoint[] = [];
+let nextPassId = 1;
+
+/** Bumped per prediction/selection so late worker replies are ignored */
+let predictionGeneration = 0;
+let trackGeneration = 0;
+
+const listeners = new Set<() => void>();
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/** Passes from the latest prediction, in AOS order */
+export function getPasses(): readonly PredictedPass[] {
+  return passes;
+}
+
+export function getSelectedPass(): PredictedPass | null {
+  return passes.find((p) => p.id === selectedPassId) ?? null;
+}
+
+/** Ground track of the selected pass (empty until the worker replies) */
+export function getSelectedPassTrack(): readonly GroundTrackPoint[] {
+  return selectedTrack;
+}
+
+/**
+ * Register a callback for observer, result and selection changes.
+ */
+export function onPassesChanged(listener: () => void): void {
+  listeners.add(listener);
+}
+
+/**
+ * Move the observer. Existing predictions no longer apply and are cleared.
+ */
+export function setObserver(lat: number, lon: number, altitude = passParams.observerAltitude): void {
+  passParams.observerLat = lat;
+  passParams.observerLon = lon;
+  passParams.observerAltitude = altitude;
+  clearPasses();
+}
+
+export function clearPasses(): void {
+  predictionGeneration++;
+  trackGeneration++;
+  passes = [];
+  selectedPassId = null;
+  selectedTrack = [];
+  passParams.status = "idle";
+  notifyListeners();
+}
+
+/**
+ * Predict passes from the current timeline time over the configured window.
+ */
+export async function runPassPrediction(): Promise<void> {
+  if (!hasLiveTLEs()) {
+    passParams.status = "needs live satellites";
+    return;
+  }
+
+  const generation = ++predictionGeneration;
+  passParams.status = "searching…";
+
+  const result = await predictSatellitePasses(
+    {
+      observer: {
+        lat: passParams.observerLat,
+        lon: passParams.observerLon,
+        altitude: passParams.observerAltitude,
+      },
+      start: getTimelineTime(),
+      hours: passParams.hours,
+      minElevation: passParams.minElevation,
+      nameFilter: passParams.nameFilter,
+    },
+    (done, total) => {
+      if (generation === predictionGeneration) {
+        passParams.status = `searching ${Math.round((done / total) * 100)}%`;
+      }
+    }
+  );
+  if (generation !== predictionGeneration) return;
+
+  passes = result.map((pass) => ({ ...pass, id: nextPassId++ }));
+  selectedPassId = null;
+  selectedTrack = [];
+  passParams.status = `${passes.length} passes`;
+  notifyListeners();
+}
+
+/**
+ * Select a pass (null to clear) and fetch its ground track.
+ */
+export async function selectPass(id: number | null): Promise<void> {
+  const generation = ++trackGeneration;
+  selectedPassId = id;
+  selectedTrack = [];
+  notifyListeners();
+
+  const pass = getSelectedPass();
+  if (!pass) return;
+
+  const stepMs = Math.max(MIN_TRACK_STEP_MS, (pass.los - pass.aos) / TRACK_POINTS);
+  const track = await computeSatelliteGroundTrack(pass.satnum, pass.aos, pass.los, stepMs);
+  if (generation !== trackGeneration) return;
+
+  selectedTrack = track;
+  notifyListeners();
+}
+
+function notifyListeners(): void {
+  for (const listener of listeners) {
+    listener();
+  }
+}
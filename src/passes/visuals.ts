@@ -0,0 +1,131 @@
+/**
+ * Satellite Pass Visuals
+ *
+ * Observer marker and the ground track of the selected pass, plus picking the
+ * observer location by clicking the globe.
+ */
+
+import * as THREE from "three";
+import { EARTH_RADIUS, GRID_ALTITUDE } from "../constants";
+import { latLonToPosition, positionToLatLon } from "../utils/coordinates";
+import { replaceGeometryPoints } from "../utils/geometry";
+import { passParams, onPassesChanged, getSelectedPassTrack, setObserver } from "./index";
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const TRACK_ALTITUDE = GRID_ALTITUDE * 2;
+
+/** Matches the satellite selection color */
+const TRACK_COLOR = 0xa78bfa;
+
+// =============================================================================
+// STATE
+// =============================================================================
+
+/** Parent for pass meshes; child of the Earth mesh so it rotates with it */
+const passGroup = new THREE.Group();
+passGroup.renderOrder = 5;
+
+const observerMarker = new THREE.Points(
+  new THREE.BufferGeometry(),
+  new THREE.PointsMaterial({
+    color: 0xffffff,
+    size: 8,
+    sizeAttenuation: false,
+    depthWrite: false,
+  })
+);
+observerMarker.renderOrder = 6;
+
+const trackLine = new THREE.Line(
+  new THREE.BufferGeometry(),
+  new THREE.LineBasicMaterial({
+    color: TRACK_COLOR,
+    transparent: true,
+    opacity: 0.95,
+    depthWrite: false,
+  })
+);
+trackLine.visible = false;
+trackLine.renderOrder = 5;
+
+passGroup.add(trackLine, observerMarker);
+
+let picking = false;
+let earthMesh: THREE.Object3D | null = null;
+const raycaster = new THREE.Raycaster();
+const earthSphere = new THREE.Sphere(new THREE.Vector3(0, 0, 0), EARTH_RADIUS);
+const _ndc = new THREE.Vector2();
+const _hit = new THREE.Vector3();
+
+// =============================================================================
+// INITIALIZATION
+// =============================================================================
+
+/**
+ * Attach pass rendering to the Earth mesh and listen for observer picks.
+ */
+export function initPassVisuals(earth: THREE.Object3D, camera: THREE.Camera, canvas: HTMLCanvasElement): void {
+  earthMesh = earth;
+  earth.add(passGroup);
+
+  onPassesChanged(rebuildPassMeshes);
+  rebuildPassMeshes();
+
+  canvas.addEventListener("click", (event) => {
+    if (!picking) return;
+    if ((event.target as HTMLElement).closest(".lil-gui")) return;
+    const point = pickLatLon(event, camera, canvas);
+    if (!point) return;
+    picking = false;
+    setObserver(point.lat, point.lon);
+  });
+}
+
+// =============================================================================
+// OBSERVER PICKING
+// =============================================================================
+
+export function isPickingObserver(): boolean {
+  return picking;
+}
+
+/**
+ * Place the observer with the next click on the globe.
+ */
+export function startObserverPick(): void {
+  picking = true;
+  passParams.status = "click the globe";
+}
+
+function pickLatLon(event: MouseEvent, camera: THREE.Camera, canvas: HTMLCanvasElement): { lat: number; lon: number } | null {
+  if (!earthMesh) return null;
+
+  const rect = canvas.getBoundingClientRect();
+  _ndc.set(
+    ((event.clientX - rect.left) / rect.width) * 2 - 1,
+    -((event.clientY - rect.top) / rect.height) * 2 + 1
+  );
+  raycaster.setFromCamera(_ndc, camera);
+  if (!raycaster.ray.intersectSphere(earthSphere, _hit)) return null;
+
+  return positionToLatLon(earthMesh.worldToLocal(_hit.clone()));
+}
+
+// =============================================================================
+// MESHES
+// =============================================================================
+
+function rebuildPassMeshes(): void {
+  replaceGeometryPoints(observerMarker, [
+    latLonToPosition(passParams.observerLat, passParams.observerLon, TRACK_ALTITUDE),
+  ]);
+
+  const track = getSelectedPassTrack();
+  trackLine.visible = track.length > 1;
+  if (!trackLine.visible) return;
+
+  replaceGeometryPoints(trackLine, track.map((point) => latLonToPosition(point.lat, point.lon, TRACK_ALTITUDE)));
+}
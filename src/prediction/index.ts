@@ -0,0 +1,269 @@
+/**
+ * Track Prediction
+ *
+ * Dead-reckons ships and aircraft whose reports have gone stale, so they keep
+ * moving instead of freezing at the last report. A unit is anchored where it
+ * was when its reports went stale and extrapolated from there with the
+ * selected model; the next report ends the prediction. Staleness is judged
+ * against the wall clock (live reports are stamped with it), while predicted
+ * units advance with the timeline.
+ */
+
+import { state, resolveUnitIndex, aircraftSelectionId } from "../state";
+import {
+  predictPosition,
+  uncertaintyAxes,
+  headingDelta,
+  type MotionAnchor,
+  type PredictionModel,
+  type UncertaintyAxes,
+} from "../utils/dead-reckoning";
+import { getTimelineTime, onTimelineSeek } from "../simulation/timeline";
+import type { ShipState, AircraftState } from "../types";
+
+// =============================================================================
+// TYPES & PARAMETERS
+// =============================================================================
+
+export interface PredictionParams {
+  enabled: boolean;
+  model: PredictionModel;
+  /** Ships without a report for this long are predicted (seconds) */
+  shipStaleSeconds: number;
+  /** Aircraft without a report for this long are predicted (seconds) */
+  aircraftStaleSeconds: number;
+  /** Stop extrapolating (hold position) after this long (minutes) */
+  maxPredictionMinutes: number;
+  showUncertainty: boolean;
+}
+
+export const predictionParams: PredictionParams = {
+  enabled: true,
+  model: "constant-velocity",
+  shipStaleSeconds: 90,
+  aircraftStaleSeconds: 30,
+  maxPredictionMinutes: 30,
+  showUncertainty: true,
+};
+
+/** A unit currently being predicted */
+export interface ActivePrediction {
+  type: "ship" | "aircraft";
+  /** MMSI or aircraftSelectionId() */
+  id: string;
+  /** Last resolved index into state.ships / state.aircraft */
+  index: number;
+  anchor: MotionAnchor;
+  /** Timeline time the prediction started from (unix seconds); reset on seek */
+  startTime: number;
+  /** Seconds since the last report, as of the last apply */
+  age: number;
+  /** Current uncertainty ellipse */
+  uncertainty: UncertaintyAxes;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Real time between full scans for newly stale / refreshed units (ms) */
+const SCAN_INTERVAL_MS = 250;
+
+/** Units slower than this have nothing to extrapolate (knots) */
+const MIN_PREDICTION_SPEED = 0.5;
+
+/** Turn rates above this are treated as report noise (deg/s) */
+const MAX_TURN_RATE = 3;
+
+/** Reports further apart than this don't give a usable turn rate (seconds) */
+const MAX_TURN_SAMPLE_SECONDS = 120;
+
+// =============================================================================
+// STATE
+// =============================================================================
+
+interface ReportTrack {
+  /** lastUpdate of the latest report seen */
+  time: number;
+  heading: number;
+  /** Degrees per second from the last two reports */
+  turnRate: number;
+}
+
+const shipReports = new Map<string, ReportTrack>();
+const aircraftReports = new Map<string, ReportTrack>();
+
+let active: ActivePrediction[] = [];
+let lastScanTime = 0;
+
+// A seek restarts every prediction from its anchor at the new time
+onTimelineSeek((timeMs) => {
+  for (const prediction of active) prediction.startTime = timeMs / 1000;
+});
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/** Units currently shown at a predicted position */
+export function getActivePredictions(): readonly ActivePrediction[] {
+  return active;
+}
+
+/**
+ * Per-frame update: scan for stale units (throttled), then move every
+ * predicted unit to its extrapolated position. Runs after the feeds have
+ * synced so a feed rewriting the last reported position doesn't win.
+ * Returns which unit types moved (their GPU attributes need an update).
+ */
+export function updatePredictions(): { ships: boolean; aircraft: boolean } {
+  if (!predictionParams.enabled) return { ships: false, aircraft: false };
+
+  const nowSeconds = Date.now() / 1000;
+  const timelineSeconds = getTimelineTime() / 1000;
+  const now = performance.now();
+  if (now - lastScanTime >= SCAN_INTERVAL_MS) {
+    lastScanTime = now;
+    scan(nowSeconds, timelineSeconds);
+  }
+
+  let ships = false;
+  let aircraft = false;
+  for (const prediction of active) {
+    const unit = resolveUnit(prediction);
+    if (!unit) continue;
+
+    const lastUpdate = unit.lastUpdate ?? 0;
+    prediction.age = nowSeconds - lastUpdate;
+    const elapsed = Math.max(0, timelineSeconds - prediction.startTime);
+    const seconds = Math.min(elapsed, predictionParams.maxPredictionMinutes * 60);
+    const position = predictPosition(prediction.anchor, seconds, predictionParams.model);
+    unit.lat = position.lat;
+    unit.lon = position.lon;
+    unit.heading = position.heading;
+    unit.predicted = true;
+    prediction.uncertainty = uncertaintyAxes(prediction.anchor, seconds, predictionParams.model);
+
+    if (prediction.type === "ship") ships = true;
+    else aircraft = true;
+  }
+
+  return { ships, aircraft };
+}
+
+/**
+ * Turn prediction on or off. Turning it off leaves units at their last
+ * predicted position until the next report.
+ */
+export function setPredictionEnabled(enabled: boolean): void {
+  predictionParams.enabled = enabled;
+  lastScanTime = 0;
+  if (enabled) return;
+
+  for (const prediction of active) {
+    const unit = resolveUnit(prediction);
+    if (unit) unit.predicted = false;
+  }
+  active = [];
+}
+
+// =============================================================================
+// INTERNALS
+// =============================================================================
+
+function scan(nowSeconds: number, timelineSeconds: number): void {
+  const previous = new Map<string, ActivePrediction>();
+  for (const prediction of active) {
+    previous.set(`${prediction.type}:${prediction.id}`, prediction);
+  }
+  active = [];
+
+  const ships = state.ships;
+  for (let i = 0; i < ships.length; i++) {
+    const ship = ships[i];
+    scanUnit("ship", ship.mmsi, i, ship, ship.sog, predictionParams.shipStaleSeconds, shipReports, previous, nowSeconds, timelineSeconds);
+  }
+
+  const aircraft = state.aircraft;
+  for (let i = 0; i < aircraft.length; i++) {
+    const ac = aircraft[i];
+    scanUnit("aircraft", aircraftSelectionId(ac), i, ac, ac.groundSpeed, predictionParams.aircraftStaleSeconds, aircraftReports, previous, nowSeconds, timelineSeconds);
+  }
+
+  pruneReports(shipReports, ships.length, ships, (s) => s.mmsi);
+  pruneReports(aircraftReports, aircraft.length, aircraft, aircraftSelectionId);
+}
+
+function scanUnit(
+  type: "ship" | "aircraft",
+  id: string,
+  index: number,
+  unit: ShipState | AircraftState,
+  speed: number,
+  staleSeconds: number,
+  reports: Map<string, ReportTrack>,
+  previous: Map<string, ActivePrediction>,
+  nowSeconds: number,
+  timelineSeconds: number
+): void {
+  if (!id || unit.lastUpdate === undefined) return;
+
+  // New report: update the turn rate estimate and end any prediction
+  const report = reports.get(id);
+  if (!report || report.time !== unit.lastUpdate) {
+    let turnRate = 0;
+    if (report) {
+      const dt = unit.lastUpdate - report.time;
+      if (dt > 0 && dt <= MAX_TURN_SAMPLE_SECONDS) {
+        turnRate = Math.max(-MAX_TURN_RATE, Math.min(MAX_TURN_RATE, headingDelta(report.heading, unit.heading) / dt));
+      }
+    }
+    reports.set(id, { time: unit.lastUpdate, heading: unit.heading, turnRate });
+    unit.predicted = false;
+    return;
+  }
+
+  const stale = nowSeconds - unit.lastUpdate > staleSeconds && speed >= MIN_PREDICTION_SPEED;
+  if (!stale) {
+    unit.predicted = false;
+    return;
+  }
+
+  const key = `${type}:${id}`;
+  const existing = previous.get(key);
+  if (existing) {
+    existing.index = index;
+    active.push(existing);
+    return;
+  }
+
+  // Newly stale: anchor where the unit is now (feeds may have extrapolated a little already)
+  active.push({
+    type,
+    id,
+    index,
+    anchor: { lat: unit.lat, lon: unit.lon, heading: unit.heading, speed, turnRate: report.turnRate },
+    startTime: timelineSeconds,
+    age: nowSeconds - unit.lastUpdate,
+    uncertainty: { alongKm: 0, crossKm: 0 },
+  });
+}
+
+/** The predicted unit, following it if the feed moved it in its state array */
+function resolveUnit(prediction: ActivePrediction): ShipState | AircraftState | undefined {
+  if (prediction.type === "ship") {
+    prediction.index = resolveUnitIndex(state.ships, prediction.index, (s) => s.mmsi === prediction.id);
+    return state.ships[prediction.index];
+  }
+  prediction.index = resolveUnitIndex(state.aircraft, prediction.index, (a) => aircraftSelectionId(a) === prediction.id);
+  return state.aircraft[prediction.index];
+}
+
+/** Drop report history for units no longer in the feed */
+function pruneReports<T>(reports: Map<string, ReportTrack>, count: number, units: T[], getId: (unit: T) => string): void {
+  if (reports.size <= count) return;
+  const ids = new Set(units.map(getId));
+  for (const id of reports.keys()) {
+    if (!ids.has(id)) reports.delete(id);
+  }
+}
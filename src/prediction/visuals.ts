@@ -0,0 +1,140 @@
+/**
+ * Prediction Visuals
+ *
+ * Uncertainty ellipses around dead-reckoned units, oriented along the
+ * predicted heading and growing with time since the last report.
+ */
+
+import * as THREE from "three";
+import { SHIP_ALTITUDE, AIRCRAFT_ALTITUDE } from "../constants";
+import { state } from "../state";
+import { latLonToPosition } from "../utils/coordinates";
+import { predictionParams, getActivePredictions } from "./index";
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const MAX_ELLIPSES = 2000;
+const ELLIPSE_SEGMENTS = 32;
+
+/** Real time between ellipse rebuilds (ms) */
+const REFRESH_MS = 100;
+
+const SHIP_COLOR = new THREE.Color(0x2dd4bf);
+const AIRCRAFT_COLOR = new THREE.Color(0xfbbf24);
+
+const KM_PER_DEGREE = 111.195;
+const DEG_TO_RAD = Math.PI / 180;
+
+// =============================================================================
+// STATE
+// =============================================================================
+
+const positions = new Float32Array(MAX_ELLIPSES * ELLIPSE_SEGMENTS * 2 * 3);
+const colors = new Float32Array(MAX_ELLIPSES * ELLIPSE_SEGMENTS * 2 * 3);
+
+const ellipseGeometry = new THREE.BufferGeometry();
+ellipseGeometry.setAttribute("position", new THREE.BufferAttribute(positions, 3));
+ellipseGeometry.setAttribute("color", new THREE.BufferAttribute(colors, 3));
+ellipseGeometry.setDrawRange(0, 0);
+
+const ellipseLines = new THREE.LineSegments(
+  ellipseGeometry,
+  new THREE.LineBasicMaterial({
+    vertexColors: true,
+    transparent: true,
+    opacity: 0.45,
+    depthWrite: false,
+  })
+);
+ellipseLines.frustumCulled = false;
+ellipseLines.renderOrder = 3;
+
+let lastRefreshTime = 0;
+
+/** Unit circle, precomputed */
+const circleCos = new Float32Array(ELLIPSE_SEGMENTS);
+const circleSin = new Float32Array(ELLIPSE_SEGMENTS);
+for (let s = 0; s < ELLIPSE_SEGMENTS; s++) {
+  const angle = (s / ELLIPSE_SEGMENTS) * Math.PI * 2;
+  circleCos[s] = Math.cos(angle);
+  circleSin[s] = Math.sin(angle);
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+export function initPredictionVisuals(scene: THREE.Scene): void {
+  scene.add(ellipseLines);
+}
+
+/**
+ * Per-frame update: follow Earth rotation, rebuild ellipses (throttled).
+ */
+export function updatePredictionVisuals(earthRotY: number): void {
+  ellipseLines.rotation.y = earthRotY;
+
+  if (!predictionParams.enabled || !predictionParams.showUncertainty) {
+    ellipseLines.visible = false;
+    return;
+  }
+
+  const now = performance.now();
+  if (now - lastRefreshTime < REFRESH_MS) return;
+  lastRefreshTime = now;
+
+  const predictions = getActivePredictions();
+  let count = 0;
+  const ring: THREE.Vector3[] = new Array(ELLIPSE_SEGMENTS);
+
+  for (const prediction of predictions) {
+    if (count >= MAX_ELLIPSES) break;
+
+    const unit = prediction.type === "ship" ? state.ships[prediction.index] : state.aircraft[prediction.index];
+    if (!unit) continue;
+
+    const altitude = prediction.type === "ship" ? SHIP_ALTITUDE : AIRCRAFT_ALTITUDE;
+    const color = prediction.type === "ship" ? SHIP_COLOR : AIRCRAFT_COLOR;
+    const { alongKm, crossKm } = prediction.uncertainty;
+
+    // Ellipse in local east/north km, rotated so the long axis follows the heading
+    const heading = unit.heading * DEG_TO_RAD;
+    const sinH = Math.sin(heading);
+    const cosH = Math.cos(heading);
+    const cosLat = Math.max(0.01, Math.cos(unit.lat * DEG_TO_RAD));
+    for (let s = 0; s < ELLIPSE_SEGMENTS; s++) {
+      const across = crossKm * circleCos[s];
+      const along = alongKm * circleSin[s];
+      const eastKm = along * sinH + across * cosH;
+      const northKm = along * cosH - across * sinH;
+      ring[s] = latLonToPosition(
+        unit.lat + northKm / KM_PER_DEGREE,
+        unit.lon + eastKm / (KM_PER_DEGREE * cosLat),
+        altitude
+      );
+    }
+
+    const base = count * ELLIPSE_SEGMENTS * 2;
+    for (let s = 0; s < ELLIPSE_SEGMENTS; s++) {
+      writeVertex(base + s * 2, ring[s], color);
+      writeVertex(base + s * 2 + 1, ring[(s + 1) % ELLIPSE_SEGMENTS], color);
+    }
+    count++;
+  }
+
+  ellipseGeometry.setDrawRange(0, count * ELLIPSE_SEGMENTS * 2);
+  ellipseGeometry.attributes.position.needsUpdate = true;
+  ellipseGeometry.attributes.color.needsUpdate = true;
+  ellipseLines.visible = count > 0;
+}
+
+function writeVertex(vertex: number, position: THREE.Vector3, color: THREE.Color): void {
+  positions[vertex * 3] = position.x;
+  positions[vertex * 3 + 1] = position.y;
+  positions[vertex * 3 + 2] = position.z;
+  colors[vertex * 3] = color.r;
+  colors[vertex * 3 + 1] = color.g;
+  colors[vertex * 3 + 2] = color.b;
+}
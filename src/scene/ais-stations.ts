@@ -0,0 +1,204 @@
+/**
+ * AIS Station Markers
+ *
+ * Fixed AIS transmitters that aren't vessels: aids to navigation (message 21)
+ * and base stations (message 4). Rendered as screen-space point sprites with a
+ * distinct icon per kind, rotated with the Earth like the airport markers.
+ */
+
+import * as THREE from "three";
+import { SHIP_ALTITUDE } from "../constants";
+import { latLonToPosition } from "../utils/coordinates";
+import { replaceGeometryPoints } from "../utils/geometry";
+
+// =============================================================================
+// TYPES & PARAMETERS
+// =============================================================================
+
+export type AisStationKind = "aton" | "base";
+
+export interface AisStation {
+  mmsi: string;
+  kind: AisStationKind;
+  name: string;
+  lat: number;
+  lon: number;
+  /** AtoN type code (1-31), 0 for base stations */
+  aidType: number;
+  /** Virtual AtoN (broadcast position only, no physical mark) */
+  virtual: boolean;
+  /** Floating AtoN reported off its charted position */
+  offPosition: boolean;
+  /** Local receive time (ms) */
+  lastUpdate: number;
+}
+
+export interface AisStationParams {
+  showAtoN: boolean;
+  showBaseStations: boolean;
+  /** Marker size in pixels */
+  markerSize: number;
+}
+
+export const aisStationParams: AisStationParams = {
+  showAtoN: true,
+  showBaseStations: true,
+  markerSize: 10,
+};
+
+/** Stations not heard from for this long are removed (AtoN report every 3 min) */
+const STATION_STALE_MS = 15 * 60 * 1000;
+
+const PRUNE_INTERVAL_MS = 60 * 1000;
+
+// =============================================================================
+// STATE
+// =============================================================================
+
+const stations = new Map<string, AisStation>();
+let dirty = false;
+let lastPruneTime = 0;
+
+/** Group rotated with the Earth; holds one Points object per station kind */
+export const aisStationGroup = new THREE.Group();
+aisStationGroup.renderOrder = 5;
+
+const atonPoints = createPoints(drawAtoNIcon);
+const basePoints = createPoints(drawBaseStationIcon);
+aisStationGroup.add(atonPoints, basePoints);
+
+// =============================================================================
+// ICONS
+// =============================================================================
+
+/** Diamond with a center dot, the chart symbol for a navigation mark */
+function drawAtoNIcon(ctx: CanvasRenderingContext2D): void {
+  ctx.strokeStyle = "rgba(250, 204, 21, 0.95)";
+  ctx.lineWidth = 3;
+  ctx.beginPath();
+  ctx.moveTo(16, 3);
+  ctx.lineTo(29, 16);
+  ctx.lineTo(16, 29);
+  ctx.lineTo(3, 16);
+  ctx.closePath();
+  ctx.stroke();
+
+  ctx.fillStyle = "rgba(250, 204, 21, 0.95)";
+  ctx.beginPath();
+  ctx.arc(16, 16, 4, 0, Math.PI * 2);
+  ctx.fill();
+}
+
+/** Square with a mast, for shore base stations */
+function drawBaseStationIcon(ctx: CanvasRenderingContext2D): void {
+  ctx.fillStyle = "rgba(236, 72, 153, 0.9)";
+  ctx.fillRect(6, 14, 20, 14);
+  ctx.strokeStyle = "rgba(255, 255, 255, 0.9)";
+  ctx.lineWidth = 2;
+  ctx.strokeRect(6, 14, 20, 14);
+
+  ctx.beginPath();
+  ctx.moveTo(16, 14);
+  ctx.lineTo(16, 3);
+  ctx.moveTo(10, 6);
+  ctx.lineTo(22, 6);
+  ctx.stroke();
+}
+
+function createPoints(drawIcon: (ctx: CanvasRenderingContext2D) => void): THREE.Points {
+  const canvas = document.createElement("canvas");
+  canvas.width = 32;
+  canvas.height = 32;
+  drawIcon(canvas.getContext("2d")!);
+
+  const material = new THREE.PointsMaterial({
+    map: new THREE.CanvasTexture(canvas),
+    size: aisStationParams.markerSize,
+    sizeAttenuation: false,
+    transparent: true,
+    depthWrite: false,
+  });
+
+  const points = new THREE.Points(new THREE.BufferGeometry(), material);
+  points.frustumCulled = false;
+  points.renderOrder = 5;
+  return points;
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Add the station layer to the scene.
+ */
+export function initAisStations(scene: THREE.Scene): void {
+  scene.add(aisStationGroup);
+  applyAisStationVisibility();
+}
+
+/**
+ * Insert or update stations (keyed by MMSI).
+ */
+export function updateAisStations(updates: AisStation[]): void {
+  for (const station of updates) {
+    stations.set(station.mmsi, station);
+  }
+  if (updates.length > 0) dirty = true;
+}
+
+export function clearAisStations(): void {
+  stations.clear();
+  dirty = true;
+}
+
+export function getAisStations(): ReadonlyMap<string, AisStation> {
+  return stations;
+}
+
+export function getAisStationCount(kind: AisStationKind): number {
+  let count = 0;
+  for (const station of stations.values()) {
+    if (station.kind === kind) count++;
+  }
+  return count;
+}
+
+export function applyAisStationVisibility(): void {
+  atonPoints.visible = aisStationParams.showAtoN;
+  basePoints.visible = aisStationParams.showBaseStations;
+  (atonPoints.material as THREE.PointsMaterial).size = aisStationParams.markerSize;
+  (basePoints.material as THREE.PointsMaterial).size = aisStationParams.markerSize;
+}
+
+/**
+ * Per-frame update: follow Earth rotation, prune silent stations and rebuild
+ * the point buffers when the station set changed.
+ */
+export function updateAisStationLayer(earthRotY: number): void {
+  aisStationGroup.rotation.y = earthRotY;
+
+  const now = Date.now();
+  if (now - lastPruneTime > PRUNE_INTERVAL_MS) {
+    lastPruneTime = now;
+    for (const [mmsi, station] of stations) {
+      if (now - station.lastUpdate > STATION_STALE_MS) {
+        stations.delete(mmsi);
+        dirty = true;
+      }
+    }
+  }
+
+  if (!dirty) return;
+  dirty = false;
+
+  const atonPositions: THREE.Vector3[] = [];
+  const basePositions: THREE.Vector3[] = [];
+  for (const station of stations.values()) {
+    const position = latLonToPosition(station.lat, station.lon, SHIP_ALTITUDE);
+    (station.kind === "aton" ? atonPositions : basePositions).push(position);
+  }
+
+  replaceGeometryPoints(atonPoints, atonPositions);
+  replaceGeometryPoints(basePoints, basePositions);
+}
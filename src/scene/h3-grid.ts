@@ -22,6 +22,7 @@ import {
 import { state } from "../state";
 import type { ShipState, AircraftState, SatelliteState, UnitCountParams } from "../types";
 import { isSatelliteVisibleByFilters } from "../utils/satellite-visibility";
+import { unitMatchesFilter } from "../filters";
 
 // =============================================================================
 // PARAMETERS
@@ -484,23 +485,35 @@ function requestH3Update(): void {
   const satelliteSimState = deps.getSatelliteSimState();
   const unitCountParams = deps.getUnitCountParams();
 
-  const ships = new Float32Array(shipSimState.length * 2);
+  const shipBuffer = new Float32Array(shipSimState.length * 2);
+  let visibleShipCount = 0;
   for (let i = 0; i < shipSimState.length; i++) {
-    ships[i * 2] = shipSimState[i].lat;
-    ships[i * 2 + 1] = shipSimState[i].lon;
+    const ship = shipSimState[i];
+    if (!unitMatchesFilter("ship", ship)) continue;
+
+    shipBuffer[visibleShipCount * 2] = ship.lat;
+    shipBuffer[visibleShipCount * 2 + 1] = ship.lon;
+    visibleShipCount++;
   }
+  const ships = shipBuffer.subarray(0, visibleShipCount * 2);
 
-  const aircraft = new Float32Array(aircraftSimState.length * 2);
+  const aircraftBuffer = new Float32Array(aircraftSimState.length * 2);
+  let visibleAircraftCount = 0;
   for (let i = 0; i < aircraftSimState.length; i++) {
-    aircraft[i * 2] = aircraftSimState[i].lat;
-    aircraft[i * 2 + 1] = aircraftSimState[i].lon;
+    const ac = aircraftSimState[i];
+    if (!unitMatchesFilter("aircraft", ac)) continue;
+
+    aircraftBuffer[visibleAircraftCount * 2] = ac.lat;
+    aircraftBuffer[visibleAircraftCount * 2 + 1] = ac.lon;
+    visibleAircraftCount++;
   }
+  const aircraft = aircraftBuffer.subarray(0, visibleAircraftCount * 2);
 
   const satellites = new Float32Array(satelliteSimState.length * 2);
   let visibleSatelliteCount = 0;
   for (let i = 0; i < satelliteSimState.length; i++) {
     const satellite = satelliteSimState[i];
-    if (!isSatelliteVisibleByFilters(satellite, unitCountParams)) continue;
+    if (!isSatelliteVisibleByFilters(satellite, unitCountParams) || !unitMatchesFilter("satellite", satellite)) continue;
 
     satellites[visibleSatelliteCount * 2] = satellite.lat;
     satellites[visibleSatelliteCount * 2 + 1] = satellite.lon;
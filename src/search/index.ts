@@ -0,0 +1,160 @@
+/**
+ * Unit Search
+ *
+ * Fuzzy full-text search over ships (name, MMSI), aircraft (callsign, ICAO type),
+ * satellites (name) and airports (IATA code, name). Searches the live state
+ * arrays directly so results always reflect the current feeds.
+ */
+
+import { state, aircraftSelectionId } from "../state";
+import { AIRPORTS } from "../data/airports";
+import type { UnitType } from "../types";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface SearchResult {
+  type: UnitType;
+  /** Index into the state array (or AIRPORTS) at search time */
+  index: number;
+  /** Stable ID (MMSI, aircraftSelectionId(), satellite name, IATA code) */
+  id: string;
+  /** Primary label (name, callsign, code) */
+  label: string;
+  /** Secondary text (MMSI, type code, airport name) */
+  detail: string;
+  lat: number;
+  lon: number;
+  score: number;
+}
+
+export interface SearchOptions {
+  /** Maximum results returned */
+  limit?: number;
+  /** Restrict to these unit types (default: all) */
+  types?: UnitType[];
+}
+
+/** Queries shorter than this return no results */
+export const MIN_QUERY_LENGTH = 2;
+
+const DEFAULT_LIMIT = 20;
+
+// =============================================================================
+// FUZZY MATCHING
+// =============================================================================
+
+/**
+ * Score how well a candidate matches a (lowercased) query.
+ * Exact > prefix > word prefix > substring > in-order subsequence; 0 = no match.
+ */
+export function fuzzyScore(query: string, candidate: string | undefined): number {
+  if (!candidate) return 0;
+  const text = candidate.toLowerCase();
+
+  if (text === query) return 1000;
+  if (text.startsWith(query)) return 800 - Math.min(text.length - query.length, 100);
+
+  const position = text.indexOf(query);
+  if (position > 0) {
+    const wordStart = text[position - 1] === " " || text[position - 1] === "-";
+    return (wordStart ? 600 : 400) - Math.min(position, 100);
+  }
+
+  // Subsequence: every query character appears in order; reward tight spans
+  let queryIndex = 0;
+  let firstMatch = -1;
+  let lastMatch = -1;
+  for (let i = 0; i < text.length && queryIndex < query.length; i++) {
+    if (text[i] === query[queryIndex]) {
+      if (firstMatch < 0) firstMatch = i;
+      lastMatch = i;
+      queryIndex++;
+    }
+  }
+  if (queryIndex < query.length) return 0;
+
+  const span = lastMatch - firstMatch + 1;
+  return Math.max(1, 200 - (span - query.length) * 10 - firstMatch);
+}
+
+function bestScore(query: string, ...fields: Array<string | undefined>): number {
+  let best = 0;
+  for (const field of fields) {
+    const score = fuzzyScore(query, field);
+    if (score > best) best = score;
+  }
+  return best;
+}
+
+// =============================================================================
+// SEARCH
+// =============================================================================
+
+/**
+ * Search all unit types for a query. Results are sorted best-first.
+ */
+export function searchUnits(rawQuery: string, options: SearchOptions = {}): SearchResult[] {
+  const query = rawQuery.trim().toLowerCase();
+  if (query.length < MIN_QUERY_LENGTH) return [];
+
+  const limit = options.limit ?? DEFAULT_LIMIT;
+  const types = options.types;
+  const wants = (type: UnitType) => !types || types.includes(type);
+  const results: SearchResult[] = [];
+
+  // Keep only the best `limit` results without sorting the whole match set
+  let threshold = 0;
+  const consider = (result: SearchResult) => {
+    if (result.score <= threshold) return;
+    results.push(result);
+    if (results.length > limit * 4) {
+      results.sort((a, b) => b.score - a.score);
+      results.length = limit;
+      threshold = results[limit - 1].score;
+    }
+  };
+
+  if (wants("ship")) {
+    for (let i = 0; i < state.ships.length; i++) {
+      const ship = state.ships[i];
+      const score = bestScore(query, ship.name, ship.mmsi);
+      if (score === 0) continue;
+      consider({ type: "ship", index: i, id: ship.mmsi, label: ship.name || ship.mmsi, detail: `MMSI ${ship.mmsi}`, lat: ship.lat, lon: ship.lon, score });
+    }
+  }
+
+  if (wants("aircraft")) {
+    for (let i = 0; i < state.aircraft.length; i++) {
+      const ac = state.aircraft[i];
+      const score = bestScore(query, ac.callsign, ac.icaoTypeCode);
+      if (score === 0) continue;
+      consider({ type: "aircraft", index: i, id: aircraftSelectionId(ac), label: ac.callsign, detail: ac.icaoTypeCode || ac.originCountry || "", lat: ac.lat, lon: ac.lon, score });
+    }
+  }
+
+  if (wants("satellite")) {
+    for (let i = 0; i < state.satellites.length; i++) {
+      const sat = state.satellites[i];
+      const score = fuzzyScore(query, sat.name);
+      if (score === 0) continue;
+      consider({ type: "satellite", index: i, id: sat.name, label: sat.name, detail: sat.orbitTypeLabel, lat: sat.lat, lon: sat.lon, score });
+    }
+  }
+
+  if (wants("airport")) {
+    for (let i = 0; i < AIRPORTS.length; i++) {
+      const airport = AIRPORTS[i];
+      // Airport codes are short - favour them slightly over partial name hits
+      const codeScore = fuzzyScore(query, airport.iata);
+      const score = Math.max(codeScore > 0 ? codeScore + 50 : 0, fuzzyScore(query, airport.name));
+      if (score === 0) continue;
+      consider({ type: "airport", index: i, id: airport.iata, label: airport.iata, detail: airport.name, lat: airport.lat, lon: airport.lon, score });
+    }
+  }
+
+  results.sort((a, b) => b.score - a.score);
+  if (results.length > limit) results.length = limit;
+  return results;
+}
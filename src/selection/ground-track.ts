@@ -0,0 +1,257 @@
+/**
+ * Satellite Ground Track & Footprint
+ *
+ * For the selected satellite:
+ * - Ground track: the SGP4-propagated sub-satellite path for past and upcoming
+ *   orbits (live satellites only; simulated ones keep the idealized orbit line)
+ * - Footprint: the surface area seen by a nadir-pointing sensor of a given
+ *   half-angle, capped at the satellite's horizon
+ *
+ * Both are built in earth-fixed coordinates and rotated with the Earth.
+ */
+
+import * as THREE from "three";
+import {
+  EARTH_RADIUS,
+  GRID_ALTITUDE,
+  GROUND_TRACK_POINTS_PER_ORBIT,
+  FOOTPRINT_SEGMENTS,
+} from "../constants";
+import { latLonToPosition } from "../utils/coordinates";
+import { replaceGeometryPoints } from "../utils/geometry";
+import { satelliteFeedParams } from "../feeds/shared";
+import { computeSatelliteGroundTrack } from "../feeds/satellite-feed-controller";
+import { getTimelineTime } from "../simulation/timeline";
+import type { GroundTrackPoint } from "../utils/pass-prediction";
+import type { SatelliteState } from "../types";
+
+// =============================================================================
+// PARAMETERS
+// =============================================================================
+
+export interface GroundTrackParams {
+  showGroundTrack: boolean;
+  /** Orbits drawn behind the satellite */
+  pastOrbits: number;
+  /** Orbits drawn ahead of the satellite */
+  futureOrbits: number;
+  showFootprint: boolean;
+  /** Sensor half-angle from nadir (degrees); 90 shows the full horizon footprint */
+  footprintHalfAngle: number;
+  /** Footprint radius along the surface (km), for the GUI */
+  footprintRadiusKm: number;
+}
+
+export const groundTrackParams: GroundTrackParams = {
+  showGroundTrack: true,
+  pastOrbits: 1,
+  futureOrbits: 2,
+  showFootprint: true,
+  footprintHalfAngle: 90,
+  footprintRadiusKm: 0,
+};
+
+/** Re-propagate the track once the timeline has moved this far from the last request */
+const TRACK_REFRESH_MS = 60 * 1000;
+
+const TRACK_ALTITUDE = GRID_ALTITUDE * 2;
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_SCENE_UNIT = EARTH_RADIUS_KM / EARTH_RADIUS;
+const DEG_TO_RAD = Math.PI / 180;
+
+// =============================================================================
+// MESHES
+// =============================================================================
+
+/** Parent for track and footprint; rotated with the Earth */
+export const groundTrackGroup = new THREE.Group();
+
+const pastTrackLine = new THREE.Line(
+  new THREE.BufferGeometry(),
+  new THREE.LineBasicMaterial({
+    color: 0xaa88ff,
+    transparent: true,
+    opacity: 0.3,
+    depthWrite: false,
+  })
+);
+pastTrackLine.visible = false;
+pastTrackLine.renderOrder = 5;
+
+const futureTrackLine = new THREE.Line(
+  new THREE.BufferGeometry(),
+  new THREE.LineBasicMaterial({
+    color: 0xaa88ff,
+    transparent: true,
+    opacity: 0.8,
+    depthWrite: false,
+  })
+);
+futureTrackLine.visible = false;
+futureTrackLine.renderOrder = 5;
+
+const footprintGeometry = new THREE.BufferGeometry();
+const footprintPositions = new Float32Array(FOOTPRINT_SEGMENTS * 3);
+footprintGeometry.setAttribute("position", new THREE.BufferAttribute(footprintPositions, 3));
+
+const footprintLine = new THREE.LineLoop(
+  footprintGeometry,
+  new THREE.LineBasicMaterial({
+    color: 0xd8ccff,
+    transparent: true,
+    opacity: 0.7,
+    depthWrite: false,
+  })
+);
+footprintLine.visible = false;
+footprintLine.renderOrder = 5;
+footprintLine.frustumCulled = false;
+
+groundTrackGroup.add(pastTrackLine, futureTrackLine, footprintLine);
+
+// =============================================================================
+// STATE
+// =============================================================================
+
+/** Identifies the last track request (satellite + orbit counts) */
+let trackKey = "";
+let trackRequestTime = 0;
+let trackGeneration = 0;
+
+// =============================================================================
+// GROUND TRACK
+// =============================================================================
+
+/**
+ * Show the propagated ground track for a live satellite.
+ * Returns false when no true track applies (simulated satellite or disabled),
+ * in which case the caller falls back to the idealized orbit line.
+ */
+export function updateGroundTrack(sat: SatelliteState | null): boolean {
+  if (!sat || !sat.satnum || satelliteFeedParams.mode !== "live") {
+    hideGroundTrack();
+    return false;
+  }
+  if (!groundTrackParams.showGroundTrack) {
+    hideGroundTrack();
+    return true;
+  }
+
+  const now = getTimelineTime();
+  const key = `${sat.satnum}:${groundTrackParams.pastOrbits}:${groundTrackParams.futureOrbits}`;
+  if (key !== trackKey || Math.abs(now - trackRequestTime) > TRACK_REFRESH_MS) {
+    if (key !== trackKey) {
+      pastTrackLine.visible = false;
+      futureTrackLine.visible = false;
+    }
+    requestTrack(sat, key, now);
+  }
+  return true;
+}
+
+function requestTrack(sat: SatelliteState, key: string, now: number): void {
+  trackKey = key;
+  trackRequestTime = now;
+  const generation = ++trackGeneration;
+
+  const periodMs = sat.orbitalPeriod * 60 * 1000;
+  const stepMs = periodMs / GROUND_TRACK_POINTS_PER_ORBIT;
+  const start = now - groundTrackParams.pastOrbits * periodMs;
+  const end = now + groundTrackParams.futureOrbits * periodMs;
+
+  computeSatelliteGroundTrack(sat.satnum!, start, end, stepMs).then((points) => {
+    if (generation !== trackGeneration) return;
+    setTrackLines(points, now);
+  });
+}
+
+/**
+ * Split the track at the request time so the flown part is drawn dimmer.
+ */
+function setTrackLines(points: GroundTrackPoint[], now: number): void {
+  const split = points.findIndex((point) => point.time > now);
+  const pivot = split < 0 ? points.length : split;
+
+  // Both halves share the pivot sample so the line has no gap
+  const past = points.slice(0, Math.min(points.length, pivot + 1));
+  const future = points.slice(Math.max(0, pivot - 1));
+
+  replaceLine(pastTrackLine, past);
+  replaceLine(futureTrackLine, future);
+}
+
+function replaceLine(line: THREE.Line, points: GroundTrackPoint[]): void {
+  replaceGeometryPoints(line, points.map((point) => latLonToPosition(point.lat, point.lon, TRACK_ALTITUDE)));
+  line.visible = points.length > 1;
+}
+
+export function hideGroundTrack(): void {
+  trackKey = "";
+  trackGeneration++;
+  pastTrackLine.visible = false;
+  futureTrackLine.visible = false;
+}
+
+// =============================================================================
+// FOOTPRINT
+// =============================================================================
+
+/**
+ * Earth-central angle (radians) from the sub-satellite point to the edge of a
+ * nadir sensor's footprint. Wide sensors are limited by the horizon.
+ */
+export function footprintAngle(altitudeKm: number, halfAngleDeg: number): number {
+  // Sine of the Earth's angular radius as seen from the satellite
+  const rho = EARTH_RADIUS_KM / (EARTH_RADIUS_KM + altitudeKm);
+  const eta = Math.min(halfAngleDeg, 90) * DEG_TO_RAD;
+
+  const sinEta = Math.sin(eta);
+  if (sinEta >= rho) return Math.acos(rho);
+
+  // Elevation of the footprint edge as seen from the ground
+  const elevation = Math.acos(sinEta / rho);
+  return Math.PI / 2 - eta - elevation;
+}
+
+/**
+ * Redraw the footprint circle around the satellite's current position.
+ */
+export function updateFootprint(sat: SatelliteState | null): void {
+  if (!sat || !groundTrackParams.showFootprint) {
+    footprintLine.visible = false;
+    return;
+  }
+
+  const altitudeKm = sat.altitude * KM_PER_SCENE_UNIT;
+  const angular = footprintAngle(altitudeKm, groundTrackParams.footprintHalfAngle);
+  groundTrackParams.footprintRadiusKm = Math.round(angular * EARTH_RADIUS_KM);
+
+  // Destination-point formula around the sub-satellite point
+  const lat1 = sat.lat * DEG_TO_RAD;
+  const lon1 = sat.lon * DEG_TO_RAD;
+  const sinLat1 = Math.sin(lat1);
+  const cosLat1 = Math.cos(lat1);
+  const sinAng = Math.sin(angular);
+  const cosAng = Math.cos(angular);
+
+  const radius = EARTH_RADIUS + TRACK_ALTITUDE;
+  for (let i = 0; i < FOOTPRINT_SEGMENTS; i++) {
+    const bearing = (i / FOOTPRINT_SEGMENTS) * Math.PI * 2;
+    const lat2 = Math.asin(sinLat1 * cosAng + cosLat1 * sinAng * Math.cos(bearing));
+    const lon2 = lon1 + Math.atan2(Math.sin(bearing) * sinAng * cosLat1, cosAng - sinLat1 * Math.sin(lat2));
+
+    // Same mapping as latLonToPosition, written in place to avoid allocations
+    const phi = Math.PI / 2 - lat2;
+    const theta = lon2 + Math.PI;
+    footprintPositions[i * 3] = -radius * Math.sin(phi) * Math.cos(theta);
+    footprintPositions[i * 3 + 1] = radius * Math.cos(phi);
+    footprintPositions[i * 3 + 2] = radius * Math.sin(phi) * Math.sin(theta);
+  }
+
+  footprintGeometry.attributes.position.needsUpdate = true;
+  footprintLine.visible = true;
+}
+
+export function hideFootprint(): void {
+  footprintLine.visible = false;
+}
@@ -8,14 +8,21 @@ import {
   AIRCRAFT_ALTITUDE,
   DEG_TO_RAD,
 } from "../constants";
-import type { SelectedUnit, UnitType, SatelliteState, DroneState, ShipState, AircraftState } from "../types";
-import { state } from '../state';
+import type { SelectedUnit, UnitType, SatelliteState, DroneState, DroneTargetKind, ShipState, AircraftState } from "../types";
+import { state, aircraftSelectionId } from '../state';
 import { AIRPORTS } from "../data/airports";
 import { getCountryFlag } from "../utils/country-flags";
 import { MID_TO_COUNTRY } from "../data/mmsi-mid";
 import { aircraftFeedParams, satelliteFeedParams, aisFeedParams } from "../feeds/shared";
 import { unitCountParams } from "../simulation/demo-data";
 import { isSatelliteVisibleByFilters } from "../utils/satellite-visibility";
+import { isDrawingZone } from "../geofence/visuals";
+import { isPickingObserver } from "../passes/visuals";
+import { FLIGHT_PHASE_LABELS } from "../utils/flight-phase";
+import { positionToLatLon } from "../utils/coordinates";
+import { distanceKm, type LatLon } from "../geofence";
+import { pickOverlayFeature, getOverlayLayer, type OverlayFeature } from "../overlays";
+import { unitMatchesFilter } from "../filters";
 
 // Selection colors for each unit type (matches unit icon colors)
 export const SELECTION_COLORS = {
@@ -26,6 +33,13 @@ export const SELECTION_COLORS = {
   airport: 0xffffff,   // White
 };
 
+// Prefix for a live drone's target coordinates in the video overlay
+const DRONE_TARGET_LABELS: Record<DroneTargetKind, string> = {
+  sensor: "SPI",
+  mission: "TGT",
+  operator: "OPR",
+};
+
 // =============================================================================
 // HELPER FUNCTIONS
 // =============================================================================
@@ -223,6 +237,10 @@ let unitDest: HTMLElement | null = null;
 let unitRow8: HTMLElement | null = null;
 let unitLabel8: HTMLElement | null = null;
 let unitSize: HTMLElement | null = null;
+let unitSourcesRow: HTMLElement | null = null;
+let unitSources: HTMLElement | null = null;
+let unitInfoBody: HTMLElement | null = null;
+let featureInfoBody: HTMLElement | null = null;
 let droneFeedPanel: HTMLElement | null = null;
 let droneFeedCoords: HTMLElement | null = null;
 let droneVideo: HTMLVideoElement | null = null;
@@ -284,6 +302,10 @@ function getDomElements() {
     unitRow8 = document.getElementById("unit-row-8");
     unitLabel8 = document.getElementById("unit-label-8");
     unitSize = document.getElementById("unit-size");
+    unitSourcesRow = document.getElementById("unit-row-sources");
+    unitSources = document.getElementById("unit-sources");
+    unitInfoBody = document.getElementById("unit-info-body");
+    featureInfoBody = document.getElementById("feature-info-body");
     droneFeedPanel = document.getElementById("drone-feed");
     droneFeedCoords = document.getElementById("drone-feed-coords");
     droneVideo = document.getElementById("drone-video") as HTMLVideoElement;
@@ -300,7 +322,7 @@ export function deselectUnit() {
     if (droneVideo) droneVideo.pause();
 }
 
-function selectUnit(type: UnitType, index: number) {
+export function selectUnit(type: UnitType, index: number) {
     // Reset staleness tracking for new selection
     lastDisplayedPositionKey = "";
     lastPositionChangeTime = Date.now();
@@ -337,17 +359,18 @@ function selectUnit(type: UnitType, index: number) {
 
     // Get unique ID for stable selection across array rebuilds
     let id: string | undefined;
-    if (type === "aircraft" && unitData.callsign) {
-      id = unitData.callsign;
+    if (type === "aircraft" && (unitData.icao24 || unitData.callsign)) {
+      id = aircraftSelectionId(unitData);
     } else if (type === "ship" && unitData.mmsi) {
       id = unitData.mmsi;
-    } else if (type === "satellite" && unitData.name) {
+    } else if ((type === "satellite" || type === "drone") && unitData.name) {
       id = unitData.name;
     }
 
     state.selectedUnit = { type, index, id, data: unitData };
 
     if (!unitInfoPanel) getDomElements();
+    showFeatureBody(false);
 
     // Header logic
     if (type === "aircraft" && unitData.callsign && unitTypeEl && unitIdEl) {
@@ -362,6 +385,10 @@ function selectUnit(type: UnitType, index: number) {
       unitTypeEl.textContent = "SATELLITE";
       unitTypeEl.className = `unit-info-type ${typeClass}`;
       unitIdEl.textContent = unitData.name;
+    } else if (type === "drone" && unitData.name && unitTypeEl && unitIdEl) {
+      unitTypeEl.textContent = typeLabel;
+      unitTypeEl.className = `unit-info-type ${typeClass}`;
+      unitIdEl.textContent = unitData.name;
     } else if (type === "airport" && unitTypeEl && unitIdEl) {
       unitTypeEl.textContent = typeLabel;
       unitTypeEl.className = `unit-info-type ${typeClass}`;
@@ -393,6 +420,80 @@ function selectUnit(type: UnitType, index: number) {
     updateSelectedUnitInfo();
 }
 
+/**
+ * Show an imported overlay feature's properties in the unit info panel,
+ * replacing any unit selection.
+ */
+export function showFeatureInfo(feature: OverlayFeature) {
+    deselectUnit();
+    if (!unitInfoPanel) getDomElements();
+    if (!featureInfoBody) return;
+
+    if (unitTypeEl) {
+      unitTypeEl.textContent = getOverlayLayer(feature.layerId)?.name.toUpperCase() ?? "OVERLAY";
+      unitTypeEl.className = "unit-info-type overlay";
+    }
+    if (unitIdEl) unitIdEl.textContent = feature.name;
+    if (unitStalenessEl) unitStalenessEl.textContent = "";
+    setUnitHeaderLink(null);
+
+    featureInfoBody.replaceChildren();
+    const entries = Object.entries(feature.properties).filter(([key, value]) => key !== "name" && value !== null && value !== "");
+    if (entries.length === 0) entries.push(["—", "no properties"]);
+    for (const [key, value] of entries) {
+      const row = document.createElement("div");
+      row.className = "unit-info-row";
+      const label = document.createElement("span");
+      label.className = "unit-info-label";
+      label.textContent = key.toUpperCase();
+      const text = document.createElement("span");
+      text.className = "unit-info-value";
+      text.textContent = String(value);
+      row.append(label, text);
+      featureInfoBody.appendChild(row);
+    }
+
+    showFeatureBody(true);
+    unitInfoPanel?.classList.remove("hidden");
+}
+
+function showFeatureBody(show: boolean) {
+    unitInfoBody?.classList.toggle("hidden", show);
+    featureInfoBody?.classList.toggle("hidden", !show);
+}
+
+/**
+ * Current position of the selected unit (for the follow camera).
+ * Altitude is in scene units above the surface.
+ */
+export function getSelectedUnitPosition(): { lat: number; lon: number; altitude: number; heading?: number } | null {
+    const selected = state.selectedUnit;
+    if (!selected) return null;
+
+    switch (selected.type) {
+      case "ship": {
+        const ship = state.ships[selected.index];
+        return ship ? { lat: ship.lat, lon: ship.lon, altitude: SHIP_ALTITUDE, heading: ship.heading } : null;
+      }
+      case "aircraft": {
+        const ac = state.aircraft[selected.index];
+        return ac ? { lat: ac.lat, lon: ac.lon, altitude: AIRCRAFT_ALTITUDE, heading: ac.heading } : null;
+      }
+      case "satellite": {
+        const sat = state.satellites[selected.index];
+        return sat ? { lat: sat.lat, lon: sat.lon, altitude: sat.altitude, heading: sat.heading } : null;
+      }
+      case "drone": {
+        const drone = state.drones[selected.index];
+        return drone ? { lat: drone.lat, lon: drone.lon, altitude: drone.altitude, heading: drone.heading } : null;
+      }
+      case "airport": {
+        const airport = AIRPORTS[selected.index];
+        return airport ? { lat: airport.lat, lon: airport.lon, altitude: 0 } : null;
+      }
+    }
+}
+
 export function updateSelectedUnitInfo() {
     if (!state.selectedUnit) return;
   
@@ -521,10 +622,11 @@ export function updateSelectedUnitInfo() {
           unitIdEl.textContent = unitData.callsign;
           setUnitHeaderLink(getAircraftExternalLink(unitData));
       }
-      if (typeDisplay) {
+      const phaseLabel = unitData.flightPhase ? FLIGHT_PHASE_LABELS[unitData.flightPhase] : "";
+      if (typeDisplay || phaseLabel) {
         if (unitRow6) unitRow6.style.display = "";
-        safeSetText(unitLabel6, "TYPE");
-        safeSetText(unitExtra, typeDisplay);
+        safeSetText(unitLabel6, typeDisplay ? "TYPE" : "PHASE");
+        safeSetText(unitExtra, typeDisplay && phaseLabel ? `${typeDisplay} · ${phaseLabel}` : typeDisplay || phaseLabel);
       } else {
         if (unitRow6) unitRow6.style.display = "none";
       }
@@ -563,14 +665,14 @@ export function updateSelectedUnitInfo() {
         if (unitStalenessEl) unitStalenessEl.textContent = "";
 
     } else if (type === "drone") {
-        if (unitRow7) unitRow7.style.display = "none";
-        if (unitRow8) unitRow8.style.display = "none";
-
         unitData = state.drones[index];
         if (!unitData) { deselectUnit(); return; }
-        const altFeet = Math.round(unitData.altitude * 6371 / EARTH_RADIUS * 3281);
+        // Live drones report real values; simulated ones derive them from the display height
+        const altFeet = Math.round(unitData.altitudeMeters !== undefined
+          ? unitData.altitudeMeters * 3.281
+          : unitData.altitude * 6371 / EARTH_RADIUS * 3281);
         altitude = `${altFeet.toLocaleString()} ft`;
-        speed = `120 kts`;
+        speed = unitData.groundSpeed !== undefined ? `${Math.round(unitData.groundSpeed)} kts` : `120 kts`;
         
         safeSetText(unitLabel1, "LAT");
         safeSetText(unitLabel2, "LON");
@@ -585,8 +687,41 @@ export function updateSelectedUnitInfo() {
         safeSetText(unitAltEl, altitude);
         setUnitHeaderLink(null);
         
-        if (droneFeedCoords) droneFeedCoords.textContent = `TGT: ${unitData.targetLat.toFixed(4)}° ${unitData.targetLon.toFixed(4)}°`;
-        if (unitRow6) unitRow6.style.display = "none";
+        if (droneFeedCoords) {
+          droneFeedCoords.textContent = Number.isFinite(unitData.targetLat)
+            ? `${DRONE_TARGET_LABELS[unitData.targetKind] ?? "TGT"}: ${unitData.targetLat.toFixed(4)}° ${unitData.targetLon.toFixed(4)}°`
+            : "TGT: —";
+        }
+
+        // Remote ID drones show their UA type, MAVLink vehicles the active mission item
+        if (unitData.uaType && unitRow6) {
+          unitRow6.style.display = "";
+          safeSetText(unitLabel6, "UA TYPE");
+          safeSetText(unitExtra, unitData.uaType);
+        } else if (unitData.missionSeq !== undefined && unitRow6) {
+          unitRow6.style.display = "";
+          safeSetText(unitLabel6, "MISSION");
+          safeSetText(unitExtra, `#${unitData.missionSeq}`);
+        } else if (unitRow6) {
+          unitRow6.style.display = "none";
+        }
+
+        if (unitData.serialNumber && unitRow7 && unitLabel7 && unitDest) {
+          unitRow7.style.display = "";
+          unitLabel7.textContent = "SERIAL";
+          unitDest.textContent = unitData.serialNumber;
+        } else if (unitRow7) {
+          unitRow7.style.display = "none";
+        }
+
+        if (unitData.operatorLat !== undefined && unitRow8 && unitLabel8 && unitSize) {
+          unitRow8.style.display = "";
+          unitLabel8.textContent = "OPERATOR";
+          const operatorPos = `${unitData.operatorLat.toFixed(4)}° ${unitData.operatorLon.toFixed(4)}°`;
+          unitSize.textContent = unitData.operatorId ? `${unitData.operatorId} · ${operatorPos}` : operatorPos;
+        } else if (unitRow8) {
+          unitRow8.style.display = "none";
+        }
         if (unitStalenessEl) unitStalenessEl.textContent = "";
 
     } else if (type === "airport") {
@@ -611,6 +746,14 @@ export function updateSelectedUnitInfo() {
         if (unitRow6) unitRow6.style.display = "none";
         if (unitStalenessEl) unitStalenessEl.textContent = "";
     }
+
+    // Feed sources that reported the unit (set when the layer is merged from runtime sources)
+    if (unitData?.sources?.length && unitSourcesRow && unitSources) {
+      unitSourcesRow.style.display = "";
+      unitSources.textContent = unitData.sources.join(", ");
+    } else if (unitSourcesRow) {
+      unitSourcesRow.style.display = "none";
+    }
 }
 
 function latLonTo3D(lat: number, lon: number, altitude = 0) {
@@ -632,6 +775,7 @@ function projectToScreen(position: THREE.Vector3, camera: THREE.Camera, canvas:
 function onCanvasClick(event: MouseEvent, camera: THREE.Camera, canvas: HTMLCanvasElement, earth: THREE.Object3D, h3Params: any) {
     if ((event.target as HTMLElement).closest(".lil-gui") || (event.target as HTMLElement).closest("#unit-info")) return;
     if (h3Params.enabled) return;
+    if (isDrawingZone() || isPickingObserver()) return;
 
     const rect = canvas.getBoundingClientRect();
     const clickX = event.clientX - rect.left;
@@ -682,23 +826,51 @@ function onCanvasClick(event: MouseEvent, camera: THREE.Camera, canvas: HTMLCanv
             if (unitCountParams.showExtendedDataShips) {
                 if (!unit.name || unit.name === "Unknown" || unit.name.trim() === "" || !unit.destination || unit.destination.trim() === "") return null;
             }
+            if (!unitMatchesFilter("ship", unit)) return null;
             return SHIP_ALTITUDE;
         });
     }
-    if (state.unitCounts.showAircraft) checkUnits(state.aircraft, "aircraft", AIRCRAFT_ALTITUDE);
+    if (state.unitCounts.showAircraft) {
+        checkUnits(state.aircraft, "aircraft", (unit: any) => unitMatchesFilter("aircraft", unit) ? AIRCRAFT_ALTITUDE : null);
+    }
     if (state.unitCounts.showSatellites) {
         checkUnits(state.satellites, "satellite", (unit: any) => {
-            if (!isSatelliteVisibleByFilters(unit, unitCountParams)) return null;
+            if (!isSatelliteVisibleByFilters(unit, unitCountParams) || !unitMatchesFilter("satellite", unit)) return null;
             return unit.altitude;
         });
     }
-    if (state.unitCounts.showDrones) checkUnits(state.drones, "drone", (unit: any) => unit.altitude);
+    if (state.unitCounts.showDrones) {
+        checkUnits(state.drones, "drone", (unit: any) => unitMatchesFilter("drone", unit) ? unit.altitude : null);
+    }
 
     if (closestUnit) {
         selectUnit((closestUnit as any).type, (closestUnit as any).index);
-    } else {
-        deselectUnit();
+        return;
+    }
+
+    // No unit under the click: fall back to imported overlay features
+    const clickPoint = pickGlobeLatLon(clickX, clickY, camera, canvas, earth);
+    if (clickPoint) {
+        const edgePoint = pickGlobeLatLon(clickX + clickRadius, clickY, camera, canvas, earth);
+        const toleranceKm = edgePoint ? distanceKm(clickPoint, edgePoint) : 50;
+        const feature = pickOverlayFeature(clickPoint.lat, clickPoint.lon, toleranceKm);
+        if (feature) {
+            showFeatureInfo(feature);
+            return;
+        }
     }
+    deselectUnit();
+}
+
+/**
+ * Earth-fixed lat/lon under a canvas pixel, or null if it misses the globe.
+ */
+function pickGlobeLatLon(x: number, y: number, camera: THREE.Camera, canvas: HTMLCanvasElement, earth: THREE.Object3D): LatLon | null {
+    const ndc = new THREE.Vector2((x / canvas.clientWidth) * 2 - 1, -(y / canvas.clientHeight) * 2 + 1);
+    const raycaster = new THREE.Raycaster();
+    raycaster.setFromCamera(ndc, camera);
+    const hit = raycaster.ray.intersectSphere(new THREE.Sphere(new THREE.Vector3(0, 0, 0), EARTH_RADIUS), new THREE.Vector3());
+    return hit ? positionToLatLon(earth.worldToLocal(hit)) : null;
 }
 
 export function initSelectionHandling(camera: THREE.Camera, canvas: HTMLCanvasElement, earth: THREE.Object3D, h3Params: any) {
@@ -0,0 +1,95 @@
+/**
+ * Selected Unit Track History
+ *
+ * Draws the recorded track (see history/index.ts) of the selected ship or
+ * aircraft, from displayHours ago up to its current position. Built in
+ * earth-fixed coordinates and rotated with the Earth.
+ */
+
+import * as THREE from "three";
+import { SHIP_ALTITUDE, AIRCRAFT_ALTITUDE } from "../constants";
+import { latLonToPosition } from "../utils/coordinates";
+import { replaceGeometryPoints } from "../utils/geometry";
+import { getTimelineTime } from "../simulation/timeline";
+import { aircraftSelectionId } from "../state";
+import { trackHistoryParams, fetchUnitTrack, type TrackPoint, type TrackUnitType } from "../history";
+import type { ShipState, AircraftState } from "../types";
+
+/** Real time between track re-queries while a unit stays selected (ms) */
+const TRACK_REFRESH_MS = 10 * 1000;
+
+const TRACK_COLORS: Record<TrackUnitType, number> = {
+  ship: 0x2dd4bf,
+  aircraft: 0xfbbf24,
+};
+
+// =============================================================================
+// MESH
+// =============================================================================
+
+export const trackHistoryLine = new THREE.Line(
+  new THREE.BufferGeometry(),
+  new THREE.LineBasicMaterial({
+    color: TRACK_COLORS.ship,
+    transparent: true,
+    opacity: 0.6,
+    depthWrite: false,
+  })
+);
+trackHistoryLine.visible = false;
+trackHistoryLine.renderOrder = 5;
+trackHistoryLine.frustumCulled = false;
+
+// =============================================================================
+// STATE
+// =============================================================================
+
+/** Unit of the last track request ("ship:<mmsi>") */
+let trackKey = "";
+let trackRequestTime = 0;
+let trackGeneration = 0;
+
+/**
+ * Show the recorded track for the selected ship or aircraft.
+ */
+export function updateTrackHistory(type: TrackUnitType, unit: ShipState | AircraftState | null): void {
+  const id = !unit ? "" : type === "ship" ? (unit as ShipState).mmsi : aircraftSelectionId(unit as AircraftState);
+  if (!id || !trackHistoryParams.enabled || !trackHistoryParams.showSelectedTrack) {
+    hideTrackHistory();
+    return;
+  }
+
+  const key = `${type}:${id}`;
+  const now = performance.now();
+  if (key === trackKey && now - trackRequestTime < TRACK_REFRESH_MS) return;
+
+  if (key !== trackKey) trackHistoryLine.visible = false;
+  trackKey = key;
+  trackRequestTime = now;
+  const generation = ++trackGeneration;
+
+  const to = getTimelineTime();
+  const from = to - trackHistoryParams.displayHours * 60 * 60 * 1000;
+  fetchUnitTrack(type, id, from, to).then((points) => {
+    if (generation !== trackGeneration) return;
+    // End the line at the unit itself rather than the last sample
+    points.push({ time: to, lat: unit!.lat, lon: unit!.lon, altitude: 0 });
+    setTrackLine(type, points);
+  }).catch(() => {
+    // Logged by the history store; leave the line hidden until the next refresh
+    if (generation === trackGeneration) trackHistoryLine.visible = false;
+  });
+}
+
+export function hideTrackHistory(): void {
+  trackKey = "";
+  trackGeneration++;
+  trackHistoryLine.visible = false;
+}
+
+function setTrackLine(type: TrackUnitType, points: TrackPoint[]): void {
+  const altitude = type === "ship" ? SHIP_ALTITUDE : AIRCRAFT_ALTITUDE;
+  replaceGeometryPoints(trackHistoryLine, points.map((point) => latLonToPosition(point.lat, point.lon, altitude)));
+  (trackHistoryLine.material as THREE.LineBasicMaterial).color.setHex(TRACK_COLORS[type]);
+  trackHistoryLine.visible = points.length > 1;
+}
@@ -3,7 +3,9 @@
  *
  * Visual feedback for selected units including:
  * - Selection ring (pulsing highlight around selected unit)
- * - Orbit line (for satellites)
+ * - Orbit line (for satellites), or the propagated ground track and
+ *   footprint for live SGP4 satellites (see ground-track.ts)
+ * - Recorded track history (for ships and aircraft, see track-history.ts)
  * - Patrol circle (for drones)
  * - Observation line (from drone to target)
  * - Target marker (ground target indicator)
@@ -21,6 +23,14 @@ import { AIRPORTS } from "../data/airports";
 import { SELECTION_COLORS } from "./index";
 import { state } from "../state";
 import { iconScaleParams } from "../units/attributes";
+import {
+  groundTrackGroup,
+  updateGroundTrack,
+  updateFootprint,
+  hideGroundTrack,
+  hideFootprint,
+} from "./ground-track";
+import { trackHistoryLine, updateTrackHistory, hideTrackHistory } from "./track-history";
 import type { ShipState, AircraftState, SatelliteState, DroneState } from "../types";
 
 // =============================================================================
@@ -68,8 +78,11 @@ patrolCircle.renderOrder = 5;
 // OBSERVATION LINE (Drone to Target)
 // =============================================================================
 
+const TARGET_LOCK_COLOR = 0xff4444; // Red for target lock
+const OPERATOR_LINK_COLOR = 0xfbbf24; // Amber for a Remote ID drone's operator
+
 const observationLineMaterial = new THREE.LineDashedMaterial({
-  color: 0xff4444, // Red for target lock
+  color: TARGET_LOCK_COLOR,
   transparent: true,
   opacity: 0.8,
   dashSize: 0.01,
@@ -95,7 +108,7 @@ targetMarkerGeometry.rotateX(-Math.PI / 2);
 targetMarkerGeometry.rotateZ(Math.PI / 4); // Rotate to diamond orientation
 
 const targetMarkerMaterial = new THREE.MeshBasicMaterial({
-  color: 0xff4444,
+  color: TARGET_LOCK_COLOR,
   transparent: true,
   opacity: 0.9,
   side: THREE.DoubleSide,
@@ -153,32 +166,50 @@ selectionRing.renderOrder = 10; // Render on top
 // ORBIT LINE (Satellite)
 // =============================================================================
 
-const orbitLineMaterial = new THREE.LineBasicMaterial({
-  color: 0xaa88ff, // Violet to match satellite color
-  transparent: true,
-  opacity: 0.6,
-  depthTest: true,
-  depthWrite: false,
-});
-
-const orbitLineGeometry = new THREE.BufferGeometry();
-const orbitLinePositions = new Float32Array(ORBIT_LINE_SEGMENTS * 3);
-orbitLineGeometry.setAttribute('position', new THREE.BufferAttribute(orbitLinePositions, 3));
+/**
+ * Create a (hidden) orbit line for updateOrbitLine to fill in.
+ */
+export function createOrbitLine(color: number, opacity = 0.6): THREE.LineLoop {
+  const material = new THREE.LineBasicMaterial({
+    color,
+    transparent: true,
+    opacity,
+    depthTest: true,
+    depthWrite: false,
+  });
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(ORBIT_LINE_SEGMENTS * 3), 3));
+
+  const line = new THREE.LineLoop(geometry, material);
+  line.visible = false;
+  line.renderOrder = 5;
+  return line;
+}
 
-export const orbitLine = new THREE.LineLoop(orbitLineGeometry, orbitLineMaterial);
-orbitLine.visible = false;
-orbitLine.renderOrder = 5;
+export const orbitLine = createOrbitLine(0xaa88ff); // Violet to match satellite color
 
 // =============================================================================
 // UPDATE FUNCTIONS
 // =============================================================================
 
 /**
- * Update observation line from drone to ground target
+ * Update observation line from drone to ground target (or to its operator)
  */
 export function updateObservationLine(drone: DroneState): void {
   if (!drone || !deps) return;
 
+  // Live drones may have no sensor aim, waypoint or guided target yet
+  if (!Number.isFinite(drone.targetLat) || !Number.isFinite(drone.targetLon)) {
+    observationLine.visible = false;
+    targetMarker.visible = false;
+    return;
+  }
+
+  const color = drone.targetKind === "operator" ? OPERATOR_LINK_COLOR : TARGET_LOCK_COLOR;
+  observationLineMaterial.color.setHex(color);
+  targetMarkerMaterial.color.setHex(color);
+
   const positions = observationLineGeometry.attributes.position.array as Float32Array;
   const earthRotY = deps.getEarthRotationY();
   const cosR = Math.cos(earthRotY);
@@ -241,6 +272,13 @@ export function updatePatrolCircle(drone: DroneState | null): void {
     return;
   }
 
+  // Live drones only have a circle while flying a loiter item
+  if (drone.patrolRadius <= 0) {
+    patrolCircle.visible = false;
+    updateObservationLine(drone);
+    return;
+  }
+
   const positions = patrolCircleGeometry.attributes.position.array as Float32Array;
   const centerLat = drone.patrolCenterLat;
   const centerLon = drone.patrolCenterLon;
@@ -285,15 +323,16 @@ export function updatePatrolCircle(drone: DroneState | null): void {
 }
 
 /**
- * Compute orbital path points for a satellite
+ * Compute orbital path points for a satellite (into the selection orbit line
+ * unless another line from createOrbitLine is given)
  */
-export function updateOrbitLine(sat: SatelliteState | null): void {
+export function updateOrbitLine(sat: SatelliteState | null, line: THREE.LineLoop = orbitLine): void {
   if (!sat) {
-    orbitLine.visible = false;
+    line.visible = false;
     return;
   }
 
-  const positions = orbitLineGeometry.attributes.position.array as Float32Array;
+  const positions = line.geometry.attributes.position.array as Float32Array;
   const inclinationRad = sat.inclination * (Math.PI / 180);
   const radius = EARTH_RADIUS + sat.altitude;
 
@@ -319,8 +358,8 @@ export function updateOrbitLine(sat: SatelliteState | null): void {
     positions[i * 3 + 2] = radius * Math.sin(phi) * Math.sin(theta);
   }
 
-  orbitLineGeometry.attributes.position.needsUpdate = true;
-  orbitLine.visible = true;
+  line.geometry.attributes.position.needsUpdate = true;
+  line.visible = true;
 }
 
 // Reusable objects for updateSelectionRing
@@ -334,6 +373,9 @@ export function updateSelectionRing(): void {
   if (!state.selectedUnit || !deps) {
     selectionRing.visible = false;
     orbitLine.visible = false;
+    hideGroundTrack();
+    hideFootprint();
+    hideTrackHistory();
     patrolCircle.visible = false;
     observationLine.visible = false;
     targetMarker.visible = false;
@@ -415,8 +457,14 @@ export function updateSelectionRing(): void {
 
   // Update type-specific visuals
   if (type === "satellite") {
-    const satData = deps.getSatelliteState(index);
-    updateOrbitLine(satData || null);
+    const satData = deps.getSatelliteState(index) || null;
+    if (updateGroundTrack(satData)) {
+      orbitLine.visible = false;
+    } else {
+      updateOrbitLine(satData);
+    }
+    updateFootprint(satData);
+    hideTrackHistory();
     // Hide drone visuals
     patrolCircle.visible = false;
     observationLine.visible = false;
@@ -427,9 +475,21 @@ export function updateSelectionRing(): void {
     updateObservationLine(droneData || null);
     // Hide satellite visuals
     orbitLine.visible = false;
+    hideGroundTrack();
+    hideFootprint();
+    hideTrackHistory();
   } else {
+    if (type === "ship") {
+      updateTrackHistory("ship", deps.getShipState(index) || null);
+    } else if (type === "aircraft") {
+      updateTrackHistory("aircraft", deps.getAircraftState(index) || null);
+    } else {
+      hideTrackHistory();
+    }
     // Hide both satellite and drone visuals
     orbitLine.visible = false;
+    hideGroundTrack();
+    hideFootprint();
     patrolCircle.visible = false;
     observationLine.visible = false;
     targetMarker.visible = false;
@@ -445,6 +505,8 @@ export function initSelectionVisuals(scene: THREE.Scene): void {
   scene.add(targetMarker);
   scene.add(selectionRing);
   scene.add(orbitLine);
+  scene.add(groundTrackGroup);
+  scene.add(trackHistoryLine);
 }
 
 /**
@@ -453,14 +515,19 @@ export function initSelectionVisuals(scene: THREE.Scene): void {
 export function hideAllSelectionVisuals(): void {
   selectionRing.visible = false;
   orbitLine.visible = false;
+  hideGroundTrack();
+  hideFootprint();
+  hideTrackHistory();
   patrolCircle.visible = false;
   observationLine.visible = false;
   targetMarker.visible = false;
 }
 
 /**
- * Set orbit line Y rotation to match earth
+ * Set orbit line (plus ground track and track history) Y rotation to match earth
  */
 export function setOrbitLineRotation(rotationY: number): void {
   orbitLine.rotation.y = rotationY;
+  groundTrackGroup.rotation.y = rotationY;
+  trackHistoryLine.rotation.y = rotationY;
 }
@@ -13,6 +13,7 @@ uniform vec3 uSunDirection;    // Direction to sun for specular
 uniform float uFresnelPower;   // Fresnel edge intensity
 uniform float uSpecularPower;  // Specular highlight sharpness
 uniform vec3 uGlowColor;       // Edge glow color
+uniform float uInstanceColorMix; // 1 = tint from aColor (color-by-attribute), 0 = uColor
 
 // These uniforms kept for compatibility but simplified
 uniform float uIOR;
@@ -22,6 +23,8 @@ uniform float uReflectivity;
 varying vec3 vNormal;
 varying vec3 vViewDirection;
 varying vec2 vLocalPos;
+varying float vPredicted;
+varying vec3 vInstanceColor;
 
 void main() {
   vec3 normal = normalize(vNormal);
@@ -39,7 +42,7 @@ void main() {
   float specular = pow(NdotH, uSpecularPower);
 
   // Combine
-  vec3 baseColor = uColor;
+  vec3 baseColor = mix(uColor, vInstanceColor, uInstanceColorMix);
   baseColor += uGlowColor * fresnel * 0.5;  // Edge glow
   baseColor += vec3(1.0) * specular;         // Specular highlight
 
@@ -47,5 +50,12 @@ void main() {
   float finalOpacity = uOpacity + fresnel * 0.3 + specular * 0.4;
   finalOpacity = min(1.0, finalOpacity);
 
+  // Dead-reckoned units: washed out and fainter than reported ones
+  if (vPredicted > 0.5) {
+    float luminance = dot(baseColor, vec3(0.299, 0.587, 0.114));
+    baseColor = mix(baseColor, vec3(luminance), 0.6);
+    finalOpacity *= 0.45;
+  }
+
   gl_FragColor = vec4(baseColor, finalOpacity);
 }
@@ -11,6 +11,8 @@ attribute float aLon;       // Longitude in degrees (-180 to 180)
 attribute float aHeading;   // Heading in degrees (0 = North, clockwise)
 attribute float aScale;     // Scale factor
 attribute float aAltitude;  // Altitude above Earth surface (in scene units)
+attribute float aPredicted; // 1 = dead-reckoned position, 0 = reported
+attribute vec3 aColor;      // Color-by-attribute tint (used when uInstanceColorMix > 0)
 
 // Uniforms
 uniform float uEarthRadius;  // Earth sphere radius
@@ -20,12 +22,17 @@ uniform float uBaseAltitude; // Base altitude multiplier
 varying vec3 vNormal;        // Surface normal for lighting
 varying vec3 vViewDirection; // View direction for fresnel
 varying vec2 vLocalPos;      // Local position for gradients
+varying float vPredicted;    // Predicted-position flag
+varying vec3 vInstanceColor; // Per-instance tint
 
 // Constants
 const float PI = 3.141592653589793;
 const float DEG_TO_RAD = PI / 180.0;
 
 void main() {
+  vPredicted = aPredicted;
+  vInstanceColor = aColor;
+
   // Store local position for gradient effects in fragment shader
   vLocalPos = position.xz * 20.0;
 
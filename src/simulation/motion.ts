@@ -4,7 +4,7 @@
 import { state } from '../state';
 import { normalizeAngle, shortestTurnDirection } from '../data/demo';
 import { DRONE_ALTITUDE_MIN, DRONE_ALTITUDE_MAX, EARTH_RADIUS } from '../constants';
-import { aircraftFeedParams } from '../feeds';
+import { aircraftFeedParams, droneFeedParams } from '../feeds';
 
 // Motion parameters - simplified with single speed slider per type
 export const motionParams = {
@@ -150,15 +150,18 @@ function updateUnitMotion(unit, deltaTime) {
   }
 }
 
+/** Timeline seconds accumulated since the last (throttled) motion step */
+let pendingPhysicsDelta = 0;
+
 /**
  * Update all units' motion and refresh the display.
+ * Driven by the global timeline so pause, speed and scrubbing apply to motion.
  * Throttled to reduce CPU load.
+ *
+ * @param simDeltaSeconds - Simulation time elapsed this frame (negative after a rewind)
  */
-export function updateMotionSimulation(currentTime, attributeUpdaters) {
-  const deltaTime = state.lastSimTime === 0 ? 0 : currentTime - state.lastSimTime;
-  state.lastSimTime = currentTime;
-
-  if (deltaTime > 1) return;
+export function updateMotionSimulation(simDeltaSeconds, attributeUpdaters) {
+  pendingPhysicsDelta += simDeltaSeconds;
 
   const now = performance.now();
   const timeSinceLastUpdate = now - state.lastMotionUpdateTime;
@@ -167,9 +170,8 @@ export function updateMotionSimulation(currentTime, attributeUpdaters) {
     return;
   }
 
-  const physicsDelta = motionParams.motionUpdateInterval > 0
-    ? timeSinceLastUpdate / 1000
-    : deltaTime;
+  const physicsDelta = pendingPhysicsDelta;
+  pendingPhysicsDelta = 0;
 
   state.lastMotionUpdateTime = now;
 
@@ -194,9 +196,12 @@ export function updateMotionSimulation(currentTime, attributeUpdaters) {
   }
   */
 
-  const droneSpeedMultiplier = motionParams.droneSpeed;
-  for (let i = 0; i < droneSimState.length; i++) {
-    updateDroneMotion(droneSimState[i], physicsDelta, droneSpeedMultiplier);
+  // Live drones are positioned by their MAVLink telemetry
+  if (droneFeedParams.mode === "simulated") {
+    const droneSpeedMultiplier = motionParams.droneSpeed;
+    for (let i = 0; i < droneSimState.length; i++) {
+      updateDroneMotion(droneSimState[i], physicsDelta, droneSpeedMultiplier);
+    }
   }
 
   // GPU vertex shader will compute position and orientation
@@ -0,0 +1,175 @@
+/**
+ * Global Timeline
+ *
+ * Single simulation clock shared by the sun, unit motion, satellite propagation,
+ * trails and session replay. Wraps the SunParams clock used by getSimulatedDate
+ * so that "Time Speed", pause and scrubbing affect everything consistently.
+ */
+
+import { getSimulatedDate, resetSimulatedTime, type SunParams } from "../utils/solar";
+
+// =============================================================================
+// PARAMETERS
+// =============================================================================
+
+export interface TimelineParams {
+  /** Freeze simulation time */
+  paused: boolean;
+  /** Scrub position relative to wall-clock time (minutes, negative = past) */
+  offsetMinutes: number;
+  /** Formatted simulation time for display */
+  display: string;
+}
+
+export const timelineParams: TimelineParams = {
+  paused: false,
+  offsetMinutes: 0,
+  display: "—",
+};
+
+/** Scrub range of the timeline slider (minutes either side of now) */
+export const TIMELINE_RANGE_MINUTES = 120;
+
+// =============================================================================
+// STATE
+// =============================================================================
+
+let clock: SunParams | null = null;
+
+/** Simulation time advanced during the last frame (ms, negative after a rewind) */
+let frameDeltaMs = 0;
+
+/** Jump applied by seek/step, consumed on the next advance */
+let pendingJumpMs = 0;
+
+const seekListeners = new Set<(timeMs: number, jumpMs: number) => void>();
+
+/**
+ * Attach the timeline to the sun clock. Must be called before advanceTimeline.
+ */
+export function initTimeline(sunParams: SunParams): void {
+  clock = sunParams;
+}
+
+// =============================================================================
+// PER-FRAME UPDATE
+// =============================================================================
+
+/**
+ * Advance simulation time by one frame.
+ *
+ * @param realDeltaMs - Wall-clock time since last frame (already clamped)
+ * @returns The simulated Date for this frame
+ */
+export function advanceTimeline(realDeltaMs: number): Date {
+  if (!clock) return new Date();
+
+  const before = clock.startTime + clock.elapsedSimTime;
+  const simDate = getSimulatedDate(clock, timelineParams.paused ? 0 : realDeltaMs);
+  frameDeltaMs = simDate.getTime() - before + pendingJumpMs;
+  pendingJumpMs = 0;
+
+  timelineParams.offsetMinutes = (simDate.getTime() - Date.now()) / 60000;
+  timelineParams.display = formatTimelineTime(simDate);
+
+  return simDate;
+}
+
+// =============================================================================
+// QUERIES
+// =============================================================================
+
+/** Current simulation time (unix ms) */
+export function getTimelineTime(): number {
+  if (!clock) return Date.now();
+  return clock.startTime + clock.elapsedSimTime;
+}
+
+/** Simulation seconds elapsed during the last frame (includes seeks) */
+export function getTimelineDeltaSeconds(): number {
+  return frameDeltaMs / 1000;
+}
+
+/**
+ * Simulation seconds per real second (0 while paused).
+ * Used by feeds that run on their own interval rather than the render loop.
+ */
+export function getTimelineRate(): number {
+  if (timelineParams.paused) return 0;
+  return clock ? clock.timeMultiplier : 1;
+}
+
+// =============================================================================
+// CONTROLS
+// =============================================================================
+
+/**
+ * Jump to an absolute simulation time.
+ */
+export function seekTimeline(timeMs: number): void {
+  if (!clock) return;
+
+  const jumpMs = timeMs - getTimelineTime();
+  if (jumpMs === 0) return;
+
+  clock.elapsedSimTime += jumpMs;
+  pendingJumpMs += jumpMs;
+
+  for (const listener of seekListeners) {
+    listener(timeMs, jumpMs);
+  }
+}
+
+/**
+ * Jump forward or backward by a relative amount.
+ */
+export function stepTimeline(deltaMs: number): void {
+  seekTimeline(getTimelineTime() + deltaMs);
+}
+
+/**
+ * Scrub to a position relative to wall-clock time (slider handler).
+ */
+export function seekTimelineOffset(offsetMinutes: number): void {
+  seekTimeline(Date.now() + offsetMinutes * 60000);
+}
+
+/**
+ * Return to live wall-clock time.
+ */
+export function resetTimelineToNow(): void {
+  if (!clock) return;
+
+  const jumpMs = Date.now() - getTimelineTime();
+  resetSimulatedTime(clock);
+  pendingJumpMs += jumpMs;
+
+  for (const listener of seekListeners) {
+    listener(getTimelineTime(), jumpMs);
+  }
+}
+
+export function setTimelinePaused(paused: boolean): void {
+  timelineParams.paused = paused;
+}
+
+/**
+ * Register a callback for discontinuous time jumps (seek, step, reset).
+ */
+export function onTimelineSeek(listener: (timeMs: number, jumpMs: number) => void): void {
+  seekListeners.add(listener);
+}
+
+// =============================================================================
+// FORMATTING
+// =============================================================================
+
+/**
+ * Format as "HH:MM:SS UTC" plus the offset from now when scrubbed.
+ */
+function formatTimelineTime(date: Date): string {
+  const time = date.toISOString().slice(11, 19);
+  const offsetMin = Math.round((date.getTime() - Date.now()) / 60000);
+  if (offsetMin === 0) return `${time} UTC`;
+  return `${time} UTC (${offsetMin > 0 ? "+" : ""}${offsetMin}m)`;
+}
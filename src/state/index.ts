@@ -427,6 +427,25 @@ export function getUnitStateArray(
   }
 }
 
+/**
+ * Stable selection ID of an aircraft. Fused tracks can swap a hex fallback
+ * callsign for the real one, so the ICAO24 address wins when a feed has it.
+ */
+export function aircraftSelectionId(aircraft: AircraftState): string {
+  return aircraft.icao24 || aircraft.callsign;
+}
+
+/**
+ * Index of a unit in a state array, starting from a cached index. Feeds
+ * rebuild state arrays, so the cached index is kept only while it still
+ * holds the unit; otherwise the array is searched (-1 if the unit is gone).
+ */
+export function resolveUnitIndex<T>(units: T[], cached: number, matches: (unit: T) => boolean): number {
+  const unit = units[cached];
+  if (unit !== undefined && matches(unit)) return cached;
+  return units.findIndex(matches);
+}
+
 /**
  * Get total unit count across all types.
  */
@@ -5,6 +5,7 @@
  */
 
 import type * as THREE from "three";
+import type { FlightPhase } from "../utils/flight-phase";
 
 // =============================================================================
 // UNIT STATE TYPES
@@ -32,11 +33,19 @@ export interface ShipState extends BaseUnitState {
   destination?: string;
   length?: number;
   width?: number;
+  /** Timestamp when the last report was received locally (unix seconds) */
+  lastUpdate?: number;
+  /** Position is dead-reckoned because reports have gone stale */
+  predicted?: boolean;
+  /** Names of the feed sources that reported this unit (merged feed sources only) */
+  sources?: string[];
 }
 
 /** Aircraft unit state */
 export interface AircraftState extends BaseUnitState {
   callsign: string;
+  /** ICAO 24-bit address, lower-case hex (live feeds only) */
+  icao24?: string;
   altitude: number;
   groundSpeed: number;
   flightLevel: number;
@@ -49,10 +58,16 @@ export interface AircraftState extends BaseUnitState {
   altitudeTrend?: number;
   /** Previous altitude for trend calculation */
   prevAltitude?: number;
+  /** Inferred phase of flight (set by the flight phase tracker) */
+  flightPhase?: FlightPhase;
   /** Timestamp of the last API update (unix seconds) - Source time */
   apiTimestamp?: number;
   /** Timestamp when the update was received locally (unix seconds) */
   lastUpdate?: number;
+  /** Position is dead-reckoned because reports have gone stale */
+  predicted?: boolean;
+  /** Names of the feed sources that reported this unit (merged feed sources only) */
+  sources?: string[];
 }
 
 /** Satellite unit state */
@@ -69,8 +84,14 @@ export interface SatelliteState {
   name: string;
   orbitTypeLabel: string;
   isMilitary: boolean;
+  /** NORAD catalog number (live SGP4 satellites only) */
+  satnum?: string;
+  /** Names of the feed sources that reported this unit (merged feed sources only) */
+  sources?: string[];
 }
 
+export type DroneTargetKind = "sensor" | "mission" | "operator";
+
 /** Drone unit state */
 export interface DroneState {
   lat: number;
@@ -87,6 +108,30 @@ export interface DroneState {
   name: string;
   orbitDirection: number;
   orbitSpeed: number;
+  /** Reported altitude above mean sea level in meters (live drones; `altitude` is the display height) */
+  altitudeMeters?: number;
+  /** Ground speed in knots (live drones) */
+  groundSpeed?: number;
+  /** Attitude in degrees (live drones) */
+  roll?: number;
+  pitch?: number;
+  /** Sequence number of the active mission item (live drones) */
+  missionSeq?: number;
+  /**
+   * What targetLat/targetLon mark on live drones: the camera's ground point,
+   * the mission or guided waypoint, or the Remote ID operator position
+   */
+  targetKind?: DroneTargetKind;
+  /** Remote ID (ASTM F3411) identity and operator */
+  serialNumber?: string;
+  uaType?: string;
+  operatorId?: string;
+  operatorLat?: number;
+  operatorLon?: number;
+  /** Timestamp when the last report was received locally (unix seconds) */
+  lastUpdate?: number;
+  /** Names of the feed sources that reported this unit (merged feed sources only) */
+  sources?: string[];
 }
 
 /** Union type for any unit state */
@@ -99,7 +144,7 @@ export type UnitType = "ship" | "aircraft" | "satellite" | "drone" | "airport";
 export interface SelectedUnit {
   type: UnitType;
   index: number;
-  /** Unique identifier for stable selection (callsign for aircraft, mmsi for ships, etc.) */
+  /** Unique identifier for stable selection (ICAO24 or callsign for aircraft, mmsi for ships, etc.) */
   id?: string;
   data?: any;
 }
@@ -293,7 +338,7 @@ export interface PerfProfiler {
 
 /** Trail history entry for a single unit */
 export interface TrailHistoryEntry {
-  positions: Array<{ lat: number; lon: number }>;
+  positions: Array<{ lat: number; lon: number; t?: number }>;
   headIndex: number;
 }
 
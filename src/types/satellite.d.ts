@@ -24,6 +24,16 @@ declare module 'satellite.js' {
     argpo: number;
     mo: number;
     no: number;
+    /** Apogee altitude (Earth radii) */
+    alta: number;
+    /** Perigee altitude (Earth radii) */
+    altp: number;
+  }
+
+  export interface LookAngles {
+    azimuth: number;   // radians
+    elevation: number; // radians
+    rangeSat: number;  // km
   }
 
   export interface PositionAndVelocity {
@@ -32,9 +42,14 @@ declare module 'satellite.js' {
   }
 
   export function twoline2satrec(line1: string, line2: string): SatRec;
-  export function propagate(satrec: SatRec, date: Date): PositionAndVelocity;
+  /** null when the satellite has decayed or SGP4 fails */
+  export function propagate(satrec: SatRec, date: Date): PositionAndVelocity | null;
   export function gstime(date: Date): number;
   export function eciToGeodetic(eci: Eci, gmst: number): Geodetic;
+  export function eciToEcf(eci: Eci, gmst: number): Eci;
+  export function ecfToLookAngles(observer: Geodetic, ecf: Eci): LookAngles;
+  export function jday(date: Date): number;
+  export function sunPos(jday: number): { rsun: [number, number, number]; rtasc: number; decl: number };
   export function degreesLat(radians: number): number;
   export function degreesLong(radians: number): number;
 }
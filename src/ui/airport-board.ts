@@ -0,0 +1,111 @@
+/**
+ * Airport Board
+ *
+ * Live arrivals/departures for the selected airport (below the unit info
+ * panel), built from inferred flight phases. Clicking a row selects the aircraft.
+ */
+
+import { state, aircraftSelectionId } from "../state";
+import { AIRPORTS } from "../data/airports";
+import { selectUnit } from "../selection/index";
+import { getAirportBoard, type BoardEntry } from "../flight-phase";
+import { FLIGHT_PHASE_LABELS } from "../utils/flight-phase";
+
+/** Real time between board refreshes (ms) */
+const BOARD_REFRESH_MS = 1000;
+
+/** Rows per section */
+const MAX_BOARD_ROWS = 12;
+
+let boardPanel: HTMLElement | null = null;
+let boardTitle: HTMLElement | null = null;
+let arrivalsList: HTMLElement | null = null;
+let departuresList: HTMLElement | null = null;
+let arrivalsCount: HTMLElement | null = null;
+let departuresCount: HTMLElement | null = null;
+
+let boardAirportIndex = -1;
+let lastRefreshTime = 0;
+
+/**
+ * Bind the board DOM. Call after createMainOverlay().
+ */
+export function initAirportBoard(): void {
+  boardPanel = document.getElementById("airport-board");
+  boardTitle = document.getElementById("airport-board-title");
+  arrivalsList = document.getElementById("airport-arrivals");
+  departuresList = document.getElementById("airport-departures");
+  arrivalsCount = document.getElementById("airport-arrivals-count");
+  departuresCount = document.getElementById("airport-departures-count");
+}
+
+/**
+ * Per-frame update: show the board while an airport is selected.
+ */
+export function updateAirportBoard(): void {
+  if (!boardPanel) return;
+
+  const selected = state.selectedUnit;
+  const airport = selected?.type === "airport" ? AIRPORTS[selected.index] : undefined;
+  if (!airport) {
+    if (boardAirportIndex !== -1) {
+      boardAirportIndex = -1;
+      boardPanel.classList.add("hidden");
+    }
+    return;
+  }
+
+  const now = performance.now();
+  if (selected.index === boardAirportIndex && now - lastRefreshTime < BOARD_REFRESH_MS) return;
+  lastRefreshTime = now;
+  boardAirportIndex = selected.index;
+
+  const board = getAirportBoard(airport);
+  if (boardTitle) boardTitle.textContent = airport.iata;
+  if (arrivalsCount) arrivalsCount.textContent = String(board.arrivals.length);
+  if (departuresCount) departuresCount.textContent = String(board.departures.length);
+  arrivalsList?.replaceChildren(...renderRows(board.arrivals, "No arrivals"));
+  departuresList?.replaceChildren(...renderRows(board.departures, "No departures"));
+  boardPanel.classList.remove("hidden");
+}
+
+function renderRows(entries: BoardEntry[], emptyText: string): HTMLElement[] {
+  if (entries.length === 0) {
+    const empty = document.createElement("div");
+    empty.className = "board-empty";
+    empty.textContent = emptyText;
+    return [empty];
+  }
+  return entries.slice(0, MAX_BOARD_ROWS).map(createBoardRow);
+}
+
+function createBoardRow(entry: BoardEntry): HTMLElement {
+  const row = document.createElement("div");
+  row.className = "board-row";
+  row.title = entry.type ? `${entry.callsign} (${entry.type})` : entry.callsign;
+
+  const callsign = document.createElement("span");
+  callsign.className = "pass-name";
+  callsign.textContent = entry.callsign;
+
+  const phase = document.createElement("span");
+  phase.className = `board-phase ${entry.phase}`;
+  phase.textContent = FLIGHT_PHASE_LABELS[entry.phase];
+
+  const altitude = document.createElement("span");
+  altitude.className = "pass-value";
+  altitude.textContent = `${Math.round(entry.altitude).toLocaleString()} ft`;
+
+  const distance = document.createElement("span");
+  distance.className = "pass-value";
+  distance.textContent = entry.etaMinutes !== null
+    ? `${entry.distanceKm.toFixed(0)} km · ${Math.round(entry.etaMinutes)}m`
+    : `${entry.distanceKm.toFixed(0)} km`;
+
+  row.append(callsign, phase, altitude, distance);
+  row.addEventListener("click", () => {
+    const index = state.aircraft.findIndex((ac) => aircraftSelectionId(ac) === entry.id);
+    if (index >= 0) selectUnit("aircraft", index);
+  });
+  return row;
+}
@@ -0,0 +1,140 @@
+/**
+ * Alert Panel
+ *
+ * Lists geofence entry/exit alerts and AIS safety broadcasts next to the unit
+ * info panel, newest first. Clicking an alert selects the unit that raised it.
+ */
+
+import { state, aircraftSelectionId } from "../state";
+import { getAlerts, clearAlerts, onGeofenceAlerts, type GeofenceAlert } from "../geofence";
+import { selectUnit } from "../selection/index";
+import {
+  getSafetyMessages,
+  clearSafetyMessages,
+  onSafetyMessages,
+  type AisSafetyMessage,
+} from "../feeds/ais-safety";
+
+/** Rows rendered at once (older alerts stay in the store) */
+const MAX_VISIBLE_ALERTS = 50;
+
+let alertPanel: HTMLElement | null = null;
+let alertList: HTMLElement | null = null;
+let alertCount: HTMLElement | null = null;
+
+/**
+ * Bind the panel DOM and subscribe to geofence alerts and AIS safety messages.
+ * Call after createMainOverlay().
+ */
+export function initAlertPanel(): void {
+  alertPanel = document.getElementById("alert-panel");
+  alertList = document.getElementById("alert-list");
+  alertCount = document.getElementById("alert-count");
+
+  document.getElementById("alert-clear")?.addEventListener("click", () => {
+    clearAlerts();
+    clearSafetyMessages();
+  });
+
+  onGeofenceAlerts(renderAlerts);
+  onSafetyMessages(renderAlerts);
+  renderAlerts();
+}
+
+function renderAlerts(): void {
+  if (!alertPanel || !alertList) return;
+
+  const alerts = getAlerts();
+  const safety = getSafetyMessages();
+  const total = alerts.length + safety.length;
+
+  alertPanel.classList.toggle("hidden", total === 0);
+  if (alertCount) alertCount.textContent = String(total);
+
+  // Both stores are newest first; merge by time
+  const rows: HTMLElement[] = [];
+  let a = 0;
+  let s = 0;
+  while (rows.length < MAX_VISIBLE_ALERTS && (a < alerts.length || s < safety.length)) {
+    if (s >= safety.length || (a < alerts.length && alerts[a].time >= safety[s].time)) {
+      rows.push(createAlertRow(alerts[a++]));
+    } else {
+      rows.push(createSafetyRow(safety[s++]));
+    }
+  }
+  alertList.replaceChildren(...rows);
+}
+
+function createAlertRow(alert: GeofenceAlert): HTMLElement {
+  const row = document.createElement("div");
+  row.className = "alert-row";
+  row.title = `${alert.lat.toFixed(4)}° ${alert.lon.toFixed(4)}°`;
+
+  const time = createTimeCell(alert.time);
+
+  const event = document.createElement("span");
+  event.className = `alert-event ${alert.event}`;
+  event.textContent = alert.event === "entry" ? "ENTER" : "EXIT";
+
+  const text = document.createElement("span");
+  text.className = "alert-text";
+  text.textContent = `${alert.unitLabel} `;
+  const zone = document.createElement("span");
+  zone.className = "alert-zone";
+  zone.textContent = alert.zoneName;
+  text.appendChild(zone);
+
+  row.append(time, event, text);
+  row.addEventListener("click", () => selectAlertUnit(alert));
+  return row;
+}
+
+function selectAlertUnit(alert: GeofenceAlert): void {
+  let index = -1;
+  switch (alert.unitType) {
+    case "ship":
+      index = state.ships.findIndex((s) => s.mmsi === alert.unitId);
+      break;
+    case "aircraft":
+      index = state.aircraft.findIndex((a) => aircraftSelectionId(a) === alert.unitId);
+      break;
+    case "drone":
+      index = state.drones.findIndex((d) => d.name === alert.unitId);
+      break;
+  }
+  if (index >= 0) selectUnit(alert.unitType, index);
+}
+
+function createSafetyRow(message: AisSafetyMessage): HTMLElement {
+  const row = document.createElement("div");
+  row.className = "alert-row";
+  row.title = message.text;
+
+  const time = createTimeCell(message.time);
+
+  const event = document.createElement("span");
+  event.className = "alert-event safety";
+  event.textContent = "SAFETY";
+
+  const text = document.createElement("span");
+  text.className = "alert-text";
+  text.textContent = `${message.text} `;
+  const sender = document.createElement("span");
+  sender.className = "alert-zone";
+  sender.textContent = message.name || message.mmsi;
+  text.appendChild(sender);
+
+  row.append(time, event, text);
+  row.addEventListener("click", () => {
+    const index = state.ships.findIndex((ship) => ship.mmsi === message.mmsi);
+    if (index >= 0) selectUnit("ship", index);
+  });
+  return row;
+}
+
+function createTimeCell(timestamp: number): HTMLElement {
+  const time = document.createElement("span");
+  time.className = "alert-time";
+  time.textContent = new Date(timestamp).toISOString().slice(11, 19);
+  return time;
+}
@@ -0,0 +1,149 @@
+/**
+ * Collision Risk Panel
+ *
+ * Sortable list of vessel pairs flagged by the CPA/TCPA screen (top, right of
+ * the alert panel). Clicking a row highlights the pair and selects the first ship.
+ */
+
+import { state } from "../state";
+import { selectUnit } from "../selection/index";
+import {
+  getCollisionRisks,
+  getSelectedCollisionRisk,
+  selectCollisionRisk,
+  clearCollisionRisks,
+  onCollisionRisksChanged,
+  type CollisionRisk,
+} from "../collision";
+
+/** Rows rendered at once */
+const MAX_VISIBLE_RISKS = 200;
+
+type SortKey = "pair" | "cpa" | "tcpa" | "range";
+
+interface Column {
+  key: SortKey;
+  label: string;
+}
+
+const COLUMNS: Column[] = [
+  { key: "pair", label: "VESSELS" },
+  { key: "cpa", label: "CPA" },
+  { key: "tcpa", label: "TCPA" },
+  { key: "range", label: "RANGE" },
+];
+
+let collisionPanel: HTMLElement | null = null;
+let collisionHeader: HTMLElement | null = null;
+let collisionList: HTMLElement | null = null;
+let collisionCount: HTMLElement | null = null;
+
+let sortKey: SortKey = "tcpa";
+let sortAscending = true;
+
+/**
+ * Bind the panel DOM and subscribe to screen results.
+ * Call after createMainOverlay().
+ */
+export function initCollisionPanel(): void {
+  collisionPanel = document.getElementById("collision-panel");
+  collisionHeader = document.getElementById("collision-header");
+  collisionList = document.getElementById("collision-list");
+  collisionCount = document.getElementById("collision-count");
+
+  document.getElementById("collision-clear")?.addEventListener("click", () => clearCollisionRisks());
+
+  onCollisionRisksChanged(renderRisks);
+  renderRisks();
+}
+
+function renderRisks(): void {
+  if (!collisionPanel || !collisionList) return;
+
+  const risks = getCollisionRisks();
+  collisionPanel.classList.toggle("hidden", risks.length === 0);
+  if (collisionCount) collisionCount.textContent = String(risks.length);
+
+  renderHeader();
+
+  const selected = getSelectedCollisionRisk();
+  const sorted = [...risks].sort(compareRisks);
+  collisionList.replaceChildren(
+    ...sorted.slice(0, MAX_VISIBLE_RISKS).map((r) => createRiskRow(r, r === selected))
+  );
+}
+
+function renderHeader(): void {
+  if (!collisionHeader) return;
+
+  collisionHeader.replaceChildren(
+    ...COLUMNS.map((column) => {
+      const cell = document.createElement("span");
+      cell.className = column.key === sortKey ? "pass-col sorted" : "pass-col";
+      cell.textContent = column.key === sortKey ? `${column.label} ${sortAscending ? "▲" : "▼"}` : column.label;
+      cell.addEventListener("click", () => {
+        if (sortKey === column.key) {
+          sortAscending = !sortAscending;
+        } else {
+          sortKey = column.key;
+          sortAscending = true;
+        }
+        renderRisks();
+      });
+      return cell;
+    })
+  );
+}
+
+function compareRisks(a: CollisionRisk, b: CollisionRisk): number {
+  let result: number;
+  switch (sortKey) {
+    case "pair":
+      result = a.name1.localeCompare(b.name1) || a.name2.localeCompare(b.name2);
+      break;
+    case "cpa":
+      result = a.cpaNm - b.cpaNm;
+      break;
+    case "range":
+      result = a.rangeNm - b.rangeNm;
+      break;
+    default:
+      result = a.tcpaMinutes - b.tcpaMinutes;
+  }
+  if (result === 0) result = a.tcpaMinutes - b.tcpaMinutes;
+  return sortAscending ? result : -result;
+}
+
+function createRiskRow(risk: CollisionRisk, selected: boolean): HTMLElement {
+  const row = document.createElement("div");
+  row.className = selected ? "collision-row selected" : "collision-row";
+  row.title = `${risk.name1} (${risk.mmsi1}) × ${risk.name2} (${risk.mmsi2})`;
+
+  const pair = document.createElement("span");
+  pair.className = "pass-name";
+  pair.textContent = `${risk.name1} × ${risk.name2}`;
+
+  const cpa = document.createElement("span");
+  cpa.className = "pass-value";
+  cpa.textContent = `${risk.cpaNm.toFixed(2)} nm`;
+
+  const tcpa = document.createElement("span");
+  tcpa.className = "pass-value";
+  tcpa.textContent = `${risk.tcpaMinutes.toFixed(1)} min`;
+
+  const range = document.createElement("span");
+  range.className = "pass-value";
+  range.textContent = `${risk.rangeNm.toFixed(2)} nm`;
+
+  row.append(pair, cpa, tcpa, range);
+  row.addEventListener("click", () => {
+    if (selected) {
+      selectCollisionRisk(null);
+      return;
+    }
+    selectCollisionRisk(risk.id);
+    const index = state.ships.findIndex((ship) => ship.mmsi === risk.mmsi1);
+    if (index >= 0) selectUnit("ship", index);
+  });
+  return row;
+}
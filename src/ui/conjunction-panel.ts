@@ -0,0 +1,160 @@
+/**
+ * Conjunction Panel
+ *
+ * Sortable list of screened close approaches (bottom-left, above telemetry).
+ * Clicking a row highlights both objects and flies the camera to the TCA point.
+ */
+
+import { EARTH_RADIUS } from "../constants";
+import { flyToLatLon } from "../camera/controls";
+import {
+  getConjunctions,
+  getSelectedConjunction,
+  selectConjunction,
+  clearConjunctions,
+  onConjunctionsChanged,
+  type ScreenedConjunction,
+} from "../conjunctions";
+
+/** Rows rendered at once */
+const MAX_VISIBLE_CONJUNCTIONS = 200;
+
+/** Camera height above the approach point after flying to it */
+const CONJUNCTION_VIEW_ALTITUDE_KM = 3000;
+
+const KM_PER_SCENE_UNIT = 6371 / EARTH_RADIUS;
+
+type SortKey = "pair" | "tca" | "miss" | "velocity";
+
+interface Column {
+  key: SortKey;
+  label: string;
+}
+
+const COLUMNS: Column[] = [
+  { key: "pair", label: "OBJECTS" },
+  { key: "tca", label: "TCA (UTC)" },
+  { key: "miss", label: "MISS" },
+  { key: "velocity", label: "V REL" },
+];
+
+let conjunctionPanel: HTMLElement | null = null;
+let conjunctionHeader: HTMLElement | null = null;
+let conjunctionList: HTMLElement | null = null;
+let conjunctionCount: HTMLElement | null = null;
+
+let sortKey: SortKey = "tca";
+let sortAscending = true;
+
+/**
+ * Bind the panel DOM and subscribe to screening results.
+ * Call after createMainOverlay().
+ */
+export function initConjunctionPanel(): void {
+  conjunctionPanel = document.getElementById("conjunction-panel");
+  conjunctionHeader = document.getElementById("conjunction-header");
+  conjunctionList = document.getElementById("conjunction-list");
+  conjunctionCount = document.getElementById("conjunction-count");
+
+  document.getElementById("conjunction-clear")?.addEventListener("click", () => clearConjunctions());
+
+  onConjunctionsChanged(renderConjunctions);
+  renderConjunctions();
+}
+
+function renderConjunctions(): void {
+  if (!conjunctionPanel || !conjunctionList) return;
+
+  const conjunctions = getConjunctions();
+  conjunctionPanel.classList.toggle("hidden", conjunctions.length === 0);
+  if (conjunctionCount) conjunctionCount.textContent = String(conjunctions.length);
+
+  renderHeader();
+
+  const selected = getSelectedConjunction();
+  const sorted = [...conjunctions].sort(compareConjunctions);
+  conjunctionList.replaceChildren(
+    ...sorted.slice(0, MAX_VISIBLE_CONJUNCTIONS).map((c) => createConjunctionRow(c, c === selected))
+  );
+}
+
+function renderHeader(): void {
+  if (!conjunctionHeader) return;
+
+  conjunctionHeader.replaceChildren(
+    ...COLUMNS.map((column) => {
+      const cell = document.createElement("span");
+      cell.className = column.key === sortKey ? "pass-col sorted" : "pass-col";
+      cell.textContent = column.key === sortKey ? `${column.label} ${sortAscending ? "▲" : "▼"}` : column.label;
+      cell.addEventListener("click", () => {
+        if (sortKey === column.key) {
+          sortAscending = !sortAscending;
+        } else {
+          sortKey = column.key;
+          // Fastest encounters first is the useful default for relative velocity
+          sortAscending = column.key !== "velocity";
+        }
+        renderConjunctions();
+      });
+      return cell;
+    })
+  );
+}
+
+function compareConjunctions(a: ScreenedConjunction, b: ScreenedConjunction): number {
+  let result: number;
+  switch (sortKey) {
+    case "pair":
+      result = a.name1.localeCompare(b.name1) || a.name2.localeCompare(b.name2);
+      break;
+    case "miss":
+      result = a.missDistanceKm - b.missDistanceKm;
+      break;
+    case "velocity":
+      result = a.relativeVelocityKms - b.relativeVelocityKms;
+      break;
+    default:
+      result = a.tca - b.tca;
+  }
+  if (result === 0) result = a.tca - b.tca;
+  return sortAscending ? result : -result;
+}
+
+function createConjunctionRow(conjunction: ScreenedConjunction, selected: boolean): HTMLElement {
+  const row = document.createElement("div");
+  row.className = selected ? "conjunction-row selected" : "conjunction-row";
+  row.title =
+    `${conjunction.name1} (${conjunction.satnum1}) × ${conjunction.name2} (${conjunction.satnum2})\n` +
+    `${conjunction.lat.toFixed(2)}° ${conjunction.lon.toFixed(2)}° · ${Math.round(conjunction.altitudeKm)} km`;
+
+  const pair = document.createElement("span");
+  pair.className = "pass-name";
+  pair.textContent = `${conjunction.name1} × ${conjunction.name2}`;
+
+  const iso = new Date(conjunction.tca).toISOString();
+  const tca = document.createElement("span");
+  tca.className = "pass-time";
+  tca.textContent = `${iso.slice(5, 10)} ${iso.slice(11, 19)}`;
+
+  const miss = document.createElement("span");
+  miss.className = "pass-value";
+  miss.textContent = `${conjunction.missDistanceKm.toFixed(2)} km`;
+
+  const velocity = document.createElement("span");
+  velocity.className = "pass-value";
+  velocity.textContent = `${conjunction.relativeVelocityKms.toFixed(1)} km/s`;
+
+  row.append(pair, tca, miss, velocity);
+  row.addEventListener("click", () => {
+    if (selected) {
+      selectConjunction(null);
+      return;
+    }
+    selectConjunction(conjunction.id);
+    flyToLatLon(conjunction.lat, conjunction.lon, {
+      altitude: conjunction.altitudeKm / KM_PER_SCENE_UNIT,
+      viewAltitudeKm: CONJUNCTION_VIEW_ALTITUDE_KM,
+    });
+  });
+  return row;
+}
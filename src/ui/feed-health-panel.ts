@@ -0,0 +1,248 @@
+/**
+ * Feed Health Panel
+ *
+ * Per-feed sparklines of message rate, latency (p50/p95), queue depth and
+ * reconnects, with the feed's recent silent gaps, plus the relay's dropped
+ * messages (top right, left of the controls). Redrawn on every health sample.
+ */
+
+import {
+  feedHealthParams,
+  getFeedHealth,
+  getRelayHealth,
+  onFeedHealthChanged,
+  setFeedHealthDashboard,
+  formatGapDuration,
+  type FeedHealth,
+  type FeedGap,
+} from "../feeds/feed-health";
+
+/** Gaps listed per feed (older ones stay in the monitor) */
+const MAX_VISIBLE_GAPS = 3;
+
+const SPARKLINE_WIDTH = 120;
+const SPARKLINE_HEIGHT = 18;
+
+const COLORS = {
+  rate: "#2dd4bf",
+  latencyP50: "#60a5fa",
+  latencyP95: "rgba(96, 165, 250, 0.45)",
+  queue: "#facc15",
+  reconnects: "#f97316",
+  dropped: "#ef4444",
+};
+
+let healthPanel: HTMLElement | null = null;
+let healthList: HTMLElement | null = null;
+
+/**
+ * Bind the panel DOM and subscribe to health samples.
+ * Call after createMainOverlay().
+ */
+export function initFeedHealthPanel(): void {
+  healthPanel = document.getElementById("feed-health-panel");
+  healthList = document.getElementById("feed-health-list");
+
+  document.getElementById("feed-health-close")?.addEventListener("click", () => setFeedHealthDashboard(false));
+
+  onFeedHealthChanged(renderHealth);
+  renderHealth();
+}
+
+function renderHealth(): void {
+  if (!healthPanel || !healthList) return;
+
+  healthPanel.classList.toggle("hidden", !feedHealthParams.dashboard);
+  if (!feedHealthParams.dashboard) return;
+
+  const feeds = getFeedHealth();
+  const sections: HTMLElement[] = feeds.map(createFeedSection);
+  if (feeds.length === 0) {
+    const empty = document.createElement("div");
+    empty.className = "feed-health-empty";
+    empty.textContent = "No live feeds";
+    sections.push(empty);
+  }
+  sections.push(createRelaySection());
+  healthList.replaceChildren(...sections);
+}
+
+function createFeedSection(health: FeedHealth): HTMLElement {
+  const section = document.createElement("div");
+  section.className = "feed-health-feed";
+
+  const openGap = health.gaps.find((gap) => gap.end === null);
+  const header = document.createElement("div");
+  header.className = "feed-health-header";
+  const name = document.createElement("span");
+  name.className = "feed-health-name";
+  name.textContent = health.label;
+  const status = document.createElement("span");
+  status.className = `feed-health-status ${openGap ? "silent" : health.status}`;
+  status.textContent = openGap ? `SILENT ${formatGapDuration(openGap)}` : health.status.toUpperCase();
+  header.append(name, status);
+  section.appendChild(header);
+
+  section.appendChild(createMetricRow("MSG/S", [health.messageRate], [COLORS.rate], formatRate(last(health.messageRate))));
+
+  if (health.latencyP50.some(Number.isFinite)) {
+    const p50 = last(health.latencyP50);
+    const p95 = last(health.latencyP95);
+    section.appendChild(createMetricRow(
+      "LATENCY",
+      [health.latencyP95, health.latencyP50],
+      [COLORS.latencyP95, COLORS.latencyP50],
+      Number.isFinite(p50) ? `${formatMs(p50)} / ${formatMs(p95)}` : "—",
+      "p50 / p95 over recent messages",
+    ));
+  }
+
+  if (health.queueDepth.some(Number.isFinite)) {
+    const depth = last(health.queueDepth);
+    section.appendChild(createMetricRow("QUEUE", [health.queueDepth], [COLORS.queue], Number.isFinite(depth) ? String(depth) : "—"));
+  }
+
+  section.appendChild(createMetricRow("RECONN", [health.reconnects], [COLORS.reconnects], String(health.totalReconnects), undefined, true));
+
+  for (const gap of health.gaps.slice(-MAX_VISIBLE_GAPS).reverse()) {
+    section.appendChild(createGapRow(gap));
+  }
+  return section;
+}
+
+function createRelaySection(): HTMLElement {
+  const relay = getRelayHealth();
+  const section = document.createElement("div");
+  section.className = "feed-health-feed";
+
+  const header = document.createElement("div");
+  header.className = "feed-health-header";
+  const name = document.createElement("span");
+  name.className = "feed-health-name";
+  name.textContent = "Relay";
+  const status = document.createElement("span");
+  status.className = `feed-health-status ${relay.connected ? "connected" : "disconnected"}`;
+  status.textContent = relay.connected ? "CONNECTED" : "OFFLINE";
+  header.append(name, status);
+  section.appendChild(header);
+
+  const byPath = Object.entries(relay.dropped)
+    .filter(([, count]) => count > 0)
+    .map(([path, count]) => `${path} ${count}`)
+    .join(", ");
+  const total = Object.values(relay.dropped).reduce((sum, count) => sum + count, 0);
+  section.appendChild(createMetricRow("DROPPED", [relay.dropRate], [COLORS.dropped], String(total), byPath || undefined, true));
+  return section;
+}
+
+function createMetricRow(
+  label: string,
+  series: number[][],
+  colors: string[],
+  value: string,
+  title?: string,
+  bars: boolean = false,
+): HTMLElement {
+  const row = document.createElement("div");
+  row.className = "feed-health-row";
+  if (title) row.title = title;
+
+  const labelEl = document.createElement("span");
+  labelEl.className = "feed-health-label";
+  labelEl.textContent = label;
+
+  const canvas = document.createElement("canvas");
+  canvas.className = "feed-health-sparkline";
+  drawSparkline(canvas, series, colors, bars);
+
+  const valueEl = document.createElement("span");
+  valueEl.className = "feed-health-value";
+  valueEl.textContent = value;
+
+  row.append(labelEl, canvas, valueEl);
+  return row;
+}
+
+function createGapRow(gap: FeedGap): HTMLElement {
+  const row = document.createElement("div");
+  row.className = "feed-health-gap";
+  const time = new Date(gap.start).toISOString().slice(11, 19);
+  row.textContent = gap.end === null
+    ? `${time}  silent ${formatGapDuration(gap)} (ongoing)`
+    : `${time}  silent ${formatGapDuration(gap)}`;
+  return row;
+}
+
+/**
+ * Draw one or more series (same scale, from 0) right-aligned, so the newest
+ * sample is at the right edge. NaN samples leave a break in the line.
+ */
+function drawSparkline(canvas: HTMLCanvasElement, series: number[][], colors: string[], bars: boolean): void {
+  const ratio = window.devicePixelRatio || 1;
+  canvas.width = SPARKLINE_WIDTH * ratio;
+  canvas.height = SPARKLINE_HEIGHT * ratio;
+  canvas.style.width = `${SPARKLINE_WIDTH}px`;
+  canvas.style.height = `${SPARKLINE_HEIGHT}px`;
+
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return;
+  ctx.scale(ratio, ratio);
+
+  let max = 0;
+  let length = 0;
+  for (const values of series) {
+    length = Math.max(length, values.length);
+    for (const value of values) {
+      if (Number.isFinite(value) && value > max) max = value;
+    }
+  }
+  if (length === 0) return;
+
+  const step = SPARKLINE_WIDTH / Math.max(length - 1, 1);
+  const y = (value: number) => SPARKLINE_HEIGHT - 1 - (max > 0 ? (value / max) * (SPARKLINE_HEIGHT - 2) : 0);
+
+  series.forEach((values, s) => {
+    const offset = length - values.length;
+    ctx.strokeStyle = colors[s];
+    ctx.fillStyle = colors[s];
+    ctx.lineWidth = 1;
+
+    if (bars) {
+      values.forEach((value, i) => {
+        if (value > 0) ctx.fillRect((offset + i) * step - 1, y(value), 2, SPARKLINE_HEIGHT - y(value));
+      });
+      return;
+    }
+
+    ctx.beginPath();
+    let drawing = false;
+    values.forEach((value, i) => {
+      if (!Number.isFinite(value)) {
+        drawing = false;
+        return;
+      }
+      const x = (offset + i) * step;
+      if (drawing) {
+        ctx.lineTo(x, y(value));
+      } else {
+        ctx.moveTo(x, y(value));
+        drawing = true;
+      }
+    });
+    ctx.stroke();
+  });
+}
+
+function last(values: number[]): number {
+  return values.length > 0 ? values[values.length - 1] : NaN;
+}
+
+function formatRate(rate: number): string {
+  if (!Number.isFinite(rate)) return "—";
+  return rate >= 100 ? rate.toFixed(0) : rate.toFixed(1);
+}
+
+function formatMs(ms: number): string {
+  if (!Number.isFinite(ms)) return "—";
+  return ms >= 10000 ? `${(ms / 1000).toFixed(0)}s` : ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.round(ms)}ms`;
+}
@@ -8,6 +8,8 @@ import {
   aircraftFeedParams,
   setFeedMode,
   setCoverageMode,
+  setAircraftLiveSource,
+  setAdsbSource,
   setInterpolation,
   setSimulatedCount,
   startAircraftFeed,
@@ -16,10 +18,98 @@ import {
   setSimulatedSatelliteCount,
   startAISFeed,
   setAISFeedMode,
+  setAISLiveSource,
   setSimulatedShipCount,
   aisFeedParams,
+  aisSafetyParams,
+  replayParams,
+  startRecording,
+  stopRecording,
+  exportSession,
+  getArchivedSessionNames,
+  replayArchivedSession,
+  importAndReplaySession,
+  stopReplay,
+  setReplaySpeed,
+  setReplayLoop,
+  droneFeedParams,
+  setDroneFeedMode,
+  setDroneLiveSource,
+  getFeedTypes,
+  getFeedType,
+  getFeedSources,
+  getFeedSourceStatus,
+  onFeedSourcesChanged,
+  addFeedSource,
+  removeFeedSource,
+  renameFeedSource,
+  updateFeedSource,
+  setFeedSourceEnabled,
+  feedHealthParams,
+  setFeedHealthDashboard,
+  onFeedHealthChanged,
 } from '../feeds';
-import type { CoverageMode } from '../feeds';
+import type { CoverageMode, AircraftLiveSource, AdsbInputFormat, AISLiveSource, DroneLiveSource } from '../feeds';
+import {
+  timelineParams,
+  TIMELINE_RANGE_MINUTES,
+  setTimelinePaused,
+  stepTimeline,
+  seekTimelineOffset,
+  resetTimelineToNow,
+} from '../simulation/timeline';
+import {
+  geofenceParams,
+  getZones,
+  getZone,
+  updateZone,
+  removeZone,
+  onZonesChanged,
+  clearAlerts,
+} from '../geofence';
+import {
+  geofenceDrawParams,
+  startZoneDrawing,
+  finishZoneDrawing,
+  cancelZoneDrawing,
+  setZonesVisible,
+} from '../geofence/visuals';
+import { passParams, setObserver, runPassPrediction, clearPasses } from '../passes';
+import { startObserverPick } from '../passes/visuals';
+import { groundTrackParams } from '../selection/ground-track';
+import {
+  conjunctionParams,
+  runConjunctionScreen,
+  cancelConjunctionScreen,
+  clearConjunctions,
+} from '../conjunctions';
+import { collisionParams, setCollisionScreening, clearCollisionRisks } from '../collision';
+import { flightPhaseParams, setFlightPhaseInference } from '../flight-phase';
+import { predictionParams, setPredictionEnabled } from '../prediction';
+import { leaderParams } from '../units/leaders';
+import { trackHistoryParams, applyTrackHistoryConfig, clearTrackHistory } from '../history';
+import { exportParams, runExport } from '../export';
+import {
+  filterQueryParams,
+  applyFilterQuery,
+  setFilterQueryEnabled,
+  getSavedFilters,
+  onSavedFiltersChanged,
+  saveNamedFilter,
+  loadNamedFilter,
+  deleteNamedFilter,
+} from '../filters';
+import {
+  overlayParams,
+  getOverlayLayers,
+  onOverlaysChanged,
+  importOverlayFiles,
+  removeOverlayLayer,
+  clearOverlays,
+} from '../overlays';
+import { setOverlaysVisible, setOverlayFillOpacity } from '../overlays/visuals';
+import { unitStyleParams, applyUnitColorBy } from '../units/styling';
+import { renderUnitLegend } from './overlays';
 
 export function createGui(params) {
   const {
@@ -64,10 +154,13 @@ export function createGui(params) {
     airportParams,
     airportGroup,
     updateAirportLabels,
+    aisStationParams,
+    applyAisStationVisibility,
     motionParams,
     cameraParams,
     setCameraTilt,
     tiltPresets,
+    followParams,
     earthRotationParams,
     tilesParams,
     setTransitionAltitude,
@@ -142,6 +235,13 @@ export function createGui(params) {
   sceneFolder.add({ h: "" }, "h").name("--- LIGHTING ---").disable();
 
   // Realistic sun controls
+  const timeMultiplierOptions = {
+    "Real-time (1×)": 1,
+    "1 min/sec (60×)": 60,
+    "1 hr/sec (3600×)": 3600,
+    "6 hr/sec": 21600,
+    "24 hr/sec": 86400,
+  };
   let realisticSunCtrl: any = null;
   if (sunParams) {
     realisticSunCtrl = sceneFolder.add(sunParams, "realistic").name("Realistic Sun").onChange((value: boolean) => {
@@ -150,14 +250,7 @@ export function createGui(params) {
       }
     });
 
-    const timeMultiplierOptions = {
-      "Real-time (1×)": 1,
-      "1 min/sec (60×)": 60,
-      "1 hr/sec (3600×)": 3600,
-      "6 hr/sec": 21600,
-      "24 hr/sec": 86400,
-    };
-    sceneFolder.add(sunParams, "timeMultiplier", timeMultiplierOptions).name("Time Speed");
+    sceneFolder.add(sunParams, "timeMultiplier", timeMultiplierOptions).name("Time Speed").listen();
   }
 
   // Manual sun controls - dragging turns off realistic mode
@@ -221,18 +314,57 @@ export function createGui(params) {
     .onChange((value: boolean) => {
       setAISFeedMode(value ? "live" : "simulated");
     });
+  const aisSourceOptions: Record<string, AISLiveSource> = {
+    "AISStream.io": "aisstream",
+    "NMEA Receivers": "nmea",
+  };
+  const aisSourceDisplay = { source: "AISStream.io" };
+  feedFolder
+    .add(aisSourceDisplay, "source", Object.keys(aisSourceOptions))
+    .name("  Source")
+    .onChange((value: string) => {
+      setAISLiveSource(aisSourceOptions[value]);
+    });
   feedFolder.add(aisFeedParams, "status").name("  Status").listen().disable();
   feedFolder.add(aisFeedParams, "trackedCount").name("  Tracked").listen().disable();
   feedFolder.add(aisDisplay, "rate").name("  Rate").listen().disable();
+  feedFolder.add(aisSafetyParams, "enabled").name("  Safety Alerts");
 
-  // --- OpenSky (Aircraft) ---
+  // --- Live Aircraft (OpenSky / ADS-B receiver) ---
   const openskyState = { enabled: false };
   feedFolder
     .add(openskyState, "enabled")
-    .name("OpenSky (Aircraft)")
+    .name("Live Aircraft")
     .onChange((value: boolean) => {
       setFeedMode(value ? "live" : "simulated");
     });
+  const sourceOptions: Record<string, AircraftLiveSource> = {
+    "OpenSky": "opensky",
+    "ADS-B Receiver": "adsb",
+  };
+  const sourceDisplay = { source: "OpenSky" };
+  feedFolder
+    .add(sourceDisplay, "source", Object.keys(sourceOptions))
+    .name("  Source")
+    .onChange((value: string) => {
+      setAircraftLiveSource(sourceOptions[value]);
+    });
+  const adsbFormatOptions: Record<string, AdsbInputFormat> = {
+    "aircraft.json": "aircraft-json",
+    "SBS-1 (TCP)": "sbs",
+  };
+  const adsbSettings = {
+    format: "aircraft.json",
+    jsonUrl: aircraftFeedParams.adsbJsonUrl,
+    sbsAddress: aircraftFeedParams.adsbSbsAddress,
+    apply: () => {
+      setAdsbSource(adsbFormatOptions[adsbSettings.format], adsbSettings.jsonUrl.trim(), adsbSettings.sbsAddress.trim());
+    },
+  };
+  feedFolder.add(adsbSettings, "format", Object.keys(adsbFormatOptions)).name("  ADS-B Format");
+  feedFolder.add(adsbSettings, "jsonUrl").name("  aircraft.json URL");
+  feedFolder.add(adsbSettings, "sbsAddress").name("  SBS host:port");
+  feedFolder.add(adsbSettings, "apply").name("  Apply ADS-B Settings");
   const coverageOptions: Record<string, CoverageMode> = {
     "Worldwide": "worldwide",
     "Viewport Only": "viewport",
@@ -266,6 +398,167 @@ export function createGui(params) {
   feedFolder.add(satelliteFeedParams, "trackedCount").name("  Tracked").listen().disable();
   feedFolder.add(satDisplay, "rate").name("  Rate").listen().disable();
 
+  // --- Drones (MAVLink / Remote ID) ---
+  const droneState = { enabled: droneFeedParams.mode === "live" };
+  feedFolder
+    .add(droneState, "enabled")
+    .name("Live Drones")
+    .onChange((value: boolean) => {
+      setDroneFeedMode(value ? "live" : "simulated");
+    });
+  const droneSourceOptions: Record<string, DroneLiveSource> = {
+    "MAVLink": "mavlink",
+    "Remote ID": "remoteid",
+  };
+  const droneSourceDisplay = { source: "MAVLink" };
+  feedFolder
+    .add(droneSourceDisplay, "source", Object.keys(droneSourceOptions))
+    .name("  Source")
+    .onChange((value: string) => {
+      setDroneLiveSource(droneSourceOptions[value]);
+    });
+  feedFolder.add(droneFeedParams, "status").name("  Status").listen().disable();
+  feedFolder.add(droneFeedParams, "trackedCount").name("  Tracked").listen().disable();
+
+  // --- Runtime sources (several per unit type, merged; settings generated from each feed type's schema) ---
+  feedFolder.add({ h: "" }, "h").name("--- SOURCES ---").disable();
+  const sourceTypeOptions: Record<string, string> = {};
+  for (const definition of getFeedTypes()) {
+    sourceTypeOptions[definition.label] = definition.type;
+  }
+  const newSource = { type: Object.values(sourceTypeOptions)[0] || "" };
+  feedFolder.add(newSource, "type", sourceTypeOptions).name("Feed Type");
+  feedFolder.add({ add: () => addFeedSource(newSource.type) }, "add").name("+ Add Source");
+
+  const sourceSelection = { source: "" };
+  const sourceController = feedFolder.add(sourceSelection, "source", {}).name("Source");
+  const sourceSettingsFolder = feedFolder.addFolder("Source Settings");
+
+  const buildSourceSettings = () => {
+    for (const controller of [...sourceSettingsFolder.controllers]) {
+      controller.destroy();
+    }
+
+    const config = getFeedSources().find((source) => source.id === sourceSelection.source);
+    const definition = config && getFeedType(config.type);
+    if (!config || !definition) return;
+
+    sourceSettingsFolder.add({ enabled: config.enabled }, "enabled").name("Enabled").onChange((value: boolean) => {
+      setFeedSourceEnabled(config.id, value);
+    });
+    sourceSettingsFolder.add({ name: config.name }, "name").name("Name").onFinishChange((value: string) => {
+      renameFeedSource(config.id, value);
+    });
+
+    const settings = { ...config.settings };
+    for (const field of definition.schema) {
+      const controller = field.kind === "select"
+        ? sourceSettingsFolder.add(settings, field.key, field.options)
+        : field.kind === "number"
+          ? sourceSettingsFolder.add(settings, field.key, field.min, field.max, field.step)
+          : sourceSettingsFolder.add(settings, field.key);
+      controller.name(field.label).onFinishChange((value: string | number | boolean) => {
+        updateFeedSource(config.id, { [field.key]: value });
+      });
+    }
+
+    const status = getFeedSourceStatus(config.id);
+    sourceSettingsFolder.add(status, "status").name("  Status").listen().disable();
+    sourceSettingsFolder.add(status, "trackedCount").name("  Tracked").listen().disable();
+    sourceSettingsFolder.add({ remove: () => removeFeedSource(config.id) }, "remove").name("✕ Remove Source");
+  };
+  sourceController.onChange(buildSourceSettings);
+
+  const refreshSourceOptions = () => {
+    const options: Record<string, string> = {};
+    for (const source of getFeedSources()) {
+      options[source.name] = source.id;
+    }
+    sourceController.options(options);
+    if (!getFeedSources().some((source) => source.id === sourceSelection.source)) {
+      const sources = getFeedSources();
+      sourceSelection.source = sources.length > 0 ? sources[sources.length - 1].id : "";
+    }
+    sourceController.updateDisplay();
+    buildSourceSettings();
+  };
+  onFeedSourcesChanged(refreshSourceOptions);
+  refreshSourceOptions();
+
+  // Rolling rate/latency/reconnect sparklines and silent-gap history per live feed
+  const healthController = feedFolder
+    .add(feedHealthParams, "dashboard")
+    .name("Feed Health")
+    .onChange((value: boolean) => setFeedHealthDashboard(value));
+  onFeedHealthChanged(() => healthController.updateDisplay());
+
+  // --- Session Record & Replay ---
+  feedFolder.add({ h: "" }, "h").name("--- SESSION ---").disable();
+  const recordState = { recording: false };
+  feedFolder
+    .add(recordState, "recording")
+    .name("Record Live Traffic")
+    .onChange(async (value: boolean) => {
+      if (value) {
+        startRecording();
+      } else {
+        await stopRecording();
+        refreshSessionOptions();
+      }
+    });
+  feedFolder.add(replayParams, "recordedUpdates").name("  Captured").listen().disable();
+
+  const sessionController = feedFolder.add(replayParams, "session", []).name("Session").listen();
+  const refreshSessionOptions = async () => {
+    const names = await getArchivedSessionNames();
+    sessionController.options(names);
+    if (!names.includes(replayParams.session)) {
+      replayParams.session = names[0] || "";
+    }
+    sessionController.updateDisplay();
+  };
+  refreshSessionOptions();
+
+  // Hidden file input for importing exported sessions
+  const sessionFileInput = document.createElement("input");
+  sessionFileInput.type = "file";
+  sessionFileInput.accept = ".json,application/json";
+  sessionFileInput.addEventListener("change", async () => {
+    const file = sessionFileInput.files?.[0];
+    sessionFileInput.value = "";
+    if (!file) return;
+    await importAndReplaySession(file);
+    refreshSessionOptions();
+  });
+
+  const sessionActions = {
+    replay: () => {
+      if (replayParams.session) replayArchivedSession(replayParams.session);
+    },
+    stop: () => stopReplay(),
+    exportFile: () => exportSession(),
+    importFile: () => sessionFileInput.click(),
+  };
+  feedFolder.add(sessionActions, "replay").name("▶ Replay Session");
+  feedFolder.add(sessionActions, "stop").name("■ Stop Replay");
+  feedFolder.add(replayParams, "speed", 0.25, 60, 0.25).name("  Speed").onChange(setReplaySpeed);
+  feedFolder.add(replayParams, "loop").name("  Loop").onChange(setReplayLoop);
+  feedFolder.add(replayParams, "status").name("  Status").listen().disable();
+  feedFolder.add(replayParams, "progress").name("  Position").listen().disable();
+  feedFolder.add(sessionActions, "exportFile").name("Export Session File");
+  feedFolder.add(sessionActions, "importFile").name("Import Session File");
+
+  // --- Export (GeoJSON / KML / CSV) ---
+  feedFolder.add({ h: "" }, "h").name("--- EXPORT ---").disable();
+  feedFolder.add(exportParams, "scope", {
+    "Visible Units": "visible",
+    "Selected Unit": "selected",
+    "Selected Track": "track",
+  }).name("Export");
+  feedFolder.add(exportParams, "format", { GeoJSON: "geojson", KML: "kml", CSV: "csv" }).name("  Format");
+  feedFolder.add({ run: () => runExport() }, "run").name("⤓ Download");
+  feedFolder.add(exportParams, "status").name("  Status").listen().disable();
+
 
   // ===========================================================================
   // 3. SIMULATION
@@ -304,6 +597,30 @@ export function createGui(params) {
       state.h3.lastResolution = -1;
     });
 
+  // Timeline (drives sun, motion, satellites, trails and replay together)
+  simulationFolder.add({ h: "" }, "h").name("--- TIMELINE ---").disable();
+  simulationFolder.add(timelineParams, "display").name("Sim Time").listen().disable();
+  simulationFolder
+    .add(timelineParams, "offsetMinutes", -TIMELINE_RANGE_MINUTES, TIMELINE_RANGE_MINUTES, 1)
+    .name("Scrub (min)")
+    .listen()
+    .onChange((value: number) => seekTimelineOffset(value));
+  simulationFolder.add(timelineParams, "paused").name("Pause").listen().onChange((value: boolean) => setTimelinePaused(value));
+  if (sunParams) {
+    simulationFolder.add(sunParams, "timeMultiplier", timeMultiplierOptions).name("Speed").listen();
+  }
+  const timelineActions = {
+    back10: () => stepTimeline(-10 * 60000),
+    back1: () => stepTimeline(-60000),
+    forward1: () => stepTimeline(60000),
+    now: () => resetTimelineToNow(),
+  };
+  simulationFolder.add(timelineActions, "back10").name("⏪ -10 min");
+  simulationFolder.add(timelineActions, "back1").name("◀ -1 min");
+  simulationFolder.add(timelineActions, "forward1").name("▶ +1 min");
+  simulationFolder.add(timelineActions, "now").name("Jump to Now");
+
+  simulationFolder.add({ h: "" }, "h").name("--- MOTION ---").disable();
   simulationFolder.add(motionParams, "shipSpeed", 0, 10, 0.1).name("Ship Speed");
   simulationFolder.add(motionParams, "aircraftSpeed", 0, 10, 0.1).name("Aircraft Speed");
   simulationFolder.add(motionParams, "satelliteSpeed", 0, 50, 1).name("Satellite Speed");
@@ -372,6 +689,48 @@ export function createGui(params) {
       refreshH3PopupIfVisible();
   });
 
+  // -- Query (e.g. type=ship and sog>15 and country="Panama") --
+  filtersFolder.add({ h: "" }, "h").name("--- QUERY ---").disable();
+  const onQueryChanged = () => {
+      state.h3.lastResolution = -1;
+      refreshH3PopupIfVisible();
+  };
+  filtersFolder.add(filterQueryParams, "enabled").name("Apply Query").onChange((value: boolean) => {
+      setFilterQueryEnabled(value);
+      onQueryChanged();
+  });
+  const queryController = filtersFolder.add(filterQueryParams, "query").name("Query").onFinishChange(() => {
+      applyFilterQuery();
+      onQueryChanged();
+  });
+  filtersFolder.add(filterQueryParams, "status").name("  Status").listen().disable();
+
+  const savedFilterSelection = { filter: "" };
+  const savedFilterController = filtersFolder.add(savedFilterSelection, "filter", {}).name("Saved").onChange((name: string) => {
+      loadNamedFilter(name);
+      queryController.updateDisplay();
+      filterNameController.updateDisplay();
+      onQueryChanged();
+  });
+  const filterNameController = filtersFolder.add(filterQueryParams, "name").name("  Name");
+  const filterActions = {
+      save: () => saveNamedFilter(),
+      remove: () => deleteNamedFilter(savedFilterSelection.filter),
+  };
+  filtersFolder.add(filterActions, "save").name("Save Query");
+  filtersFolder.add(filterActions, "remove").name("Delete Saved");
+
+  const refreshSavedFilterOptions = () => {
+      const names = getSavedFilters().map((filter) => filter.name);
+      savedFilterController.options(names);
+      if (!names.includes(savedFilterSelection.filter)) {
+          savedFilterSelection.filter = "";
+      }
+      savedFilterController.updateDisplay();
+  };
+  onSavedFiltersChanged(refreshSavedFilterOptions);
+  refreshSavedFilterOptions();
+
   // ===========================================================================
   // 5. ANNOTATIONS
   // ===========================================================================
@@ -387,6 +746,26 @@ export function createGui(params) {
   visualsFolder.add(labelParams, "showAircraftLabels").name("Aircraft Labels");
   visualsFolder.add(labelParams, "showSatelliteLabels").name("Sat Labels");
   visualsFolder.add(labelParams, "showDroneLabels").name("Drone Labels");
+
+  // -- Icon colors (color-by-attribute, with legend) --
+  visualsFolder.add(unitStyleParams, "shipColorBy", {
+    "Type Color": "none",
+    "Category": "category",
+    "Speed": "speed",
+    "Flag": "country",
+    "Data Age": "dataAge",
+    "Feed Source": "source",
+  }).name("Ship Colors").onChange(() => applyUnitColorBy("ship"));
+  visualsFolder.add(unitStyleParams, "aircraftColorBy", {
+    "Type Color": "none",
+    "Altitude": "altitude",
+    "Speed": "speed",
+    "Origin Country": "country",
+    "Category": "category",
+    "Data Age": "dataAge",
+    "Feed Source": "source",
+  }).name("Air Colors").onChange(() => applyUnitColorBy("aircraft"));
+  visualsFolder.add(unitStyleParams, "showLegend").name("  Show Legend").onChange(renderUnitLegend);
   
   // -- Trails --
   visualsFolder.add(trailParams, "enabled").name("Enable Trails").onChange(updateTrailAttributes);
@@ -397,9 +776,202 @@ export function createGui(params) {
     aircraftTrailMaterial.uniforms.uBaseOpacity.value = trailParams.opacity;
   });
 
+  // -- Leader lines (5/15/30 min ahead) --
+  visualsFolder.add(leaderParams, "enabled").name("Enable Leaders");
+  visualsFolder.add(leaderParams, "shipLeaders").name("Ship Leaders");
+  visualsFolder.add(leaderParams, "aircraftLeaders").name("Air Leaders");
+  visualsFolder.add(leaderParams, "selectedOnly").name("Selected Only");
+  visualsFolder.add(leaderParams, "opacity", 0.1, 1.0, 0.1).name("Leader Opacity");
+
+  // -- Track history (long-duration store, drawn for the selected unit) --
+  visualsFolder.add(trackHistoryParams, "enabled").name("Record History");
+  visualsFolder.add(trackHistoryParams, "showSelectedTrack").name("  Selected Track");
+  visualsFolder.add(trackHistoryParams, "displayHours", 0.25, 24, 0.25).name("  Track Span (h)");
+  visualsFolder.add(trackHistoryParams, "sampleIntervalSeconds", 2, 120, 1).name("  Sample Every (s)");
+  visualsFolder.add(trackHistoryParams, "retentionHours", 1, 48, 1).name("  Keep (h)").onFinishChange(applyTrackHistoryConfig);
+  visualsFolder.add({ clear: clearTrackHistory }, "clear").name("  Clear History");
+  visualsFolder.add(trackHistoryParams, "status").name("  Status").listen().disable();
+
+  // -- Selected satellite --
+  visualsFolder.add(groundTrackParams, "showGroundTrack").name("Sat Ground Track");
+  visualsFolder.add(groundTrackParams, "pastOrbits", 0, 5, 1).name("  Past Orbits");
+  visualsFolder.add(groundTrackParams, "futureOrbits", 0, 10, 1).name("  Next Orbits");
+  visualsFolder.add(groundTrackParams, "showFootprint").name("Sat Footprint");
+  visualsFolder.add(groundTrackParams, "footprintHalfAngle", 1, 90, 1).name("  Half-Angle (°)");
+  visualsFolder.add(groundTrackParams, "footprintRadiusKm").name("  Radius (km)").listen().disable();
+
 
   // ===========================================================================
-  // 6. OVERLAYS & GRIDS
+  // 6. GEOFENCES
+  // ===========================================================================
+  const geofenceFolder = gui.addFolder("Geofences");
+
+  geofenceFolder.add(geofenceParams, "enabled").name("Enable Alerts");
+  geofenceFolder.add(geofenceDrawParams, "visible").name("Show Zones").onChange(setZonesVisible);
+
+  // -- Drawing --
+  geofenceFolder.add({ h: "" }, "h").name("--- DRAW ---").disable();
+  geofenceFolder.add(geofenceDrawParams, "name").name("Zone Name");
+  geofenceFolder.add(geofenceDrawParams, "shape", { Polygon: "polygon", Circle: "circle" }).name("Shape");
+  const drawActions = {
+    draw: () => startZoneDrawing(),
+    finish: () => finishZoneDrawing(),
+    cancel: () => cancelZoneDrawing(),
+  };
+  geofenceFolder.add(drawActions, "draw").name("✎ Draw Zone");
+  geofenceFolder.add(drawActions, "finish").name("✓ Finish Polygon");
+  geofenceFolder.add(drawActions, "cancel").name("✕ Cancel");
+  geofenceFolder.add(geofenceDrawParams, "status").name("  Status").listen().disable();
+
+  // -- Zone rules (edits the zone picked in the dropdown) --
+  geofenceFolder.add({ h: "" }, "h").name("--- ZONE RULES ---").disable();
+  const zoneSelection = { zone: "" };
+  const zoneEdit = {
+    enabled: true,
+    ships: true,
+    aircraft: true,
+    drones: true,
+    minSpeed: 0,
+    maxSpeed: 0,
+    country: "",
+    alertOnEntry: true,
+    alertOnExit: true,
+  };
+  const zoneController = geofenceFolder.add(zoneSelection, "zone", {}).name("Zone");
+  const zoneEditControllers = [
+    geofenceFolder.add(zoneEdit, "enabled").name("  Active").onChange((value: boolean) => {
+      updateZone(zoneSelection.zone, { enabled: value });
+    }),
+    geofenceFolder.add(zoneEdit, "ships").name("  Ships"),
+    geofenceFolder.add(zoneEdit, "aircraft").name("  Aircraft"),
+    geofenceFolder.add(zoneEdit, "drones").name("  Drones"),
+    geofenceFolder.add(zoneEdit, "minSpeed", 0, 600, 1).name("  Min Speed (kts)"),
+    geofenceFolder.add(zoneEdit, "maxSpeed", 0, 600, 1).name("  Max Speed (kts)"),
+    geofenceFolder.add(zoneEdit, "country").name("  Country"),
+    geofenceFolder.add(zoneEdit, "alertOnEntry").name("  Alert on Entry"),
+    geofenceFolder.add(zoneEdit, "alertOnExit").name("  Alert on Exit"),
+  ];
+  for (const controller of zoneEditControllers.slice(1)) {
+    controller.onFinishChange(() => {
+      const { enabled, ...rule } = zoneEdit;
+      updateZone(zoneSelection.zone, { rule });
+    });
+  }
+
+  const loadZoneEdit = () => {
+    const zone = getZone(zoneSelection.zone);
+    if (zone) Object.assign(zoneEdit, { enabled: zone.enabled, ...zone.rule });
+    for (const controller of zoneEditControllers) {
+      controller.updateDisplay();
+      zone ? controller.enable() : controller.disable();
+    }
+  };
+  zoneController.onChange(loadZoneEdit);
+
+  const refreshZoneOptions = () => {
+    const options: Record<string, string> = {};
+    for (const zone of getZones()) {
+      options[zone.name] = zone.id;
+    }
+    zoneController.options(options);
+    if (!getZone(zoneSelection.zone)) {
+      const zones = getZones();
+      zoneSelection.zone = zones.length > 0 ? zones[zones.length - 1].id : "";
+    }
+    zoneController.updateDisplay();
+    loadZoneEdit();
+  };
+  onZonesChanged(refreshZoneOptions);
+  refreshZoneOptions();
+
+  const zoneActions = {
+    remove: () => removeZone(zoneSelection.zone),
+    clearAlerts: () => clearAlerts(),
+  };
+  geofenceFolder.add(zoneActions, "remove").name("Delete Zone");
+  geofenceFolder.add(zoneActions, "clearAlerts").name("Clear Alerts");
+
+
+  // ===========================================================================
+  // 7. TRAFFIC ANALYSIS
+  // ===========================================================================
+  const trafficFolder = gui.addFolder("Traffic Analysis");
+  trafficFolder.close();
+
+  // -- Vessel collision risk (CPA/TCPA between moving ships) --
+  trafficFolder.add({ h: "" }, "h").name("--- VESSEL CPA ---").disable();
+  trafficFolder.add(collisionParams, "enabled").name("Screen Ships").onChange(setCollisionScreening);
+  trafficFolder.add(collisionParams, "cpaNm", 0.1, 5, 0.1).name("CPA Limit (nm)");
+  trafficFolder.add(collisionParams, "tcpaMinutes", 1, 60, 1).name("TCPA Limit (min)");
+  trafficFolder.add(collisionParams, "rangeNm", 1, 24, 0.5).name("Search Range (nm)");
+  trafficFolder.add(collisionParams, "minSpeedKn", 0, 10, 0.5).name("Min Speed (kts)");
+  trafficFolder.add({ clear: () => clearCollisionRisks() }, "clear").name("Clear Risks");
+  trafficFolder.add(collisionParams, "status").name("  Status").listen().disable();
+
+  // -- Flight phases (airport boards list aircraft near the selected airport) --
+  trafficFolder.add({ h: "" }, "h").name("--- FLIGHT PHASE ---").disable();
+  trafficFolder.add(flightPhaseParams, "enabled").name("Infer Phases").onChange(setFlightPhaseInference);
+  trafficFolder.add(flightPhaseParams, "boardRadiusKm", 10, 200, 5).name("Board Radius (km)");
+
+  // -- Dead reckoning for units whose reports have stopped --
+  trafficFolder.add({ h: "" }, "h").name("--- DEAD RECKONING ---").disable();
+  trafficFolder.add(predictionParams, "enabled").name("Predict Stale Units").onChange(setPredictionEnabled);
+  trafficFolder.add(predictionParams, "model", {
+    "Constant Velocity": "constant-velocity",
+    "Constant Turn": "constant-turn",
+    "Great Circle": "great-circle",
+  }).name("Model");
+  trafficFolder.add(predictionParams, "shipStaleSeconds", 30, 600, 10).name("Ship Stale After (s)");
+  trafficFolder.add(predictionParams, "aircraftStaleSeconds", 10, 300, 5).name("Aircraft Stale After (s)");
+  trafficFolder.add(predictionParams, "maxPredictionMinutes", 1, 120, 1).name("Max Prediction (min)");
+  trafficFolder.add(predictionParams, "showUncertainty").name("Show Uncertainty");
+
+
+  // ===========================================================================
+  // 8. SATELLITE ANALYSIS
+  // ===========================================================================
+  const orbitFolder = gui.addFolder("Satellite Analysis");
+  orbitFolder.close();
+
+  // -- Observer (typed or picked on the globe) --
+  orbitFolder.add({ h: "" }, "h").name("--- PASS OBSERVER ---").disable();
+  const moveObserver = () => setObserver(passParams.observerLat, passParams.observerLon, passParams.observerAltitude);
+  orbitFolder.add(passParams, "observerLat", -90, 90, 0.0001).name("Latitude").listen().onFinishChange(moveObserver);
+  orbitFolder.add(passParams, "observerLon", -180, 180, 0.0001).name("Longitude").listen().onFinishChange(moveObserver);
+  orbitFolder.add(passParams, "observerAltitude", -500, 9000, 1).name("Altitude (m)").onFinishChange(moveObserver);
+  orbitFolder.add({ pick: () => startObserverPick() }, "pick").name("⌖ Pick on Globe");
+
+  // -- Search --
+  orbitFolder.add({ h: "" }, "h").name("--- PASS SEARCH ---").disable();
+  orbitFolder.add(passParams, "hours", 1, 72, 1).name("Window (h)");
+  orbitFolder.add(passParams, "minElevation", 0, 80, 1).name("Min Elevation (°)");
+  orbitFolder.add(passParams, "nameFilter").name("Name Contains");
+  const passActions = {
+    predict: () => runPassPrediction(),
+    clear: () => clearPasses(),
+  };
+  orbitFolder.add(passActions, "predict").name("▶ Predict Passes");
+  orbitFolder.add(passActions, "clear").name("Clear Passes");
+  orbitFolder.add(passParams, "status").name("  Status").listen().disable();
+
+  // -- Conjunction screening (all live satellite pairs) --
+  orbitFolder.add({ h: "" }, "h").name("--- CONJUNCTIONS ---").disable();
+  orbitFolder.add(conjunctionParams, "hours", 24, 72, 1).name("Window (h)");
+  orbitFolder.add(conjunctionParams, "thresholdKm", 0.5, 50, 0.5).name("Miss Distance (km)");
+  orbitFolder.add(conjunctionParams, "primaryFilter").name("Involving Name");
+  const conjunctionActions = {
+    screen: () => runConjunctionScreen(),
+    cancel: () => cancelConjunctionScreen(),
+    clear: () => clearConjunctions(),
+  };
+  orbitFolder.add(conjunctionActions, "screen").name("▶ Screen Conjunctions");
+  orbitFolder.add(conjunctionActions, "cancel").name("✕ Cancel Screen");
+  orbitFolder.add(conjunctionActions, "clear").name("Clear Conjunctions");
+  orbitFolder.add(conjunctionParams, "status").name("  Status").listen().disable();
+
+
+  // ===========================================================================
+  // 9. OVERLAYS & GRIDS
   // ===========================================================================
   const overlaysFolder = gui.addFolder("Overlays & Grids");
 
@@ -472,6 +1044,47 @@ export function createGui(params) {
     h3LineMaterial.opacity = h3Params.opacity * 0.4;
   });
 
+  // Imported GeoJSON/KML layers (also accepted by dropping files on the page)
+  const importedFolder = overlaysFolder.addFolder("Imported Layers");
+  importedFolder.close();
+  const overlayFileInput = document.createElement("input");
+  overlayFileInput.type = "file";
+  overlayFileInput.multiple = true;
+  overlayFileInput.accept = ".geojson,.json,.kml";
+  overlayFileInput.addEventListener("change", async () => {
+    const files = Array.from(overlayFileInput.files ?? []);
+    overlayFileInput.value = "";
+    await importOverlayFiles(files);
+  });
+
+  const layerSelection = { layer: "" };
+  const overlayActions = {
+    importFile: () => overlayFileInput.click(),
+    remove: () => removeOverlayLayer(layerSelection.layer),
+    clear: () => clearOverlays(),
+  };
+  importedFolder.add(overlayActions, "importFile").name("Import File");
+  importedFolder.add(overlayParams, "visible").name("Show Layers").onChange(setOverlaysVisible);
+  importedFolder.add(overlayParams, "fillOpacity", 0, 0.8, 0.05).name("Fill Opacity").onChange(setOverlayFillOpacity);
+  const layerController = importedFolder.add(layerSelection, "layer", {}).name("Layer");
+  importedFolder.add(overlayActions, "remove").name("Remove Layer");
+  importedFolder.add(overlayActions, "clear").name("Clear All");
+  importedFolder.add(overlayParams, "status").name("  Status").listen().disable();
+
+  const refreshLayerOptions = () => {
+    const options: Record<string, string> = {};
+    for (const layer of getOverlayLayers()) {
+      options[layer.name] = layer.id;
+    }
+    layerController.options(options);
+    const layers = getOverlayLayers();
+    if (!layers.some((layer) => layer.id === layerSelection.layer)) {
+      layerSelection.layer = layers.length > 0 ? layers[layers.length - 1].id : "";
+    }
+    layerController.updateDisplay();
+  };
+  onOverlaysChanged(refreshLayerOptions);
+
   // Airports
   const airportsFolder = overlaysFolder.addFolder("Airports");
   airportsFolder.close();
@@ -481,6 +1094,13 @@ export function createGui(params) {
   airportsFolder.add(airportParams, "showLabels").name("Show Labels").onChange(updateAirportLabels);
   airportsFolder.add(airportParams, "markerSize", 0.02, 0.12, 0.005).name("Marker Size");
 
+  // AIS Stations (AtoN / base stations)
+  const aisStationsFolder = overlaysFolder.addFolder("AIS Stations");
+  aisStationsFolder.close();
+  aisStationsFolder.add(aisStationParams, "showAtoN").name("Show AtoN").onChange(applyAisStationVisibility);
+  aisStationsFolder.add(aisStationParams, "showBaseStations").name("Show Base Stations").onChange(applyAisStationVisibility);
+  aisStationsFolder.add(aisStationParams, "markerSize", 4, 24, 1).name("Marker Size").onChange(applyAisStationVisibility);
+
   // Google 3D Tiles
   const tilesFolder = overlaysFolder.addFolder("Google 3D Tiles");
   tilesFolder.close();
@@ -490,11 +1110,16 @@ export function createGui(params) {
 
 
   // ===========================================================================
-  // 6. CAMERA & VIEW
+  // 10. CAMERA & VIEW
   // ===========================================================================
   const cameraFolder = gui.addFolder("Camera Control");
   
   cameraFolder.add(cameraParams, "tiltAngle", 0, 90, 1).name("Tilt Angle").onChange(setCameraTilt);
+
+  // Follow the selected unit (a manual pan turns this off)
+  cameraFolder.add(followParams, "enabled").name("Follow Selected").listen();
+  cameraFolder.add(followParams, "headingUp").name("  Heading Up");
+  cameraFolder.add(followParams, "smoothing", 0, 1, 0.05).name("  Smoothing (s)");
   
   const presets = cameraFolder.addFolder("Presets");
   presets.close();
@@ -509,6 +1134,7 @@ export function createGui(params) {
   simulationFolder.close();
   filtersFolder.close();
   visualsFolder.close();
+  geofenceFolder.close();
   overlaysFolder.close();
   cameraFolder.close();
 
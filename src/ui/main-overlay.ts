@@ -55,6 +55,12 @@ export function createMainOverlay() {
       <span class="mission-value" id="met-value">00:00:00</span>
     </div>
 
+    <!-- Unit search top-center (below mission time) -->
+    <div id="unit-search">
+      <input id="unit-search-input" type="search" placeholder="SEARCH  ( / )" autocomplete="off" spellcheck="false">
+      <div id="unit-search-results" class="hidden"></div>
+    </div>
+
     <!-- Performance Telemetry bottom-center -->
     <div id="perf-telemetry">
       <div class="perf-item">
@@ -83,6 +89,9 @@ export function createMainOverlay() {
       </div>
     </div>
 
+    <!-- Color-by-attribute legend (bottom-right, left of the weather legend) -->
+    <div id="unit-legend" class="hidden"></div>
+
     <!-- Selected unit info panel (bottom-right) -->
     <div id="unit-info" class="hidden">
       <div class="unit-info-header">
@@ -92,7 +101,7 @@ export function createMainOverlay() {
         <span class="unit-staleness" id="unit-staleness"></span>
         <button class="unit-info-close" id="unit-close">×</button>
       </div>
-      <div class="unit-info-body">
+      <div class="unit-info-body" id="unit-info-body">
         <div class="unit-info-row">
           <span class="unit-info-label" id="unit-label-1">LAT</span>
           <span class="unit-info-value" id="unit-lat">0.00°</span>
@@ -125,7 +134,77 @@ export function createMainOverlay() {
           <span class="unit-info-label" id="unit-label-8">SIZE</span>
           <span class="unit-info-value" id="unit-size">—</span>
         </div>
+        <div class="unit-info-row" id="unit-row-sources" style="display: none;">
+          <span class="unit-info-label">SOURCES</span>
+          <span class="unit-info-value" id="unit-sources">—</span>
+        </div>
+      </div>
+      <!-- Properties of a clicked imported-overlay feature -->
+      <div class="unit-info-body hidden" id="feature-info-body"></div>
+    </div>
+
+    <!-- Geofence alert panel (next to the unit info panel) -->
+    <div id="alert-panel" class="hidden">
+      <div class="alert-panel-header">
+        <span class="alert-panel-title">ALERTS</span>
+        <span class="alert-panel-count" id="alert-count">0</span>
+        <button class="alert-panel-clear" id="alert-clear" type="button">CLEAR</button>
+      </div>
+      <div class="alert-panel-list" id="alert-list"></div>
+    </div>
+
+    <!-- Satellite pass prediction table -->
+    <div id="pass-panel" class="hidden">
+      <div class="alert-panel-header">
+        <span class="pass-panel-title">PASSES</span>
+        <span class="alert-panel-count" id="pass-count">0</span>
+        <button class="alert-panel-clear" id="pass-clear" type="button">CLEAR</button>
+      </div>
+      <div class="pass-row pass-header" id="pass-header"></div>
+      <div class="pass-panel-list" id="pass-list"></div>
+    </div>
+
+    <!-- Satellite conjunction list -->
+    <div id="conjunction-panel" class="hidden">
+      <div class="alert-panel-header">
+        <span class="conjunction-panel-title">CONJUNCTIONS</span>
+        <span class="alert-panel-count" id="conjunction-count">0</span>
+        <button class="alert-panel-clear" id="conjunction-clear" type="button">CLEAR</button>
+      </div>
+      <div class="conjunction-row pass-header" id="conjunction-header"></div>
+      <div class="pass-panel-list" id="conjunction-list"></div>
+    </div>
+
+    <!-- Vessel collision risk list -->
+    <div id="collision-panel" class="hidden">
+      <div class="alert-panel-header">
+        <span class="collision-panel-title">COLLISION RISK</span>
+        <span class="alert-panel-count" id="collision-count">0</span>
+        <button class="alert-panel-clear" id="collision-clear" type="button">CLEAR</button>
+      </div>
+      <div class="collision-row pass-header" id="collision-header"></div>
+      <div class="pass-panel-list" id="collision-list"></div>
+    </div>
+
+    <!-- Feed health dashboard (toggled from the Sources section) -->
+    <div id="feed-health-panel" class="hidden">
+      <div class="alert-panel-header">
+        <span class="feed-health-title">FEED HEALTH</span>
+        <button class="alert-panel-clear" id="feed-health-close" type="button">CLOSE</button>
+      </div>
+      <div class="feed-health-list" id="feed-health-list"></div>
+    </div>
+
+    <!-- Airport arrivals/departures board -->
+    <div id="airport-board" class="hidden">
+      <div class="alert-panel-header">
+        <span class="board-panel-title">BOARD</span>
+        <span class="alert-panel-count" id="airport-board-title"></span>
       </div>
+      <div class="board-section">ARRIVALS <span id="airport-arrivals-count">0</span></div>
+      <div class="board-list" id="airport-arrivals"></div>
+      <div class="board-section">DEPARTURES <span id="airport-departures-count">0</span></div>
+      <div class="board-list" id="airport-departures"></div>
     </div>
 
     <!-- Drone video feed panel -->
@@ -7,6 +7,7 @@
 
 import * as THREE from "three";
 import { EARTH_RADIUS } from "../constants";
+import { unitStyleParams, getUnitLegends, onUnitLegendChanged } from "../units/styling";
 
 // =============================================================================
 // OVERLAY HTML TEMPLATE
@@ -512,3 +513,75 @@ export function updateUnitInfoAirport(
   unitSpdEl.textContent = "—";
   unitAltEl.textContent = "—";
 }
+
+// =============================================================================
+// UNIT COLOR LEGEND
+// =============================================================================
+
+let unitLegend: HTMLElement | null = null;
+
+/**
+ * Bind the color-by-attribute legend (#unit-legend, created by
+ * createMainOverlay()) and rebuild it whenever a scale or palette changes.
+ */
+export function initUnitLegend(): void {
+  unitLegend = document.getElementById("unit-legend");
+  onUnitLegendChanged(renderUnitLegend);
+  renderUnitLegend();
+}
+
+/**
+ * Rebuild the legend from the active scales; hidden when none are active.
+ */
+export function renderUnitLegend(): void {
+  if (!unitLegend) return;
+
+  const legends = getUnitLegends();
+  unitLegend.replaceChildren();
+  unitLegend.classList.toggle("hidden", !unitStyleParams.showLegend || legends.length === 0);
+
+  for (const legend of legends) {
+    const section = document.createElement("div");
+
+    const header = document.createElement("div");
+    header.className = "legend-header";
+    const title = document.createElement("span");
+    title.className = "legend-title";
+    title.textContent = `${legend.unitType === "ship" ? "SHIPS" : "AIRCRAFT"} · ${legend.title}`;
+    header.appendChild(title);
+    section.appendChild(header);
+
+    if (legend.gradient && legend.rangeLabels) {
+      const bar = document.createElement("div");
+      bar.className = "legend-bar";
+      bar.style.background = legend.gradient;
+      const labels = document.createElement("div");
+      labels.className = "legend-labels";
+      for (const text of legend.rangeLabels) {
+        const label = document.createElement("span");
+        label.textContent = text;
+        labels.appendChild(label);
+      }
+      section.append(bar, labels);
+    }
+
+    if (legend.entries.length > 0) {
+      const swatches = document.createElement("div");
+      swatches.className = "legend-swatches";
+      for (const entry of legend.entries) {
+        const row = document.createElement("div");
+        row.className = "legend-swatch-row";
+        const swatch = document.createElement("span");
+        swatch.className = "legend-swatch";
+        swatch.style.background = entry.color;
+        const label = document.createElement("span");
+        label.textContent = entry.label;
+        row.append(swatch, label);
+        swatches.appendChild(row);
+      }
+      section.appendChild(swatches);
+    }
+
+    unitLegend.appendChild(section);
+  }
+}
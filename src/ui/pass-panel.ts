@@ -0,0 +1,163 @@
+/**
+ * Satellite Pass Panel
+ *
+ * Sortable table of predicted passes (bottom-right). Clicking a column header
+ * sorts by it; clicking a row highlights that pass's ground track.
+ */
+
+import {
+  getPasses,
+  getSelectedPass,
+  selectPass,
+  clearPasses,
+  onPassesChanged,
+  type PredictedPass,
+} from "../passes";
+
+/** Rows rendered at once */
+const MAX_VISIBLE_PASSES = 200;
+
+type SortKey = "name" | "aos" | "duration" | "maxElevation" | "illumination";
+
+interface Column {
+  key: SortKey;
+  label: string;
+}
+
+const COLUMNS: Column[] = [
+  { key: "name", label: "SATELLITE" },
+  { key: "aos", label: "AOS (UTC)" },
+  { key: "duration", label: "DUR" },
+  { key: "maxElevation", label: "MAX EL" },
+  { key: "illumination", label: "SUN" },
+];
+
+const COMPASS_POINTS = ["N", "NE", "E", "SE", "S", "SW", "W", "NW"];
+
+let passPanel: HTMLElement | null = null;
+let passHeader: HTMLElement | null = null;
+let passList: HTMLElement | null = null;
+let passCount: HTMLElement | null = null;
+
+let sortKey: SortKey = "aos";
+let sortAscending = true;
+
+/**
+ * Bind the panel DOM and subscribe to pass results.
+ * Call after createMainOverlay().
+ */
+export function initPassPanel(): void {
+  passPanel = document.getElementById("pass-panel");
+  passHeader = document.getElementById("pass-header");
+  passList = document.getElementById("pass-list");
+  passCount = document.getElementById("pass-count");
+
+  document.getElementById("pass-clear")?.addEventListener("click", () => clearPasses());
+
+  onPassesChanged(renderPasses);
+  renderPasses();
+}
+
+function renderPasses(): void {
+  if (!passPanel || !passList) return;
+
+  const passes = getPasses();
+  passPanel.classList.toggle("hidden", passes.length === 0);
+  if (passCount) passCount.textContent = String(passes.length);
+
+  renderHeader();
+
+  const selected = getSelectedPass();
+  const sorted = [...passes].sort(comparePasses);
+  passList.replaceChildren(
+    ...sorted.slice(0, MAX_VISIBLE_PASSES).map((pass) => createPassRow(pass, pass === selected))
+  );
+}
+
+function renderHeader(): void {
+  if (!passHeader) return;
+
+  passHeader.replaceChildren(
+    ...COLUMNS.map((column) => {
+      const cell = document.createElement("span");
+      cell.className = column.key === sortKey ? "pass-col sorted" : "pass-col";
+      cell.textContent = column.key === sortKey ? `${column.label} ${sortAscending ? "▲" : "▼"}` : column.label;
+      cell.addEventListener("click", () => {
+        if (sortKey === column.key) {
+          sortAscending = !sortAscending;
+        } else {
+          sortKey = column.key;
+          // Highest elevation / longest pass first is the useful default
+          sortAscending = column.key !== "maxElevation" && column.key !== "duration";
+        }
+        renderPasses();
+      });
+      return cell;
+    })
+  );
+}
+
+function comparePasses(a: PredictedPass, b: PredictedPass): number {
+  let result: number;
+  switch (sortKey) {
+    case "name":
+      result = a.name.localeCompare(b.name);
+      break;
+    case "duration":
+      result = a.los - a.aos - (b.los - b.aos);
+      break;
+    case "maxElevation":
+      result = a.maxElevation - b.maxElevation;
+      break;
+    case "illumination":
+      result = a.illumination.localeCompare(b.illumination);
+      break;
+    default:
+      result = a.aos - b.aos;
+  }
+  if (result === 0) result = a.aos - b.aos;
+  return sortAscending ? result : -result;
+}
+
+function createPassRow(pass: PredictedPass, selected: boolean): HTMLElement {
+  const row = document.createElement("div");
+  row.className = selected ? "pass-row selected" : "pass-row";
+  row.title =
+    `TCA ${formatTime(pass.tca)} · LOS ${formatTime(pass.los)}\n` +
+    `Az ${Math.round(pass.aosAzimuth)}° → ${Math.round(pass.tcaAzimuth)}° → ${Math.round(pass.losAzimuth)}°`;
+
+  const name = document.createElement("span");
+  name.className = "pass-name";
+  name.textContent = pass.name;
+
+  const aos = document.createElement("span");
+  aos.className = "pass-time";
+  aos.textContent = formatTime(pass.aos);
+
+  const duration = document.createElement("span");
+  duration.className = "pass-value";
+  const seconds = Math.round((pass.los - pass.aos) / 1000);
+  duration.textContent = `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+
+  const elevation = document.createElement("span");
+  elevation.className = "pass-value";
+  elevation.textContent = `${Math.round(pass.maxElevation)}° ${compassPoint(pass.tcaAzimuth)}`;
+
+  const sun = document.createElement("span");
+  sun.className = `pass-sun ${pass.illumination}`;
+  sun.textContent = pass.illumination === "sunlit" ? "LIT" : pass.illumination === "eclipsed" ? "ECL" : "PART";
+
+  row.append(name, aos, duration, elevation, sun);
+  row.addEventListener("click", () => selectPass(selected ? null : pass.id));
+  return row;
+}
+
+/** "MM-DD HH:MM:SS" in UTC */
+function formatTime(time: number): string {
+  const iso = new Date(time).toISOString();
+  return `${iso.slice(5, 10)} ${iso.slice(11, 19)}`;
+}
+
+function compassPoint(azimuth: number): string {
+  return COMPASS_POINTS[Math.round((((azimuth % 360) + 360) % 360) / 45) % 8];
+}
@@ -0,0 +1,189 @@
+/**
+ * Unit Search Panel
+ *
+ * Search box (top-center) with a results list. Choosing a result selects the
+ * unit through the normal selection flow and flies the camera to it.
+ * Press "/" to focus the box, arrows to move, Enter to choose, Escape to close.
+ */
+
+import { SHIP_ALTITUDE, AIRCRAFT_ALTITUDE } from "../constants";
+import { state, resolveUnitIndex, aircraftSelectionId } from "../state";
+import { AIRPORTS } from "../data/airports";
+import { searchUnits, type SearchResult } from "../search";
+import { selectUnit, getUnitTypeInfo } from "../selection/index";
+import { flyToLatLon, type CameraTargetGetter } from "../camera/controls";
+
+/** Delay between the last keystroke and running the search */
+const SEARCH_DEBOUNCE_MS = 150;
+
+/** Camera height above surface units after flying to them */
+const SURFACE_VIEW_ALTITUDE_KM = 800;
+
+/** Camera height above satellites after flying to them */
+const SATELLITE_VIEW_ALTITUDE_KM = 2000;
+
+let searchInput: HTMLInputElement | null = null;
+let resultsEl: HTMLElement | null = null;
+let results: SearchResult[] = [];
+let activeIndex = 0;
+let debounceTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Bind the search DOM. Call after createMainOverlay().
+ */
+export function initSearchPanel(): void {
+  searchInput = document.getElementById("unit-search-input") as HTMLInputElement | null;
+  resultsEl = document.getElementById("unit-search-results");
+  if (!searchInput || !resultsEl) return;
+
+  searchInput.addEventListener("input", () => {
+    if (debounceTimer) clearTimeout(debounceTimer);
+    debounceTimer = setTimeout(runSearch, SEARCH_DEBOUNCE_MS);
+  });
+  searchInput.addEventListener("keydown", onInputKeyDown);
+  searchInput.addEventListener("focus", () => {
+    if (results.length > 0) resultsEl?.classList.remove("hidden");
+  });
+  searchInput.addEventListener("blur", () => {
+    // Delay so a click on a result row lands before the list hides
+    setTimeout(() => resultsEl?.classList.add("hidden"), 150);
+  });
+
+  window.addEventListener("keydown", (event) => {
+    if (event.key !== "/" || !searchInput) return;
+    const target = event.target as HTMLElement;
+    if (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable) return;
+    event.preventDefault();
+    searchInput.focus();
+    searchInput.select();
+  });
+}
+
+function runSearch(): void {
+  if (!searchInput) return;
+  results = searchUnits(searchInput.value);
+  activeIndex = 0;
+  renderResults();
+}
+
+function onInputKeyDown(event: KeyboardEvent): void {
+  switch (event.key) {
+    case "ArrowDown":
+      event.preventDefault();
+      if (results.length > 0) activeIndex = (activeIndex + 1) % results.length;
+      renderResults();
+      break;
+    case "ArrowUp":
+      event.preventDefault();
+      if (results.length > 0) activeIndex = (activeIndex - 1 + results.length) % results.length;
+      renderResults();
+      break;
+    case "Enter":
+      // Run a pending search immediately so Enter never acts on stale results
+      if (debounceTimer) {
+        clearTimeout(debounceTimer);
+        debounceTimer = null;
+        runSearch();
+      }
+      if (results[activeIndex]) chooseResult(results[activeIndex]);
+      break;
+    case "Escape":
+      searchInput?.blur();
+      break;
+  }
+}
+
+function renderResults(): void {
+  if (!resultsEl) return;
+
+  resultsEl.classList.toggle("hidden", results.length === 0);
+  resultsEl.replaceChildren(
+    ...results.map((result, i) => {
+      const row = document.createElement("div");
+      row.className = i === activeIndex ? "search-result active" : "search-result";
+
+      const type = document.createElement("span");
+      const typeInfo = getUnitTypeInfo(result.type);
+      type.className = `search-result-type ${typeInfo.cssClass}`;
+      type.textContent = typeInfo.label;
+
+      const label = document.createElement("span");
+      label.className = "search-result-label";
+      label.textContent = result.label;
+
+      const detail = document.createElement("span");
+      detail.className = "search-result-detail";
+      detail.textContent = result.detail;
+
+      row.append(type, label, detail);
+      // mousedown fires before the input's blur hides the list
+      row.addEventListener("mousedown", (event) => {
+        event.preventDefault();
+        chooseResult(result);
+      });
+      return row;
+    })
+  );
+}
+
+/**
+ * Select a result and fly the camera to it, following the unit while in flight.
+ */
+function chooseResult(result: SearchResult): void {
+  const index = resolveIndex(result);
+  if (index < 0) return;
+
+  selectUnit(result.type, index);
+
+  const track = createTracker(result, index);
+  const position = track();
+  if (position) {
+    flyToLatLon(position.lat, position.lon, {
+      altitude: position.altitude,
+      viewAltitudeKm: result.type === "satellite" ? SATELLITE_VIEW_ALTITUDE_KM : SURFACE_VIEW_ALTITUDE_KM,
+      track,
+    });
+  }
+
+  resultsEl?.classList.add("hidden");
+  searchInput?.blur();
+}
+
+/**
+ * Current index of a search result's unit, which may have moved since the search.
+ */
+function resolveIndex(result: SearchResult): number {
+  switch (result.type) {
+    case "ship":
+      return resolveUnitIndex(state.ships, result.index, (s) => s.mmsi === result.id);
+    case "aircraft":
+      return resolveUnitIndex(state.aircraft, result.index, (a) => aircraftSelectionId(a) === result.id);
+    case "satellite":
+      return resolveUnitIndex(state.satellites, result.index, (s) => s.name === result.id);
+    case "airport":
+      return result.index;
+    default:
+      return -1;
+  }
+}
+
+function createTracker(result: SearchResult, index: number): CameraTargetGetter {
+  switch (result.type) {
+    case "ship": {
+      const ship = state.ships[index];
+      return () => ({ lat: ship.lat, lon: ship.lon, altitude: SHIP_ALTITUDE });
+    }
+    case "aircraft": {
+      const ac = state.aircraft[index];
+      return () => ({ lat: ac.lat, lon: ac.lon, altitude: AIRCRAFT_ALTITUDE });
+    }
+    case "satellite": {
+      const sat = state.satellites[index];
+      return () => ({ lat: sat.lat, lon: sat.lon, altitude: sat.altitude });
+    }
+    default: {
+      const airport = AIRPORTS[index];
+      return () => (airport ? { lat: airport.lat, lon: airport.lon, altitude: 0 } : null);
+    }
+  }
+}
@@ -11,6 +11,8 @@ import { state } from "../state";
 import { unitCountParams } from "../simulation/demo-data";
 import type { ShipState, AircraftState, SatelliteState, DroneState } from "../types";
 import { isSatelliteVisibleByFilters } from "../utils/satellite-visibility";
+import { unitMatchesFilter, isFilterQueryActive } from "../filters";
+import { isUnitColoringActive, writeUnitColor } from "./styling";
 
 // =============================================================================
 // PARAMETERS
@@ -24,7 +26,7 @@ export const iconScaleParams = {
 /**
  * Check if a ship passes the current visibility filters
  */
-function isShipVisible(ship: ShipState): boolean {
+export function isShipVisible(ship: ShipState): boolean {
   const { showHighSpeedShips, showExtendedDataShips } = unitCountParams;
 
   // Filter by speed: only show ships going faster than 25 knots
@@ -40,7 +42,7 @@ function isShipVisible(ship: ShipState): boolean {
     }
   }
 
-  return true;
+  return unitMatchesFilter("ship", ship);
 }
 
 // =============================================================================
@@ -53,11 +55,16 @@ interface GeometryUserData {
   headingArray: Float32Array;
   scaleArray: Float32Array;
   altitudeArray: Float32Array;
+  predictedArray: Float32Array;
+  /** rgb per instance (color-by-attribute) */
+  colorArray: Float32Array;
   latAttr: THREE.InstancedBufferAttribute;
   lonAttr: THREE.InstancedBufferAttribute;
   headingAttr: THREE.InstancedBufferAttribute;
   scaleAttr: THREE.InstancedBufferAttribute;
   altitudeAttr: THREE.InstancedBufferAttribute;
+  predictedAttr: THREE.InstancedBufferAttribute;
+  colorAttr: THREE.InstancedBufferAttribute;
 }
 
 interface AttributeDependencies {
@@ -115,9 +122,10 @@ export function updateShipAttributes(): void {
   if (!deps) return;
 
   const userData = deps.shipGeometry.userData as GeometryUserData;
-  const { latArray, lonArray, headingArray, scaleArray, latAttr, lonAttr, headingAttr, scaleAttr } = userData;
+  const { latArray, lonArray, headingArray, scaleArray, predictedArray, colorArray, latAttr, lonAttr, headingAttr, scaleAttr, predictedAttr, colorAttr } = userData;
   const shipSimState = deps.getShipSimState();
   const count = Math.min(shipSimState.length, MAX_SHIPS);
+  const colored = isUnitColoringActive("ship");
 
   for (let i = 0; i < count; i++) {
     const ship = shipSimState[i];
@@ -127,6 +135,8 @@ export function updateShipAttributes(): void {
     lonArray[i] = ship.lon;
     headingArray[i] = ship.heading;
     scaleArray[i] = visible ? ship.scale * state.currentIconScale : 0;
+    predictedArray[i] = ship.predicted ? 1 : 0;
+    if (colored) writeUnitColor("ship", ship, colorArray, i);
   }
 
   // Mark for partial update (only upload active units)
@@ -134,6 +144,8 @@ export function updateShipAttributes(): void {
   markAttributeForUpdate(lonAttr, count);
   markAttributeForUpdate(headingAttr, count);
   markAttributeForUpdate(scaleAttr, count);
+  markAttributeForUpdate(predictedAttr, count);
+  if (colored) markAttributeForUpdate(colorAttr, count * 3);
 
   deps.shipGeometry.instanceCount = count;
 }
@@ -145,16 +157,21 @@ export function updateAircraftAttributes(): void {
   if (!deps) return;
 
   const userData = deps.aircraftGeometry.userData as GeometryUserData;
-  const { latArray, lonArray, headingArray, scaleArray, latAttr, lonAttr, headingAttr, scaleAttr } = userData;
+  const { latArray, lonArray, headingArray, scaleArray, predictedArray, colorArray, latAttr, lonAttr, headingAttr, scaleAttr, predictedAttr, colorAttr } = userData;
   const aircraftSimState = deps.getAircraftSimState();
   const count = Math.min(aircraftSimState.length, MAX_AIRCRAFT);
+  const colored = isUnitColoringActive("aircraft");
 
   for (let i = 0; i < count; i++) {
     const aircraft = aircraftSimState[i];
+    const visible = unitMatchesFilter("aircraft", aircraft);
+
     latArray[i] = aircraft.lat;
     lonArray[i] = aircraft.lon;
     headingArray[i] = aircraft.heading;
-    scaleArray[i] = aircraft.scale * state.currentIconScale;
+    scaleArray[i] = visible ? aircraft.scale * state.currentIconScale : 0;
+    predictedArray[i] = aircraft.predicted ? 1 : 0;
+    if (colored) writeUnitColor("aircraft", aircraft, colorArray, i);
   }
 
   // Mark for partial update (only upload active units)
@@ -162,6 +179,8 @@ export function updateAircraftAttributes(): void {
   markAttributeForUpdate(lonAttr, count);
   markAttributeForUpdate(headingAttr, count);
   markAttributeForUpdate(scaleAttr, count);
+  markAttributeForUpdate(predictedAttr, count);
+  if (colored) markAttributeForUpdate(colorAttr, count * 3);
 
   deps.aircraftGeometry.instanceCount = count;
 }
@@ -179,7 +198,7 @@ export function updateSatelliteAttributes(): void {
 
   for (let i = 0; i < count; i++) {
     const sat = satelliteSimState[i];
-    const visible = isSatelliteVisibleByFilters(sat, unitCountParams);
+    const visible = isSatelliteVisibleByFilters(sat, unitCountParams) && unitMatchesFilter("satellite", sat);
 
     latArray[i] = sat.lat;
     lonArray[i] = sat.lon;
@@ -211,10 +230,12 @@ export function updateDroneAttributes(): void {
 
   for (let i = 0; i < count; i++) {
     const drone = droneSimState[i];
+    const visible = unitMatchesFilter("drone", drone);
+
     latArray[i] = drone.lat;
     lonArray[i] = drone.lon;
     headingArray[i] = drone.heading;
-    scaleArray[i] = drone.scale * state.currentIconScale;
+    scaleArray[i] = visible ? drone.scale * state.currentIconScale : 0;
     altitudeArray[i] = drone.altitude;
   }
 
@@ -238,7 +259,7 @@ export function getVisibleShipCount(): number {
   const { showHighSpeedShips, showExtendedDataShips } = unitCountParams;
 
   // Optimization: If no filters, return total count
-  if (!showHighSpeedShips && !showExtendedDataShips) return count;
+  if (!showHighSpeedShips && !showExtendedDataShips && !isFilterQueryActive()) return count;
 
   let visibleCount = 0;
   for (let i = 0; i < count; i++) {
@@ -0,0 +1,313 @@
+/**
+ * Leader Lines
+ *
+ * Forward-looking lines showing where ships and aircraft will be in
+ * 5/15/30 minutes at their current heading and speed. Each unit type is one
+ * batched line mesh; opacity steps down at each horizon so the marks read
+ * along the line.
+ */
+
+import * as THREE from "three";
+import { EARTH_RADIUS, SHIP_ALTITUDE, AIRCRAFT_ALTITUDE } from "../constants";
+import { state } from "../state";
+import { predictPosition, type MotionAnchor } from "../utils/dead-reckoning";
+import { unitMatchesFilter } from "../filters";
+import { isShipVisible } from "./attributes";
+import type { ShipState, AircraftState } from "../types";
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Look-ahead horizons (minutes), nearest first */
+export const LEADER_HORIZONS_MINUTES = [5, 15, 30];
+
+/** Units per type that can carry a leader line */
+export const MAX_LEADER_UNITS = 20000;
+
+/** Milliseconds between leader rebuilds */
+export const LEADER_UPDATE_INTERVAL = 250;
+
+/** Units slower than this get no leader (knots) */
+const MIN_LEADER_SPEED = 0.5;
+
+/** Opacity of each horizon segment, nearest first */
+const SEGMENT_OPACITY = [0.9, 0.6, 0.35];
+
+const VERTICES_PER_UNIT = LEADER_HORIZONS_MINUTES.length * 2;
+
+// =============================================================================
+// LEADER SHADERS
+// =============================================================================
+
+/** Leader vertex shader - positions line vertices at lat/lon with altitude */
+export const LEADER_VERTEX_SHADER = `
+  attribute float aLat;
+  attribute float aLon;
+  attribute float aOpacity;
+  attribute float aAltitude;
+
+  uniform float uEarthRadius;
+
+  varying float vOpacity;
+
+  const float PI = 3.141592653589793;
+  const float DEG_TO_RAD = PI / 180.0;
+
+  void main() {
+    vOpacity = aOpacity;
+
+    float phi = (90.0 - aLat) * DEG_TO_RAD;
+    float theta = (aLon + 180.0) * DEG_TO_RAD;
+    float radius = uEarthRadius + aAltitude;
+
+    vec3 worldPosition = vec3(
+      -radius * sin(phi) * cos(theta),
+      radius * cos(phi),
+      radius * sin(phi) * sin(theta)
+    );
+
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(worldPosition, 1.0);
+  }
+`;
+
+/** Leader fragment shader - flat color with per-vertex opacity */
+export const LEADER_FRAGMENT_SHADER = `
+  uniform vec3 uColor;
+  uniform float uBaseOpacity;
+
+  varying float vOpacity;
+
+  void main() {
+    gl_FragColor = vec4(uColor, vOpacity * uBaseOpacity);
+  }
+`;
+
+// =============================================================================
+// LEADER MESH
+// =============================================================================
+
+/** Leader mesh references */
+export interface LeaderMeshRefs {
+  geometry: THREE.BufferGeometry;
+  latArray: Float32Array;
+  lonArray: Float32Array;
+  opacityArray: Float32Array;
+  altitudeArray: Float32Array;
+  latAttr: THREE.BufferAttribute;
+  lonAttr: THREE.BufferAttribute;
+  opacityAttr: THREE.BufferAttribute;
+  altitudeAttr: THREE.BufferAttribute;
+  material: THREE.ShaderMaterial;
+  mesh: THREE.LineSegments;
+}
+
+function createLeaderMesh(color: number, renderOrder: number, opacity: number): LeaderMeshRefs {
+  const maxVertices = MAX_LEADER_UNITS * VERTICES_PER_UNIT;
+  const geometry = new THREE.BufferGeometry();
+
+  const latArray = new Float32Array(maxVertices);
+  const lonArray = new Float32Array(maxVertices);
+  const opacityArray = new Float32Array(maxVertices);
+  const altitudeArray = new Float32Array(maxVertices);
+
+  const latAttr = new THREE.BufferAttribute(latArray, 1);
+  const lonAttr = new THREE.BufferAttribute(lonArray, 1);
+  const opacityAttr = new THREE.BufferAttribute(opacityArray, 1);
+  const altitudeAttr = new THREE.BufferAttribute(altitudeArray, 1);
+
+  latAttr.setUsage(THREE.DynamicDrawUsage);
+  lonAttr.setUsage(THREE.DynamicDrawUsage);
+  opacityAttr.setUsage(THREE.DynamicDrawUsage);
+  altitudeAttr.setUsage(THREE.DynamicDrawUsage);
+
+  geometry.setAttribute("aLat", latAttr);
+  geometry.setAttribute("aLon", lonAttr);
+  geometry.setAttribute("aOpacity", opacityAttr);
+  geometry.setAttribute("aAltitude", altitudeAttr);
+  geometry.setDrawRange(0, 0);
+
+  const material = new THREE.ShaderMaterial({
+    vertexShader: LEADER_VERTEX_SHADER,
+    fragmentShader: LEADER_FRAGMENT_SHADER,
+    uniforms: {
+      uEarthRadius: { value: EARTH_RADIUS },
+      uColor: { value: new THREE.Color(color) },
+      uBaseOpacity: { value: opacity },
+    },
+    transparent: true,
+    depthWrite: false,
+    blending: THREE.NormalBlending,
+  });
+
+  const mesh = new THREE.LineSegments(geometry, material);
+  mesh.frustumCulled = false;
+  mesh.renderOrder = renderOrder;
+
+  return {
+    geometry,
+    latArray,
+    lonArray,
+    opacityArray,
+    altitudeArray,
+    latAttr,
+    lonAttr,
+    opacityAttr,
+    altitudeAttr,
+    material,
+    mesh,
+  };
+}
+
+/**
+ * Create ship leader mesh.
+ */
+export function createShipLeaderMesh(opacity: number = 0.8): LeaderMeshRefs {
+  return createLeaderMesh(0x2dd4bf, 0.6, opacity); // Teal (matches ships), above trails
+}
+
+/**
+ * Create aircraft leader mesh.
+ */
+export function createAircraftLeaderMesh(opacity: number = 0.8): LeaderMeshRefs {
+  return createLeaderMesh(0xfbbf24, 1.9, opacity); // Amber (matches aircraft), above trails
+}
+
+// =============================================================================
+// LEADER PARAMETERS
+// =============================================================================
+
+export interface LeaderParams {
+  enabled: boolean;
+  shipLeaders: boolean;
+  aircraftLeaders: boolean;
+  /** Only draw the selected unit's leader */
+  selectedOnly: boolean;
+  opacity: number;
+}
+
+export const leaderParams: LeaderParams = {
+  enabled: false,
+  shipLeaders: true,
+  aircraftLeaders: true,
+  selectedOnly: false,
+  opacity: 0.8,
+};
+
+// =============================================================================
+// MAIN UPDATE FUNCTION
+// =============================================================================
+
+let lastLeaderUpdateTime = 0;
+
+/** Reused for every unit to avoid per-frame allocation */
+const anchor: MotionAnchor = { lat: 0, lon: 0, heading: 0, speed: 0, turnRate: 0 };
+
+/**
+ * Update leader lines (called from animation loop, throttled).
+ */
+export function update(
+  ships: ShipState[],
+  aircraft: AircraftState[],
+  shipLeaderRefs: LeaderMeshRefs,
+  aircraftLeaderRefs: LeaderMeshRefs
+): void {
+  if (!leaderParams.enabled) {
+    shipLeaderRefs.geometry.setDrawRange(0, 0);
+    aircraftLeaderRefs.geometry.setDrawRange(0, 0);
+    return;
+  }
+
+  const now = performance.now();
+  if (now - lastLeaderUpdateTime < LEADER_UPDATE_INTERVAL) return;
+  lastLeaderUpdateTime = now;
+
+  shipLeaderRefs.material.uniforms.uBaseOpacity.value = leaderParams.opacity;
+  aircraftLeaderRefs.material.uniforms.uBaseOpacity.value = leaderParams.opacity;
+
+  const selected = state.selectedUnit;
+  const selectedShip = selected?.type === "ship" ? selected.index : -1;
+  const selectedAircraft = selected?.type === "aircraft" ? selected.index : -1;
+
+  writeLeaders(
+    shipLeaderRefs,
+    ships,
+    (ship) => ship.sog,
+    isShipVisible,
+    SHIP_ALTITUDE,
+    leaderParams.shipLeaders && state.unitCounts.showShips,
+    selectedShip
+  );
+  writeLeaders(
+    aircraftLeaderRefs,
+    aircraft,
+    (ac) => ac.groundSpeed,
+    (ac) => unitMatchesFilter("aircraft", ac),
+    AIRCRAFT_ALTITUDE,
+    leaderParams.aircraftLeaders && state.unitCounts.showAircraft,
+    selectedAircraft
+  );
+}
+
+/**
+ * Write one unit type's leader segments into its GPU buffers. Units hidden by
+ * the category toggles or the filter query get no leader.
+ */
+function writeLeaders<T extends ShipState | AircraftState>(
+  refs: LeaderMeshRefs,
+  units: T[],
+  getSpeed: (unit: T) => number,
+  isVisible: (unit: T) => boolean,
+  altitude: number,
+  show: boolean,
+  selectedIndex: number
+): void {
+  if (!show || (leaderParams.selectedOnly && selectedIndex < 0)) {
+    refs.geometry.setDrawRange(0, 0);
+    return;
+  }
+
+  const start = leaderParams.selectedOnly ? selectedIndex : 0;
+  const end = leaderParams.selectedOnly ? selectedIndex + 1 : units.length;
+  let vertex = 0;
+  let leaders = 0;
+
+  for (let i = start; i < end && leaders < MAX_LEADER_UNITS; i++) {
+    const unit = units[i];
+    if (!unit) continue;
+    const speed = getSpeed(unit);
+    if (!(speed >= MIN_LEADER_SPEED) || !isVisible(unit)) continue;
+
+    anchor.lat = unit.lat;
+    anchor.lon = unit.lon;
+    anchor.heading = unit.heading;
+    anchor.speed = speed;
+
+    let fromLat = unit.lat;
+    let fromLon = unit.lon;
+    for (let h = 0; h < LEADER_HORIZONS_MINUTES.length; h++) {
+      const to = predictPosition(anchor, LEADER_HORIZONS_MINUTES[h] * 60, "constant-velocity");
+      // Don't draw across the antimeridian (the segment would wrap the globe)
+      if (Math.abs(to.lon - fromLon) > 180) break;
+
+      writeVertex(refs, vertex++, fromLat, fromLon, altitude, SEGMENT_OPACITY[h]);
+      writeVertex(refs, vertex++, to.lat, to.lon, altitude, SEGMENT_OPACITY[h]);
+      fromLat = to.lat;
+      fromLon = to.lon;
+    }
+    leaders++;
+  }
+
+  refs.latAttr.needsUpdate = true;
+  refs.lonAttr.needsUpdate = true;
+  refs.opacityAttr.needsUpdate = true;
+  refs.altitudeAttr.needsUpdate = true;
+  refs.geometry.setDrawRange(0, vertex);
+}
+
+function writeVertex(refs: LeaderMeshRefs, index: number, lat: number, lon: number, altitude: number, opacity: number): void {
+  refs.latArray[index] = lat;
+  refs.lonArray[index] = lon;
+  refs.altitudeArray[index] = altitude;
+  refs.opacityArray[index] = opacity;
+}
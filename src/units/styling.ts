@@ -0,0 +1,389 @@
+/**
+ * Color-by-Attribute Styling
+ *
+ * Maps a ship or aircraft attribute to a color ramp (speed, altitude, data
+ * age) or a categorical palette (ship category, country, aircraft category,
+ * feed source). Colors are written per instance into the `aColor` attribute
+ * by units/attributes.ts; the legend panel reads getUnitLegends().
+ */
+
+import * as THREE from "three";
+import { aircraftFeedParams, aisFeedParams, type FeedMode } from "../feeds/shared";
+import { shipMaterial, aircraftMaterial } from "./visuals";
+import type { ShipState, AircraftState } from "../types";
+
+// =============================================================================
+// TYPES & PARAMETERS
+// =============================================================================
+
+export type ShipColorBy = "none" | "category" | "speed" | "country" | "dataAge" | "source";
+export type AircraftColorBy = "none" | "altitude" | "speed" | "country" | "category" | "dataAge" | "source";
+export type StyledUnitType = "ship" | "aircraft";
+
+export interface UnitStyleParams {
+  shipColorBy: ShipColorBy;
+  aircraftColorBy: AircraftColorBy;
+  /** Show the legend panel while any coloring is active */
+  showLegend: boolean;
+}
+
+export const unitStyleParams: UnitStyleParams = {
+  shipColorBy: "none",
+  aircraftColorBy: "none",
+  showLegend: true,
+};
+
+/** Legend description of the active scale for one unit type */
+export interface UnitLegend {
+  unitType: StyledUnitType;
+  title: string;
+  /** Continuous ramp: CSS gradient and end labels */
+  gradient?: string;
+  rangeLabels?: [string, string];
+  /** Categorical palette (or extra swatches such as "NO DATA" below a ramp) */
+  entries: Array<{ label: string; color: string }>;
+}
+
+interface RampStop {
+  value: number;
+  color: string;
+}
+
+interface RampScale {
+  kind: "ramp";
+  title: string;
+  stops: RampStop[];
+  rangeLabels: [string, string];
+  value: (unit: any) => number | undefined;
+}
+
+interface CategoricalScale {
+  kind: "categorical";
+  title: string;
+  category: (unit: any) => string | undefined;
+  /** Fixed palette; when absent the most common categories get PALETTE colors */
+  fixed?: Array<{ label: string; color: string }>;
+}
+
+type ColorScale = RampScale | CategoricalScale;
+
+/** Real time between category palette refreshes (ms) */
+const CATEGORY_REFRESH_MS = 1000;
+
+/** Categories with their own color before the rest fall into "OTHER" */
+const MAX_CATEGORIES = 9;
+
+const PALETTE = ["#38bdf8", "#f472b6", "#a3e635", "#fb923c", "#c084fc", "#facc15", "#2dd4bf", "#f87171", "#818cf8"];
+const OTHER_COLOR = "#94a3b8";
+const NO_DATA_COLOR = "#475569";
+
+const SHIP_CATEGORY_LABELS = ["OTHER", "CARGO", "TANKER", "PASSENGER", "FISHING", "MILITARY", "PLEASURE"];
+
+// =============================================================================
+// SCALES
+// =============================================================================
+
+const dataAgeScale: RampScale = {
+  kind: "ramp",
+  title: "DATA AGE",
+  stops: [
+    { value: 0, color: "#22c55e" },
+    { value: 60, color: "#facc15" },
+    { value: 300, color: "#ef4444" },
+  ],
+  rangeLabels: ["NOW", "5 MIN+"],
+  value: (unit: ShipState | AircraftState) =>
+    unit.lastUpdate ? Math.max(0, Date.now() / 1000 - unit.lastUpdate) : undefined,
+};
+
+const SHIP_SCALES: Record<Exclude<ShipColorBy, "none">, ColorScale> = {
+  category: {
+    kind: "categorical",
+    title: "SHIP CATEGORY",
+    category: (ship: ShipState) => SHIP_CATEGORY_LABELS[ship.shipType ?? 0] ?? "OTHER",
+    fixed: [
+      { label: "CARGO", color: "#22c55e" },
+      { label: "TANKER", color: "#ef4444" },
+      { label: "PASSENGER", color: "#3b82f6" },
+      { label: "FISHING", color: "#f97316" },
+      { label: "MILITARY", color: "#e2e8f0" },
+      { label: "PLEASURE", color: "#d946ef" },
+      { label: "OTHER", color: OTHER_COLOR },
+    ],
+  },
+  speed: {
+    kind: "ramp",
+    title: "SPEED (KTS)",
+    stops: [
+      { value: 0, color: "#1e3a8a" },
+      { value: 10, color: "#0ea5e9" },
+      { value: 20, color: "#facc15" },
+      { value: 30, color: "#ef4444" },
+    ],
+    rangeLabels: ["0", "30+"],
+    value: (ship: ShipState) => ship.sog,
+  },
+  country: {
+    kind: "categorical",
+    title: "FLAG",
+    category: (ship: ShipState) => ship.country?.toUpperCase(),
+  },
+  dataAge: dataAgeScale,
+  source: {
+    kind: "categorical",
+    title: "FEED SOURCE",
+    category: (ship: ShipState) => sourceCategory(ship, aisFeedParams),
+  },
+};
+
+const AIRCRAFT_SCALES: Record<Exclude<AircraftColorBy, "none">, ColorScale> = {
+  altitude: {
+    kind: "ramp",
+    title: "ALTITUDE (FT)",
+    stops: [
+      { value: 0, color: "#f97316" },
+      { value: 10000, color: "#facc15" },
+      { value: 20000, color: "#4ade80" },
+      { value: 30000, color: "#22d3ee" },
+      { value: 40000, color: "#a78bfa" },
+    ],
+    rangeLabels: ["GND", "40,000+"],
+    value: (ac: AircraftState) => ac.altitude,
+  },
+  speed: {
+    kind: "ramp",
+    title: "GROUND SPEED (KTS)",
+    stops: [
+      { value: 0, color: "#1e3a8a" },
+      { value: 200, color: "#0ea5e9" },
+      { value: 400, color: "#facc15" },
+      { value: 600, color: "#ef4444" },
+    ],
+    rangeLabels: ["0", "600+"],
+    value: (ac: AircraftState) => ac.groundSpeed,
+  },
+  country: {
+    kind: "categorical",
+    title: "ORIGIN COUNTRY",
+    category: (ac: AircraftState) => ac.originCountry?.toUpperCase(),
+  },
+  category: {
+    kind: "categorical",
+    title: "AIRCRAFT CATEGORY",
+    category: (ac: AircraftState) => ac.aircraftType?.toUpperCase(),
+  },
+  dataAge: dataAgeScale,
+  source: {
+    kind: "categorical",
+    title: "FEED SOURCE",
+    category: (ac: AircraftState) => sourceCategory(ac, aircraftFeedParams),
+  },
+};
+
+/**
+ * Feed source of a unit. A layer merged from runtime sources lists each
+ * unit's contributors; otherwise one built-in feed supplies the whole layer.
+ */
+function sourceCategory(unit: ShipState | AircraftState, feedParams: { mode: FeedMode; source: string }): string | undefined {
+  if (feedParams.mode !== "sources") {
+    return (feedParams.mode === "live" ? feedParams.source : feedParams.mode).toUpperCase();
+  }
+  const sources = unit.sources;
+  if (!sources?.length) return undefined;
+  return (sources.length === 1 ? sources[0] : [...sources].sort().join(" + ")).toUpperCase();
+}
+
+// =============================================================================
+// STATE
+// =============================================================================
+
+interface ActiveScale {
+  scale: ColorScale;
+  /** Ramp stops converted to linear RGB */
+  rampColors: THREE.Color[];
+  /** Category -> color for categorical scales */
+  categoryColors: Map<string, THREE.Color>;
+  legendEntries: Array<{ label: string; color: string }>;
+}
+
+const active: Record<StyledUnitType, ActiveScale | null> = { ship: null, aircraft: null };
+const legendListeners = new Set<() => void>();
+let lastCategoryRefresh = 0;
+
+const otherColor = new THREE.Color(OTHER_COLOR);
+const noDataColor = new THREE.Color(NO_DATA_COLOR);
+const _color = new THREE.Color();
+
+export function onUnitLegendChanged(listener: () => void): void {
+  legendListeners.add(listener);
+}
+
+function notifyLegendChanged(): void {
+  for (const listener of legendListeners) listener();
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Switch the coloring for one unit type ("none" restores the type color).
+ */
+export function applyUnitColorBy(type: StyledUnitType): void {
+  const mode = type === "ship" ? unitStyleParams.shipColorBy : unitStyleParams.aircraftColorBy;
+  const scale = mode === "none"
+    ? null
+    : type === "ship" ? SHIP_SCALES[mode as Exclude<ShipColorBy, "none">] : AIRCRAFT_SCALES[mode as Exclude<AircraftColorBy, "none">];
+
+  const material = type === "ship" ? shipMaterial : aircraftMaterial;
+  material.uniforms.uInstanceColorMix.value = scale ? 1 : 0;
+
+  active[type] = scale
+    ? {
+        scale,
+        rampColors: scale.kind === "ramp" ? scale.stops.map((stop) => new THREE.Color(stop.color)) : [],
+        categoryColors: new Map(),
+        legendEntries: [],
+      }
+    : null;
+  if (scale?.kind === "categorical" && scale.fixed) {
+    for (const entry of scale.fixed) active[type]!.categoryColors.set(entry.label, new THREE.Color(entry.color));
+    active[type]!.legendEntries = scale.fixed;
+  }
+
+  lastCategoryRefresh = 0;
+  notifyLegendChanged();
+}
+
+export function isUnitColoringActive(type: StyledUnitType): boolean {
+  return active[type] !== null;
+}
+
+/**
+ * Write one unit's color into an instance color buffer (rgb at index * 3).
+ */
+export function writeUnitColor(type: StyledUnitType, unit: ShipState | AircraftState, out: Float32Array, index: number): void {
+  const entry = active[type];
+  if (!entry) return;
+
+  let color: THREE.Color;
+  if (entry.scale.kind === "ramp") {
+    color = rampColor(entry, unit);
+  } else {
+    const category = entry.scale.category(unit);
+    color = category ? entry.categoryColors.get(category) ?? otherColor : noDataColor;
+  }
+
+  out[index * 3] = color.r;
+  out[index * 3 + 1] = color.g;
+  out[index * 3 + 2] = color.b;
+}
+
+/**
+ * Re-rank dynamic categories (country, aircraft category, source) so the most
+ * common ones get palette colors. Throttled; call every frame.
+ */
+export function updateUnitStyles(ships: ShipState[], aircraft: AircraftState[]): void {
+  if (!active.ship && !active.aircraft) return;
+
+  const now = performance.now();
+  if (now - lastCategoryRefresh < CATEGORY_REFRESH_MS) return;
+  lastCategoryRefresh = now;
+
+  const shipChanged = refreshCategories(active.ship, ships);
+  const aircraftChanged = refreshCategories(active.aircraft, aircraft);
+  if (shipChanged || aircraftChanged) notifyLegendChanged();
+}
+
+/**
+ * Legends for every unit type with coloring active.
+ */
+export function getUnitLegends(): UnitLegend[] {
+  const legends: UnitLegend[] = [];
+
+  for (const unitType of ["ship", "aircraft"] as StyledUnitType[]) {
+    const entry = active[unitType];
+    if (!entry) continue;
+
+    const scale = entry.scale;
+    if (scale.kind === "ramp") {
+      const min = scale.stops[0].value;
+      const max = scale.stops[scale.stops.length - 1].value;
+      const gradientStops = scale.stops.map((stop) => `${stop.color} ${((stop.value - min) / (max - min)) * 100}%`);
+      legends.push({
+        unitType,
+        title: scale.title,
+        gradient: `linear-gradient(to right, ${gradientStops.join(", ")})`,
+        rangeLabels: scale.rangeLabels,
+        entries: [{ label: "NO DATA", color: NO_DATA_COLOR }],
+      });
+    } else {
+      legends.push({ unitType, title: scale.title, entries: entry.legendEntries });
+    }
+  }
+
+  return legends;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function rampColor(entry: ActiveScale, unit: ShipState | AircraftState): THREE.Color {
+  const scale = entry.scale as RampScale;
+  const value = scale.value(unit);
+  if (value === undefined || !Number.isFinite(value)) return noDataColor;
+
+  const stops = scale.stops;
+  if (value <= stops[0].value) return entry.rampColors[0];
+  for (let i = 1; i < stops.length; i++) {
+    if (value <= stops[i].value) {
+      const t = (value - stops[i - 1].value) / (stops[i].value - stops[i - 1].value);
+      return _color.copy(entry.rampColors[i - 1]).lerp(entry.rampColors[i], t);
+    }
+  }
+  return entry.rampColors[stops.length - 1];
+}
+
+/**
+ * Assign palette colors to the most common categories. A category keeps its
+ * color while it stays in the top set, so icons don't flicker as counts shift.
+ * Returns true if the legend changed.
+ */
+function refreshCategories(entry: ActiveScale | null, units: Array<ShipState | AircraftState>): boolean {
+  if (!entry || entry.scale.kind !== "categorical" || entry.scale.fixed) return false;
+  const scale = entry.scale;
+
+  const counts = new Map<string, number>();
+  for (const unit of units) {
+    const category = scale.category(unit);
+    if (category) counts.set(category, (counts.get(category) ?? 0) + 1);
+  }
+
+  const ranked = Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_CATEGORIES)
+    .map(([category]) => category);
+
+  const previous = entry.legendEntries.map((e) => `${e.label}:${e.color}`).join("|");
+
+  const assigned = new Map<string, string>();
+  for (const e of entry.legendEntries) {
+    if (ranked.includes(e.label)) assigned.set(e.label, e.color);
+  }
+  const freeColors = PALETTE.filter((color) => !Array.from(assigned.values()).includes(color));
+  for (const category of ranked) {
+    if (!assigned.has(category)) assigned.set(category, freeColors.shift()!);
+  }
+
+  entry.categoryColors.clear();
+  entry.legendEntries = ranked.map((category) => {
+    const color = assigned.get(category)!;
+    entry.categoryColors.set(category, new THREE.Color(color));
+    return { label: category, color };
+  });
+  if (counts.size > ranked.length) entry.legendEntries.push({ label: "OTHER", color: OTHER_COLOR });
+  if (counts.size === 0) entry.legendEntries.push({ label: "NO DATA", color: NO_DATA_COLOR });
+
+  return entry.legendEntries.map((e) => `${e.label}:${e.color}`).join("|") !== previous;
+}
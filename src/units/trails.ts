@@ -220,7 +220,7 @@ export function createAircraftTrailMesh(
 
 /** Trail history entry for a single unit */
 export interface TrailHistoryEntry {
-  positions: Array<{ lat: number; lon: number }>;
+  positions: Array<{ lat: number; lon: number; t?: number }>;
   headIndex: number;
 }
 
@@ -280,11 +280,13 @@ function latLonDistance(
 /**
  * Capture current positions into trail history.
  * Only adds new point if unit has moved enough from last captured position.
+ * Points are stamped with the simulation time so a rewind can discard them.
  */
 export function captureTrailPositions(
   historyState: TrailHistoryState,
   ships: ShipState[],
-  aircraft: AircraftState[]
+  aircraft: AircraftState[],
+  time: number = Date.now()
 ): void {
   // Capture ship positions
   for (let i = 0; i < historyState.shipHistory.length; i++) {
@@ -309,9 +311,9 @@ export function captureTrailPositions(
 
     if (shouldAdd) {
       if (trail.positions.length < TRAIL_LENGTH) {
-        trail.positions.push({ lat: ship.lat, lon: ship.lon });
+        trail.positions.push({ lat: ship.lat, lon: ship.lon, t: time });
       } else {
-        trail.positions[trail.headIndex] = { lat: ship.lat, lon: ship.lon };
+        trail.positions[trail.headIndex] = { lat: ship.lat, lon: ship.lon, t: time };
         trail.headIndex = (trail.headIndex + 1) % TRAIL_LENGTH;
       }
     }
@@ -338,15 +340,38 @@ export function captureTrailPositions(
 
     if (shouldAdd) {
       if (trail.positions.length < TRAIL_LENGTH) {
-        trail.positions.push({ lat: ac.lat, lon: ac.lon });
+        trail.positions.push({ lat: ac.lat, lon: ac.lon, t: time });
       } else {
-        trail.positions[trail.headIndex] = { lat: ac.lat, lon: ac.lon };
+        trail.positions[trail.headIndex] = { lat: ac.lat, lon: ac.lon, t: time };
         trail.headIndex = (trail.headIndex + 1) % TRAIL_LENGTH;
       }
     }
   }
 }
 
+/**
+ * Drop trail points captured after the given simulation time.
+ * Called when the timeline is rewound so trails don't show the future.
+ */
+export function truncateTrailHistory(historyState: TrailHistoryState, time: number): void {
+  const histories = [historyState.shipHistory, historyState.aircraftHistory];
+  for (const history of histories) {
+    for (const trail of history) {
+      const count = trail.positions.length;
+      if (count === 0) continue;
+
+      // Unroll the ring buffer oldest-first, keeping only points at or before time
+      const kept: TrailHistoryEntry["positions"] = [];
+      for (let j = 0; j < count; j++) {
+        const pos = trail.positions[(trail.headIndex + j) % count];
+        if (pos.t === undefined || pos.t <= time) kept.push(pos);
+      }
+      trail.positions = kept;
+      trail.headIndex = 0;
+    }
+  }
+}
+
 /**
  * Update ship trail GPU buffers from history.
  */
@@ -444,16 +469,21 @@ export const trailParams: TrailParams = {
 // =============================================================================
 
 let lastTrailUpdateTime = 0;
+let lastTrailSimTime = 0;
 
 /**
  * Update trails (called from animation loop, throttled).
+ *
+ * @param simTime - Current timeline time (unix ms); capture pauses while it
+ *                  stands still and later points are dropped when it rewinds
  */
 export function update(
   historyState: TrailHistoryState,
   ships: ShipState[],
   aircraft: AircraftState[],
   shipTrailRefs: TrailMeshRefs,
-  aircraftTrailRefs: TrailMeshRefs
+  aircraftTrailRefs: TrailMeshRefs,
+  simTime: number = Date.now()
 ) {
   if (!trailParams.enabled) {
     shipTrailRefs.geometryRefs.geometry.setDrawRange(0, 0);
@@ -474,7 +504,14 @@ export function update(
     historyState.activeAircraftCount = newState.activeAircraftCount;
   }
 
-  captureTrailPositions(historyState, ships, aircraft);
+  if (simTime < lastTrailSimTime) {
+    truncateTrailHistory(historyState, simTime);
+  }
+  if (simTime !== lastTrailSimTime) {
+    captureTrailPositions(historyState, ships, aircraft, simTime);
+  }
+  lastTrailSimTime = simTime;
+
   updateShipTrailAttributes(
     shipTrailRefs.geometryRefs,
     historyState,
@@ -29,6 +29,8 @@ function createTrackingGeometry(baseGeometry, maxInstances) {
   const headingArray = new Float32Array(maxInstances);
   const scaleArray = new Float32Array(maxInstances);
   const altitudeArray = new Float32Array(maxInstances);
+  const predictedArray = new Float32Array(maxInstances);
+  const colorArray = new Float32Array(maxInstances * 3);
 
   scaleArray.fill(1.0);
   altitudeArray.fill(0.0);
@@ -38,18 +40,24 @@ function createTrackingGeometry(baseGeometry, maxInstances) {
   const headingAttr = new THREE.InstancedBufferAttribute(headingArray, 1);
   const scaleAttr = new THREE.InstancedBufferAttribute(scaleArray, 1);
   const altitudeAttr = new THREE.InstancedBufferAttribute(altitudeArray, 1);
+  const predictedAttr = new THREE.InstancedBufferAttribute(predictedArray, 1);
+  const colorAttr = new THREE.InstancedBufferAttribute(colorArray, 3);
 
   latAttr.setUsage(THREE.DynamicDrawUsage);
   lonAttr.setUsage(THREE.DynamicDrawUsage);
   headingAttr.setUsage(THREE.DynamicDrawUsage);
   scaleAttr.setUsage(THREE.DynamicDrawUsage);
   altitudeAttr.setUsage(THREE.DynamicDrawUsage);
+  predictedAttr.setUsage(THREE.DynamicDrawUsage);
+  colorAttr.setUsage(THREE.DynamicDrawUsage);
 
   instancedGeometry.setAttribute('aLat', latAttr);
   instancedGeometry.setAttribute('aLon', lonAttr);
   instancedGeometry.setAttribute('aHeading', headingAttr);
   instancedGeometry.setAttribute('aScale', scaleAttr);
   instancedGeometry.setAttribute('aAltitude', altitudeAttr);
+  instancedGeometry.setAttribute('aPredicted', predictedAttr);
+  instancedGeometry.setAttribute('aColor', colorAttr);
 
   instancedGeometry.userData = {
     latArray,
@@ -57,11 +65,15 @@ function createTrackingGeometry(baseGeometry, maxInstances) {
     headingArray,
     scaleArray,
     altitudeArray,
+    predictedArray,
+    colorArray,
     latAttr,
     lonAttr,
     headingAttr,
     scaleAttr,
     altitudeAttr,
+    predictedAttr,
+    colorAttr,
   };
 
   return instancedGeometry;
@@ -93,6 +105,7 @@ export const shipMaterial = new THREE.ShaderMaterial({
     uIOR: { value: 1.5 },
     uThickness: { value: 1.0 },
     uReflectivity: { value: 0.3 },
+    uInstanceColorMix: { value: 0.0 },
   },
   transparent: true,
   side: THREE.DoubleSide,
@@ -139,6 +152,7 @@ export const aircraftMaterial = new THREE.ShaderMaterial({
     uIOR: { value: 1.5 },
     uThickness: { value: 1.0 },
     uReflectivity: { value: 0.3 },
+    uInstanceColorMix: { value: 0.0 },
   },
   transparent: true,
   side: THREE.DoubleSide,
@@ -196,6 +210,7 @@ export const satelliteMaterial = new THREE.ShaderMaterial({
     uIOR: { value: 1.5 },
     uThickness: { value: 1.0 },
     uReflectivity: { value: 0.3 },
+    uInstanceColorMix: { value: 0.0 },
   },
   transparent: true,
   side: THREE.DoubleSide,
@@ -246,6 +261,7 @@ export const droneMaterial = new THREE.ShaderMaterial({
     uIOR: { value: 1.5 },
     uThickness: { value: 1.0 },
     uReflectivity: { value: 0.3 },
+    uInstanceColorMix: { value: 0.0 },
   },
   transparent: true,
   side: THREE.DoubleSide,
@@ -0,0 +1,586 @@
+/**
+ * NMEA 0183 AIVDM/AIVDO Decoder
+ *
+ * Decodes raw AIS sentences from coastal receivers into the same envelope shape
+ * aisstream.io sends ({ MessageType, MetaData, Message }), so the AIS worker can
+ * treat both sources alike. Handles multi-sentence reassembly, checksums and
+ * 6-bit payload armoring for message types 1/2/3/4/5/9/14/18/19/21/24/27.
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface AisDimension {
+  A: number;
+  B: number;
+  C: number;
+  D: number;
+}
+
+export interface AisPositionReport {
+  MessageID: number;
+  UserID: number;
+  NavigationalStatus: number;
+  RateOfTurn: number;
+  /** Knots */
+  Sog: number;
+  PositionAccuracy: boolean;
+  Longitude: number;
+  Latitude: number;
+  /** Degrees */
+  Cog: number;
+  /** Degrees, 511 = not available */
+  TrueHeading: number;
+  Timestamp: number;
+}
+
+export interface AisShipStaticData {
+  MessageID: number;
+  UserID: number;
+  ImoNumber: number;
+  CallSign: string;
+  Name: string;
+  Type: number;
+  Dimension: AisDimension;
+  FixType: number;
+  Eta: { Month: number; Day: number; Hour: number; Minute: number };
+  MaximumStaticDraught: number;
+  Destination: string;
+}
+
+export interface AisClassBPositionReport {
+  MessageID: number;
+  UserID: number;
+  Sog: number;
+  PositionAccuracy: boolean;
+  Longitude: number;
+  Latitude: number;
+  Cog: number;
+  TrueHeading: number;
+  Timestamp: number;
+}
+
+export interface AisExtendedClassBPositionReport extends AisClassBPositionReport {
+  Name: string;
+  Type: number;
+  Dimension: AisDimension;
+  FixType: number;
+}
+
+export interface AisStaticDataReport {
+  MessageID: number;
+  UserID: number;
+  PartNumber: boolean;
+  ReportA: { Valid: boolean; Name: string };
+  ReportB: { Valid: boolean; ShipType: number; VendorIDName: string; CallSign: string; Dimension: AisDimension };
+}
+
+export interface AisLongRangeBroadcast {
+  MessageID: number;
+  UserID: number;
+  PositionAccuracy: boolean;
+  Raim: boolean;
+  NavigationalStatus: number;
+  Longitude: number;
+  Latitude: number;
+  Sog: number;
+  Cog: number;
+  PositionLatency: boolean;
+}
+
+export interface AisBaseStationReport {
+  MessageID: number;
+  UserID: number;
+  UtcYear: number;
+  UtcMonth: number;
+  UtcDay: number;
+  UtcHour: number;
+  UtcMinute: number;
+  UtcSecond: number;
+  PositionAccuracy: boolean;
+  Longitude: number;
+  Latitude: number;
+  FixType: number;
+}
+
+export interface AisSarAircraftReport {
+  MessageID: number;
+  UserID: number;
+  /** Meters, 4095 = not available */
+  Altitude: number;
+  /** Knots */
+  Sog: number;
+  PositionAccuracy: boolean;
+  Longitude: number;
+  Latitude: number;
+  Cog: number;
+  Timestamp: number;
+}
+
+export interface AisSafetyBroadcast {
+  MessageID: number;
+  UserID: number;
+  Text: string;
+}
+
+export interface AisAidsToNavigationReport {
+  MessageID: number;
+  UserID: number;
+  /** Aid type (1-31, e.g. 1 = reference point, 20+ = floating marks) */
+  Type: number;
+  Name: string;
+  PositionAccuracy: boolean;
+  Longitude: number;
+  Latitude: number;
+  Dimension: AisDimension;
+  Fixtype: number;
+  Timestamp: number;
+  OffPosition: boolean;
+  VirtualAtoN: boolean;
+  NameExtension: string;
+}
+
+/** Decoded message types, named as aisstream.io names them */
+export interface AisMessageBodies {
+  PositionReport: AisPositionReport;
+  BaseStationReport: AisBaseStationReport;
+  ShipStaticData: AisShipStaticData;
+  StandardSearchAndRescueAircraftReport: AisSarAircraftReport;
+  SafetyBroadcastMessage: AisSafetyBroadcast;
+  StandardClassBPositionReport: AisClassBPositionReport;
+  ExtendedClassBPositionReport: AisExtendedClassBPositionReport;
+  AidsToNavigationReport: AisAidsToNavigationReport;
+  StaticDataReport: AisStaticDataReport;
+  LongRangeAisBroadcastMessage: AisLongRangeBroadcast;
+}
+
+export type AisMessageType = keyof AisMessageBodies;
+
+export interface AisMetaData {
+  MMSI: number;
+  ShipName?: string;
+  time_utc: string;
+}
+
+/** aisstream.io-compatible envelope (one variant per message type) */
+export type AisEnvelope = {
+  [T in AisMessageType]: {
+    MessageType: T;
+    MetaData: AisMetaData;
+    Message: { [K in T]: AisMessageBodies[K] };
+  };
+}[AisMessageType];
+
+/** Fragments older than this are dropped if the rest never arrives */
+const FRAGMENT_TIMEOUT_MS = 10000;
+
+// =============================================================================
+// PAYLOAD BITS
+// =============================================================================
+
+/**
+ * Unpack a 6-bit armored payload into a bit reader.
+ */
+class PayloadBits {
+  private bits: Uint8Array;
+
+  constructor(payload: string, fillBits: number) {
+    const length = payload.length * 6 - fillBits;
+    this.bits = new Uint8Array(Math.max(0, length));
+
+    for (let i = 0; i < payload.length; i++) {
+      let value = payload.charCodeAt(i) - 48;
+      if (value > 40) value -= 8;
+      for (let b = 0; b < 6; b++) {
+        const index = i * 6 + b;
+        if (index >= length) break;
+        this.bits[index] = (value >> (5 - b)) & 1;
+      }
+    }
+  }
+
+  get length(): number {
+    return this.bits.length;
+  }
+
+  uint(start: number, width: number): number {
+    let value = 0;
+    for (let i = 0; i < width; i++) {
+      // Multiply instead of shifting so 30-bit MMSIs stay positive
+      value = value * 2 + (this.bits[start + i] ?? 0);
+    }
+    return value;
+  }
+
+  int(start: number, width: number): number {
+    const value = this.uint(start, width);
+    return this.bits[start] ? value - Math.pow(2, width) : value;
+  }
+
+  bool(start: number): boolean {
+    return this.bits[start] === 1;
+  }
+
+  /** Six-bit ASCII text, with "@" padding and trailing spaces removed */
+  text(start: number, width: number): string {
+    let out = "";
+    for (let i = start; i + 6 <= start + width && i + 6 <= this.bits.length; i += 6) {
+      const value = this.uint(i, 6);
+      out += String.fromCharCode(value < 32 ? value + 64 : value);
+    }
+    return out.replace(/@.*$/, "").trim();
+  }
+}
+
+function dimension(bits: PayloadBits, start: number): AisDimension {
+  return {
+    A: bits.uint(start, 9),
+    B: bits.uint(start + 9, 9),
+    C: bits.uint(start + 18, 6),
+    D: bits.uint(start + 24, 6),
+  };
+}
+
+/** Scale a raw lat/lon field to degrees; the "not available" markers (91/181) become 0 */
+function coordinate(raw: number, notAvailable: number, divisor: number): number {
+  const value = raw / divisor;
+  return value === notAvailable ? 0 : value;
+}
+
+// =============================================================================
+// MESSAGE DECODERS
+// =============================================================================
+
+function decodePositionReport(bits: PayloadBits, type: number): AisPositionReport {
+  const sog = bits.uint(50, 10);
+  return {
+    MessageID: type,
+    UserID: bits.uint(8, 30),
+    NavigationalStatus: bits.uint(38, 4),
+    RateOfTurn: bits.int(42, 8),
+    Sog: sog === 1023 ? 0 : sog / 10,
+    PositionAccuracy: bits.bool(60),
+    Longitude: coordinate(bits.int(61, 28), 181, 600000),
+    Latitude: coordinate(bits.int(89, 27), 91, 600000),
+    Cog: bits.uint(116, 12) / 10,
+    TrueHeading: bits.uint(128, 9),
+    Timestamp: bits.uint(137, 6),
+  };
+}
+
+function decodeBaseStationReport(bits: PayloadBits): AisBaseStationReport {
+  return {
+    MessageID: 4,
+    UserID: bits.uint(8, 30),
+    UtcYear: bits.uint(38, 14),
+    UtcMonth: bits.uint(52, 4),
+    UtcDay: bits.uint(56, 5),
+    UtcHour: bits.uint(61, 5),
+    UtcMinute: bits.uint(66, 6),
+    UtcSecond: bits.uint(72, 6),
+    PositionAccuracy: bits.bool(78),
+    Longitude: coordinate(bits.int(79, 28), 181, 600000),
+    Latitude: coordinate(bits.int(107, 27), 91, 600000),
+    FixType: bits.uint(134, 4),
+  };
+}
+
+function decodeSarAircraftReport(bits: PayloadBits): AisSarAircraftReport {
+  const sog = bits.uint(50, 10);
+  return {
+    MessageID: 9,
+    UserID: bits.uint(8, 30),
+    Altitude: bits.uint(38, 12),
+    Sog: sog === 1023 ? 0 : sog,
+    PositionAccuracy: bits.bool(60),
+    Longitude: coordinate(bits.int(61, 28), 181, 600000),
+    Latitude: coordinate(bits.int(89, 27), 91, 600000),
+    Cog: bits.uint(116, 12) / 10,
+    Timestamp: bits.uint(128, 6),
+  };
+}
+
+function decodeSafetyBroadcast(bits: PayloadBits): AisSafetyBroadcast {
+  return {
+    MessageID: 14,
+    UserID: bits.uint(8, 30),
+    Text: bits.text(40, bits.length - 40),
+  };
+}
+
+function decodeAidsToNavigation(bits: PayloadBits): AisAidsToNavigationReport {
+  return {
+    MessageID: 21,
+    UserID: bits.uint(8, 30),
+    Type: bits.uint(38, 5),
+    Name: bits.text(43, 120),
+    PositionAccuracy: bits.bool(163),
+    Longitude: coordinate(bits.int(164, 28), 181, 600000),
+    Latitude: coordinate(bits.int(192, 27), 91, 600000),
+    Dimension: dimension(bits, 219),
+    Fixtype: bits.uint(249, 4),
+    Timestamp: bits.uint(253, 6),
+    OffPosition: bits.bool(259),
+    VirtualAtoN: bits.bool(269),
+    NameExtension: bits.length > 272 ? bits.text(272, bits.length - 272) : "",
+  };
+}
+
+function decodeShipStaticData(bits: PayloadBits): AisShipStaticData {
+  return {
+    MessageID: 5,
+    UserID: bits.uint(8, 30),
+    ImoNumber: bits.uint(40, 30),
+    CallSign: bits.text(70, 42),
+    Name: bits.text(112, 120),
+    Type: bits.uint(232, 8),
+    Dimension: dimension(bits, 240),
+    FixType: bits.uint(270, 4),
+    Eta: {
+      Month: bits.uint(274, 4),
+      Day: bits.uint(278, 5),
+      Hour: bits.uint(283, 5),
+      Minute: bits.uint(288, 6),
+    },
+    MaximumStaticDraught: bits.uint(294, 8) / 10,
+    Destination: bits.text(302, 120),
+  };
+}
+
+function decodeClassBPosition(bits: PayloadBits, type: number): AisClassBPositionReport {
+  const sog = bits.uint(46, 10);
+  return {
+    MessageID: type,
+    UserID: bits.uint(8, 30),
+    Sog: sog === 1023 ? 0 : sog / 10,
+    PositionAccuracy: bits.bool(56),
+    Longitude: coordinate(bits.int(57, 28), 181, 600000),
+    Latitude: coordinate(bits.int(85, 27), 91, 600000),
+    Cog: bits.uint(112, 12) / 10,
+    TrueHeading: bits.uint(124, 9),
+    Timestamp: bits.uint(133, 6),
+  };
+}
+
+function decodeExtendedClassB(bits: PayloadBits): AisExtendedClassBPositionReport {
+  return {
+    ...decodeClassBPosition(bits, 19),
+    Name: bits.text(143, 120),
+    Type: bits.uint(263, 8),
+    Dimension: dimension(bits, 271),
+    FixType: bits.uint(301, 4),
+  };
+}
+
+function decodeStaticDataReport(bits: PayloadBits): AisStaticDataReport {
+  const partB = bits.uint(38, 2) === 1;
+  return {
+    MessageID: 24,
+    UserID: bits.uint(8, 30),
+    PartNumber: partB,
+    ReportA: {
+      Valid: !partB,
+      Name: partB ? "" : bits.text(40, 120),
+    },
+    ReportB: {
+      Valid: partB,
+      ShipType: partB ? bits.uint(40, 8) : 0,
+      VendorIDName: partB ? bits.text(48, 42) : "",
+      CallSign: partB ? bits.text(90, 42) : "",
+      Dimension: partB ? dimension(bits, 132) : { A: 0, B: 0, C: 0, D: 0 },
+    },
+  };
+}
+
+function decodeLongRange(bits: PayloadBits): AisLongRangeBroadcast {
+  const sog = bits.uint(79, 6);
+  const cog = bits.uint(85, 9);
+  return {
+    MessageID: 27,
+    UserID: bits.uint(8, 30),
+    PositionAccuracy: bits.bool(38),
+    Raim: bits.bool(39),
+    NavigationalStatus: bits.uint(40, 4),
+    // Long-range positions are in 1/10 minute
+    Longitude: coordinate(bits.int(44, 18), 181, 600),
+    Latitude: coordinate(bits.int(62, 17), 91, 600),
+    Sog: sog === 63 ? 0 : sog,
+    Cog: cog === 511 ? 0 : cog,
+    PositionLatency: !bits.bool(94),
+  };
+}
+
+/**
+ * Decode a complete (reassembled) payload. Returns null for unsupported types.
+ */
+export function decodeAisPayload(payload: string, fillBits: number = 0): AisEnvelope | null {
+  const bits = new PayloadBits(payload, fillBits);
+  if (bits.length < 38) return null;
+
+  const type = bits.uint(0, 6);
+  const mmsi = bits.uint(8, 30);
+  const meta: AisMetaData = { MMSI: mmsi, time_utc: new Date().toISOString() };
+
+  switch (type) {
+    case 1:
+    case 2:
+    case 3:
+      if (bits.length < 143) return null;
+      return { MessageType: "PositionReport", MetaData: meta, Message: { PositionReport: decodePositionReport(bits, type) } };
+    case 4:
+      if (bits.length < 138) return null;
+      return { MessageType: "BaseStationReport", MetaData: meta, Message: { BaseStationReport: decodeBaseStationReport(bits) } };
+    case 5: {
+      if (bits.length < 420) return null;
+      const report = decodeShipStaticData(bits);
+      return { MessageType: "ShipStaticData", MetaData: { ...meta, ShipName: report.Name }, Message: { ShipStaticData: report } };
+    }
+    case 9:
+      if (bits.length < 134) return null;
+      return {
+        MessageType: "StandardSearchAndRescueAircraftReport",
+        MetaData: meta,
+        Message: { StandardSearchAndRescueAircraftReport: decodeSarAircraftReport(bits) },
+      };
+    case 14:
+      return { MessageType: "SafetyBroadcastMessage", MetaData: meta, Message: { SafetyBroadcastMessage: decodeSafetyBroadcast(bits) } };
+    case 18:
+      if (bits.length < 139) return null;
+      return {
+        MessageType: "StandardClassBPositionReport",
+        MetaData: meta,
+        Message: { StandardClassBPositionReport: decodeClassBPosition(bits, 18) },
+      };
+    case 19: {
+      if (bits.length < 305) return null;
+      const report = decodeExtendedClassB(bits);
+      return {
+        MessageType: "ExtendedClassBPositionReport",
+        MetaData: { ...meta, ShipName: report.Name },
+        Message: { ExtendedClassBPositionReport: report },
+      };
+    }
+    case 21: {
+      if (bits.length < 272) return null;
+      const report = decodeAidsToNavigation(bits);
+      return {
+        MessageType: "AidsToNavigationReport",
+        MetaData: { ...meta, ShipName: report.Name + report.NameExtension },
+        Message: { AidsToNavigationReport: report },
+      };
+    }
+    case 24: {
+      if (bits.length < 160) return null;
+      const report = decodeStaticDataReport(bits);
+      return {
+        MessageType: "StaticDataReport",
+        MetaData: report.ReportA.Valid ? { ...meta, ShipName: report.ReportA.Name } : meta,
+        Message: { StaticDataReport: report },
+      };
+    }
+    case 27:
+      if (bits.length < 96) return null;
+      return {
+        MessageType: "LongRangeAisBroadcastMessage",
+        MetaData: meta,
+        Message: { LongRangeAisBroadcastMessage: decodeLongRange(bits) },
+      };
+    default:
+      return null;
+  }
+}
+
+// =============================================================================
+// SENTENCE DECODER
+// =============================================================================
+
+interface PendingFragments {
+  parts: string[];
+  received: number;
+  /** Fill bits of the final sentence (the only one that may be padded) */
+  fillBits: number;
+  firstSeen: number;
+}
+
+/**
+ * Validate the XOR checksum between "!" and "*". Sentences without one pass.
+ */
+export function hasValidChecksum(sentence: string): boolean {
+  const star = sentence.lastIndexOf("*");
+  if (star < 0) return true;
+
+  let sum = 0;
+  for (let i = 1; i < star; i++) {
+    sum ^= sentence.charCodeAt(i);
+  }
+  return sum === parseInt(sentence.slice(star + 1, star + 3), 16);
+}
+
+/**
+ * Stateful AIVDM/AIVDO sentence decoder. Keeps fragments of multi-sentence
+ * messages (e.g. type 5) until all parts arrive.
+ */
+export class AivdmDecoder {
+  private pending = new Map<string, PendingFragments>();
+
+  /**
+   * Decode one NMEA line. Returns the message once complete, null otherwise.
+   */
+  decode(line: string): AisEnvelope | null {
+    // Skip NMEA 4.0 tag blocks and anything else before the sentence
+    const start = line.indexOf("!");
+    if (start < 0) return null;
+    const sentence = line.slice(start).trim();
+
+    const tag = sentence.slice(3, 6);
+    if (tag !== "VDM" && tag !== "VDO") return null;
+    if (!hasValidChecksum(sentence)) return null;
+
+    const fields = sentence.split(",");
+    if (fields.length < 7) return null;
+
+    const total = parseInt(fields[1], 10);
+    const number = parseInt(fields[2], 10);
+    const sequenceId = fields[3];
+    const channel = fields[4];
+    const payload = fields[5];
+    const fillBits = parseInt(fields[6], 10) || 0;
+
+    if (!(total >= 1) || !(number >= 1) || number > total) return null;
+    if (total === 1) return decodeAisPayload(payload, fillBits);
+
+    return this.addFragment(`${sequenceId}:${channel}:${total}`, total, number, payload, fillBits);
+  }
+
+  /** Drop all partially received messages */
+  reset(): void {
+    this.pending.clear();
+  }
+
+  private addFragment(key: string, total: number, number: number, payload: string, fillBits: number): AisEnvelope | null {
+    const now = Date.now();
+    this.evictStale(now);
+
+    // A new first part restarts the message (sequence IDs cycle 0-9)
+    let entry = this.pending.get(key);
+    if (!entry || number === 1) {
+      entry = { parts: new Array(total).fill(""), received: 0, fillBits: 0, firstSeen: now };
+      this.pending.set(key, entry);
+    }
+
+    if (!entry.parts[number - 1]) entry.received++;
+    entry.parts[number - 1] = payload;
+    if (number === total) entry.fillBits = fillBits;
+    if (entry.received < total) return null;
+
+    this.pending.delete(key);
+    return decodeAisPayload(entry.parts.join(""), entry.fillBits);
+  }
+
+  private evictStale(now: number): void {
+    for (const [key, entry] of this.pending) {
+      if (now - entry.firstSeen > FRAGMENT_TIMEOUT_MS) this.pending.delete(key);
+    }
+  }
+}
@@ -0,0 +1,306 @@
+/**
+ * Conjunction Screening
+ *
+ * Finds close approaches between SGP4-propagated satellites over a time window.
+ * Used by the satellite worker, which already holds the satrecs.
+ *
+ * Each time step propagates every object, bins positions in a spatial hash and
+ * only compares objects in neighbouring cells. A candidate pair whose (linear)
+ * closest approach falls inside the step is refined with true SGP4 positions,
+ * so each approach is found exactly once.
+ */
+
+import * as satellite from "satellite.js";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface ConjunctionRequest {
+  /** Window start (unix ms) */
+  start: number;
+  /** Window length in hours */
+  hours: number;
+  /** Report approaches closer than this (km) */
+  thresholdKm: number;
+  /** Only pairs involving a satellite whose name contains this; empty for all */
+  primaryFilter: string;
+}
+
+export interface Conjunction {
+  satnum1: string;
+  name1: string;
+  satnum2: string;
+  name2: string;
+  /** Time of closest approach (unix ms) */
+  tca: number;
+  /** Kilometers */
+  missDistanceKm: number;
+  /** Relative speed at TCA (km/s) */
+  relativeVelocityKms: number;
+  /** Sub-point of the approach (degrees) */
+  lat: number;
+  lon: number;
+  /** Kilometers */
+  altitudeKm: number;
+}
+
+export interface ScreenObject {
+  satrec: satellite.SatRec;
+  satnum: string;
+  name: string;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const STEP_MS = 30 * 1000;
+
+/** Upper bound on relative speed between Earth orbiters (head-on LEO) */
+const MAX_RELATIVE_SPEED_KMS = 16;
+
+/** Slack on the linear miss estimate before refining (covers orbit curvature) */
+const LINEAR_MARGIN_KM = 5;
+
+/** TCA refinement precision */
+const REFINE_MS = 10;
+
+/** Results kept (closest first when trimming) */
+const MAX_CONJUNCTIONS = 2000;
+
+/** Cell index range per axis; far-out objects are clamped into the edge cells */
+const CELL_RANGE = 512;
+
+// =============================================================================
+// SCREEN
+// =============================================================================
+
+/**
+ * Incremental screen: call run() repeatedly until done, so the caller can
+ * yield between slices.
+ */
+export class ConjunctionScreen {
+  private readonly objects: ScreenObject[];
+  private readonly request: ConjunctionRequest;
+  private readonly primary: Uint8Array;
+  private readonly positions: Float64Array;
+  private readonly velocities: Float64Array;
+  private readonly valid: Uint8Array;
+  private readonly screenKm: number;
+  private readonly end: number;
+  private time: number;
+  private found: Conjunction[] = [];
+  /** Last TCA per pair ("i:j"), so an approach flagged from two steps is kept once */
+  private lastTca: Map<string, number> = new Map();
+
+  constructor(objects: ScreenObject[], request: ConjunctionRequest) {
+    this.objects = objects;
+    this.request = request;
+    this.time = request.start;
+    this.end = request.start + request.hours * 3600 * 1000;
+
+    // A pair must be within this distance at the start of the step holding its TCA
+    this.screenKm = request.thresholdKm + LINEAR_MARGIN_KM + (MAX_RELATIVE_SPEED_KMS * STEP_MS) / 1000;
+
+    const filter = request.primaryFilter.trim().toUpperCase();
+    this.primary = new Uint8Array(objects.length);
+    for (let i = 0; i < objects.length; i++) {
+      this.primary[i] = !filter || objects[i].name.toUpperCase().includes(filter) ? 1 : 0;
+    }
+
+    this.positions = new Float64Array(objects.length * 3);
+    this.velocities = new Float64Array(objects.length * 3);
+    this.valid = new Uint8Array(objects.length);
+  }
+
+  get done(): boolean {
+    return this.time >= this.end;
+  }
+
+  /** Fraction of the window screened (0-1) */
+  get progress(): number {
+    return Math.min(1, (this.time - this.request.start) / (this.end - this.request.start));
+  }
+
+  /**
+   * Screen up to `steps` time steps.
+   */
+  run(steps: number): void {
+    for (let s = 0; s < steps && !this.done; s++) {
+      this.screenStep(this.time);
+      this.time += STEP_MS;
+    }
+  }
+
+  /** Conjunctions found so far, in TCA order */
+  results(): Conjunction[] {
+    let results = this.found;
+    if (results.length > MAX_CONJUNCTIONS) {
+      results = [...results].sort((a, b) => a.missDistanceKm - b.missDistanceKm).slice(0, MAX_CONJUNCTIONS);
+    }
+    return [...results].sort((a, b) => a.tca - b.tca);
+  }
+
+  private screenStep(time: number): void {
+    const { objects, positions, velocities, valid, primary } = this;
+    const date = new Date(time);
+
+    for (let i = 0; i < objects.length; i++) {
+      const pv = satellite.propagate(objects[i].satrec, date);
+      if (!pv || !pv.position || typeof pv.position === "boolean" || !pv.velocity || typeof pv.velocity === "boolean") {
+        valid[i] = 0;
+        continue;
+      }
+      valid[i] = 1;
+      positions[i * 3] = pv.position.x;
+      positions[i * 3 + 1] = pv.position.y;
+      positions[i * 3 + 2] = pv.position.z;
+      velocities[i * 3] = pv.velocity.x;
+      velocities[i * 3 + 1] = pv.velocity.y;
+      velocities[i * 3 + 2] = pv.velocity.z;
+    }
+
+    // Spatial hash with cells one screening distance wide
+    const cellKm = this.screenKm;
+    const cells = new Map<number, number[]>();
+    const cellX = new Int32Array(objects.length);
+    const cellY = new Int32Array(objects.length);
+    const cellZ = new Int32Array(objects.length);
+    for (let i = 0; i < objects.length; i++) {
+      if (!valid[i]) continue;
+      cellX[i] = toCell(positions[i * 3], cellKm);
+      cellY[i] = toCell(positions[i * 3 + 1], cellKm);
+      cellZ[i] = toCell(positions[i * 3 + 2], cellKm);
+      const key = cellKey(cellX[i], cellY[i], cellZ[i]);
+      const bucket = cells.get(key);
+      if (bucket) bucket.push(i);
+      else cells.set(key, [i]);
+    }
+
+    const screen2 = this.screenKm * this.screenKm;
+    const stepSeconds = STEP_MS / 1000;
+
+    for (let i = 0; i < objects.length; i++) {
+      if (!valid[i]) continue;
+
+      for (let dx = -1; dx <= 1; dx++) {
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dz = -1; dz <= 1; dz++) {
+            const bucket = cells.get(cellKey(cellX[i] + dx, cellY[i] + dy, cellZ[i] + dz));
+            if (!bucket) continue;
+
+            for (const j of bucket) {
+              if (j <= i || (!primary[i] && !primary[j])) continue;
+
+              const rx = positions[j * 3] - positions[i * 3];
+              const ry = positions[j * 3 + 1] - positions[i * 3 + 1];
+              const rz = positions[j * 3 + 2] - positions[i * 3 + 2];
+              if (rx * rx + ry * ry + rz * rz > screen2) continue;
+
+              // Linear closest approach within this step?
+              const vx = velocities[j * 3] - velocities[i * 3];
+              const vy = velocities[j * 3 + 1] - velocities[i * 3 + 1];
+              const vz = velocities[j * 3 + 2] - velocities[i * 3 + 2];
+              const vv = vx * vx + vy * vy + vz * vz;
+              if (vv === 0) continue;
+              const tau = -(rx * vx + ry * vy + rz * vz) / vv;
+              if (tau < 0 || tau >= stepSeconds) continue;
+
+              const linearMiss = Math.hypot(rx + vx * tau, ry + vy * tau, rz + vz * tau);
+              if (linearMiss > this.request.thresholdKm + LINEAR_MARGIN_KM) continue;
+
+              this.refine(i, j, time);
+            }
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Ternary search for the true TCA of a candidate pair. The linear estimate
+   * can land in a neighbouring step for slow (co-orbital) pairs, so the search
+   * spans the steps on either side.
+   */
+  private refine(i: number, j: number, stepStart: number): void {
+    const a = this.objects[i];
+    const b = this.objects[j];
+    const windowStart = Math.max(this.request.start, stepStart - STEP_MS);
+    const windowEnd = Math.min(this.end, stepStart + 2 * STEP_MS);
+    let lo = windowStart;
+    let hi = windowEnd;
+
+    while (hi - lo > REFINE_MS) {
+      const m1 = lo + (hi - lo) / 3;
+      const m2 = hi - (hi - lo) / 3;
+      if (separation(a.satrec, b.satrec, m1) < separation(a.satrec, b.satrec, m2)) hi = m2;
+      else lo = m1;
+    }
+
+    const tca = (lo + hi) / 2;
+
+    // A minimum on the search edge isn't a real approach (or belongs to another step)
+    if (tca - windowStart < REFINE_MS || windowEnd - tca < REFINE_MS) return;
+
+    const pairKey = `${i}:${j}`;
+    const previous = this.lastTca.get(pairKey);
+    if (previous !== undefined && Math.abs(tca - previous) < 3 * STEP_MS) return;
+
+    const date = new Date(tca);
+    const pa = satellite.propagate(a.satrec, date);
+    const pb = satellite.propagate(b.satrec, date);
+    if (
+      !pa || !pa.position || typeof pa.position === "boolean" || !pa.velocity || typeof pa.velocity === "boolean" ||
+      !pb || !pb.position || typeof pb.position === "boolean" || !pb.velocity || typeof pb.velocity === "boolean"
+    ) {
+      return;
+    }
+
+    const miss = Math.hypot(
+      pb.position.x - pa.position.x,
+      pb.position.y - pa.position.y,
+      pb.position.z - pa.position.z
+    );
+    if (miss > this.request.thresholdKm) return;
+
+    this.lastTca.set(pairKey, tca);
+
+    const geodetic = satellite.eciToGeodetic(pa.position, satellite.gstime(date));
+    this.found.push({
+      satnum1: a.satnum,
+      name1: a.name,
+      satnum2: b.satnum,
+      name2: b.name,
+      tca,
+      missDistanceKm: miss,
+      relativeVelocityKms: Math.hypot(
+        pb.velocity.x - pa.velocity.x,
+        pb.velocity.y - pa.velocity.y,
+        pb.velocity.z - pa.velocity.z
+      ),
+      lat: satellite.degreesLat(geodetic.latitude),
+      lon: satellite.degreesLong(geodetic.longitude),
+      altitudeKm: geodetic.height,
+    });
+  }
+}
+
+function separation(a: satellite.SatRec, b: satellite.SatRec, time: number): number {
+  const date = new Date(time);
+  const pa = satellite.propagate(a, date);
+  const pb = satellite.propagate(b, date);
+  if (!pa || !pa.position || typeof pa.position === "boolean" || !pb || !pb.position || typeof pb.position === "boolean") {
+    return Infinity;
+  }
+  return Math.hypot(pb.position.x - pa.position.x, pb.position.y - pa.position.y, pb.position.z - pa.position.z);
+}
+
+function toCell(km: number, cellKm: number): number {
+  const cell = Math.floor(km / cellKm);
+  return Math.max(-CELL_RANGE + 1, Math.min(CELL_RANGE - 2, cell));
+}
+
+function cellKey(x: number, y: number, z: number): number {
+  return ((x + CELL_RANGE) * CELL_RANGE * 2 + (y + CELL_RANGE)) * CELL_RANGE * 2 + (z + CELL_RANGE);
+}
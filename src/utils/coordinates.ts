@@ -6,7 +6,7 @@
  */
 
 import * as THREE from "three";
-import { EARTH_RADIUS, DEG_TO_RAD, RAD_TO_DEG } from "../constants";
+import { EARTH_RADIUS, DEG_TO_RAD, RAD_TO_DEG, DRONE_ALTITUDE_MIN, DRONE_ALTITUDE_MAX } from "../constants";
 
 /**
  * Convert latitude/longitude to 3D position on or above the Earth surface.
@@ -154,6 +154,21 @@ export function greatCircleDistance(
   return EARTH_RADIUS * c;
 }
 
+/** Reported drone altitudes are spread over the display band up to this height */
+const DRONE_DISPLAY_CEILING_M = 10000;
+
+/**
+ * Map a live drone's reported altitude into the drone display band, so icons
+ * keep clear of the globe (true scale would put a 120 m quadcopter on the surface).
+ *
+ * @param meters - Reported altitude in meters
+ * @returns Altitude in scene units
+ */
+export function droneDisplayAltitude(meters: number): number {
+  const t = Math.max(0, Math.min(1, meters / DRONE_DISPLAY_CEILING_M));
+  return DRONE_ALTITUDE_MIN + t * (DRONE_ALTITUDE_MAX - DRONE_ALTITUDE_MIN);
+}
+
 /**
  * Calculate heading from one lat/lon point to another.
  *
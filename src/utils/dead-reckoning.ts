@@ -0,0 +1,170 @@
+/**
+ * Dead Reckoning
+ *
+ * Extrapolates a unit's position from its last known state, plus a simple
+ * along-/cross-track uncertainty model that grows with prediction time.
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * - constant-velocity: straight line on the local lat/lon grid (rhumb line)
+ * - constant-turn: keeps turning at the last observed rate
+ * - great-circle: shortest path on the sphere along the initial heading
+ */
+export type PredictionModel = "constant-velocity" | "constant-turn" | "great-circle";
+
+export interface MotionAnchor {
+  lat: number;
+  lon: number;
+  /** Degrees, 0 = north, clockwise */
+  heading: number;
+  /** Knots */
+  speed: number;
+  /** Degrees per second (positive = turning right) */
+  turnRate: number;
+}
+
+export interface PredictedPosition {
+  lat: number;
+  lon: number;
+  heading: number;
+}
+
+export interface UncertaintyAxes {
+  /** Semi-axis along the heading (km) */
+  alongKm: number;
+  /** Semi-axis across the heading (km) */
+  crossKm: number;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const DEG_TO_RAD = Math.PI / 180;
+const RAD_TO_DEG = 180 / Math.PI;
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_NM = 1.852;
+
+/** Below this turn rate constant-turn degenerates to a straight line (deg/s) */
+const MIN_TURN_RATE = 0.01;
+
+/** Position error of the last report itself (km) */
+const REPORT_ERROR_KM = 0.05;
+
+/** Assumed speed error as a fraction of speed (grows the along-track axis) */
+const SPEED_ERROR_FRACTION = 0.1;
+
+/** Assumed heading error (grows the cross-track axis) */
+const HEADING_ERROR_DEG = 5;
+
+/** Turning predictions are less certain across track */
+const TURN_CROSS_TRACK_FACTOR = 2;
+
+// =============================================================================
+// PREDICTION
+// =============================================================================
+
+/**
+ * Position after `seconds` under the given model.
+ */
+export function predictPosition(anchor: MotionAnchor, seconds: number, model: PredictionModel): PredictedPosition {
+  const distanceKm = (anchor.speed * KM_PER_NM * seconds) / 3600;
+  if (distanceKm <= 0) return { lat: anchor.lat, lon: anchor.lon, heading: anchor.heading };
+
+  if (model === "great-circle") return greatCircleDestination(anchor, distanceKm);
+  if (model === "constant-turn" && Math.abs(anchor.turnRate) >= MIN_TURN_RATE) {
+    return turningDestination(anchor, seconds);
+  }
+  const heading = anchor.heading * DEG_TO_RAD;
+  return {
+    ...offsetPosition(anchor.lat, anchor.lon, distanceKm * Math.sin(heading), distanceKm * Math.cos(heading)),
+    heading: anchor.heading,
+  };
+}
+
+/**
+ * Uncertainty ellipse after `seconds` of prediction.
+ */
+export function uncertaintyAxes(anchor: MotionAnchor, seconds: number, model: PredictionModel): UncertaintyAxes {
+  const distanceKm = (anchor.speed * KM_PER_NM * seconds) / 3600;
+  const turnFactor = model === "constant-turn" && Math.abs(anchor.turnRate) >= MIN_TURN_RATE ? TURN_CROSS_TRACK_FACTOR : 1;
+  return {
+    alongKm: REPORT_ERROR_KM + distanceKm * SPEED_ERROR_FRACTION,
+    crossKm: REPORT_ERROR_KM + distanceKm * Math.tan(HEADING_ERROR_DEG * DEG_TO_RAD) * turnFactor,
+  };
+}
+
+function turningDestination(anchor: MotionAnchor, seconds: number): PredictedPosition {
+  // Circular arc in the local tangent plane: radius = v / ω
+  const speedKms = (anchor.speed * KM_PER_NM) / 3600;
+  const omega = anchor.turnRate * DEG_TO_RAD;
+  const h0 = anchor.heading * DEG_TO_RAD;
+  const h1 = h0 + omega * seconds;
+  const radiusKm = speedKms / omega;
+  const eastKm = radiusKm * (Math.cos(h0) - Math.cos(h1));
+  const northKm = radiusKm * (Math.sin(h1) - Math.sin(h0));
+
+  return {
+    ...offsetPosition(anchor.lat, anchor.lon, eastKm, northKm),
+    heading: normalizeHeading(h1 * RAD_TO_DEG),
+  };
+}
+
+/**
+ * Offset a position by east/north kilometers on the local lat/lon grid.
+ */
+function offsetPosition(lat: number, lon: number, eastKm: number, northKm: number): { lat: number; lon: number } {
+  const kmPerDegree = EARTH_RADIUS_KM * DEG_TO_RAD;
+  const newLat = Math.max(-89.9, Math.min(89.9, lat + northKm / kmPerDegree));
+  const cosLat = Math.max(0.01, Math.cos(((lat + newLat) / 2) * DEG_TO_RAD));
+  return {
+    lat: newLat,
+    lon: normalizeLongitude(lon + eastKm / (kmPerDegree * cosLat)),
+  };
+}
+
+function greatCircleDestination(anchor: MotionAnchor, distanceKm: number): PredictedPosition {
+  const lat1 = anchor.lat * DEG_TO_RAD;
+  const lon1 = anchor.lon * DEG_TO_RAD;
+  const bearing = anchor.heading * DEG_TO_RAD;
+  const delta = distanceKm / EARTH_RADIUS_KM;
+
+  const lat2 = Math.asin(
+    Math.sin(lat1) * Math.cos(delta) + Math.cos(lat1) * Math.sin(delta) * Math.cos(bearing)
+  );
+  const lon2 = lon1 + Math.atan2(
+    Math.sin(bearing) * Math.sin(delta) * Math.cos(lat1),
+    Math.cos(delta) - Math.sin(lat1) * Math.sin(lat2)
+  );
+
+  // Final bearing: reverse of the bearing from the destination back to the start
+  const back = Math.atan2(
+    Math.sin(lon1 - lon2) * Math.cos(lat1),
+    Math.cos(lat2) * Math.sin(lat1) - Math.sin(lat2) * Math.cos(lat1) * Math.cos(lon1 - lon2)
+  );
+
+  return {
+    lat: lat2 * RAD_TO_DEG,
+    lon: normalizeLongitude(lon2 * RAD_TO_DEG),
+    heading: normalizeHeading(back * RAD_TO_DEG + 180),
+  };
+}
+
+/**
+ * Signed heading change from a to b in degrees (-180..180).
+ */
+export function headingDelta(a: number, b: number): number {
+  return ((b - a + 540) % 360) - 180;
+}
+
+function normalizeHeading(heading: number): number {
+  return ((heading % 360) + 360) % 360;
+}
+
+function normalizeLongitude(lon: number): number {
+  return ((lon + 540) % 360) - 180;
+}
@@ -0,0 +1,392 @@
+/**
+ * Unit Filter Query Language
+ *
+ * Parses expressions like
+ *   type=ship and sog>15 and country="Panama"
+ *   altitude>30000 and icaoType in (B744, A388)
+ *   not military and (orbit=LEO or name~starlink)
+ * into a predicate over ships, aircraft, satellites and drones.
+ *
+ * Grammar (keywords are case-insensitive):
+ *   expr       := term ("or" term)*
+ *   term       := factor ("and" factor)*
+ *   factor     := "not" factor | "(" expr ")" | comparison
+ *   comparison := field [op value | "in" "(" value ("," value)* ")"]
+ *   op         := "=" | "==" | "!=" | ">" | ">=" | "<" | "<=" | "~"
+ *
+ * Text comparisons ignore case; `*` in a value is a wildcard and `~` means
+ * "contains". A bare field tests truthiness (`predicted`, `military`).
+ * A field the unit type doesn't have (e.g. `sog` on an aircraft) never matches.
+ */
+
+import { EARTH_RADIUS } from "../constants";
+import type { ShipState, AircraftState, SatelliteState, DroneState } from "../types";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type FilterUnitType = "ship" | "aircraft" | "satellite" | "drone";
+
+export type FilterUnit = ShipState | AircraftState | SatelliteState | DroneState;
+
+export type UnitPredicate = (type: FilterUnitType, unit: FilterUnit) => boolean;
+
+type FieldValue = string | number | boolean | undefined;
+type FieldGetter = (unit: any) => FieldValue;
+
+type CompareOp = "=" | "!=" | ">" | ">=" | "<" | "<=" | "~";
+
+type FilterNode =
+  | { kind: "and" | "or"; left: FilterNode; right: FilterNode }
+  | { kind: "not"; operand: FilterNode }
+  | { kind: "compare"; field: string; op: CompareOp; value: string }
+  | { kind: "in"; field: string; values: string[] }
+  | { kind: "truthy"; field: string };
+
+interface Token {
+  kind: "word" | "string" | "op" | "lparen" | "rparen" | "comma";
+  text: string;
+  /** Character offset, for error messages */
+  position: number;
+}
+
+// =============================================================================
+// FIELDS
+// =============================================================================
+
+const SHIP_CATEGORIES = ["other", "cargo", "tanker", "passenger", "fishing", "military", "pleasure"];
+
+const FEET_PER_SCENE_UNIT = (6371 / EARTH_RADIUS) * 3280.84;
+const KM_PER_SCENE_UNIT = 6371 / EARTH_RADIUS;
+
+/**
+ * Field getters per unit type. Altitude is feet for aircraft and drones,
+ * kilometers for satellites; speed is knots.
+ */
+const FIELD_GETTERS: Record<FilterUnitType, Record<string, FieldGetter>> = {
+  ship: {
+    type: () => "ship",
+    name: (s: ShipState) => s.name,
+    mmsi: (s: ShipState) => s.mmsi,
+    lat: (s: ShipState) => s.lat,
+    lon: (s: ShipState) => s.lon,
+    heading: (s: ShipState) => s.heading,
+    speed: (s: ShipState) => s.sog,
+    sog: (s: ShipState) => s.sog,
+    altitude: () => 0,
+    country: (s: ShipState) => s.country,
+    destination: (s: ShipState) => s.destination,
+    category: (s: ShipState) => SHIP_CATEGORIES[s.shipType ?? 0] ?? "other",
+    length: (s: ShipState) => s.length,
+    width: (s: ShipState) => s.width,
+    predicted: (s: ShipState) => !!s.predicted,
+  },
+  aircraft: {
+    type: () => "aircraft",
+    name: (a: AircraftState) => a.callsign,
+    callsign: (a: AircraftState) => a.callsign,
+    lat: (a: AircraftState) => a.lat,
+    lon: (a: AircraftState) => a.lon,
+    heading: (a: AircraftState) => a.heading,
+    speed: (a: AircraftState) => a.groundSpeed,
+    groundspeed: (a: AircraftState) => a.groundSpeed,
+    altitude: (a: AircraftState) => a.altitude,
+    flightlevel: (a: AircraftState) => a.flightLevel,
+    country: (a: AircraftState) => a.originCountry,
+    icaotypecode: (a: AircraftState) => a.icaoTypeCode,
+    category: (a: AircraftState) => a.aircraftType,
+    flightphase: (a: AircraftState) => a.flightPhase,
+    predicted: (a: AircraftState) => !!a.predicted,
+  },
+  satellite: {
+    type: () => "satellite",
+    name: (s: SatelliteState) => s.name,
+    norad: (s: SatelliteState) => s.satnum,
+    lat: (s: SatelliteState) => s.lat,
+    lon: (s: SatelliteState) => s.lon,
+    heading: (s: SatelliteState) => s.heading,
+    altitude: (s: SatelliteState) => s.altitude * KM_PER_SCENE_UNIT,
+    orbit: (s: SatelliteState) => s.orbitTypeLabel,
+    inclination: (s: SatelliteState) => s.inclination,
+    military: (s: SatelliteState) => s.isMilitary,
+  },
+  drone: {
+    type: () => "drone",
+    name: (d: DroneState) => d.name,
+    lat: (d: DroneState) => d.lat,
+    lon: (d: DroneState) => d.lon,
+    heading: (d: DroneState) => d.heading,
+    altitude: (d: DroneState) => d.altitude * FEET_PER_SCENE_UNIT,
+  },
+};
+
+/** Alternative spellings accepted for field names */
+const FIELD_ALIASES: Record<string, string> = {
+  alt: "altitude",
+  hdg: "heading",
+  spd: "speed",
+  gs: "groundspeed",
+  fl: "flightlevel",
+  dest: "destination",
+  icaotype: "icaotypecode",
+  phase: "flightphase",
+  satnum: "norad",
+  inc: "inclination",
+  shiptype: "category",
+  origincountry: "country",
+  unit: "type",
+};
+
+const KNOWN_FIELDS = new Set(Object.values(FIELD_GETTERS).flatMap((getters) => Object.keys(getters)));
+
+/**
+ * Every field name usable in a query (for help text).
+ */
+export function getFilterFieldNames(): string[] {
+  return Array.from(KNOWN_FIELDS).sort();
+}
+
+function resolveField(name: string, position: number): string {
+  const lower = name.toLowerCase();
+  const field = FIELD_ALIASES[lower] ?? lower;
+  if (!KNOWN_FIELDS.has(field)) {
+    throw new Error(`Unknown field "${name}" at ${position + 1}`);
+  }
+  return field;
+}
+
+// =============================================================================
+// TOKENIZER
+// =============================================================================
+
+const OPERATOR_PATTERN = /^(==|!=|>=|<=|=|>|<|~)/;
+const WORD_PATTERN = /^[A-Za-z0-9_.\-+*:/]+/;
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const c = text[i];
+    if (/\s/.test(c)) {
+      i++;
+      continue;
+    }
+
+    if (c === "(" || c === ")" || c === ",") {
+      tokens.push({ kind: c === "(" ? "lparen" : c === ")" ? "rparen" : "comma", text: c, position: i });
+      i++;
+      continue;
+    }
+
+    if (c === '"' || c === "'") {
+      const end = text.indexOf(c, i + 1);
+      if (end < 0) throw new Error(`Unterminated string at ${i + 1}`);
+      tokens.push({ kind: "string", text: text.slice(i + 1, end), position: i });
+      i = end + 1;
+      continue;
+    }
+
+    const rest = text.slice(i);
+    const op = OPERATOR_PATTERN.exec(rest);
+    if (op) {
+      tokens.push({ kind: "op", text: op[0] === "==" ? "=" : op[0], position: i });
+      i += op[0].length;
+      continue;
+    }
+
+    const word = WORD_PATTERN.exec(rest);
+    if (!word) throw new Error(`Unexpected "${c}" at ${i + 1}`);
+    tokens.push({ kind: "word", text: word[0], position: i });
+    i += word[0].length;
+  }
+
+  return tokens;
+}
+
+// =============================================================================
+// PARSER
+// =============================================================================
+
+/**
+ * Parse a query into an expression tree. Throws with the offending position
+ * on syntax errors or unknown fields.
+ */
+function parse(text: string): FilterNode {
+  const tokens = tokenize(text);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const isKeyword = (token: Token | undefined, keyword: string) =>
+    token?.kind === "word" && token.text.toLowerCase() === keyword;
+  const describe = (token: Token | undefined) => (token ? `"${token.text}" at ${token.position + 1}` : "end of query");
+
+  const parseValue = (): string => {
+    const token = tokens[index++];
+    if (token?.kind !== "word" && token?.kind !== "string") {
+      throw new Error(`Expected a value but found ${describe(token)}`);
+    }
+    return token.text;
+  };
+
+  const parseComparison = (): FilterNode => {
+    const token = tokens[index++];
+    if (token?.kind !== "word") throw new Error(`Expected a field but found ${describe(token)}`);
+    const field = resolveField(token.text, token.position);
+
+    const next = peek();
+    if (next?.kind === "op") {
+      index++;
+      return { kind: "compare", field, op: next.text as CompareOp, value: parseValue() };
+    }
+    if (isKeyword(next, "in")) {
+      index++;
+      if (tokens[index++]?.kind !== "lparen") throw new Error(`Expected "(" after "in" at ${next.position + 1}`);
+      const values = [parseValue()];
+      while (peek()?.kind === "comma") {
+        index++;
+        values.push(parseValue());
+      }
+      if (tokens[index++]?.kind !== "rparen") throw new Error(`Expected ")" to close the list after ${describe(next)}`);
+      return { kind: "in", field, values };
+    }
+    return { kind: "truthy", field };
+  };
+
+  const parseFactor = (): FilterNode => {
+    if (isKeyword(peek(), "not")) {
+      index++;
+      return { kind: "not", operand: parseFactor() };
+    }
+    if (peek()?.kind === "lparen") {
+      const open = tokens[index++];
+      const node = parseOr();
+      if (tokens[index++]?.kind !== "rparen") throw new Error(`Unclosed "(" at ${open.position + 1}`);
+      return node;
+    }
+    return parseComparison();
+  };
+
+  const parseAnd = (): FilterNode => {
+    let node = parseFactor();
+    while (isKeyword(peek(), "and")) {
+      index++;
+      node = { kind: "and", left: node, right: parseFactor() };
+    }
+    return node;
+  };
+
+  const parseOr = (): FilterNode => {
+    let node = parseAnd();
+    while (isKeyword(peek(), "or")) {
+      index++;
+      node = { kind: "or", left: node, right: parseAnd() };
+    }
+    return node;
+  };
+
+  if (tokens.length === 0) throw new Error("Empty query");
+  const root = parseOr();
+  if (index < tokens.length) throw new Error(`Unexpected ${describe(tokens[index])}`);
+  return root;
+}
+
+// =============================================================================
+// COMPILER
+// =============================================================================
+
+/**
+ * Compile a query into a predicate. Throws on invalid queries.
+ */
+export function compileFilterQuery(text: string): UnitPredicate {
+  return compileNode(parse(text));
+}
+
+function compileNode(node: FilterNode): UnitPredicate {
+  switch (node.kind) {
+    case "and": {
+      const left = compileNode(node.left);
+      const right = compileNode(node.right);
+      return (type, unit) => left(type, unit) && right(type, unit);
+    }
+    case "or": {
+      const left = compileNode(node.left);
+      const right = compileNode(node.right);
+      return (type, unit) => left(type, unit) || right(type, unit);
+    }
+    case "not": {
+      const operand = compileNode(node.operand);
+      return (type, unit) => !operand(type, unit);
+    }
+    case "truthy": {
+      const field = node.field;
+      return (type, unit) => {
+        const getter = FIELD_GETTERS[type][field];
+        return !!getter && !!getter(unit);
+      };
+    }
+    case "in": {
+      const field = node.field;
+      const matchers = node.values.map((value) => valueMatcher("=", value));
+      return (type, unit) => {
+        const getter = FIELD_GETTERS[type][field];
+        if (!getter) return false;
+        const actual = getter(unit);
+        return matchers.some((matches) => matches(actual));
+      };
+    }
+    case "compare": {
+      const field = node.field;
+      const matches = valueMatcher(node.op, node.value);
+      return (type, unit) => {
+        const getter = FIELD_GETTERS[type][field];
+        return !!getter && matches(getter(unit));
+      };
+    }
+  }
+}
+
+/**
+ * Test for one comparison against a literal. Numbers compare numerically when
+ * both sides are numeric; everything else compares as lower-case text.
+ */
+function valueMatcher(op: CompareOp, literal: string): (actual: FieldValue) => boolean {
+  const number = Number(literal);
+  const numeric = literal.trim() !== "" && Number.isFinite(number);
+  const text = literal.toLowerCase();
+
+  if (op === "~") {
+    return (actual) => actual !== undefined && String(actual).toLowerCase().includes(text);
+  }
+
+  if (op === "=" || op === "!=") {
+    const wildcard = text.includes("*")
+      ? new RegExp(`^${text.split("*").map(escapeRegExp).join(".*")}$`)
+      : null;
+    const equals = (actual: FieldValue): boolean => {
+      if (actual === undefined) return false;
+      if (typeof actual === "number" && numeric) return actual === number;
+      const actualText = String(actual).toLowerCase();
+      return wildcard ? wildcard.test(actualText) : actualText === text;
+    };
+    return op === "=" ? equals : (actual) => actual !== undefined && !equals(actual);
+  }
+
+  if (!numeric) {
+    throw new Error(`"${op}" needs a number, got "${literal}"`);
+  }
+  return (actual) => {
+    if (typeof actual !== "number") return false;
+    switch (op) {
+      case ">": return actual > number;
+      case ">=": return actual >= number;
+      case "<": return actual < number;
+      case "<=": return actual <= number;
+    }
+  };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,95 @@
+/**
+ * Flight Phase Inference
+ *
+ * Classifies an aircraft's phase of flight from ground speed, height, vertical
+ * rate and distance to the nearest airport. Feeds don't carry an on-ground flag
+ * or field elevation, so ground is inferred from speed and height is relative
+ * to the altitude the aircraft was last seen on the ground (MSL otherwise).
+ * The previous phase disambiguates taxi/landed and takeoff/climb.
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type FlightPhase = "taxi" | "takeoff" | "climb" | "cruise" | "descent" | "approach" | "landed";
+
+export interface FlightPhaseInput {
+  /** Knots */
+  groundSpeed: number;
+  /** Feet above the estimated ground level */
+  height: number;
+  /** Feet per minute (positive = climbing) */
+  verticalRate: number;
+  /** Distance to the nearest airport (km; Infinity when none nearby) */
+  airportDistanceKm: number;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Slower than this is treated as on the ground */
+const GROUND_SPEED_KT = 50;
+
+/** Vertical rate band treated as level flight (ft/min) */
+const LEVEL_RATE_FPM = 300;
+
+/** Takeoff roll and initial climb: below this height near an airport */
+const TAKEOFF_HEIGHT_FT = 1500;
+const TAKEOFF_RADIUS_KM = 10;
+
+/** Approach: descending below this height within this distance of an airport */
+const APPROACH_HEIGHT_FT = 4000;
+const APPROACH_RADIUS_KM = 30;
+
+/** Level flight above this height is cruise; below it the last climb/descent phase holds */
+const CRUISE_MIN_HEIGHT_FT = 10000;
+
+/** Display labels */
+export const FLIGHT_PHASE_LABELS: Record<FlightPhase, string> = {
+  taxi: "TAXI",
+  takeoff: "TAKEOFF",
+  climb: "CLIMB",
+  cruise: "CRUISE",
+  descent: "DESCENT",
+  approach: "APPROACH",
+  landed: "LANDED",
+};
+
+// =============================================================================
+// INFERENCE
+// =============================================================================
+
+/**
+ * Infer the current phase from the latest sample and the previous phase
+ * (null for a newly seen aircraft).
+ */
+export function inferFlightPhase(input: FlightPhaseInput, previous: FlightPhase | null): FlightPhase {
+  const { groundSpeed, height, verticalRate, airportDistanceKm } = input;
+
+  if (groundSpeed < GROUND_SPEED_KT) {
+    // On the ground: came down from an approach (or rolled out) vs. about to depart
+    return previous === "approach" || previous === "descent" || previous === "landed" ? "landed" : "taxi";
+  }
+
+  const climbing = verticalRate > LEVEL_RATE_FPM;
+  const descending = verticalRate < -LEVEL_RATE_FPM;
+
+  if (height < TAKEOFF_HEIGHT_FT && airportDistanceKm < TAKEOFF_RADIUS_KM && !descending) {
+    if (previous === "taxi" || previous === "takeoff" || previous === null || climbing) return "takeoff";
+  }
+
+  if (height < APPROACH_HEIGHT_FT && airportDistanceKm < APPROACH_RADIUS_KM) {
+    // Level segments on approach stay on approach
+    if (descending || (previous === "approach" && !climbing)) return "approach";
+  }
+
+  if (climbing) return "climb";
+  if (descending) return "descent";
+
+  if (height >= CRUISE_MIN_HEIGHT_FT) return "cruise";
+  // Low level flight: keep the previous airborne phase, or cruise if none
+  if (previous === "climb" || previous === "descent" || previous === "approach") return previous;
+  return "cruise";
+}
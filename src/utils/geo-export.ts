@@ -0,0 +1,218 @@
+/**
+ * Geo Export Formats
+ *
+ * Serializes unit positions and time-stamped tracks to GeoJSON, KML and CSV
+ * for pasting into reports and GIS tools.
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type ExportProperties = Record<string, string | number | boolean | undefined>;
+
+/** One unit at its current position */
+export interface ExportPoint {
+  unitType: string;
+  id: string;
+  name: string;
+  lat: number;
+  lon: number;
+  /** Meters above sea level */
+  altitudeM: number;
+  properties: ExportProperties;
+}
+
+/** One unit's recorded path, oldest point first */
+export interface ExportTrack {
+  unitType: string;
+  id: string;
+  name: string;
+  /** Altitudes are above ground (aircraft) rather than clamped (ships) */
+  airborne: boolean;
+  points: Array<{ time: number; lat: number; lon: number; altitudeM: number }>;
+}
+
+// =============================================================================
+// GEOJSON
+// =============================================================================
+
+/**
+ * FeatureCollection with a Point per unit and a LineString per track.
+ * Track timestamps go in the `coordTimes` property (ISO 8601, one per vertex),
+ * the convention most GIS tools read.
+ */
+export function toGeoJSON(points: ExportPoint[], tracks: ExportTrack[]): string {
+  const features: object[] = [];
+
+  for (const point of points) {
+    features.push({
+      type: "Feature",
+      geometry: { type: "Point", coordinates: [round(point.lon, 6), round(point.lat, 6), round(point.altitudeM, 1)] },
+      properties: { unitType: point.unitType, id: point.id, name: point.name, ...definedProperties(point.properties) },
+    });
+  }
+
+  for (const track of tracks) {
+    features.push({
+      type: "Feature",
+      geometry: {
+        type: "LineString",
+        coordinates: track.points.map((p) => [round(p.lon, 6), round(p.lat, 6), round(p.altitudeM, 1)]),
+      },
+      properties: {
+        unitType: track.unitType,
+        id: track.id,
+        name: track.name,
+        coordTimes: track.points.map((p) => new Date(p.time).toISOString()),
+      },
+    });
+  }
+
+  return JSON.stringify({ type: "FeatureCollection", features }, null, 2);
+}
+
+// =============================================================================
+// KML
+// =============================================================================
+
+/**
+ * KML document with a Placemark per unit and a time-stamped gx:Track per track.
+ */
+export function toKML(points: ExportPoint[], tracks: ExportTrack[], title: string): string {
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2" xmlns:gx="http://www.google.com/kml/ext/2.2">',
+    "<Document>",
+    `  <name>${escapeXml(title)}</name>`,
+  ];
+
+  for (const point of points) {
+    lines.push(
+      "  <Placemark>",
+      `    <name>${escapeXml(point.name || point.id)}</name>`,
+      extendedData({ unitType: point.unitType, id: point.id, ...point.properties }, "    "),
+      "    <Point>",
+      `      <altitudeMode>${point.altitudeM > 0 ? "absolute" : "clampToGround"}</altitudeMode>`,
+      `      <coordinates>${round(point.lon, 6)},${round(point.lat, 6)},${round(point.altitudeM, 1)}</coordinates>`,
+      "    </Point>",
+      "  </Placemark>"
+    );
+  }
+
+  for (const track of tracks) {
+    lines.push(
+      "  <Placemark>",
+      `    <name>${escapeXml(track.name || track.id)}</name>`,
+      extendedData({ unitType: track.unitType, id: track.id }, "    "),
+      "    <gx:Track>",
+      `      <altitudeMode>${track.airborne ? "absolute" : "clampToGround"}</altitudeMode>`
+    );
+    for (const p of track.points) {
+      lines.push(`      <when>${new Date(p.time).toISOString()}</when>`);
+    }
+    for (const p of track.points) {
+      lines.push(`      <gx:coord>${round(p.lon, 6)} ${round(p.lat, 6)} ${round(p.altitudeM, 1)}</gx:coord>`);
+    }
+    lines.push("    </gx:Track>", "  </Placemark>");
+  }
+
+  lines.push("</Document>", "</kml>");
+  return lines.join("\n");
+}
+
+function extendedData(properties: ExportProperties, indent: string): string {
+  const rows = Object.entries(definedProperties(properties)).map(
+    ([key, value]) => `${indent}  <Data name="${escapeXml(key)}"><value>${escapeXml(String(value))}</value></Data>`
+  );
+  return [`${indent}<ExtendedData>`, ...rows, `${indent}</ExtendedData>`].join("\n");
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+// =============================================================================
+// CSV
+// =============================================================================
+
+/**
+ * One row per unit (columns: identity, position, then every property seen)
+ * followed by one row per track point (with an ISO time column).
+ */
+export function toCSV(points: ExportPoint[], tracks: ExportTrack[]): string {
+  const propertyColumns: string[] = [];
+  const seen = new Set<string>();
+  for (const point of points) {
+    for (const [key, value] of Object.entries(point.properties)) {
+      if (value === undefined || seen.has(key)) continue;
+      seen.add(key);
+      propertyColumns.push(key);
+    }
+  }
+
+  const header = ["unit_type", "id", "name", "time", "lat", "lon", "altitude_m", ...propertyColumns];
+  const rows: string[] = [header.join(",")];
+
+  for (const point of points) {
+    rows.push(
+      [
+        point.unitType,
+        point.id,
+        point.name,
+        "",
+        round(point.lat, 6),
+        round(point.lon, 6),
+        round(point.altitudeM, 1),
+        ...propertyColumns.map((key) => point.properties[key]),
+      ].map(csvCell).join(",")
+    );
+  }
+
+  for (const track of tracks) {
+    for (const p of track.points) {
+      rows.push(
+        [
+          track.unitType,
+          track.id,
+          track.name,
+          new Date(p.time).toISOString(),
+          round(p.lat, 6),
+          round(p.lon, 6),
+          round(p.altitudeM, 1),
+          ...propertyColumns.map(() => ""),
+        ].map(csvCell).join(",")
+      );
+    }
+  }
+
+  return rows.join("\n");
+}
+
+function csvCell(value: string | number | boolean | undefined): string {
+  if (value === undefined) return "";
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function definedProperties(properties: ExportProperties): Record<string, string | number | boolean> {
+  const result: Record<string, string | number | boolean> = {};
+  for (const [key, value] of Object.entries(properties)) {
+    if (value !== undefined) result[key] = value;
+  }
+  return result;
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,16 @@
+/**
+ * Geometry Utilities
+ *
+ * Helpers for updating the geometry of scene objects in place.
+ */
+
+import * as THREE from "three";
+
+/**
+ * Replace the vertices of a line or point cloud. setFromPoints can't resize
+ * an existing buffer, so the old geometry is disposed and a fresh one swapped in.
+ */
+export function replaceGeometryPoints(object: THREE.Line | THREE.Points, points: THREE.Vector3[]): void {
+  object.geometry.dispose();
+  object.geometry = new THREE.BufferGeometry().setFromPoints(points);
+}
@@ -0,0 +1,321 @@
+/**
+ * MAVLink v1/v2 Decoder
+ *
+ * Decodes the subset of MAVLink (common dialect) needed to track vehicles:
+ * HEARTBEAT, ATTITUDE, GLOBAL_POSITION_INT, MISSION_CURRENT, MISSION_ITEM_INT,
+ * POSITION_TARGET_GLOBAL_INT and CAMERA_FOV_STATUS. Frames are checked with
+ * the X.25 CRC plus each message's CRC_EXTRA; other message IDs are skipped.
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface MavlinkHeader {
+  systemId: number;
+  componentId: number;
+}
+
+export interface MavlinkHeartbeat extends MavlinkHeader {
+  type: "HEARTBEAT";
+  /** MAV_TYPE (6 = ground control station) */
+  vehicleType: number;
+  autopilot: number;
+  baseMode: number;
+  systemStatus: number;
+}
+
+export interface MavlinkAttitude extends MavlinkHeader {
+  type: "ATTITUDE";
+  /** Radians */
+  roll: number;
+  pitch: number;
+  yaw: number;
+}
+
+export interface MavlinkGlobalPosition extends MavlinkHeader {
+  type: "GLOBAL_POSITION_INT";
+  lat: number;
+  lon: number;
+  /** Meters above mean sea level */
+  altitudeMsl: number;
+  /** Meters above home */
+  relativeAltitude: number;
+  /** Ground velocity north/east/down in m/s */
+  vx: number;
+  vy: number;
+  vz: number;
+  /** Degrees, null when the autopilot doesn't know */
+  heading: number | null;
+}
+
+export interface MavlinkMissionCurrent extends MavlinkHeader {
+  type: "MISSION_CURRENT";
+  seq: number;
+}
+
+export interface MavlinkMissionItem extends MavlinkHeader {
+  type: "MISSION_ITEM_INT";
+  seq: number;
+  /** MAV_CMD */
+  command: number;
+  /** MAV_FRAME */
+  frame: number;
+  /** 0 = mission, 1 = fence, 2 = rally */
+  missionType: number;
+  targetSystem: number;
+  params: [number, number, number, number];
+  /** Degrees for global frames (x/y scaled by 1e7 on the wire) */
+  lat: number;
+  lon: number;
+  altitude: number;
+}
+
+export interface MavlinkPositionTarget extends MavlinkHeader {
+  type: "POSITION_TARGET_GLOBAL_INT";
+  lat: number;
+  lon: number;
+  altitude: number;
+}
+
+export interface MavlinkCameraFov extends MavlinkHeader {
+  type: "CAMERA_FOV_STATUS";
+  /** Where the camera's optical axis meets the ground; null if it points above the horizon */
+  imageLat: number | null;
+  imageLon: number | null;
+  /** Degrees */
+  hfov: number;
+}
+
+export type MavlinkMessage =
+  | MavlinkHeartbeat
+  | MavlinkAttitude
+  | MavlinkGlobalPosition
+  | MavlinkMissionCurrent
+  | MavlinkMissionItem
+  | MavlinkPositionTarget
+  | MavlinkCameraFov;
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const STX_V1 = 0xfe;
+const STX_V2 = 0xfd;
+const V1_HEADER_LENGTH = 6;
+const V2_HEADER_LENGTH = 10;
+const CHECKSUM_LENGTH = 2;
+const SIGNATURE_LENGTH = 13;
+const INCOMPAT_FLAG_SIGNED = 0x01;
+
+const INT32_MAX = 0x7fffffff;
+const UINT16_MAX = 0xffff;
+
+/** Message ID -> [CRC_EXTRA, full payload length] */
+const MESSAGE_INFO: Record<number, [number, number]> = {
+  0: [50, 9], // HEARTBEAT
+  30: [39, 28], // ATTITUDE
+  33: [104, 28], // GLOBAL_POSITION_INT
+  42: [28, 2], // MISSION_CURRENT
+  73: [38, 38], // MISSION_ITEM_INT (incl. mission_type extension)
+  87: [150, 51], // POSITION_TARGET_GLOBAL_INT
+  271: [22, 52], // CAMERA_FOV_STATUS
+};
+
+/** MAV_FRAMEs whose x/y are latitude/longitude */
+const GLOBAL_FRAMES = new Set([0, 3, 5, 6, 10, 11]);
+
+// =============================================================================
+// PAYLOAD DECODING
+// =============================================================================
+
+/** MAVLink X.25 checksum (CRC-16/MCRF4XX) */
+function crcAccumulate(crc: number, byte: number): number {
+  let tmp = byte ^ (crc & 0xff);
+  tmp = (tmp ^ (tmp << 4)) & 0xff;
+  return ((crc >> 8) ^ (tmp << 8) ^ (tmp << 3) ^ (tmp >> 4)) & 0xffff;
+}
+
+function frameChecksum(bytes: Uint8Array, start: number, end: number, crcExtra: number): number {
+  let crc = 0xffff;
+  for (let i = start; i < end; i++) {
+    crc = crcAccumulate(crc, bytes[i]);
+  }
+  return crcAccumulate(crc, crcExtra);
+}
+
+function decodePayload(messageId: number, header: MavlinkHeader, view: DataView): MavlinkMessage | null {
+  switch (messageId) {
+    case 0:
+      return {
+        type: "HEARTBEAT",
+        ...header,
+        vehicleType: view.getUint8(4),
+        autopilot: view.getUint8(5),
+        baseMode: view.getUint8(6),
+        systemStatus: view.getUint8(7),
+      };
+    case 30:
+      return {
+        type: "ATTITUDE",
+        ...header,
+        roll: view.getFloat32(4, true),
+        pitch: view.getFloat32(8, true),
+        yaw: view.getFloat32(12, true),
+      };
+    case 33: {
+      const hdg = view.getUint16(26, true);
+      return {
+        type: "GLOBAL_POSITION_INT",
+        ...header,
+        lat: view.getInt32(4, true) / 1e7,
+        lon: view.getInt32(8, true) / 1e7,
+        altitudeMsl: view.getInt32(12, true) / 1000,
+        relativeAltitude: view.getInt32(16, true) / 1000,
+        vx: view.getInt16(20, true) / 100,
+        vy: view.getInt16(22, true) / 100,
+        vz: view.getInt16(24, true) / 100,
+        heading: hdg === UINT16_MAX ? null : hdg / 100,
+      };
+    }
+    case 42:
+      return { type: "MISSION_CURRENT", ...header, seq: view.getUint16(0, true) };
+    case 73: {
+      const frame = view.getUint8(34);
+      const scale = GLOBAL_FRAMES.has(frame) ? 1e7 : 1;
+      return {
+        type: "MISSION_ITEM_INT",
+        ...header,
+        seq: view.getUint16(28, true),
+        command: view.getUint16(30, true),
+        frame,
+        missionType: view.getUint8(37),
+        targetSystem: view.getUint8(32),
+        params: [
+          view.getFloat32(0, true),
+          view.getFloat32(4, true),
+          view.getFloat32(8, true),
+          view.getFloat32(12, true),
+        ],
+        lat: view.getInt32(16, true) / scale,
+        lon: view.getInt32(20, true) / scale,
+        altitude: view.getFloat32(24, true),
+      };
+    }
+    case 87:
+      return {
+        type: "POSITION_TARGET_GLOBAL_INT",
+        ...header,
+        lat: view.getInt32(4, true) / 1e7,
+        lon: view.getInt32(8, true) / 1e7,
+        altitude: view.getFloat32(12, true),
+      };
+    case 271: {
+      const imageLat = view.getInt32(16, true);
+      const imageLon = view.getInt32(20, true);
+      const known = imageLat !== INT32_MAX && imageLon !== INT32_MAX;
+      return {
+        type: "CAMERA_FOV_STATUS",
+        ...header,
+        imageLat: known ? imageLat / 1e7 : null,
+        imageLon: known ? imageLon / 1e7 : null,
+        hfov: view.getFloat32(44, true),
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+/** True for MAV_FRAMEs whose coordinates are latitude/longitude */
+export function isGlobalFrame(frame: number): boolean {
+  return GLOBAL_FRAMES.has(frame);
+}
+
+// =============================================================================
+// STREAM DECODER
+// =============================================================================
+
+/**
+ * Stateful MAVLink decoder. Accepts arbitrary chunks (one UDP datagram may
+ * hold several frames, a stream may split one) and keeps the incomplete tail.
+ */
+export class MavlinkDecoder {
+  private buffer = new Uint8Array(0);
+
+  /**
+   * Decode every complete frame in the buffered bytes plus this chunk.
+   */
+  decode(chunk: Uint8Array): MavlinkMessage[] {
+    const bytes = this.buffer.length > 0 ? concat(this.buffer, chunk) : chunk;
+    const messages: MavlinkMessage[] = [];
+    let offset = 0;
+
+    while (offset < bytes.length) {
+      const stx = bytes[offset];
+      if (stx !== STX_V1 && stx !== STX_V2) {
+        offset++;
+        continue;
+      }
+
+      const isV2 = stx === STX_V2;
+      const headerLength = isV2 ? V2_HEADER_LENGTH : V1_HEADER_LENGTH;
+      if (offset + headerLength > bytes.length) break;
+
+      const payloadLength = bytes[offset + 1];
+      const signed = isV2 && (bytes[offset + 2] & INCOMPAT_FLAG_SIGNED) !== 0;
+      const frameLength = headerLength + payloadLength + CHECKSUM_LENGTH + (signed ? SIGNATURE_LENGTH : 0);
+      if (offset + frameLength > bytes.length) break;
+
+      const messageId = isV2
+        ? bytes[offset + 7] | (bytes[offset + 8] << 8) | (bytes[offset + 9] << 16)
+        : bytes[offset + 5];
+      const info = MESSAGE_INFO[messageId];
+      if (!info) {
+        // Unknown message: no CRC_EXTRA to verify with, so only trust the
+        // length if it lands on the next frame (or the end of the data)
+        const next = offset + frameLength;
+        const landsOnFrame = next === bytes.length || bytes[next] === STX_V1 || bytes[next] === STX_V2;
+        offset += landsOnFrame ? frameLength : 1;
+        continue;
+      }
+
+      const [crcExtra, fullLength] = info;
+      const payloadStart = offset + headerLength;
+      const crcOffset = payloadStart + payloadLength;
+      const expected = bytes[crcOffset] | (bytes[crcOffset + 1] << 8);
+      if (frameChecksum(bytes, offset + 1, crcOffset, crcExtra) !== expected) {
+        // Not a real frame start (or corrupted) - resync on the next byte
+        offset++;
+        continue;
+      }
+
+      // v2 drops trailing zero bytes; restore them before reading fields
+      const payload = new Uint8Array(Math.max(fullLength, payloadLength));
+      payload.set(bytes.subarray(payloadStart, crcOffset));
+      const header: MavlinkHeader = {
+        systemId: bytes[offset + (isV2 ? 5 : 3)],
+        componentId: bytes[offset + (isV2 ? 6 : 4)],
+      };
+      const message = decodePayload(messageId, header, new DataView(payload.buffer));
+      if (message) messages.push(message);
+
+      offset += frameLength;
+    }
+
+    this.buffer = bytes.slice(offset);
+    return messages;
+  }
+
+  /** Drop any partially received frame */
+  reset(): void {
+    this.buffer = new Uint8Array(0);
+  }
+}
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const result = new Uint8Array(a.length + b.length);
+  result.set(a);
+  result.set(b, a.length);
+  return result;
+}
@@ -0,0 +1,220 @@
+/**
+ * ASTM F3411 / Open Drone ID Decoder
+ *
+ * Decodes the 25-byte broadcast Remote ID messages (and message packs) that
+ * drones send over Bluetooth or Wi-Fi: Basic ID, Location/Vector, Self-ID,
+ * System (operator position) and Operator ID. Authentication messages are
+ * skipped.
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface OdidBasicId {
+  type: "basic-id";
+  /** 1 = serial number (ANSI/CTA-2063-A), 2 = CAA registration, 3 = UTM UUID, 4 = session ID */
+  idType: number;
+  uaType: number;
+  uasId: string;
+}
+
+export interface OdidLocation {
+  type: "location";
+  /** 0 = undeclared, 1 = ground, 2 = airborne, 3 = emergency, 4 = Remote ID failure */
+  status: number;
+  lat: number | null;
+  lon: number | null;
+  /** Degrees clockwise from true north */
+  track: number | null;
+  /** Meters per second */
+  speed: number | null;
+  verticalSpeed: number | null;
+  /** Meters (WGS84 for geodetic, above takeoff or ground for height) */
+  pressureAltitude: number | null;
+  geodeticAltitude: number | null;
+  height: number | null;
+}
+
+export interface OdidSelfId {
+  type: "self-id";
+  description: string;
+}
+
+export interface OdidSystem {
+  type: "system";
+  /** 0 = takeoff point, 1 = live GNSS, 2 = fixed location */
+  operatorLocationType: number;
+  operatorLat: number | null;
+  operatorLon: number | null;
+  operatorAltitude: number | null;
+}
+
+export interface OdidOperatorId {
+  type: "operator-id";
+  operatorId: string;
+}
+
+export type OdidMessage = OdidBasicId | OdidLocation | OdidSelfId | OdidSystem | OdidOperatorId;
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const ODID_MESSAGE_SIZE = 25;
+
+const MESSAGE_TYPE = {
+  BASIC_ID: 0x0,
+  LOCATION: 0x1,
+  AUTH: 0x2,
+  SELF_ID: 0x3,
+  SYSTEM: 0x4,
+  OPERATOR_ID: 0x5,
+  MESSAGE_PACK: 0xf,
+} as const;
+
+/** Display names for the Basic ID UA type field */
+export const ODID_UA_TYPES: readonly string[] = [
+  "Undeclared",
+  "Aeroplane",
+  "Multirotor",
+  "Gyroplane",
+  "Hybrid VTOL",
+  "Ornithopter",
+  "Glider",
+  "Kite",
+  "Free Balloon",
+  "Captive Balloon",
+  "Airship",
+  "Parachute",
+  "Rocket",
+  "Tethered Aircraft",
+  "Ground Obstacle",
+  "Other",
+];
+
+/** Encoded speed for "unknown" (255 m/s); only with the multiplier flag set, as 255 without it is 63.75 m/s */
+const UNKNOWN_SPEED_ENCODED = 255;
+/** Encoded vertical speed for "unknown" (63 m/s in 0.5 m/s steps) */
+const UNKNOWN_VERTICAL_SPEED_ENCODED = 126;
+/** Encoded track values 0-179 plus the east/west flag cover 0-359 */
+const MAX_TRACK_ENCODED = 179;
+
+// =============================================================================
+// DECODING
+// =============================================================================
+
+/**
+ * Decode one message or a message pack. Malformed input yields no messages.
+ */
+export function decodeOpenDroneId(bytes: Uint8Array): OdidMessage[] {
+  if (bytes.length < ODID_MESSAGE_SIZE) return [];
+
+  const messageType = bytes[0] >> 4;
+  if (messageType !== MESSAGE_TYPE.MESSAGE_PACK) {
+    const message = decodeMessage(bytes.subarray(0, ODID_MESSAGE_SIZE));
+    return message ? [message] : [];
+  }
+
+  const size = bytes[1];
+  const count = bytes[2];
+  if (size !== ODID_MESSAGE_SIZE) return [];
+
+  const messages: OdidMessage[] = [];
+  for (let i = 0; i < count; i++) {
+    const start = 3 + i * size;
+    if (start + size > bytes.length) break;
+    const message = decodeMessage(bytes.subarray(start, start + size));
+    if (message) messages.push(message);
+  }
+  return messages;
+}
+
+function decodeMessage(bytes: Uint8Array): OdidMessage | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  switch (bytes[0] >> 4) {
+    case MESSAGE_TYPE.BASIC_ID:
+      return {
+        type: "basic-id",
+        idType: bytes[1] >> 4,
+        uaType: bytes[1] & 0x0f,
+        uasId: readString(bytes, 2, 20),
+      };
+
+    case MESSAGE_TYPE.LOCATION: {
+      const flags = bytes[1];
+      const eastWest = (flags & 0x02) !== 0;
+      const speedMultiplier = (flags & 0x01) !== 0;
+      const lat = view.getInt32(5, true);
+      const lon = view.getInt32(9, true);
+      const knownPosition = lat !== 0 || lon !== 0;
+
+      return {
+        type: "location",
+        status: flags >> 4,
+        lat: knownPosition ? lat / 1e7 : null,
+        lon: knownPosition ? lon / 1e7 : null,
+        track: bytes[2] <= MAX_TRACK_ENCODED ? bytes[2] + (eastWest ? 180 : 0) : null,
+        speed: speedMultiplier
+          ? (bytes[3] === UNKNOWN_SPEED_ENCODED ? null : bytes[3] * 0.75 + 255 * 0.25)
+          : bytes[3] * 0.25,
+        verticalSpeed: view.getInt8(4) === UNKNOWN_VERTICAL_SPEED_ENCODED ? null : view.getInt8(4) * 0.5,
+        pressureAltitude: decodeAltitude(view.getUint16(13, true)),
+        geodeticAltitude: decodeAltitude(view.getUint16(15, true)),
+        height: decodeAltitude(view.getUint16(17, true)),
+      };
+    }
+
+    case MESSAGE_TYPE.SELF_ID:
+      return { type: "self-id", description: readString(bytes, 2, 23) };
+
+    case MESSAGE_TYPE.SYSTEM: {
+      const lat = view.getInt32(2, true);
+      const lon = view.getInt32(6, true);
+      const knownPosition = lat !== 0 || lon !== 0;
+      return {
+        type: "system",
+        operatorLocationType: bytes[1] & 0x03,
+        operatorLat: knownPosition ? lat / 1e7 : null,
+        operatorLon: knownPosition ? lon / 1e7 : null,
+        operatorAltitude: decodeAltitude(view.getUint16(18, true)),
+      };
+    }
+
+    case MESSAGE_TYPE.OPERATOR_ID:
+      return { type: "operator-id", operatorId: readString(bytes, 2, 20) };
+
+    default:
+      return null;
+  }
+}
+
+/** Altitudes are 0.5 m steps offset by -1000 m; 0 means unknown */
+function decodeAltitude(encoded: number): number | null {
+  return encoded === 0 ? null : encoded * 0.5 - 1000;
+}
+
+/** Null-padded ASCII field */
+function readString(bytes: Uint8Array, start: number, length: number): string {
+  let text = "";
+  for (let i = start; i < start + length; i++) {
+    if (bytes[i] === 0) break;
+    text += String.fromCharCode(bytes[i]);
+  }
+  return text.trim();
+}
+
+/**
+ * Parse a hex string (spaces and colons allowed) into bytes. Returns null if it isn't hex.
+ */
+export function hexToBytes(hex: string): Uint8Array | null {
+  const clean = hex.replace(/[\s:]/g, "");
+  if (clean.length % 2 !== 0 || !/^[0-9a-f]*$/i.test(clean)) return null;
+
+  const bytes = new Uint8Array(clean.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(clean.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
@@ -0,0 +1,329 @@
+/**
+ * Satellite Pass Prediction
+ *
+ * Finds passes of an SGP4-propagated satellite over a ground observer:
+ * acquisition (AOS), closest approach (TCA) and loss of signal (LOS), with
+ * look angles and sunlight state. Used by the satellite worker, which already
+ * holds the satrecs.
+ *
+ * Passes are found by sampling elevation on a coarse grid, then refining the
+ * horizon crossings by bisection and the peak by ternary search.
+ */
+
+import * as satellite from "satellite.js";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface PassObserver {
+  /** Degrees */
+  lat: number;
+  /** Degrees */
+  lon: number;
+  /** Meters above the ellipsoid */
+  altitude: number;
+}
+
+export interface PassRequest {
+  observer: PassObserver;
+  /** Window start (unix ms) */
+  start: number;
+  /** Window length in hours */
+  hours: number;
+  /** Passes peaking below this elevation (degrees) are dropped */
+  minElevation: number;
+  /** Only satellites whose name contains this (case-insensitive); empty for all */
+  nameFilter: string;
+}
+
+export type PassIllumination = "sunlit" | "eclipsed" | "partial";
+
+export interface SatellitePass {
+  satnum: string;
+  name: string;
+  /** Horizon rise (unix ms); window start if already up */
+  aos: number;
+  /** Peak elevation time (unix ms) */
+  tca: number;
+  /** Horizon set (unix ms); window end if still up */
+  los: number;
+  /** Degrees */
+  maxElevation: number;
+  /** Azimuths in degrees from north */
+  aosAzimuth: number;
+  tcaAzimuth: number;
+  losAzimuth: number;
+  /** Sunlight on the satellite over the visible arc */
+  illumination: PassIllumination;
+}
+
+export interface GroundTrackPoint {
+  lat: number;
+  lon: number;
+  /** Kilometers */
+  altitude: number;
+  time: number;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const DEG_TO_RAD = Math.PI / 180;
+const RAD_TO_DEG = 180 / Math.PI;
+const EARTH_RADIUS_KM = 6378.137;
+
+/** Crossing/peak refinement precision */
+const REFINE_MS = 1000;
+
+/** Points along each pass checked for sunlight */
+const ILLUMINATION_SAMPLES = 8;
+
+// =============================================================================
+// LOOK ANGLES
+// =============================================================================
+
+interface ObserverGeodetic {
+  latitude: number;
+  longitude: number;
+  height: number;
+}
+
+export function toObserverGeodetic(observer: PassObserver): ObserverGeodetic {
+  return {
+    latitude: observer.lat * DEG_TO_RAD,
+    longitude: observer.lon * DEG_TO_RAD,
+    height: observer.altitude / 1000,
+  };
+}
+
+interface LookSample {
+  /** Degrees */
+  elevation: number;
+  /** Degrees */
+  azimuth: number;
+}
+
+function look(satrec: satellite.SatRec, observer: ObserverGeodetic, time: number): LookSample | null {
+  const date = new Date(time);
+  const pv = satellite.propagate(satrec, date);
+  if (!pv || !pv.position || typeof pv.position === "boolean") return null;
+
+  const ecf = satellite.eciToEcf(pv.position, satellite.gstime(date));
+  const angles = satellite.ecfToLookAngles(observer, ecf);
+  return {
+    elevation: angles.elevation * RAD_TO_DEG,
+    azimuth: angles.azimuth * RAD_TO_DEG,
+  };
+}
+
+function elevationAt(satrec: satellite.SatRec, observer: ObserverGeodetic, time: number): number {
+  return look(satrec, observer, time)?.elevation ?? -90;
+}
+
+// =============================================================================
+// PASS SEARCH
+// =============================================================================
+
+/**
+ * Coarse sampling step: short enough not to skip a low-orbit pass that clears
+ * a useful elevation, long for high orbits that move slowly across the sky.
+ */
+function sampleStepMs(satrec: satellite.SatRec): number {
+  const periodMin = (2 * Math.PI) / satrec.no;
+  if (periodMin < 128) return 60 * 1000;
+  if (periodMin < 600) return 3 * 60 * 1000;
+  return 10 * 60 * 1000;
+}
+
+/**
+ * Cheap rejection: an orbit whose ground track never comes within sight of the
+ * observer's latitude can't produce a pass.
+ */
+function canReachLatitude(satrec: satellite.SatRec, observerLat: number, minElevation: number): boolean {
+  const inclination = satrec.inclo * RAD_TO_DEG;
+  const maxTrackLat = inclination > 90 ? 180 - inclination : inclination;
+
+  // Earth-central angle from sub-satellite point to the horizon at apogee
+  const apogeeRadius = satrec.alta * EARTH_RADIUS_KM + EARTH_RADIUS_KM;
+  const el = Math.max(0, minElevation) * DEG_TO_RAD;
+  const reach = (Math.acos((EARTH_RADIUS_KM / apogeeRadius) * Math.cos(el)) - el) * RAD_TO_DEG;
+
+  return Math.abs(observerLat) <= maxTrackLat + reach;
+}
+
+/** Bisect a horizon crossing between a time below the horizon and one above it */
+function refineCrossing(satrec: satellite.SatRec, observer: ObserverGeodetic, below: number, above: number): number {
+  while (Math.abs(above - below) > REFINE_MS) {
+    const mid = (below + above) / 2;
+    if (elevationAt(satrec, observer, mid) > 0) above = mid;
+    else below = mid;
+  }
+  return above;
+}
+
+/** Ternary search for peak elevation within [start, end] */
+function refinePeak(satrec: satellite.SatRec, observer: ObserverGeodetic, start: number, end: number): number {
+  while (end - start > REFINE_MS) {
+    const a = start + (end - start) / 3;
+    const b = end - (end - start) / 3;
+    if (elevationAt(satrec, observer, a) < elevationAt(satrec, observer, b)) start = a;
+    else end = b;
+  }
+  return (start + end) / 2;
+}
+
+/**
+ * Whether the satellite is outside Earth's (cylindrical) shadow.
+ */
+export function isSunlit(eci: satellite.Eci, time: number): boolean {
+  const { rsun } = satellite.sunPos(satellite.jday(new Date(time)));
+  const sunDistance = Math.hypot(rsun[0], rsun[1], rsun[2]);
+  const sx = rsun[0] / sunDistance;
+  const sy = rsun[1] / sunDistance;
+  const sz = rsun[2] / sunDistance;
+
+  const along = eci.x * sx + eci.y * sy + eci.z * sz;
+  if (along > 0) return true;
+
+  const px = eci.x - along * sx;
+  const py = eci.y - along * sy;
+  const pz = eci.z - along * sz;
+  return Math.hypot(px, py, pz) > EARTH_RADIUS_KM;
+}
+
+function passIllumination(satrec: satellite.SatRec, aos: number, los: number): PassIllumination {
+  let sunlit = 0;
+  let samples = 0;
+  for (let i = 0; i <= ILLUMINATION_SAMPLES; i++) {
+    const time = aos + ((los - aos) * i) / ILLUMINATION_SAMPLES;
+    const pv = satellite.propagate(satrec, new Date(time));
+    if (!pv || !pv.position || typeof pv.position === "boolean") continue;
+    samples++;
+    if (isSunlit(pv.position, time)) sunlit++;
+  }
+  if (sunlit === samples) return "sunlit";
+  if (sunlit === 0) return "eclipsed";
+  return "partial";
+}
+
+/**
+ * All passes of one satellite in the request window, in time order.
+ * Satellites that stay above the horizon for the whole window (e.g.
+ * geostationary) have no rise or set and are skipped.
+ */
+export function findPasses(
+  satrec: satellite.SatRec,
+  satnum: string,
+  name: string,
+  request: PassRequest
+): SatellitePass[] {
+  if (!canReachLatitude(satrec, request.observer.lat, request.minElevation)) return [];
+
+  const observer = toObserverGeodetic(request.observer);
+  const start = request.start;
+  const end = start + request.hours * 3600 * 1000;
+  const step = sampleStepMs(satrec);
+  const passes: SatellitePass[] = [];
+
+  const startEl = elevationAt(satrec, observer, start);
+  let prevTime = start;
+  let aos: number | null = startEl > 0 ? start : null;
+  let peakSample = start;
+  let peakEl = startEl;
+
+  for (let time = start + step; time <= end + step; time += step) {
+    const t = Math.min(time, end);
+    const el = elevationAt(satrec, observer, t);
+
+    if (aos === null && el > 0) {
+      aos = refineCrossing(satrec, observer, prevTime, t);
+      peakSample = t;
+      peakEl = el;
+    } else if (aos !== null) {
+      if (el > peakEl) {
+        peakEl = el;
+        peakSample = t;
+      }
+
+      const setting = el <= 0;
+      if (setting || t === end) {
+        const los = setting ? refineCrossing(satrec, observer, t, prevTime) : end;
+        if (!(aos === start && los === end)) {
+          const pass = buildPass(satrec, satnum, name, observer, aos, los, peakSample, step);
+          if (pass && pass.maxElevation >= request.minElevation) passes.push(pass);
+        }
+        aos = null;
+        peakEl = -90;
+      }
+    }
+
+    prevTime = t;
+    if (t === end) break;
+  }
+
+  return passes;
+}
+
+function buildPass(
+  satrec: satellite.SatRec,
+  satnum: string,
+  name: string,
+  observer: ObserverGeodetic,
+  aos: number,
+  los: number,
+  peakSample: number,
+  step: number
+): SatellitePass | null {
+  const tca = refinePeak(satrec, observer, Math.max(aos, peakSample - step), Math.min(los, peakSample + step));
+  const atAos = look(satrec, observer, aos);
+  const atTca = look(satrec, observer, tca);
+  const atLos = look(satrec, observer, los);
+  if (!atAos || !atTca || !atLos) return null;
+
+  return {
+    satnum,
+    name,
+    aos,
+    tca,
+    los,
+    maxElevation: atTca.elevation,
+    aosAzimuth: atAos.azimuth,
+    tcaAzimuth: atTca.azimuth,
+    losAzimuth: atLos.azimuth,
+    illumination: passIllumination(satrec, aos, los),
+  };
+}
+
+// =============================================================================
+// GROUND TRACK
+// =============================================================================
+
+/**
+ * Sub-satellite points between two times, for drawing a pass on the globe.
+ */
+export function computeGroundTrack(
+  satrec: satellite.SatRec,
+  start: number,
+  end: number,
+  stepMs: number
+): GroundTrackPoint[] {
+  const points: GroundTrackPoint[] = [];
+  for (let time = start; time < end + stepMs; time += stepMs) {
+    const t = Math.min(time, end);
+    const date = new Date(t);
+    const pv = satellite.propagate(satrec, date);
+    if (pv && pv.position && typeof pv.position !== "boolean") {
+      const geodetic = satellite.eciToGeodetic(pv.position, satellite.gstime(date));
+      points.push({
+        lat: geodetic.latitude * RAD_TO_DEG,
+        lon: geodetic.longitude * RAD_TO_DEG,
+        altitude: geodetic.height,
+        time: t,
+      });
+    }
+    if (t === end) break;
+  }
+  return points;
+}
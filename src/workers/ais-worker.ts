@@ -5,8 +5,12 @@
  * Offloads JSON parsing and state management from the main thread.
  *
  * The relay server handles subscription - this worker just connects and receives data.
+ * Accepts either aisstream.io JSON envelopes or raw NMEA !AIVDM/!AIVDO lines
+ * (from the relay's /nmea endpoint); raw sentences are decoded into the same envelopes.
  */
 
+import { AivdmDecoder } from "../utils/aivdm";
+
 // Mapping for AIS Ship Types to our internal visualization types
 // 0=Unknown, 30=Fishing, 60=Passenger, 70=Cargo, 80=Tanker, 90=Other
 function getShipCategory(type: number): number {
@@ -47,6 +51,12 @@ let socket: WebSocket | null = null;
 const ships = new Map<number, ShipData>();
 let relayUrl = ""; // Passed via init
 let shouldReconnect = true;
+let reconnects = 0;
+const nmeaDecoder = new AivdmDecoder();
+
+// Source-to-arrival latency, from aisstream.io MetaData.time_utc (raw NMEA has no time)
+const MAX_LATENCY_SAMPLES = 50;
+let latencySamples: number[] = [];
 
 // Message buffer
 let messageQueue: any[] = [];
@@ -89,6 +99,8 @@ self.onmessage = (e: MessageEvent) => {
         // Clear state
         ships.clear();
         messageQueue = [];
+        latencySamples = [];
+        nmeaDecoder.reset();
     }
 };
 
@@ -104,9 +116,24 @@ function connect() {
     };
 
     socket.onmessage = (event) => {
+        const text = String(event.data);
+
+        // Raw NMEA: one or more sentences per frame
+        if (text.charAt(0) !== '{') {
+            for (const line of text.split(/\r?\n/)) {
+                const msg = nmeaDecoder.decode(line);
+                if (msg) messageQueue.push(msg);
+            }
+            return;
+        }
+
         try {
-            const msg = JSON.parse(event.data);
+            const msg = JSON.parse(text);
             messageQueue.push(msg);
+            if (latencySamples.length < MAX_LATENCY_SAMPLES && msg.MetaData?.time_utc) {
+                const sent = parseAisTime(msg.MetaData.time_utc);
+                if (sent) latencySamples.push(Date.now() - sent);
+            }
         } catch (err) {
             console.error('[AISWorker] JSON Parse Error:', err);
         }
@@ -119,7 +146,11 @@ function connect() {
         // Only reconnect if we didn't explicitly stop
         if (shouldReconnect) {
             // Simple reconnect logic (exponential backoff could be better)
-            setTimeout(connect, 5000);
+            setTimeout(() => {
+                reconnects++;
+                self.postMessage({ type: 'status', reconnects });
+                connect();
+            }, 5000);
         }
     };
     
@@ -131,15 +162,12 @@ function connect() {
 function processQueue() {
     if (messageQueue.length === 0) return;
 
-    const updates: Float64Array[] = [];
-    // We send a flat buffer of updates:
-    // [MMSI, Lat, Lon, Heading, Speed, Type, NameHash?]
-    // Actually, sending objects is fine for the "Updates" pattern used by FeedManager.
-    // FeedManager expects an array of ShipUpdate objects.
-    
-    // Process queue and merge updates for same ship
+    // Process queue and merge updates for same ship / station / SAR aircraft
     const batchUpdates = new Map<number, any>();
-    
+    const stationUpdates = new Map<number, any>();
+    const sarUpdates = new Map<number, any>();
+    const safetyMessages: any[] = [];
+
     const queueSize = messageQueue.length;
     for (let i = 0; i < queueSize; i++) {
         const msg = messageQueue[i];
@@ -148,6 +176,51 @@ function processQueue() {
 
         if (!mmsi) continue;
 
+        // Non-vessel messages: kept out of the ship table
+        if (type === 'AidsToNavigationReport' || type === 'BaseStationReport') {
+            const report = msg.Message[type];
+            if (!hasPosition(report)) continue;
+            const isAtoN = type === 'AidsToNavigationReport';
+            stationUpdates.set(mmsi, {
+                mmsi,
+                kind: isAtoN ? 'aton' : 'base',
+                name: isAtoN ? `${report.Name || ''}${report.NameExtension || ''}`.trim() : '',
+                lat: report.Latitude,
+                lon: report.Longitude,
+                aidType: isAtoN ? report.Type : 0,
+                virtual: isAtoN ? !!report.VirtualAtoN : false,
+                offPosition: isAtoN ? !!report.OffPosition : false,
+            });
+            continue;
+        }
+        if (type === 'StandardSearchAndRescueAircraftReport') {
+            const report = msg.Message[type];
+            if (!hasPosition(report)) continue;
+            sarUpdates.set(mmsi, {
+                mmsi,
+                lat: report.Latitude,
+                lon: report.Longitude,
+                heading: report.Cog >= 360 ? 0 : report.Cog,
+                sog: report.Sog,
+                altitude: report.Altitude === 4095 ? 0 : report.Altitude, // meters
+            });
+            continue;
+        }
+        if (type === 'SafetyBroadcastMessage') {
+            const text = msg.Message[type].Text;
+            if (text) {
+                const ship = ships.get(mmsi);
+                safetyMessages.push({
+                    mmsi,
+                    name: ship?.name || msg.MetaData.ShipName || '',
+                    text,
+                    lat: ship?.lat ?? 0,
+                    lon: ship?.lon ?? 0,
+                });
+            }
+            continue;
+        }
+
         let ship = ships.get(mmsi);
         if (!ship) {
             ship = {
@@ -173,24 +246,22 @@ function processQueue() {
 
         ship.lastUpdate = Date.now();
 
-        if (type === 'PositionReport') {
-            const report = msg.Message.PositionReport;
-            ship.lat = report.Latitude;
-            ship.lon = report.Longitude;
-            ship.heading = report.TrueHeading === 511 ? 0 : report.TrueHeading; // 511 = N/A
-            ship.speed = report.Sog; // Speed over ground in knots
-            
-            batchUpdates.set(mmsi, {
-                mmsi: ship.mmsi,
-                lat: ship.lat,
-                lon: ship.lon,
-                heading: ship.heading,
-                sog: ship.speed,
-                name: ship.name, // Send name just in case it wasn't known
-                type: ship.type,
-                flag: ship.flag
-            });
-        } 
+        if (type === 'PositionReport' || type === 'StandardClassBPositionReport' || type === 'LongRangeAisBroadcastMessage') {
+            const report = msg.Message[type];
+            if (!hasPosition(report)) continue;
+            applyPosition(ship, report);
+            batchUpdates.set(mmsi, toUpdate(ship));
+        }
+        else if (type === 'ExtendedClassBPositionReport') {
+            // Class B "extended" carries both position and static data
+            const report = msg.Message[type];
+            if (report.Name) ship.name = report.Name;
+            if (report.Type) ship.type = getShipCategory(report.Type);
+            applyDimension(ship, report.Dimension);
+            if (!hasPosition(report)) continue;
+            applyPosition(ship, report);
+            batchUpdates.set(mmsi, toUpdate(ship, true));
+        }
         else if (type === 'ShipStaticData') {
             const report = msg.Message.ShipStaticData;
             ship.name = report.Name;
@@ -201,27 +272,26 @@ function processQueue() {
                 ship.destination = report.Destination.replace(/[^A-Za-z0-9\s]/g, "").trim();
             }
             
-            // Dimensions (A+B = Length, C+D = Width)
-            if (report.Dimension) {
-                ship.length = (report.Dimension.A || 0) + (report.Dimension.B || 0);
-                ship.width = (report.Dimension.C || 0) + (report.Dimension.D || 0);
-            }
+            applyDimension(ship, report.Dimension);
             
             // If we have a position, send an update with the new metadata
             if (ship.lat !== 0 && ship.lon !== 0) {
-                 batchUpdates.set(mmsi, {
-                    mmsi: ship.mmsi,
-                    lat: ship.lat,
-                    lon: ship.lon,
-                    heading: ship.heading,
-                    sog: ship.speed,
-                    name: ship.name,
-                    type: ship.type,
-                    flag: ship.flag,
-                    dest: ship.destination,
-                    len: ship.length,
-                    wid: ship.width
-                });
+                batchUpdates.set(mmsi, toUpdate(ship, true));
+            }
+        }
+        else if (type === 'StaticDataReport') {
+            // Class B static data arrives in two parts: A = name, B = type and dimensions
+            const report = msg.Message.StaticDataReport;
+            if (report.ReportA?.Valid && report.ReportA.Name) {
+                ship.name = report.ReportA.Name;
+            }
+            if (report.ReportB?.Valid) {
+                if (report.ReportB.ShipType) ship.type = getShipCategory(report.ReportB.ShipType);
+                applyDimension(ship, report.ReportB.Dimension);
+            }
+
+            if (ship.lat !== 0 && ship.lon !== 0) {
+                batchUpdates.set(mmsi, toUpdate(ship, true));
             }
         }
     }
@@ -230,15 +300,77 @@ function processQueue() {
     const processedQueueSize = queueSize;
     messageQueue = []; // Clear queue
 
-    if (batchUpdates.size > 0) {
-        // Convert map values to array
-        const updateArray = Array.from(batchUpdates.values());
+    if (batchUpdates.size > 0 || stationUpdates.size > 0 || sarUpdates.size > 0 || safetyMessages.length > 0) {
         self.postMessage({
             type: 'update',
-            updates: updateArray,
-            queueSize: processedQueueSize
+            updates: Array.from(batchUpdates.values()),
+            stations: Array.from(stationUpdates.values()),
+            sar: Array.from(sarUpdates.values()),
+            safety: safetyMessages,
+            queueSize: processedQueueSize,
+            latencies: latencySamples,
+            reconnects
         });
+        latencySamples = [];
+    }
+}
+
+/**
+ * Parse aisstream.io's "2024-05-01 12:34:56.123456789 +0000 UTC" (epoch ms, or 0).
+ */
+function parseAisTime(timeUtc: string): number {
+    const match = /^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2}(?:\.\d{1,3})?)/.exec(timeUtc);
+    return match ? Date.parse(`${match[1]}T${match[2]}Z`) || 0 : 0;
+}
+
+/** Reports use 91/181 (0 after NMEA decoding) when the position is unavailable */
+function hasPosition(report: any): boolean {
+    const lat = report?.Latitude;
+    const lon = report?.Longitude;
+    if (typeof lat !== 'number' || typeof lon !== 'number') return false;
+    if (Math.abs(lat) > 90 || Math.abs(lon) > 180) return false;
+    return lat !== 0 || lon !== 0;
+}
+
+function applyPosition(ship: ShipData, report: any) {
+    ship.lat = report.Latitude;
+    ship.lon = report.Longitude;
+    if (report.TrueHeading !== undefined && report.TrueHeading !== 511) {
+        ship.heading = report.TrueHeading;
+    } else if (report.Cog !== undefined && report.Cog < 360) {
+        ship.heading = report.Cog; // 511 = N/A, fall back to course over ground
+    } else {
+        ship.heading = 0;
+    }
+    ship.speed = report.Sog || 0; // Speed over ground in knots
+}
+
+/** Dimensions (A+B = Length, C+D = Width) */
+function applyDimension(ship: ShipData, dimension: any) {
+    if (!dimension) return;
+    const length = (dimension.A || 0) + (dimension.B || 0);
+    const width = (dimension.C || 0) + (dimension.D || 0);
+    if (length > 0) ship.length = length;
+    if (width > 0) ship.width = width;
+}
+
+function toUpdate(ship: ShipData, withStatic: boolean = false) {
+    const update: any = {
+        mmsi: ship.mmsi,
+        lat: ship.lat,
+        lon: ship.lon,
+        heading: ship.heading,
+        sog: ship.speed,
+        name: ship.name, // Send name just in case it wasn't known
+        type: ship.type,
+        flag: ship.flag
+    };
+    if (withStatic) {
+        update.dest = ship.destination;
+        update.len = ship.length;
+        update.wid = ship.width;
     }
+    return update;
 }
 
 function pruneStaleShips() {
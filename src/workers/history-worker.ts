@@ -0,0 +1,407 @@
+/**
+ * Track History Worker
+ *
+ * Keeps a bounded position history per ship/aircraft off the main thread.
+ * Recent points stay in memory; older ones are spilled to IndexedDB as
+ * per-unit chunks and pruned once they fall outside the retention window.
+ * All storage work runs through one queue so a query never sees points
+ * halfway between memory and the database.
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface ConfigureRequest {
+  type: "configure";
+  retentionHours: number;
+  memoryMinutes: number;
+}
+
+interface RecordRequest {
+  type: "record";
+  /** Timeline time of the sample (unix ms) */
+  time: number;
+  /** Unit keys ("ship:<mmsi>", "aircraft:<callsign>") */
+  keys: string[];
+  /** lat, lon, altitude per key */
+  positions: Float64Array;
+}
+
+interface QueryRequest {
+  type: "query";
+  requestId: number;
+  key: string;
+  from: number;
+  to: number;
+}
+
+interface ClearRequest {
+  type: "clear";
+}
+
+type WorkerRequest = ConfigureRequest | RecordRequest | QueryRequest | ClearRequest;
+
+interface RecordedResponse {
+  type: "recorded";
+  /** Units with points in memory */
+  units: number;
+  memoryPoints: number;
+}
+
+interface TrackResponse {
+  type: "track";
+  requestId: number;
+  key: string;
+  /** time, lat, lon, altitude per point, oldest first */
+  points: Float64Array;
+}
+
+interface ErrorResponse {
+  type: "error";
+  /** Set when the failed operation was a query */
+  requestId?: number;
+  message: string;
+}
+
+/** In-memory points for one unit (parallel arrays, oldest first) */
+interface MemoryTrack {
+  times: number[];
+  lats: number[];
+  lons: number[];
+  alts: number[];
+}
+
+/** A spilled run of points for one unit */
+interface StoredChunk {
+  key: string;
+  start: number;
+  end: number;
+  /** time, lat, lon, altitude per point */
+  points: Float64Array;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const DB_NAME = "track-history";
+const DB_VERSION = 1;
+const CHUNK_STORE = "chunks";
+const END_INDEX = "end";
+
+/** Numbers per stored point (time, lat, lon, altitude) */
+const POINT_STRIDE = 4;
+
+/** Samples closer than this to the previous point are skipped (degrees, ~50 m) */
+const MIN_MOVE_DEGREES = 0.0005;
+
+/** ...unless the altitude changed by more than this (feet) */
+const MIN_ALTITUDE_CHANGE = 100;
+
+// =============================================================================
+// STATE
+// =============================================================================
+
+let retentionMs = 6 * 60 * 60 * 1000;
+let memoryMs = 5 * 60 * 1000;
+
+const tracks = new Map<string, MemoryTrack>();
+let memoryPoints = 0;
+
+let lastRecordTime = 0;
+let lastSpillTime = 0;
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+let storageQueue: Promise<void> = Promise.resolve();
+
+// =============================================================================
+// STORAGE
+// =============================================================================
+
+/**
+ * Open the chunk database. Resolves null when IndexedDB is unavailable, in
+ * which case history is limited to what fits in memory.
+ */
+function openDb(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve) => {
+    let request: IDBOpenDBRequest;
+    try {
+      request = indexedDB.open(DB_NAME, DB_VERSION);
+    } catch (error) {
+      console.warn("[HistoryWorker] IndexedDB unavailable, keeping recent history only:", error);
+      resolve(null);
+      return;
+    }
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(CHUNK_STORE)) {
+        const store = db.createObjectStore(CHUNK_STORE, { keyPath: ["key", "start"] });
+        store.createIndex(END_INDEX, "end");
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.warn("[HistoryWorker] IndexedDB unavailable, keeping recent history only:", request.error);
+      resolve(null);
+    };
+  });
+
+  return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/**
+ * Run a storage operation after all earlier ones have finished. A failed
+ * query's error carries its requestId so the caller can settle it.
+ */
+function enqueue(operation: () => Promise<void>, requestId?: number): void {
+  storageQueue = storageQueue.then(operation).catch((error) => {
+    const response: ErrorResponse = {
+      type: "error",
+      requestId,
+      message: error instanceof Error ? error.message : String(error),
+    };
+    self.postMessage(response);
+  });
+}
+
+/**
+ * Move points older than the memory window out of memory, then queue their
+ * write to the database along with pruning of chunks past retention.
+ * Memory is split immediately so later records and rewinds see the result.
+ */
+function spill(now: number): void {
+  const cutoff = now - memoryMs;
+  const chunks: StoredChunk[] = [];
+
+  for (const [key, track] of tracks) {
+    let count = 0;
+    while (count < track.times.length && track.times[count] < cutoff) count++;
+    if (count === 0) continue;
+
+    const points = new Float64Array(count * POINT_STRIDE);
+    for (let i = 0; i < count; i++) {
+      points[i * POINT_STRIDE] = track.times[i];
+      points[i * POINT_STRIDE + 1] = track.lats[i];
+      points[i * POINT_STRIDE + 2] = track.lons[i];
+      points[i * POINT_STRIDE + 3] = track.alts[i];
+    }
+    chunks.push({ key, start: track.times[0], end: track.times[count - 1], points });
+
+    track.times.splice(0, count);
+    track.lats.splice(0, count);
+    track.lons.splice(0, count);
+    track.alts.splice(0, count);
+    memoryPoints -= count;
+
+    // Unit has gone quiet: its history now lives only in the database
+    if (track.times.length === 0) tracks.delete(key);
+  }
+
+  const pruneBefore = now - retentionMs;
+  enqueue(async () => {
+    const db = await openDb();
+    if (!db) return;
+
+    const tx = db.transaction(CHUNK_STORE, "readwrite");
+    const store = tx.objectStore(CHUNK_STORE);
+    for (const chunk of chunks) {
+      store.put(chunk);
+    }
+    deleteByEnd(store, IDBKeyRange.upperBound(pruneBefore, true));
+    await transactionDone(tx);
+  });
+}
+
+/**
+ * Cut stored history back to `time`: chunks that start after it are deleted,
+ * a chunk spanning it keeps its earlier points.
+ */
+function truncateChunks(store: IDBObjectStore, time: number): void {
+  const cursorRequest = store.index(END_INDEX).openCursor(IDBKeyRange.lowerBound(time, true));
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+
+    const chunk = cursor.value as StoredChunk;
+    if (chunk.start > time) {
+      cursor.delete();
+    } else {
+      let keep = chunk.points.length / POINT_STRIDE;
+      while (keep > 0 && chunk.points[(keep - 1) * POINT_STRIDE] > time) keep--;
+      const points = chunk.points.slice(0, keep * POINT_STRIDE);
+      cursor.update({ ...chunk, end: points[(keep - 1) * POINT_STRIDE], points });
+    }
+    cursor.continue();
+  };
+}
+
+/**
+ * Delete stored chunks whose last point falls in the given range.
+ */
+function deleteByEnd(store: IDBObjectStore, range: IDBKeyRange): void {
+  const cursorRequest = store.index(END_INDEX).openCursor(range);
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    cursor.delete();
+    cursor.continue();
+  };
+}
+
+// =============================================================================
+// RECORDING
+// =============================================================================
+
+function record(time: number, keys: string[], positions: Float64Array): void {
+  // Timeline rewound: forget everything after the new time
+  if (time < lastRecordTime) {
+    for (const [key, track] of tracks) {
+      truncateTrack(track, time);
+      if (track.times.length === 0) tracks.delete(key);
+    }
+    lastSpillTime = time;
+    enqueue(async () => {
+      const db = await openDb();
+      if (!db) return;
+      const tx = db.transaction(CHUNK_STORE, "readwrite");
+      truncateChunks(tx.objectStore(CHUNK_STORE), time);
+      await transactionDone(tx);
+    });
+  }
+  lastRecordTime = time;
+
+  for (let i = 0; i < keys.length; i++) {
+    const lat = positions[i * 3];
+    const lon = positions[i * 3 + 1];
+    const alt = positions[i * 3 + 2];
+
+    let track = tracks.get(keys[i]);
+    if (!track) {
+      track = { times: [], lats: [], lons: [], alts: [] };
+      tracks.set(keys[i], track);
+    }
+
+    const last = track.times.length - 1;
+    if (last >= 0) {
+      if (time <= track.times[last]) continue;
+      const moved =
+        Math.abs(lat - track.lats[last]) >= MIN_MOVE_DEGREES ||
+        Math.abs(lon - track.lons[last]) >= MIN_MOVE_DEGREES ||
+        Math.abs(alt - track.alts[last]) >= MIN_ALTITUDE_CHANGE;
+      if (!moved) continue;
+    }
+
+    track.times.push(time);
+    track.lats.push(lat);
+    track.lons.push(lon);
+    track.alts.push(alt);
+    memoryPoints++;
+  }
+
+  if (time - lastSpillTime >= memoryMs) {
+    lastSpillTime = time;
+    spill(time);
+  }
+
+  const response: RecordedResponse = { type: "recorded", units: tracks.size, memoryPoints };
+  self.postMessage(response);
+}
+
+function truncateTrack(track: MemoryTrack, time: number): void {
+  let keep = track.times.length;
+  while (keep > 0 && track.times[keep - 1] > time) keep--;
+  memoryPoints -= track.times.length - keep;
+  track.times.length = keep;
+  track.lats.length = keep;
+  track.lons.length = keep;
+  track.alts.length = keep;
+}
+
+// =============================================================================
+// QUERIES
+// =============================================================================
+
+async function query(requestId: number, key: string, from: number, to: number): Promise<void> {
+  const values: number[] = [];
+
+  const db = await openDb();
+  if (db) {
+    const tx = db.transaction(CHUNK_STORE, "readonly");
+    const range = IDBKeyRange.bound([key, -Infinity], [key, to]);
+    const chunks = (await requestToPromise(tx.objectStore(CHUNK_STORE).getAll(range))) as StoredChunk[];
+
+    // Primary key order is (key, start), so chunks arrive oldest first
+    for (const chunk of chunks) {
+      if (chunk.end < from) continue;
+      const points = chunk.points;
+      for (let i = 0; i < points.length; i += POINT_STRIDE) {
+        const t = points[i];
+        if (t >= from && t <= to) values.push(t, points[i + 1], points[i + 2], points[i + 3]);
+      }
+    }
+  }
+
+  const track = tracks.get(key);
+  if (track) {
+    for (let i = 0; i < track.times.length; i++) {
+      const t = track.times[i];
+      if (t >= from && t <= to) values.push(t, track.lats[i], track.lons[i], track.alts[i]);
+    }
+  }
+
+  const points = new Float64Array(values);
+  const response: TrackResponse = { type: "track", requestId, key, points };
+  self.postMessage(response, { transfer: [points.buffer] });
+}
+
+async function clear(): Promise<void> {
+  tracks.clear();
+  memoryPoints = 0;
+
+  const db = await openDb();
+  if (!db) return;
+  const tx = db.transaction(CHUNK_STORE, "readwrite");
+  tx.objectStore(CHUNK_STORE).clear();
+  await transactionDone(tx);
+}
+
+// =============================================================================
+// MESSAGE HANDLER
+// =============================================================================
+
+self.onmessage = (e: MessageEvent<WorkerRequest>) => {
+  const request = e.data;
+
+  if (request.type === "configure") {
+    retentionMs = request.retentionHours * 60 * 60 * 1000;
+    memoryMs = request.memoryMinutes * 60 * 1000;
+  } else if (request.type === "record") {
+    record(request.time, request.keys, request.positions);
+  } else if (request.type === "query") {
+    const { requestId, key, from, to } = request;
+    enqueue(() => query(requestId, key, from, to), requestId);
+  } else if (request.type === "clear") {
+    enqueue(clear);
+  }
+};
+
+console.log("[HistoryWorker] Initialized");
@@ -1,4 +1,6 @@
 import * as satellite from "satellite.js";
+import { findPasses, computeGroundTrack, type PassRequest, type SatellitePass } from "../utils/pass-prediction";
+import { ConjunctionScreen, type ConjunctionRequest } from "../utils/conjunctions";
 
 // Constants
 const EARTH_RADIUS = 2.0;
@@ -9,12 +11,25 @@ interface SatData {
   satrec: satellite.SatRec;
   inclination: number; // degrees
   satnum: string; // for correlation
+  name: string;
   heading?: number; // Cached heading
 }
 
 let satellites: SatData[] = [];
 let frameCount = 0;
 
+// Satellites searched per slice of a pass job; the job yields between slices
+// so propagate requests keep being served
+const PASS_BATCH_SIZE = 100;
+
+// Only the latest pass request runs; older ones are abandoned
+let activePassRequest = 0;
+
+// Time steps screened per slice of a conjunction job (each step propagates every satellite)
+const CONJUNCTION_STEPS_PER_SLICE = 4;
+
+let activeConjunctionRequest = 0;
+
 self.onmessage = (e: MessageEvent) => {
   const { type, data } = e.data;
 
@@ -27,11 +42,35 @@ self.onmessage = (e: MessageEvent) => {
         satrec,
         inclination: inclinationDeg,
         satnum: item.satnum,
+        name: item.name,
         heading: 0
       };
     });
     console.log(`[SatWorker] Initialized ${satellites.length} satellites`);
   } 
+  else if (type === 'passes') {
+    const { requestId, request } = data;
+    activePassRequest = requestId;
+    runPassJob(requestId, request);
+  }
+  else if (type === 'conjunctions') {
+    const { requestId, request } = data;
+    activeConjunctionRequest = requestId;
+    runConjunctionJob(requestId, request);
+  }
+  else if (type === 'cancelConjunctions') {
+    activeConjunctionRequest = 0;
+  }
+  else if (type === 'groundTrack') {
+    const { requestId, satnum, start, end, stepMs } = data;
+    const sat = satellites.find((s) => s.satnum === satnum);
+    try {
+      const points = sat ? computeGroundTrack(sat.satrec, start, end, stepMs) : [];
+      self.postMessage({ type: 'groundTrack', requestId, points });
+    } catch (err) {
+      self.postMessage({ type: 'groundTrack', requestId, points: [], error: String(err) });
+    }
+  }
   else if (type === 'propagate') {
     const { time } = data;
     const date = new Date(time);
@@ -47,7 +86,7 @@ self.onmessage = (e: MessageEvent) => {
       const sat = satellites[i];
       const positionAndVelocity = satellite.propagate(sat.satrec, date);
       
-      if (positionAndVelocity.position && typeof positionAndVelocity.position !== 'boolean') {
+      if (positionAndVelocity && positionAndVelocity.position && typeof positionAndVelocity.position !== 'boolean') {
         const positionEci = positionAndVelocity.position;
         const velocityEci = positionAndVelocity.velocity as satellite.Eci;
         
@@ -68,7 +107,7 @@ self.onmessage = (e: MessageEvent) => {
             const futurePosVel = satellite.propagate(sat.satrec, futureDate);
             let heading = sat.heading || 0;
             
-            if (futurePosVel.position && typeof futurePosVel.position !== 'boolean') {
+            if (futurePosVel && futurePosVel.position && typeof futurePosVel.position !== 'boolean') {
                const futureGeo = satellite.eciToGeodetic(futurePosVel.position, futureGmst);
                const lat1 = geodetic.latitude;
                const lon1 = geodetic.longitude;
@@ -123,3 +162,80 @@ self.onmessage = (e: MessageEvent) => {
     self.postMessage({ type: 'update', buffer }, { transfer: [buffer.buffer] });
   }
 };
+
+/**
+ * Search passes over all (or name-filtered) satellites in slices, posting
+ * progress after each slice and the sorted result at the end. A satellite
+ * that fails to propagate is skipped; any other failure ends the job with an
+ * error reply, so the caller always hears back.
+ */
+function runPassJob(requestId: number, request: PassRequest) {
+  const filter = request.nameFilter.trim().toUpperCase();
+  const targets = filter ? satellites.filter((s) => s.name.toUpperCase().includes(filter)) : satellites;
+  const passes: SatellitePass[] = [];
+  let index = 0;
+
+  const runSlice = () => {
+    if (requestId !== activePassRequest) return;
+
+    try {
+      const end = Math.min(index + PASS_BATCH_SIZE, targets.length);
+      for (; index < end; index++) {
+        const sat = targets[index];
+        try {
+          passes.push(...findPasses(sat.satrec, sat.satnum, sat.name, request));
+        } catch (err) {
+          console.warn(`[SatWorker] Pass search failed for ${sat.name}:`, err);
+        }
+      }
+
+      if (index < targets.length) {
+        self.postMessage({ type: 'passProgress', requestId, done: index, total: targets.length });
+        setTimeout(runSlice, 0);
+        return;
+      }
+
+      passes.sort((a, b) => a.aos - b.aos);
+      self.postMessage({ type: 'passes', requestId, passes });
+    } catch (err) {
+      self.postMessage({ type: 'passes', requestId, passes: [], error: String(err) });
+    }
+  };
+
+  runSlice();
+}
+
+/**
+ * Screen all satellite pairs for close approaches in slices, posting progress
+ * after each slice and the results at the end. A failure ends the job with an
+ * error reply, so the caller always hears back.
+ */
+function runConjunctionJob(requestId: number, request: ConjunctionRequest) {
+  let screen: ConjunctionScreen;
+  try {
+    screen = new ConjunctionScreen(satellites, request);
+  } catch (err) {
+    self.postMessage({ type: 'conjunctions', requestId, conjunctions: [], error: String(err) });
+    return;
+  }
+
+  const runSlice = () => {
+    if (requestId !== activeConjunctionRequest) return;
+
+    try {
+      screen.run(CONJUNCTION_STEPS_PER_SLICE);
+
+      if (!screen.done) {
+        self.postMessage({ type: 'conjunctionProgress', requestId, progress: screen.progress });
+        setTimeout(runSlice, 0);
+        return;
+      }
+
+      self.postMessage({ type: 'conjunctions', requestId, conjunctions: screen.results() });
+    } catch (err) {
+      self.postMessage({ type: 'conjunctions', requestId, conjunctions: [], error: String(err) });
+    }
+  };
+
+  runSlice();
+}